@@ -0,0 +1,160 @@
+import { AxiosInstance } from 'axios';
+import { Logger } from 'pino';
+import { CotEvent } from '../../types/cot';
+import { Mission, MissionChange, MissionInvitation, MissionLogEntry, MissionSubscription, DataPackage } from '../../types/tak';
+import { AlertInput, BackendContext, CotQuery, MissionContentsChange, TAKServerBackend, TAKServerType } from './types';
+
+// Emergency CoT types (b-a-o-*) and the severity each implies
+const EMERGENCY_SEVERITY: Record<string, string> = {
+  'b-a-o-tbl': 'critical',
+  'b-a-o-pan': 'critical',
+  'b-a-o-can': 'high',
+  'b-a-o-opn': 'high',
+  'b-a-o-med': 'high',
+  'b-a-o-fir': 'high'
+};
+
+/**
+ * Shared plumbing for backends. Operations a server does not offer
+ * throw a descriptive error instead of hitting a non-existent endpoint.
+ */
+export abstract class BaseBackend implements TAKServerBackend {
+  abstract readonly type: TAKServerType;
+  protected http: AxiosInstance;
+  protected logger?: Logger;
+  protected context: BackendContext;
+
+  constructor(context: BackendContext) {
+    this.context = context;
+    this.http = context.http;
+    this.logger = context.logger;
+  }
+
+  abstract testConnection(): Promise<any>;
+  abstract getCotEvents(query?: CotQuery): Promise<CotEvent[]>;
+
+  async getLatestCotEvent(uid: string): Promise<CotEvent | undefined> {
+    const events = await this.getCotEvents({ uids: [uid] });
+    return events.sort((a, b) => b.time.getTime() - a.time.getTime())[0];
+  }
+
+  async submitCotEvent(_xml: string): Promise<void> {
+    this.unsupported('Submitting CoT over REST');
+  }
+
+  async getMissions(): Promise<Mission[]> {
+    this.unsupported('Missions');
+  }
+
+  async getMission(_name: string): Promise<Mission> {
+    this.unsupported('Missions');
+  }
+
+  async createMission(_mission: Partial<Mission>): Promise<Mission> {
+    this.unsupported('Missions');
+  }
+
+  async updateMission(_name: string, _updates: Partial<Mission>): Promise<Mission> {
+    this.unsupported('Missions');
+  }
+
+  async deleteMission(_name: string): Promise<void> {
+    this.unsupported('Missions');
+  }
+
+  async archiveMission(_name: string): Promise<Buffer> {
+    this.unsupported('Mission archives');
+  }
+
+  async addMissionContents(_name: string, _contents: MissionContentsChange): Promise<Mission> {
+    this.unsupported('Missions');
+  }
+
+  async removeMissionContents(_name: string, _contents: MissionContentsChange): Promise<Mission> {
+    this.unsupported('Missions');
+  }
+
+  async getMissionSubscriptions(_name: string): Promise<MissionSubscription[]> {
+    this.unsupported('Mission subscriptions');
+  }
+
+  async subscribeToMission(_name: string, _clientUid: string): Promise<MissionSubscription> {
+    this.unsupported('Mission subscriptions');
+  }
+
+  async unsubscribeFromMission(_name: string, _clientUid: string): Promise<void> {
+    this.unsupported('Mission subscriptions');
+  }
+
+  async inviteToMission(_name: string, _invitation: MissionInvitation): Promise<void> {
+    this.unsupported('Mission invitations');
+  }
+
+  async getMissionLog(_name: string): Promise<MissionLogEntry[]> {
+    this.unsupported('Mission logs');
+  }
+
+  async addMissionLogEntry(_entry: MissionLogEntry): Promise<MissionLogEntry> {
+    this.unsupported('Mission logs');
+  }
+
+  async getMissionChanges(_name: string, _start?: Date, _end?: Date): Promise<MissionChange[]> {
+    this.unsupported('Mission changes');
+  }
+
+  async getDataPackages(): Promise<DataPackage[]> {
+    this.unsupported('Data packages');
+  }
+
+  async uploadDataPackage(_file: Buffer, _metadata: Partial<DataPackage>): Promise<DataPackage> {
+    this.unsupported('Data package upload');
+  }
+
+  async downloadDataPackage(_id: string): Promise<Buffer> {
+    this.unsupported('Data package download');
+  }
+
+  async deleteDataPackage(_id: string): Promise<void> {
+    this.unsupported('Data package deletion');
+  }
+
+  // Servers without an alert API: derive alerts from emergency CoT on the stream
+  async getAlerts(active?: boolean): Promise<any[]> {
+    const events = await this.context.getStreamEvents({ types: ['b-a-o'] });
+    const alerts = events.map(alertFromCotEvent);
+    return active === undefined ? alerts : alerts.filter(alert => alert.active === active);
+  }
+
+  async sendAlert(alert: AlertInput): Promise<void> {
+    // Alerts on CoT-only servers are the emergency events callers already publish
+    this.logger?.debug({ type: alert.type, server: this.type }, 'No alert API, relying on published CoT');
+  }
+
+  protected unsupported(operation: string): never {
+    throw new Error(`${operation} is not supported by ${this.type}`);
+  }
+
+  protected requireRest(operation: string): void {
+    if (!this.context.restAvailable) {
+      throw new Error(`${operation} requires the ${this.type} REST API, but only a CoT stream is configured`);
+    }
+  }
+}
+
+export function alertFromCotEvent(event: CotEvent): any {
+  const cancelled = event.type === 'b-a-o-can' || event.detail?.emergency?.cancel === true;
+
+  return {
+    id: String(event.uid),
+    type: event.detail?.emergency?.type || event.type,
+    message: event.detail?.remarks || event.detail?.emergency?.['#text'] || event.type,
+    severity: EMERGENCY_SEVERITY[event.type] || 'medium',
+    active: !cancelled && event.stale > new Date(),
+    timestamp: event.time,
+    callsign: event.detail?.contact?.callsign,
+    location: {
+      lat: event.point.lat,
+      lon: event.point.lon
+    }
+  };
+}
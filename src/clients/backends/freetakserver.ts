@@ -0,0 +1,145 @@
+import { CotEvent } from '../../types/cot';
+import { DataPackage } from '../../types/tak';
+import { parseCotDocument } from '../cot-xml';
+import { filterCotEvents } from '../cot-filter';
+import { BaseBackend } from './base';
+import { AlertInput, CotQuery, TAKServerType } from './types';
+
+// FTS emergency types accepted by /ManageEmergency/postEmergency
+const FTS_EMERGENCY_TYPES: Record<AlertInput['severity'], string> = {
+  critical: '911 Alert',
+  high: 'In Contact',
+  medium: 'Ring The Bell',
+  low: 'Ring The Bell'
+};
+
+// FreeTAKServer REST API (default port 19023)
+export class FreeTAKServerBackend extends BaseBackend {
+  readonly type: TAKServerType = 'freetakserver';
+
+  async testConnection(): Promise<any> {
+    this.requireRest('Connection test');
+    const response = await this.http.get('/SystemStatus/getStatus');
+    return response.data;
+  }
+
+  async getCotEvents(query?: CotQuery): Promise<CotEvent[]> {
+    if (!this.context.restAvailable) {
+      return this.context.getStreamEvents(query);
+    }
+
+    // Historical queries need every stored event, otherwise the latest per UID is enough
+    const endpoint = query?.start || query?.end ? '/ManageCoT/getAllCoT' : '/ManageCoT/getLatestCoT';
+
+    try {
+      const response = await this.http.get(endpoint, {
+        headers: { 'Accept': 'application/xml' },
+        responseType: 'text'
+      });
+      return filterCotEvents(parseCotDocument(extractXml(response.data)), query);
+    } catch (error) {
+      this.logger?.error({ error: error instanceof Error ? error.message : error }, 'Failed to fetch FreeTAKServer CoT');
+      return [];
+    }
+  }
+
+  async submitCotEvent(xml: string): Promise<void> {
+    this.requireRest('Submitting CoT');
+    await this.http.post('/ManageCoT/postCoT', xml, {
+      headers: {
+        'Content-Type': 'application/xml'
+      }
+    });
+  }
+
+  async getDataPackages(): Promise<DataPackage[]> {
+    this.requireRest('Listing data packages');
+    const response = await this.http.get('/DataPackageTable/getDataPackages');
+    const packages = response.data?.json_list || response.data?.DataPackages || response.data || [];
+
+    return (Array.isArray(packages) ? packages : []).map((pkg: any) => ({
+      id: pkg.Hash || pkg.hash || pkg.PrimaryKey,
+      name: pkg.FileName || pkg.Name || pkg.name,
+      size: Number(pkg.Size || pkg.size || 0),
+      hash: pkg.Hash || pkg.hash,
+      createTime: new Date(pkg.SubmissionDateTime || pkg.createTime || Date.now()),
+      submissionTime: new Date(pkg.SubmissionDateTime || pkg.submissionTime || Date.now()),
+      submitter: pkg.SubmissionUser || pkg.CreatorUid || 'unknown',
+      creator: pkg.CreatorUid,
+      keywords: pkg.Keywords ? String(pkg.Keywords).split(',') : undefined,
+      mimeType: pkg.MIMEType
+    }));
+  }
+
+  async uploadDataPackage(file: Buffer, metadata: Partial<DataPackage>): Promise<DataPackage> {
+    this.requireRest('Uploading data packages');
+    const formData = new FormData();
+    formData.append('file', new Blob([file]), metadata.name || 'package.zip');
+    formData.append('metadata', JSON.stringify(metadata));
+
+    const response = await this.http.post('/DataPackageTable/uploadDataPackage', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data'
+      }
+    });
+    return response.data;
+  }
+
+  async deleteDataPackage(id: string): Promise<void> {
+    this.requireRest('Deleting data packages');
+    await this.http.delete(`/DataPackageTable/deleteDataPackage/${id}`);
+  }
+
+  async getAlerts(active?: boolean): Promise<any[]> {
+    if (!this.context.restAvailable) {
+      return super.getAlerts(active);
+    }
+
+    const response = await this.http.get('/ManageEmergency/getEmergency');
+    const emergencies = response.data?.json_list || response.data || [];
+
+    const alerts = (Array.isArray(emergencies) ? emergencies : []).map((emergency: any) => ({
+      id: emergency.uid || emergency.id,
+      type: emergency.emergencyType || emergency.type,
+      message: emergency.name || emergency.remarks || emergency.emergencyType,
+      severity: emergency.emergencyType === '911 Alert' ? 'critical' : 'high',
+      // FTS deletes cancelled emergencies, so everything listed is active
+      active: true,
+      timestamp: emergency.time || emergency.timestamp,
+      location: {
+        lat: Number(emergency.latitude ?? emergency.lat),
+        lon: Number(emergency.longitude ?? emergency.lon)
+      }
+    }));
+
+    return active === false ? [] : alerts;
+  }
+
+  async sendAlert(alert: AlertInput): Promise<void> {
+    this.requireRest('Sending alerts');
+    await this.http.post('/ManageEmergency/postEmergency', {
+      name: alert.message,
+      emergencyType: /geofence/i.test(alert.type) ? 'Geo-fence Breached' : FTS_EMERGENCY_TYPES[alert.severity],
+      latitude: alert.point[0],
+      longitude: alert.point[1]
+    });
+  }
+}
+
+// FTS wraps CoT in JSON on some versions ({ "json_list": [...] }) and returns raw XML on others
+function extractXml(data: any): string {
+  if (typeof data === 'string') {
+    try {
+      return extractXml(JSON.parse(data));
+    } catch {
+      return data;
+    }
+  }
+  if (Array.isArray(data)) {
+    return data.map(extractXml).join('');
+  }
+  if (data && typeof data === 'object') {
+    return Object.values(data).map(extractXml).join('');
+  }
+  return '';
+}
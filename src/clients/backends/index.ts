@@ -0,0 +1,19 @@
+import { BackendContext, TAKServerBackend, TAKServerType } from './types';
+import { TakServerBackend } from './tak-server';
+import { FreeTAKServerBackend } from './freetakserver';
+import { TakyBackend } from './taky';
+
+export * from './types';
+
+export function createBackend(type: TAKServerType, context: BackendContext): TAKServerBackend {
+  switch (type) {
+    case 'tak-server':
+      return new TakServerBackend(context);
+    case 'freetakserver':
+      return new FreeTAKServerBackend(context);
+    case 'taky':
+      return new TakyBackend(context);
+    default:
+      throw new Error(`Unknown TAK server type: ${type}`);
+  }
+}
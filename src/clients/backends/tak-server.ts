@@ -0,0 +1,332 @@
+import { CotEvent } from '../../types/cot';
+import { Mission, MissionChange, MissionChangeType, MissionContent, MissionInvitation, MissionLogEntry, MissionRole, MissionSubscription, DataPackage } from '../../types/tak';
+import { createCotXmlParser, parseCotDocument, parseCotXml } from '../cot-xml';
+import { matchesCotType } from '../cot-filter';
+import { BaseBackend } from './base';
+import { AlertInput, CotQuery, MissionContentsChange, TAKServerType } from './types';
+
+// Marti mission roles behind the MissionMember roles
+const MARTI_ROLES: Record<MissionRole, string> = {
+  OWNER: 'MISSION_OWNER',
+  MEMBER: 'MISSION_SUBSCRIBER',
+  READONLY: 'MISSION_READONLY_SUBSCRIBER'
+};
+
+const MARTI_CHANGE_TYPES: Record<string, MissionChangeType> = {
+  CREATE_MISSION: 'create',
+  DELETE_MISSION: 'delete',
+  ADD_CONTENT: 'add',
+  REMOVE_CONTENT: 'remove'
+};
+
+// Official TAK Server (Marti REST API)
+export class TakServerBackend extends BaseBackend {
+  readonly type: TAKServerType = 'tak-server';
+
+  async testConnection(): Promise<any> {
+    const response = await this.http.get('/Marti/api/version');
+    return response.data;
+  }
+
+  async getCotEvents(query?: CotQuery): Promise<CotEvent[]> {
+    const events: CotEvent[] = [];
+    const xmlParser = createCotXmlParser();
+
+    // If specific UIDs provided, fetch each one
+    if (query?.uids && query.uids.length > 0) {
+      for (const uid of query.uids) {
+        try {
+          const response = await this.http.get(`/api/cot/xml/${uid}`);
+          const event = parseCotXml(response.data, xmlParser);
+          if (event) {
+            events.push(event);
+          }
+        } catch (error) {
+          this.logger?.warn(`Failed to fetch CoT event for UID ${uid}:`, error);
+        }
+      }
+    } else {
+      // For history/search, TAK Server uses different endpoint
+      let url = '/api/cot/xml/*/all';
+      const queryParams = new URLSearchParams();
+
+      if (query?.start) {
+        queryParams.append('start', query.start.toISOString());
+      }
+      if (query?.end) {
+        queryParams.append('end', query.end.toISOString());
+      }
+
+      if (queryParams.toString()) {
+        url += `?${queryParams.toString()}`;
+      }
+
+      try {
+        const response = await this.http.get(url, {
+          headers: { 'Accept': 'application/xml' }
+        });
+
+        for (const event of parseCotDocument(response.data, xmlParser)) {
+          // Filter by type if specified
+          if (matchesCotType(event.type, query?.types)) {
+            events.push(event);
+          }
+        }
+      } catch (error) {
+        this.logger?.error('Failed to fetch CoT history:', error);
+      }
+    }
+
+    // Apply limit if specified
+    if (query?.limit && events.length > query.limit) {
+      return events.slice(0, query.limit);
+    }
+
+    return events;
+  }
+
+  async getLatestCotEvent(uid: string): Promise<CotEvent | undefined> {
+    const response = await this.http.get(`/api/cot/xml/${uid}`);
+    return parseCotXml(response.data);
+  }
+
+  async submitCotEvent(xml: string): Promise<void> {
+    // TAK Server expects XML in the body
+    await this.http.post('/Marti/api/cot/submit', xml, {
+      headers: {
+        'Content-Type': 'application/xml'
+      }
+    });
+  }
+
+  async getMissions(): Promise<Mission[]> {
+    const response = await this.http.get('/Marti/api/missions');
+    return (martiData(response.data) || []).map(toMission);
+  }
+
+  async getMission(name: string): Promise<Mission> {
+    const response = await this.http.get(`/Marti/api/missions/${encodeURIComponent(name)}`);
+    return firstMission(response.data);
+  }
+
+  // Missions are created by PUT with their settings as query parameters
+  async createMission(mission: Partial<Mission>): Promise<Mission> {
+    if (!mission.name) {
+      throw new Error('Mission name is required');
+    }
+
+    const params = new URLSearchParams({ creatorUid: mission.creatorUid || 'tak-server-mcp' });
+    if (mission.description) params.append('description', mission.description);
+    if (mission.tool) params.append('tool', mission.tool);
+    if (mission.chatRoom) params.append('chatRoom', mission.chatRoom);
+    if (mission.baseLayer) params.append('baseLayer', mission.baseLayer);
+    if (mission.bbox) params.append('bbox', mission.bbox.join(','));
+    for (const keyword of mission.keywords || []) params.append('keywords', keyword);
+
+    const response = await this.http.put(`/Marti/api/missions/${encodeURIComponent(mission.name)}?${params.toString()}`);
+    return firstMission(response.data);
+  }
+
+  async updateMission(name: string, updates: Partial<Mission>): Promise<Mission> {
+    const response = await this.http.put(`/Marti/api/missions/${name}`, updates);
+    return response.data;
+  }
+
+  async deleteMission(name: string): Promise<void> {
+    await this.http.delete(`/Marti/api/missions/${name}`);
+  }
+
+  async archiveMission(name: string): Promise<Buffer> {
+    const response = await this.http.get(`/Marti/api/missions/${encodeURIComponent(name)}/archive`, {
+      responseType: 'arraybuffer'
+    });
+    return Buffer.from(response.data);
+  }
+
+  async addMissionContents(name: string, contents: MissionContentsChange): Promise<Mission> {
+    const params = new URLSearchParams({ creatorUid: contents.creatorUid || 'tak-server-mcp' });
+    const response = await this.http.put(
+      `/Marti/api/missions/${encodeURIComponent(name)}/contents?${params.toString()}`,
+      { uids: contents.uids || [], hashes: contents.hashes || [] }
+    );
+    return firstMission(response.data);
+  }
+
+  // The API removes one item per request
+  async removeMissionContents(name: string, contents: MissionContentsChange): Promise<Mission> {
+    const items = [
+      ...(contents.uids || []).map(uid => ['uid', uid]),
+      ...(contents.hashes || []).map(hash => ['hash', hash])
+    ];
+
+    let response;
+    for (const [key, value] of items) {
+      const params = new URLSearchParams({ [key]: value, creatorUid: contents.creatorUid || 'tak-server-mcp' });
+      response = await this.http.delete(`/Marti/api/missions/${encodeURIComponent(name)}/contents?${params.toString()}`);
+    }
+    return response ? firstMission(response.data) : this.getMission(name);
+  }
+
+  async getMissionSubscriptions(name: string): Promise<MissionSubscription[]> {
+    const response = await this.http.get(`/Marti/api/missions/${encodeURIComponent(name)}/subscriptions/roles`);
+    return martiData(response.data).map(toMissionSubscription);
+  }
+
+  async subscribeToMission(name: string, clientUid: string): Promise<MissionSubscription> {
+    const params = new URLSearchParams({ uid: clientUid });
+    const response = await this.http.put(`/Marti/api/missions/${encodeURIComponent(name)}/subscription?${params.toString()}`);
+    return toMissionSubscription(martiData(response.data) || { clientUid });
+  }
+
+  async unsubscribeFromMission(name: string, clientUid: string): Promise<void> {
+    const params = new URLSearchParams({ uid: clientUid });
+    await this.http.delete(`/Marti/api/missions/${encodeURIComponent(name)}/subscription?${params.toString()}`);
+  }
+
+  async inviteToMission(name: string, invitation: MissionInvitation): Promise<void> {
+    const params = new URLSearchParams({
+      creatorUid: invitation.creatorUid || 'tak-server-mcp',
+      role: MARTI_ROLES[invitation.role]
+    });
+    await this.http.put(
+      `/Marti/api/missions/${encodeURIComponent(name)}/invite/${invitation.type}/${encodeURIComponent(invitation.invitee)}?${params.toString()}`
+    );
+  }
+
+  async getMissionLog(name: string): Promise<MissionLogEntry[]> {
+    const response = await this.http.get(`/Marti/api/missions/${encodeURIComponent(name)}/log`);
+    return martiData(response.data).map(toMissionLogEntry);
+  }
+
+  async addMissionLogEntry(entry: MissionLogEntry): Promise<MissionLogEntry> {
+    const response = await this.http.post('/Marti/api/missions/logs/entries', {
+      content: entry.content,
+      creatorUid: entry.creatorUid,
+      missionNames: entry.missionNames,
+      dtg: (entry.dtg || new Date()).toISOString(),
+      keywords: entry.keywords || []
+    });
+    return toMissionLogEntry(martiData(response.data));
+  }
+
+  async getMissionChanges(name: string, start?: Date, end?: Date): Promise<MissionChange[]> {
+    const params = new URLSearchParams({ squashed: 'false' });
+    if (start) params.append('start', start.toISOString());
+    if (end) params.append('end', end.toISOString());
+
+    const response = await this.http.get(`/Marti/api/missions/${encodeURIComponent(name)}/changes?${params.toString()}`);
+    return (martiData(response.data) || []).map((raw: any) => toMissionChange(name, raw));
+  }
+
+  async getDataPackages(): Promise<DataPackage[]> {
+    const response = await this.http.get('/Marti/api/datapackages');
+    return response.data;
+  }
+
+  async uploadDataPackage(file: Buffer, metadata: Partial<DataPackage>): Promise<DataPackage> {
+    const formData = new FormData();
+    formData.append('file', new Blob([file]));
+    formData.append('metadata', JSON.stringify(metadata));
+
+    const response = await this.http.post('/Marti/api/datapackages', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data'
+      }
+    });
+    return response.data;
+  }
+
+  async downloadDataPackage(id: string): Promise<Buffer> {
+    const response = await this.http.get(`/Marti/api/datapackages/${id}`, {
+      responseType: 'arraybuffer'
+    });
+    return Buffer.from(response.data);
+  }
+
+  async deleteDataPackage(id: string): Promise<void> {
+    await this.http.delete(`/Marti/api/datapackages/${id}`);
+  }
+
+  async getAlerts(active?: boolean): Promise<any[]> {
+    const response = await this.http.get(`/Marti/api/alerts${active !== undefined ? `?active=${active}` : ''}`);
+    return response.data;
+  }
+
+  async sendAlert(alert: AlertInput): Promise<void> {
+    await this.http.post('/Marti/api/alerts', alert);
+  }
+}
+
+// Marti wraps results as { version, type, data, nodeId }
+function martiData(body: any): any {
+  return body && typeof body === 'object' && 'data' in body ? body.data : body;
+}
+
+// Single-mission endpoints still answer with a one-element list
+function firstMission(body: any): Mission {
+  const data = martiData(body);
+  return toMission(Array.isArray(data) ? data[0] : data);
+}
+
+// Marti lists map items under uids and files under contents
+function toMission(raw: any): Mission {
+  if (!raw || !Array.isArray(raw.uids)) return raw;
+
+  const items: MissionContent[] = raw.uids.map((item: any) => ({
+    uid: item.data,
+    type: 'ITEM',
+    timestamp: new Date(item.timestamp),
+    creatorUid: item.creatorUid,
+    data: item.details
+  }));
+  const files: MissionContent[] = (raw.contents || []).map((item: any) => ({
+    uid: item.data?.uid || item.data?.hash,
+    type: 'RESOURCE',
+    timestamp: new Date(item.timestamp),
+    creatorUid: item.creatorUid,
+    data: item.data
+  }));
+
+  return { ...raw, contents: [...items, ...files] };
+}
+
+function toMissionChange(missionName: string, raw: any): MissionChange {
+  const rawType = String(raw.type || '');
+  const type = MARTI_CHANGE_TYPES[rawType] || (/KEYWORD/.test(rawType) ? 'keywords' : 'other');
+
+  return {
+    type,
+    missionName: raw.missionName || missionName,
+    timestamp: new Date(raw.serverTime || raw.timestamp),
+    creatorUid: raw.creatorUid,
+    uid: raw.contentUid || raw.details?.uid,
+    hash: raw.contentResource?.hash,
+    name: raw.contentResource?.name || raw.details?.callsign,
+    content: type === 'other' ? rawType : undefined,
+    details: raw.details
+  };
+}
+
+function toMissionSubscription(raw: any): MissionSubscription {
+  const martiRole = raw.role?.type || raw.role;
+  const role = (Object.keys(MARTI_ROLES) as MissionRole[]).find(key => MARTI_ROLES[key] === martiRole);
+
+  return {
+    clientUid: raw.clientUid || raw.uid,
+    username: raw.username,
+    createTime: raw.createTime ? new Date(raw.createTime) : undefined,
+    role
+  };
+}
+
+function toMissionLogEntry(raw: any): MissionLogEntry {
+  return {
+    id: raw.id,
+    content: raw.content,
+    creatorUid: raw.creatorUid,
+    missionNames: raw.missionNames || [],
+    dtg: raw.dtg ? new Date(raw.dtg) : undefined,
+    servertime: raw.servertime ? new Date(raw.servertime) : undefined,
+    keywords: raw.keywords
+  };
+}
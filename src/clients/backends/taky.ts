@@ -0,0 +1,80 @@
+import { CotEvent } from '../../types/cot';
+import { DataPackage } from '../../types/tak';
+import { BaseBackend } from './base';
+import { CotQuery, TAKServerType } from './types';
+
+/**
+ * taky is CoT-only: the picture comes from the stream and the optional
+ * data package server (taky_dps) speaks the Marti sync API.
+ */
+export class TakyBackend extends BaseBackend {
+  readonly type: TAKServerType = 'taky';
+
+  async testConnection(): Promise<any> {
+    // Connecting the stream is the only meaningful check
+    await this.context.getStreamEvents({ limit: 1 });
+    return { server: 'taky' };
+  }
+
+  async getCotEvents(query?: CotQuery): Promise<CotEvent[]> {
+    return this.context.getStreamEvents(query);
+  }
+
+  async getDataPackages(): Promise<DataPackage[]> {
+    this.requireRest('Listing data packages');
+    const response = await this.http.get('/Marti/sync/search');
+
+    return (response.data?.results || []).map((pkg: any) => ({
+      id: pkg.Hash,
+      name: pkg.Name,
+      size: Number(pkg.Size || 0),
+      hash: pkg.Hash,
+      createTime: new Date(pkg.SubmissionDateTime),
+      submissionTime: new Date(pkg.SubmissionDateTime),
+      submitter: pkg.SubmissionUser || pkg.CreatorUid,
+      creator: pkg.CreatorUid,
+      keywords: pkg.Keywords,
+      mimeType: pkg.MIMEType,
+      tool: pkg.tool
+    }));
+  }
+
+  async uploadDataPackage(file: Buffer, metadata: Partial<DataPackage>): Promise<DataPackage> {
+    this.requireRest('Uploading data packages');
+    if (!metadata.hash) {
+      throw new Error('taky requires the package SHA-256 hash in metadata.hash');
+    }
+
+    const name = metadata.name || `${metadata.hash}.zip`;
+    const formData = new FormData();
+    formData.append('assetfile', new Blob([file]), name);
+
+    const params = new URLSearchParams({ hash: metadata.hash, filename: name });
+    if (metadata.creator) params.append('creatorUid', metadata.creator);
+
+    await this.http.post(`/Marti/sync/missionupload?${params.toString()}`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data'
+      }
+    });
+
+    return {
+      id: metadata.hash,
+      name,
+      size: file.length,
+      hash: metadata.hash,
+      createTime: new Date(),
+      submissionTime: new Date(),
+      submitter: metadata.creator || 'tak-server-mcp',
+      ...metadata
+    } as DataPackage;
+  }
+
+  async downloadDataPackage(id: string): Promise<Buffer> {
+    this.requireRest('Downloading data packages');
+    const response = await this.http.get(`/Marti/sync/content?hash=${encodeURIComponent(id)}`, {
+      responseType: 'arraybuffer'
+    });
+    return Buffer.from(response.data);
+  }
+}
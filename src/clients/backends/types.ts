@@ -0,0 +1,80 @@
+import { AxiosInstance } from 'axios';
+import { Logger } from 'pino';
+import { CotEvent } from '../../types/cot';
+import { Mission, MissionChange, MissionInvitation, MissionLogEntry, MissionSubscription, DataPackage } from '../../types/tak';
+
+export type TAKServerType = 'tak-server' | 'freetakserver' | 'taky';
+
+export interface CotQuery {
+  start?: Date;
+  end?: Date;
+  types?: string[];
+  uids?: string[];
+  bbox?: [number, number, number, number];
+  limit?: number;
+}
+
+export interface AlertInput {
+  type: string;
+  message: string;
+  point: [number, number];
+  severity: 'low' | 'medium' | 'high' | 'critical';
+}
+
+// Mission items by CoT UID and files by content hash
+export interface MissionContentsChange {
+  uids?: string[];
+  hashes?: string[];
+  creatorUid?: string;
+}
+
+// What a backend may use from the owning TAKServerClient
+export interface BackendContext {
+  http: AxiosInstance;
+  // False when the server is only reachable over the raw CoT stream
+  restAvailable: boolean;
+  getStreamEvents: (query?: CotQuery) => Promise<CotEvent[]>;
+  logger?: Logger;
+}
+
+/**
+ * Server-specific REST surface. CoT streaming is shared by all servers and
+ * lives in TAKServerClient; everything else is routed through a backend.
+ */
+export interface TAKServerBackend {
+  readonly type: TAKServerType;
+
+  testConnection(): Promise<any>;
+
+  // CoT
+  getCotEvents(query?: CotQuery): Promise<CotEvent[]>;
+  getLatestCotEvent(uid: string): Promise<CotEvent | undefined>;
+  submitCotEvent(xml: string): Promise<void>;
+
+  // Missions
+  getMissions(): Promise<Mission[]>;
+  getMission(name: string): Promise<Mission>;
+  createMission(mission: Partial<Mission>): Promise<Mission>;
+  updateMission(name: string, updates: Partial<Mission>): Promise<Mission>;
+  deleteMission(name: string): Promise<void>;
+  archiveMission(name: string): Promise<Buffer>;
+  addMissionContents(name: string, contents: MissionContentsChange): Promise<Mission>;
+  removeMissionContents(name: string, contents: MissionContentsChange): Promise<Mission>;
+  getMissionSubscriptions(name: string): Promise<MissionSubscription[]>;
+  subscribeToMission(name: string, clientUid: string): Promise<MissionSubscription>;
+  unsubscribeFromMission(name: string, clientUid: string): Promise<void>;
+  inviteToMission(name: string, invitation: MissionInvitation): Promise<void>;
+  getMissionLog(name: string): Promise<MissionLogEntry[]>;
+  addMissionLogEntry(entry: MissionLogEntry): Promise<MissionLogEntry>;
+  getMissionChanges(name: string, start?: Date, end?: Date): Promise<MissionChange[]>;
+
+  // Data packages
+  getDataPackages(): Promise<DataPackage[]>;
+  uploadDataPackage(file: Buffer, metadata: Partial<DataPackage>): Promise<DataPackage>;
+  downloadDataPackage(id: string): Promise<Buffer>;
+  deleteDataPackage(id: string): Promise<void>;
+
+  // Alerts
+  getAlerts(active?: boolean): Promise<any[]>;
+  sendAlert(alert: AlertInput): Promise<void>;
+}
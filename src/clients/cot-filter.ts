@@ -0,0 +1,64 @@
+import { CotEvent } from '../types/cot';
+import { CotQuery } from './backends/types';
+import { resolveCotType } from '../services/symbology';
+
+const typePatterns = new Map<string, RegExp>();
+
+/**
+ * Type patterns match by hierarchy: a-h-G matches a-h-G and everything
+ * beneath it. A '*' or '.' segment matches any one segment (a-.-A is every
+ * air track), a trailing '*' is the same as the plain prefix (a-h-*), and a
+ * '*' inside a segment matches within it (b-m-p-s*). SIDCs are accepted too.
+ */
+export function compileCotTypePattern(pattern: string): RegExp {
+  let compiled = typePatterns.get(pattern);
+  if (compiled) return compiled;
+
+  let type = pattern.trim();
+  try {
+    type = resolveCotType(type);
+  } catch {
+    // Not a usable SIDC; match it literally
+  }
+
+  const segments = type.replace(/(-\*)+$/, '').replace(/-$/, '').split('-').map(segment =>
+    segment === '*' || segment === '.'
+      ? '[^-]+'
+      : segment.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^-]*')
+  );
+  compiled = new RegExp(`^${segments.join('-')}(-.*)?$`);
+
+  // Patterns come from tool input; don't let the cache grow without bound
+  if (typePatterns.size >= 1000) typePatterns.clear();
+  typePatterns.set(pattern, compiled);
+  return compiled;
+}
+
+export function matchesCotType(type: string, patterns?: string[]): boolean {
+  if (!patterns || patterns.length === 0) return true;
+  return patterns.some(pattern => compileCotTypePattern(pattern).test(type));
+}
+
+export function matchesCotQuery(event: CotEvent, query?: CotQuery): boolean {
+  if (!matchesCotType(event.type, query?.types)) return false;
+
+  if (query?.uids && query.uids.length > 0 && !query.uids.includes(String(event.uid))) {
+    return false;
+  }
+
+  if (query?.bbox) {
+    const [minLon, minLat, maxLon, maxLat] = query.bbox;
+    const { lat, lon } = event.point;
+    if (lon < minLon || lon > maxLon || lat < minLat || lat > maxLat) return false;
+  }
+
+  if (query?.start && event.time < query.start) return false;
+  if (query?.end && event.time > query.end) return false;
+
+  return true;
+}
+
+export function filterCotEvents(events: Iterable<CotEvent>, query?: CotQuery): CotEvent[] {
+  const filtered = Array.from(events).filter(event => matchesCotQuery(event, query));
+  return query?.limit && filtered.length > query.limit ? filtered.slice(0, query.limit) : filtered;
+}
@@ -0,0 +1,104 @@
+import { CotStreamFramer } from './cot-stream';
+import { TAK_PROTOCOL_MAGIC, encodeStreamFrame } from './tak-protocol';
+
+const EVENT_A = '<event version="2.0" uid="A" type="a-f-G"><point lat="1" lon="2"/></event>';
+const EVENT_B = '<event version="2.0" uid="B" type="a-h-G"/>';
+
+function drain(framer: CotStreamFramer): Array<{ format: string; data: string | Buffer }> {
+  const frames = [];
+  for (let frame = framer.next(); frame; frame = framer.next()) frames.push(frame);
+  return frames;
+}
+
+describe('CotStreamFramer', () => {
+  describe('xml', () => {
+    it('splits concatenated events and skips prologs', () => {
+      const framer = new CotStreamFramer();
+      framer.push(`<?xml version="1.0"?>\n${EVENT_A}\n${EVENT_B}`);
+
+      expect(drain(framer)).toEqual([
+        { format: 'xml', data: EVENT_A },
+        { format: 'xml', data: EVENT_B }
+      ]);
+    });
+
+    it('reassembles an event split at arbitrary boundaries', () => {
+      const framer = new CotStreamFramer();
+      const frames = [];
+      for (const chunk of [EVENT_A.slice(0, 3), EVENT_A.slice(3, 40), EVENT_A.slice(40, -3), EVENT_A.slice(-3)]) {
+        framer.push(chunk);
+        frames.push(...drain(framer));
+      }
+
+      expect(frames).toEqual([{ format: 'xml', data: EVENT_A }]);
+    });
+
+    it('does not mistake <eventual> for an event', () => {
+      const framer = new CotStreamFramer();
+      framer.push(`<eventual/>${EVENT_B}`);
+
+      expect(drain(framer)).toEqual([{ format: 'xml', data: EVENT_B }]);
+    });
+
+    it('drops garbage between events', () => {
+      const framer = new CotStreamFramer();
+      framer.push(`garbage\u0000ÿ${EVENT_A}junk${EVENT_B}`);
+
+      expect(drain(framer).map(frame => frame.data)).toEqual([EVENT_A, EVENT_B]);
+    });
+
+    it('throws and empties the buffer when an event never closes', () => {
+      const framer = new CotStreamFramer();
+      framer.push('<event uid="X">');
+
+      expect(() => framer.push(Buffer.alloc(1024 * 1024, 0x20))).toThrow(/buffer exceeded/);
+      framer.push(EVENT_B);
+      expect(drain(framer).map(frame => frame.data)).toEqual([EVENT_B]);
+    });
+  });
+
+  describe('protobuf', () => {
+    it('splits frames and reassembles partial ones', () => {
+      const framer = new CotStreamFramer();
+      framer.mode = 'protobuf';
+      const first = encodeStreamFrame(Buffer.from('one'));
+      const second = encodeStreamFrame(Buffer.alloc(300, 7));
+      const stream = Buffer.concat([first, second]);
+
+      framer.push(stream.subarray(0, first.length + 2));
+      expect(drain(framer)).toEqual([{ format: 'protobuf', data: Buffer.from('one') }]);
+
+      framer.push(stream.subarray(first.length + 2));
+      expect(drain(framer)).toEqual([{ format: 'protobuf', data: Buffer.alloc(300, 7) }]);
+    });
+
+    it('resynchronises on the magic byte after garbage', () => {
+      const framer = new CotStreamFramer();
+      framer.mode = 'protobuf';
+      framer.push(Buffer.concat([Buffer.from([1, 2, 3]), encodeStreamFrame(Buffer.from('ok'))]));
+
+      expect(drain(framer)).toEqual([{ format: 'protobuf', data: Buffer.from('ok') }]);
+    });
+
+    it('skips a malformed length varint instead of throwing on every call', () => {
+      const framer = new CotStreamFramer();
+      framer.mode = 'protobuf';
+      const malformed = Buffer.from([TAK_PROTOCOL_MAGIC, ...Array(12).fill(0xff), 0x01]);
+      framer.push(Buffer.concat([malformed, encodeStreamFrame(Buffer.from('after'))]));
+
+      expect(() => drain(framer)).not.toThrow();
+      framer.push(encodeStreamFrame(Buffer.from('later')));
+      expect(drain(framer).map(frame => frame.data.toString())).toContain('later');
+    });
+
+    it('recovers the frame that follows a malformed header', () => {
+      const framer = new CotStreamFramer();
+      framer.mode = 'protobuf';
+      // Continuation bytes without the high bit of 0xbf, so the next magic byte starts a clean frame
+      const malformed = Buffer.from([TAK_PROTOCOL_MAGIC, ...Array(11).fill(0x80), 0x00]);
+      framer.push(Buffer.concat([malformed, encodeStreamFrame(Buffer.from('after'))]));
+
+      expect(drain(framer)).toEqual([{ format: 'protobuf', data: Buffer.from('after') }]);
+    });
+  });
+});
@@ -0,0 +1,432 @@
+import net from 'net';
+import tls from 'tls';
+import fs from 'fs';
+import { EventEmitter } from 'events';
+import { Logger } from 'pino';
+import { CotEvent } from '../types/cot';
+import { createCotXmlParser, parseCotXml } from './cot-xml';
+import {
+  TAK_PROTOCOL_MAGIC,
+  TAK_PROTOCOL_VERSION,
+  TAKP_SUPPORT_TYPE,
+  TAKP_RESPONSE_TYPE,
+  decodeVarint,
+  decodeTakMessage,
+  encodeTakMessage,
+  encodeStreamFrame,
+  getOfferedProtocolVersions,
+  isProtocolAccepted,
+  buildProtocolRequest
+} from './tak-protocol';
+
+export interface CotStreamConfig {
+  url: string;
+  clientCert?: string;
+  clientKey?: string;
+  caCert?: string;
+  verifySsl?: boolean;
+  timeout?: number;
+  reconnectInterval?: number;
+  keepaliveInterval?: number;
+  // 'auto' upgrades to TAK Protocol v1 when the server offers it
+  protocol?: 'auto' | 'xml';
+  logger?: Logger;
+}
+
+// Default CoT streaming ports used by TAK Server, FreeTAKServer and taky
+const DEFAULT_TCP_PORT = 8087;
+const DEFAULT_TLS_PORT = 8089;
+
+// Guard against a peer that never closes an <event>
+const MAX_BUFFER_SIZE = 1024 * 1024;
+
+export function isStreamUrl(url: string): boolean {
+  return /^(tcp|ssl|tls):\/\//i.test(url);
+}
+
+export type CotStreamProtocol = 'xml' | 'protobuf';
+
+export type CotFrame =
+  | { format: 'xml'; data: string }
+  | { format: 'protobuf'; data: Buffer };
+
+const EVENT_OPEN = Buffer.from('<event');
+const EVENT_CLOSE = Buffer.from('</event>');
+
+/**
+ * Splits a raw CoT byte stream into complete messages.
+ * XML events arrive concatenated and may be split at arbitrary packet boundaries;
+ * after TAK protocol negotiation the same stream carries 0xbf/varint-framed protobufs.
+ * Frames are pulled one at a time so the mode can switch between two frames of one packet.
+ */
+export class CotStreamFramer {
+  mode: CotStreamProtocol = 'xml';
+  private buffer: Buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer | string): void {
+    const data = typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk;
+    this.buffer = this.buffer.length === 0 ? data : Buffer.concat([this.buffer, data]);
+
+    if (this.buffer.length > MAX_BUFFER_SIZE) {
+      this.buffer = Buffer.alloc(0);
+      throw new Error(`CoT stream buffer exceeded ${MAX_BUFFER_SIZE} bytes without a complete message`);
+    }
+  }
+
+  next(): CotFrame | undefined {
+    return this.mode === 'xml' ? this.nextXml() : this.nextProtobuf();
+  }
+
+  reset(): void {
+    this.mode = 'xml';
+    this.buffer = Buffer.alloc(0);
+  }
+
+  // Drop buffered bytes but stay in the negotiated mode
+  discard(): void {
+    this.buffer = Buffer.alloc(0);
+  }
+
+  private nextXml(): CotFrame | undefined {
+    const start = this.findEventStart();
+    if (start === -1) {
+      // Nothing but prologs, whitespace or a partial tag; keep a tail that may start an event
+      const tail = this.buffer.lastIndexOf(0x3c); // '<'
+      this.buffer = tail === -1 ? Buffer.alloc(0) : this.buffer.subarray(tail);
+      return undefined;
+    }
+
+    const end = this.findEventEnd(start);
+    if (end === -1) {
+      this.buffer = this.buffer.subarray(start);
+      return undefined;
+    }
+
+    const data = this.buffer.subarray(start, end).toString('utf8');
+    this.buffer = this.buffer.subarray(end);
+    return { format: 'xml', data };
+  }
+
+  private nextProtobuf(): CotFrame | undefined {
+    for (;;) {
+      // Resynchronise on the magic byte if we were handed garbage
+      const magic = this.buffer.indexOf(TAK_PROTOCOL_MAGIC);
+      if (magic === -1) {
+        this.buffer = Buffer.alloc(0);
+        return undefined;
+      }
+      if (magic > 0) {
+        this.buffer = this.buffer.subarray(magic);
+      }
+
+      let length: { value: number; next: number } | undefined;
+      try {
+        length = decodeVarint(this.buffer, 1);
+      } catch {
+        // Not a real frame header; drop this magic byte and look for the next one
+        this.buffer = this.buffer.subarray(1);
+        continue;
+      }
+      if (!length || this.buffer.length < length.next + length.value) {
+        return undefined;
+      }
+
+      const data = Buffer.from(this.buffer.subarray(length.next, length.next + length.value));
+      this.buffer = this.buffer.subarray(length.next + length.value);
+      return { format: 'protobuf', data };
+    }
+  }
+
+  private findEventStart(): number {
+    let index = this.buffer.indexOf(EVENT_OPEN);
+    while (index !== -1) {
+      const next = this.buffer[index + EVENT_OPEN.length];
+      // Only a full tag name counts; undefined means we need more data to decide
+      if (next === undefined || /[\s>/]/.test(String.fromCharCode(next))) return index;
+      index = this.buffer.indexOf(EVENT_OPEN, index + EVENT_OPEN.length);
+    }
+    return -1;
+  }
+
+  private findEventEnd(start: number): number {
+    const tagEnd = this.buffer.indexOf(0x3e, start); // '>'
+    if (tagEnd === -1) return -1;
+
+    // Self-closing <event ... />
+    if (this.buffer[tagEnd - 1] === 0x2f) return tagEnd + 1;
+
+    const close = this.buffer.indexOf(EVENT_CLOSE, tagEnd);
+    return close === -1 ? -1 : close + EVENT_CLOSE.length;
+  }
+}
+
+/**
+ * Raw CoT streaming connection (TCP on 8087, mutual TLS on 8089).
+ * Emits 'cot-event' with each decoded event and its raw XML or protobuf payload.
+ */
+export class CotStreamClient extends EventEmitter {
+  private config: CotStreamConfig;
+  private logger?: Logger;
+  private socket?: net.Socket;
+  private framer = new CotStreamFramer();
+  private connecting?: Promise<void>;
+  private reconnectTimer?: NodeJS.Timeout;
+  private keepaliveTimer?: NodeJS.Timeout;
+  private closed = false;
+  private xmlParser = createCotXmlParser();
+
+  constructor(config: CotStreamConfig) {
+    super();
+    this.config = config;
+    this.logger = config.logger;
+  }
+
+  get connected(): boolean {
+    return !!this.socket && !this.socket.destroyed && !this.connecting;
+  }
+
+  get secure(): boolean {
+    return /^(ssl|tls):/i.test(this.config.url);
+  }
+
+  get protocol(): CotStreamProtocol {
+    return this.framer.mode;
+  }
+
+  async connect(): Promise<void> {
+    this.closed = false;
+    if (this.connected) return;
+    if (this.connecting) return this.connecting;
+
+    this.connecting = this.openSocket().finally(() => {
+      this.connecting = undefined;
+    });
+    return this.connecting;
+  }
+
+  async send(xml: string): Promise<void> {
+    await this.connect();
+
+    if (this.framer.mode === 'protobuf') {
+      const event = parseCotXml(xml, this.xmlParser);
+      if (!event) {
+        throw new Error('Cannot encode CoT message without a point as TAK protocol');
+      }
+      return this.write(encodeStreamFrame(encodeTakMessage(event)));
+    }
+    return this.write(xml);
+  }
+
+  private write(data: string | Buffer): Promise<void> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new Error('CoT stream is not connected'));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      socket.write(data, (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  close(): void {
+    this.closed = true;
+    this.clearTimers();
+
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.destroy();
+      this.socket = undefined;
+    }
+    this.framer.reset();
+  }
+
+  private openSocket(): Promise<void> {
+    const target = new URL(this.config.url);
+    const host = target.hostname;
+    const port = target.port ? parseInt(target.port) : (this.secure ? DEFAULT_TLS_PORT : DEFAULT_TCP_PORT);
+    const timeout = this.config.timeout || 30000;
+
+    return new Promise((resolve, reject) => {
+      let socket: net.Socket;
+      const readyEvent = this.secure ? 'secureConnect' : 'connect';
+
+      if (this.secure) {
+        const options: tls.ConnectionOptions = {
+          host,
+          port,
+          servername: net.isIP(host) ? undefined : host,
+          rejectUnauthorized: this.config.verifySsl !== false
+        };
+        if (this.config.clientCert && this.config.clientKey) {
+          options.cert = fs.readFileSync(this.config.clientCert);
+          options.key = fs.readFileSync(this.config.clientKey);
+        }
+        if (this.config.caCert) {
+          options.ca = fs.readFileSync(this.config.caCert);
+        }
+        socket = tls.connect(options);
+      } else {
+        socket = net.connect({ host, port });
+      }
+
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Timed out connecting to CoT stream ${host}:${port}`));
+      }, timeout);
+
+      socket.once(readyEvent, () => {
+        clearTimeout(timer);
+        socket.setKeepAlive(true);
+        this.socket = socket;
+        this.framer.reset();
+        this.startKeepalive();
+        this.logger?.info({ host, port, secure: this.secure }, 'CoT stream connected');
+        this.emit('connected');
+        resolve();
+      });
+
+      socket.once('error', (error) => {
+        clearTimeout(timer);
+        if (this.socket !== socket) {
+          reject(error);
+        }
+      });
+
+      this.attachHandlers(socket);
+    });
+  }
+
+  private attachHandlers(socket: net.Socket): void {
+    socket.on('data', (chunk: Buffer) => {
+      try {
+        this.framer.push(chunk);
+      } catch (error) {
+        this.logger?.warn({ error: error instanceof Error ? error.message : error }, 'Discarding CoT stream buffer');
+        return;
+      }
+
+      for (;;) {
+        let frame: CotFrame | undefined;
+        try {
+          frame = this.framer.next();
+        } catch (error) {
+          // A throw escaping a socket listener would take the process down
+          this.logger?.warn({ error: error instanceof Error ? error.message : error }, 'Discarding CoT stream buffer');
+          this.framer.discard();
+          return;
+        }
+        if (!frame) return;
+
+        try {
+          this.handleFrame(frame);
+        } catch (error) {
+          this.logger?.error({ error: error instanceof Error ? error.message : error }, 'Failed to decode CoT stream message');
+        }
+      }
+    });
+
+    socket.on('error', (error) => {
+      if (this.socket === socket) {
+        this.logger?.error({ error: error.message }, 'CoT stream error');
+        this.emit('error', error);
+      }
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+
+      this.socket = undefined;
+      this.clearTimers();
+      this.logger?.info('CoT stream closed');
+      this.emit('disconnected');
+      this.scheduleReconnect();
+    });
+  }
+
+  private handleFrame(frame: CotFrame): void {
+    if (frame.format === 'protobuf') {
+      const event = decodeTakMessage(frame.data);
+      if (event) this.emit('cot-event', event, frame.data);
+      return;
+    }
+
+    const event = parseCotXml(frame.data, this.xmlParser);
+    if (!event) return;
+
+    switch (event.type) {
+      case TAKP_SUPPORT_TYPE:
+        this.negotiate(event);
+        return;
+      case TAKP_RESPONSE_TYPE:
+        if (isProtocolAccepted(event)) {
+          // Everything after the response is protobuf framed
+          this.framer.mode = 'protobuf';
+          this.logger?.info({ version: TAK_PROTOCOL_VERSION }, 'CoT stream upgraded to TAK protocol');
+          this.emit('protocol', this.framer.mode);
+        } else {
+          this.logger?.warn('TAK protocol upgrade rejected, staying on XML');
+        }
+        return;
+      default:
+        this.emit('cot-event', event, frame.data);
+    }
+  }
+
+  private negotiate(offer: CotEvent): void {
+    if (this.config.protocol === 'xml' || this.framer.mode !== 'xml') return;
+
+    const versions = getOfferedProtocolVersions(offer);
+    if (!versions.includes(TAK_PROTOCOL_VERSION)) {
+      this.logger?.debug({ versions }, 'Server offers no supported TAK protocol version');
+      return;
+    }
+
+    this.write(buildProtocolRequest(TAK_PROTOCOL_VERSION)).catch((error) => {
+      this.logger?.warn({ error: error.message }, 'Failed to request TAK protocol upgrade');
+    });
+  }
+
+  private scheduleReconnect(): void {
+    const interval = this.config.reconnectInterval ?? 5000;
+    if (this.closed || interval <= 0 || this.listenerCount('cot-event') === 0) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect().catch((error) => {
+        this.logger?.warn({ error: error.message }, 'CoT stream reconnect failed');
+        this.scheduleReconnect();
+      });
+    }, interval);
+  }
+
+  private startKeepalive(): void {
+    const interval = this.config.keepaliveInterval ?? 30000;
+    if (interval <= 0) return;
+
+    this.keepaliveTimer = setInterval(() => {
+      this.send(buildPing()).catch((error) => {
+        this.logger?.debug({ error: error.message }, 'CoT stream keepalive failed');
+      });
+    }, interval);
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    if (this.keepaliveTimer) {
+      clearInterval(this.keepaliveTimer);
+      this.keepaliveTimer = undefined;
+    }
+  }
+}
+
+// TAK clients periodically send a t-x-c-t ping so servers keep the connection open
+function buildPing(): string {
+  const now = new Date();
+  const stale = new Date(now.getTime() + 60000);
+  return `<event version="2.0" uid="tak-server-mcp-ping" type="t-x-c-t" how="h-g-i-g-o" ` +
+    `time="${now.toISOString()}" start="${now.toISOString()}" stale="${stale.toISOString()}">` +
+    `<point lat="0" lon="0" hae="0" ce="9999999" le="9999999"/><detail/></event>`;
+}
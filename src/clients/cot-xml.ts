@@ -0,0 +1,176 @@
+import { XMLParser, XMLBuilder } from 'fast-xml-parser';
+import { CotEvent, CotMessage } from '../types/cot';
+
+// Shared CoT XML helpers used by the REST client, stream connections and protobuf codec
+
+export function createCotXmlParser(): XMLParser {
+  return new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    parseAttributeValue: true,
+    // UIDs such as "e5" or "0x1f" must not turn into numbers
+    numberParseOptions: {
+      hex: false,
+      leadingZeros: false,
+      eNotation: false
+    }
+  });
+}
+
+export function parseCotEvent(eventData: any): CotEvent {
+  return {
+    uid: String(eventData.uid),
+    type: String(eventData.type),
+    time: new Date(eventData.time),
+    start: new Date(eventData.start),
+    stale: new Date(eventData.stale),
+    how: eventData.how,
+    point: {
+      lat: parseFloat(eventData.point.lat),
+      lon: parseFloat(eventData.point.lon),
+      hae: parseFloat(eventData.point.hae) || 999999,
+      ce: parseFloat(eventData.point.ce) || 999999,
+      le: parseFloat(eventData.point.le) || 999999
+    },
+    detail: eventData.detail
+  };
+}
+
+// Parse a single <event> document; returns undefined for anything that is not a located event
+export function parseCotXml(xml: string, parser: XMLParser = createCotXmlParser()): CotEvent | undefined {
+  const parsed = parser.parse(xml);
+  if (!parsed.event?.point) return undefined;
+  return parseCotEvent(parsed.event);
+}
+
+// Back to a sendable CotMessage with every detail element intact, so a received event can be edited and resent
+export function cotEventToMessage(event: CotEvent): CotMessage {
+  return {
+    event: {
+      _attributes: {
+        version: '2.0',
+        uid: event.uid,
+        type: event.type,
+        time: event.time.toISOString(),
+        start: event.start.toISOString(),
+        stale: event.stale.toISOString(),
+        how: event.how
+      },
+      point: {
+        _attributes: {
+          lat: String(event.point.lat),
+          lon: String(event.point.lon),
+          hae: String(event.point.hae),
+          ce: String(event.point.ce),
+          le: String(event.point.le)
+        }
+      },
+      // Parsed attributes are plain keys, which the builder writes back as attributes
+      detail: structuredClone(event.detail || {})
+    }
+  };
+}
+
+// Indented by default; pretty = false writes the event on one line apart from line breaks in text
+export function buildCotXml(message: CotMessage, pretty = true): string {
+  const xmlBuilder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    suppressEmptyNode: true,
+    // Otherwise value="true" is written as a bare attribute
+    suppressBooleanAttributes: false,
+    format: pretty
+  });
+
+  return xmlBuilder.build({ event: toBuilderNode(message.event, false) });
+}
+
+// Forced delete (t-x-d-d) that removes the item from every TAK client's map
+export function buildForceDeleteMessage(uid: string, type: string): CotMessage {
+  const now = new Date();
+
+  return {
+    event: {
+      _attributes: {
+        version: '2.0',
+        uid: `${uid}-delete`,
+        type: 't-x-d-d',
+        time: now.toISOString(),
+        start: now.toISOString(),
+        stale: new Date(now.getTime() + 60 * 1000).toISOString(),
+        how: 'h-e'
+      },
+      point: {
+        _attributes: {
+          lat: '0',
+          lon: '0',
+          hae: '0',
+          ce: '999999',
+          le: '999999'
+        }
+      },
+      detail: {
+        link: { _attributes: { uid, type, relation: 'none' } },
+        __forcedelete: {}
+      }
+    }
+  };
+}
+
+// Serialize the children of a <detail> element without the wrapping tag
+export function buildDetailXml(detail: Record<string, any>): string {
+  const xmlBuilder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    suppressEmptyNode: true,
+    suppressBooleanAttributes: false
+  });
+
+  return xmlBuilder.build(toBuilderNode(detail, false));
+}
+
+// Convert a CotMessage (_attributes convention) into fast-xml-parser builder input.
+// Inside <detail>, bare primitives on child elements are CoT attributes (e.g. <contact callsign="..."/>)
+// while direct primitive children such as remarks are element text.
+function toBuilderNode(node: any, primitivesAsAttributes: boolean): any {
+  if (node === null || node === undefined || typeof node !== 'object') {
+    return node;
+  }
+  if (Array.isArray(node)) {
+    return node.map(item => toBuilderNode(item, primitivesAsAttributes));
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (value === undefined) continue;
+
+    if (key === '_attributes') {
+      for (const [name, attr] of Object.entries(value as Record<string, any>)) {
+        if (attr !== undefined && attr !== null) result[`@_${name}`] = String(attr);
+      }
+    } else if (key === '_text' || key === '#text') {
+      result['#text'] = value;
+    } else if (value === null || typeof value !== 'object') {
+      if (primitivesAsAttributes) {
+        result[`@_${key}`] = String(value);
+      } else {
+        result[key] = value;
+      }
+    } else {
+      result[key] = toBuilderNode(value, key !== 'detail');
+    }
+  }
+  return result;
+}
+
+// Extract every <event> from a document holding several (history queries, exports)
+export function parseCotDocument(xml: string, parser: XMLParser = createCotXmlParser()): CotEvent[] {
+  const events: CotEvent[] = [];
+  const eventMatches = xml.match(/<event[\s>][\s\S]*?<\/event>/g) || [];
+
+  for (const eventXml of eventMatches) {
+    const event = parseCotXml(eventXml, parser);
+    if (event) events.push(event);
+  }
+  return events;
+}
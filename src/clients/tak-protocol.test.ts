@@ -0,0 +1,133 @@
+import { buildCotXml, cotEventToMessage, parseCotXml } from './cot-xml';
+import {
+  TAKP_REQUEST_TYPE,
+  TAKP_RESPONSE_TYPE,
+  TAKP_SUPPORT_TYPE,
+  TAK_PROTOCOL_MAGIC,
+  buildProtocolRequest,
+  decodeMeshMessage,
+  decodeTakMessage,
+  decodeVarint,
+  encodeMeshMessage,
+  encodeStreamFrame,
+  encodeTakMessage,
+  encodeVarint,
+  getOfferedProtocolVersions,
+  isProtocolAccepted
+} from './tak-protocol';
+import { CotEvent } from '../types/cot';
+
+const EVENT: CotEvent = {
+  uid: 'ANDROID-1',
+  type: 'a-f-G-U-C',
+  time: new Date('2026-01-01T12:00:00.000Z'),
+  start: new Date('2026-01-01T12:00:00.000Z'),
+  stale: new Date('2026-01-01T12:05:00.000Z'),
+  how: 'm-g',
+  point: { lat: 38.8977, lon: -77.0365, hae: 20, ce: 5, le: 10 },
+  detail: {
+    contact: { callsign: 'Alpha', endpoint: '*:-1:stcp' },
+    __group: { name: 'Cyan', role: 'Team Member' },
+    precisionlocation: { geopointsrc: 'GPS', altsrc: 'GPS' },
+    status: { battery: 88 },
+    takv: { device: 'Pixel', platform: 'ATAK-CIV', os: '34', version: '5.2.0' },
+    track: { speed: 3.5, course: 270 },
+    remarks: 'hello'
+  }
+};
+
+describe('varints', () => {
+  it.each([0, 1, 127, 128, 300, 16383, 16384, 2 ** 31, 2 ** 40])('round-trips %d', value => {
+    const encoded = encodeVarint(value);
+    expect(decodeVarint(encoded, 0)).toEqual({ value, next: encoded.length });
+  });
+
+  it('encodes known lengths', () => {
+    expect([...encodeVarint(300)]).toEqual([0xac, 0x02]);
+    expect([...encodeVarint(127)]).toEqual([0x7f]);
+  });
+
+  it('decodes from an offset and reports truncation', () => {
+    expect(decodeVarint(Buffer.from([0xff, 0xac, 0x02]), 1)).toEqual({ value: 300, next: 3 });
+    expect(decodeVarint(Buffer.from([0xac]), 0)).toBeUndefined();
+  });
+
+  it('rejects varints longer than ten bytes', () => {
+    expect(() => decodeVarint(Buffer.alloc(11, 0x80), 0)).toThrow(/varint too long/);
+  });
+});
+
+describe('TakMessage', () => {
+  it('round-trips an event with typed and XML detail', () => {
+    const decoded = decodeTakMessage(encodeTakMessage(EVENT))!;
+
+    expect(decoded).toMatchObject({
+      uid: EVENT.uid,
+      type: EVENT.type,
+      how: EVENT.how,
+      time: EVENT.time,
+      stale: EVENT.stale,
+      point: EVENT.point
+    });
+    expect(decoded.detail).toMatchObject({
+      contact: { callsign: 'Alpha', endpoint: '*:-1:stcp' },
+      track: { speed: 3.5, course: 270 },
+      remarks: 'hello'
+    });
+  });
+
+  it('decodes typed detail to the same keys as the XML parser', () => {
+    const fromXml = parseCotXml(buildCotXml(cotEventToMessage(EVENT)))!;
+    const fromProtobuf = decodeTakMessage(encodeTakMessage(fromXml))!;
+
+    expect(fromXml.detail).toMatchObject({ __group: EVENT.detail!.__group, precisionlocation: { geopointsrc: 'GPS' } });
+    expect(fromProtobuf.detail).toEqual(fromXml.detail);
+    expect(parseCotXml(buildCotXml(cotEventToMessage(fromProtobuf)))!.detail).toEqual(fromXml.detail);
+  });
+
+  it('frames a payload as magic, length and body', () => {
+    const payload = Buffer.alloc(200, 1);
+    const frame = encodeStreamFrame(payload);
+
+    expect(frame[0]).toBe(TAK_PROTOCOL_MAGIC);
+    expect(decodeVarint(frame, 1)).toEqual({ value: 200, next: 3 });
+    expect(frame.subarray(3)).toEqual(payload);
+  });
+
+  it('round-trips a mesh datagram', () => {
+    expect(decodeMeshMessage(encodeMeshMessage(EVENT))).toMatchObject({ uid: EVENT.uid, point: EVENT.point });
+  });
+
+  it('rejects datagrams that are not TAK protocol', () => {
+    expect(() => decodeMeshMessage(Buffer.from('<event/>'))).toThrow(/Not a TAK protocol/);
+    expect(() => decodeMeshMessage(Buffer.from([TAK_PROTOCOL_MAGIC, 2, TAK_PROTOCOL_MAGIC]))).toThrow(/Unsupported/);
+    expect(() => decodeMeshMessage(Buffer.from([TAK_PROTOCOL_MAGIC, 1, 0]))).toThrow(/Malformed/);
+  });
+});
+
+describe('negotiation', () => {
+  const control = (type: string, body: string) => parseCotXml(
+    `<event version="2.0" uid="protouid" type="${type}" how="m-g" time="2026-01-01T00:00:00Z" ` +
+    'start="2026-01-01T00:00:00Z" stale="2026-01-01T00:01:00Z"><point lat="0" lon="0" hae="0" ce="999999" le="999999"/>' +
+    `<detail><TakControl>${body}</TakControl></detail></event>`
+  )!;
+
+  it('reads the versions a server offers', () => {
+    expect(getOfferedProtocolVersions(control(TAKP_SUPPORT_TYPE, '<TakProtocolSupport version="1"/>'))).toEqual([1]);
+    expect(getOfferedProtocolVersions(control(TAKP_SUPPORT_TYPE,
+      '<TakProtocolSupport version="0"/><TakProtocolSupport version="1"/>'))).toEqual([0, 1]);
+    expect(getOfferedProtocolVersions(control(TAKP_SUPPORT_TYPE, ''))).toEqual([]);
+  });
+
+  it('reads whether the server accepted the request', () => {
+    expect(isProtocolAccepted(control(TAKP_RESPONSE_TYPE, '<TakResponse status="true"/>'))).toBe(true);
+    expect(isProtocolAccepted(control(TAKP_RESPONSE_TYPE, '<TakResponse status="false"/>'))).toBe(false);
+  });
+
+  it('builds a request the server side parses back', () => {
+    const request = parseCotXml(buildProtocolRequest(1))!;
+
+    expect(request.type).toBe(TAKP_REQUEST_TYPE);
+    expect(Number(request.detail?.TakControl?.TakRequest?.version)).toBe(1);
+  });
+});
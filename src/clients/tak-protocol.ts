@@ -0,0 +1,307 @@
+import protobuf from 'protobufjs';
+import { CotEvent, CotDetail } from '../types/cot';
+import { createCotXmlParser, buildDetailXml } from './cot-xml';
+
+// TAK Protocol Version 1 (see takproto/*.proto in the ATAK CIV sources)
+
+export const TAK_PROTOCOL_MAGIC = 0xbf;
+export const TAK_PROTOCOL_VERSION = 1;
+
+// Stream negotiation event types
+export const TAKP_SUPPORT_TYPE = 't-x-takp-v';
+export const TAKP_REQUEST_TYPE = 't-x-takp-q';
+export const TAKP_RESPONSE_TYPE = 't-x-takp-r';
+
+const TAK_PROTO = `
+syntax = "proto3";
+
+message TakMessage {
+  TakControl takControl = 1;
+  CotEvent cotEvent = 2;
+}
+
+message TakControl {
+  uint32 minProtoVersion = 1;
+  uint32 maxProtoVersion = 2;
+  string contactUid = 3;
+}
+
+message CotEvent {
+  string type = 1;
+  string access = 2;
+  string qos = 3;
+  string opex = 4;
+  string uid = 5;
+  uint64 sendTime = 6;
+  uint64 startTime = 7;
+  uint64 staleTime = 8;
+  string how = 9;
+  double lat = 10;
+  double lon = 11;
+  double hae = 12;
+  double ce = 13;
+  double le = 14;
+  Detail detail = 15;
+}
+
+message Detail {
+  string xmlDetail = 1;
+  Contact contact = 2;
+  Group group = 3;
+  PrecisionLocation precisionLocation = 4;
+  Status status = 5;
+  Takv takv = 6;
+  Track track = 7;
+}
+
+message Contact {
+  string endpoint = 1;
+  string callsign = 2;
+}
+
+message Group {
+  string name = 1;
+  string role = 2;
+}
+
+message PrecisionLocation {
+  string geopointsrc = 1;
+  string altsrc = 2;
+}
+
+message Status {
+  uint32 battery = 1;
+}
+
+message Takv {
+  string device = 1;
+  string platform = 2;
+  string os = 3;
+  string version = 4;
+}
+
+message Track {
+  double speed = 1;
+  double course = 2;
+}
+`;
+
+const root = protobuf.parse(TAK_PROTO).root;
+const TakMessage = root.lookupType('TakMessage');
+
+// Detail elements with a dedicated protobuf message and the attributes each may carry.
+// Elements with any other attribute or child content must travel in xmlDetail instead.
+const TYPED_DETAILS: Record<string, { field: string; attributes: string[] }> = {
+  contact: { field: 'contact', attributes: ['endpoint', 'callsign'] },
+  __group: { field: 'group', attributes: ['name', 'role'] },
+  precisionlocation: { field: 'precisionLocation', attributes: ['geopointsrc', 'altsrc'] },
+  status: { field: 'status', attributes: ['battery'] },
+  takv: { field: 'takv', attributes: ['device', 'platform', 'os', 'version'] },
+  track: { field: 'track', attributes: ['speed', 'course'] }
+};
+
+const NUMERIC_ATTRIBUTES = new Set(['battery', 'speed', 'course']);
+
+export function encodeTakMessage(event: CotEvent): Buffer {
+  const message = TakMessage.fromObject({
+    cotEvent: {
+      type: event.type,
+      access: event.access || '',
+      qos: event.qos || '',
+      opex: event.opex || '',
+      uid: String(event.uid),
+      sendTime: new Date(event.time).getTime(),
+      startTime: new Date(event.start).getTime(),
+      staleTime: new Date(event.stale).getTime(),
+      how: event.how || '',
+      lat: event.point.lat,
+      lon: event.point.lon,
+      hae: event.point.hae,
+      ce: event.point.ce,
+      le: event.point.le,
+      detail: encodeDetail(event.detail)
+    }
+  });
+
+  return Buffer.from(TakMessage.encode(message).finish());
+}
+
+export function decodeTakMessage(payload: Uint8Array): CotEvent | undefined {
+  const decoded = TakMessage.toObject(TakMessage.decode(payload), {
+    longs: Number,
+    defaults: true
+  });
+
+  const cot = decoded.cotEvent;
+  if (!cot) return undefined;
+
+  return {
+    uid: cot.uid,
+    type: cot.type,
+    time: new Date(cot.sendTime),
+    start: new Date(cot.startTime),
+    stale: new Date(cot.staleTime),
+    how: cot.how,
+    point: {
+      lat: cot.lat,
+      lon: cot.lon,
+      hae: cot.hae,
+      ce: cot.ce,
+      le: cot.le
+    },
+    detail: decodeDetail(cot.detail),
+    access: cot.access || undefined,
+    qos: cot.qos || undefined,
+    opex: cot.opex || undefined
+  };
+}
+
+// Stream framing: 0xbf <varint length> <TakMessage>
+export function encodeStreamFrame(payload: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([TAK_PROTOCOL_MAGIC]), encodeVarint(payload.length), payload]);
+}
+
+// Mesh (UDP) framing: 0xbf <varint version> 0xbf <TakMessage>
+export function encodeMeshMessage(event: CotEvent): Buffer {
+  return Buffer.concat([
+    Buffer.from([TAK_PROTOCOL_MAGIC]),
+    encodeVarint(TAK_PROTOCOL_VERSION),
+    Buffer.from([TAK_PROTOCOL_MAGIC]),
+    encodeTakMessage(event)
+  ]);
+}
+
+export function decodeMeshMessage(datagram: Buffer): CotEvent | undefined {
+  if (datagram[0] !== TAK_PROTOCOL_MAGIC) {
+    throw new Error('Not a TAK protocol mesh message');
+  }
+
+  const version = decodeVarint(datagram, 1);
+  if (!version) {
+    throw new Error('Truncated TAK protocol mesh header');
+  }
+  if (version.value !== TAK_PROTOCOL_VERSION) {
+    throw new Error(`Unsupported TAK protocol version: ${version.value}`);
+  }
+  if (datagram[version.next] !== TAK_PROTOCOL_MAGIC) {
+    throw new Error('Malformed TAK protocol mesh header');
+  }
+
+  return decodeTakMessage(datagram.subarray(version.next + 1));
+}
+
+export function encodeVarint(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining > 0x7f) {
+    bytes.push((remaining & 0x7f) | 0x80);
+    remaining = Math.floor(remaining / 128);
+  }
+  bytes.push(remaining);
+  return Buffer.from(bytes);
+}
+
+// Returns undefined when the buffer ends before the varint does
+export function decodeVarint(buffer: Buffer, offset: number): { value: number; next: number } | undefined {
+  let value = 0;
+  let multiplier = 1;
+
+  for (let i = offset; i < buffer.length; i++) {
+    const byte = buffer[i];
+    value += (byte & 0x7f) * multiplier;
+    if ((byte & 0x80) === 0) {
+      return { value, next: i + 1 };
+    }
+    multiplier *= 128;
+    if (i - offset >= 9) {
+      throw new Error('TAK protocol varint too long');
+    }
+  }
+  return undefined;
+}
+
+// Negotiation helpers operate on events parsed from the XML phase of a stream
+
+export function getOfferedProtocolVersions(event: CotEvent): number[] {
+  const support = event.detail?.TakControl?.TakProtocolSupport;
+  if (!support) return [];
+  const offers = Array.isArray(support) ? support : [support];
+  return offers.map((offer: any) => Number(offer.version)).filter((v: number) => !isNaN(v));
+}
+
+export function isProtocolAccepted(event: CotEvent): boolean {
+  const status = event.detail?.TakControl?.TakResponse?.status;
+  return status === true || status === 'true';
+}
+
+export function buildProtocolRequest(version: number = TAK_PROTOCOL_VERSION): string {
+  const now = new Date();
+  const stale = new Date(now.getTime() + 60000);
+  return `<event version="2.0" uid="protouid" type="${TAKP_REQUEST_TYPE}" how="m-g" ` +
+    `time="${now.toISOString()}" start="${now.toISOString()}" stale="${stale.toISOString()}">` +
+    `<point lat="0.0" lon="0.0" hae="0.0" ce="999999" le="999999"/>` +
+    `<detail><TakControl><TakRequest version="${version}"/></TakControl></detail></event>`;
+}
+
+function encodeDetail(detail?: CotDetail): Record<string, any> | undefined {
+  if (!detail || typeof detail !== 'object') return undefined;
+
+  const encoded: Record<string, any> = {};
+  const remaining: Record<string, any> = {};
+
+  for (const [element, value] of Object.entries(detail)) {
+    const typed = TYPED_DETAILS[element];
+
+    if (typed && isTypedDetail(value, typed.attributes)) {
+      const fields: Record<string, any> = {};
+      for (const attribute of typed.attributes) {
+        if (value[attribute] === undefined) continue;
+        fields[attribute] = NUMERIC_ATTRIBUTES.has(attribute) ? Number(value[attribute]) : String(value[attribute]);
+      }
+      encoded[typed.field] = fields;
+    } else {
+      remaining[element] = value;
+    }
+  }
+
+  if (Object.keys(remaining).length > 0) {
+    encoded.xmlDetail = buildDetailXml(remaining);
+  }
+  return encoded;
+}
+
+function isTypedDetail(value: any, attributes: string[]): boolean {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.entries(value).every(([key, attr]) => attributes.includes(key) && typeof attr !== 'object');
+}
+
+function decodeDetail(detail?: Record<string, any>): CotDetail | undefined {
+  if (!detail) return undefined;
+
+  const parser = createCotXmlParser();
+  const parseDetail = (xml: string): CotDetail => {
+    const parsed = parser.parse(`<detail>${xml}</detail>`);
+    return parsed.detail && typeof parsed.detail === 'object' ? parsed.detail : {};
+  };
+
+  const result = detail.xmlDetail ? parseDetail(detail.xmlDetail) : {};
+
+  // Typed sub-messages go back through the XML parser so both encodings decode to
+  // the same element names and attribute values
+  const typed: Record<string, any> = {};
+  for (const [element, { field, attributes }] of Object.entries(TYPED_DETAILS)) {
+    const fields = withoutEmpty(Object.fromEntries(attributes.map(attribute => [attribute, detail[field]?.[attribute]])));
+    if (Object.values(fields).some(Boolean)) {
+      typed[element] = fields;
+    }
+  }
+  for (const [element, value] of Object.entries(parseDetail(buildDetailXml(typed)))) {
+    result[element] = element === 'status' ? { ...result.status, ...value } : value;
+  }
+
+  return result;
+}
+
+function withoutEmpty(fields: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== '' && value !== undefined));
+}
@@ -3,31 +3,119 @@ import https from 'https';
 import fs from 'fs';
 import { EventEmitter } from 'events';
 import WebSocket from 'ws';
+import * as turf from '@turf/turf';
 import { Logger } from 'pino';
-import { XMLParser, XMLBuilder } from 'fast-xml-parser';
 import { CotEvent, CotMessage } from '../types/cot';
-import { TAKEntity, Mission, DataPackage } from '../types/tak';
+import { TAKEntity, Mission, MissionChange, MissionInvitation, MissionLogEntry, MissionSubscription, DataPackage } from '../types/tak';
+import { CotStreamClient, isStreamUrl } from './cot-stream';
+import { createCotXmlParser, parseCotEvent, parseCotXml, buildCotXml } from './cot-xml';
+import { matchesCotQuery, filterCotEvents } from './cot-filter';
+import { createBackend, AlertInput, CotQuery, MissionContentsChange, TAKServerBackend, TAKServerType } from './backends';
+import { EntityStore, EntityStoreOptions, EntityQuery, cotEventToEntity } from '../services/entity-store';
+import { TrackStore, TrackStoreOptions } from '../services/track-store';
+import { CoordinateSystem } from '../services/coordinates';
+import {
+  GeofenceEngine,
+  GeofenceEngineOptions,
+  GeofenceAlert,
+  geofenceAlertToCotMessage,
+  describeGeofenceAlert
+} from '../services/geofence-engine';
+import {
+  SubscriptionManager,
+  SubscriptionManagerOptions,
+  SubscriptionFilter,
+  SubscriptionOptions,
+  SubscriptionInfo
+} from '../services/subscription-manager';
+import { ReplayManager, ReplayManagerOptions } from '../services/replay';
+import { CaptureManager, CaptureManagerOptions, CaptureOptions, CaptureInfo } from '../services/cot-capture';
+import {
+  ChatStore,
+  ChatStoreOptions,
+  ChatMessage,
+  ChatRecipient,
+  buildGeoChatMessage,
+  parseGeoChat
+} from '../services/chat-store';
 
 export interface TAKServerClientConfig {
   url: string;
+  type?: TAKServerType;
+  streamUrl?: string;
   apiToken?: string;
   clientCert?: string;
   clientKey?: string;
+  caCert?: string;
   verifySsl?: boolean;
   timeout?: number;
+  takProtocol?: 'auto' | 'xml';
+  entityStore?: EntityStoreOptions;
+  trackHistory?: TrackStoreOptions & { enabled?: boolean };
+  geofences?: GeofenceEngineOptions;
+  subscriptions?: SubscriptionManagerOptions;
+  replays?: ReplayManagerOptions;
+  captures?: CaptureManagerOptions;
+  // Identity we chat as; uid also files direct messages to us by sender
+  chat?: ChatStoreOptions & { uid?: string; callsign?: string };
+  // Notation tools print next to decimal degrees
+  coordinateSystem?: CoordinateSystem;
   logger?: Logger;
 }
 
+export interface MissionSearch {
+  // Matched case-insensitively against name, description and keywords
+  keyword?: string;
+  creatorUid?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+}
+
 export class TAKServerClient extends EventEmitter {
   private axios: AxiosInstance;
+  private backend: TAKServerBackend;
   private ws?: WebSocket;
+  private stream?: CotStreamClient;
+  private eventListeners: Array<(event: CotEvent) => void> = [];
+  private liveFeed = false;
   private config: TAKServerClientConfig;
   private logger?: Logger;
 
+  // Latest state per UID, maintained from the live CoT feed
+  readonly entities: EntityStore;
+  // Every received position per UID, persisted across restarts
+  readonly tracks?: TrackStore;
+  // Fences evaluated against every incoming position
+  readonly geofences: GeofenceEngine;
+  // Pull-based subscriptions created by tools
+  readonly subscriptions: SubscriptionManager;
+  // Playback of recorded CoT windows
+  readonly replays: ReplayManager;
+  // Raw feed recordings on disk
+  readonly captures: CaptureManager;
+  // GeoChat history and receipts from the live feed
+  readonly chat: ChatStore;
+
   constructor(config: TAKServerClientConfig) {
     super();
     this.config = config;
     this.logger = config.logger;
+    this.entities = new EntityStore(config.entityStore);
+    if (config.trackHistory && config.trackHistory.enabled !== false) {
+      this.tracks = new TrackStore({ ...config.trackHistory, logger: this.logger });
+    }
+
+    this.geofences = new GeofenceEngine({ ...config.geofences, logger: this.logger });
+    this.geofences.on('alert', (alert: GeofenceAlert) => this.publishGeofenceAlert(alert));
+    this.entities.on('remove', (uid: string) => this.geofences.forget(uid));
+
+    this.subscriptions = new SubscriptionManager(config.subscriptions);
+    this.subscriptions.on('end', () => this.releaseFeed());
+
+    this.replays = new ReplayManager(config.replays);
+    this.captures = new CaptureManager({ ...config.captures, logger: this.logger });
+
+    this.chat = new ChatStore({ ...config.chat, uid: this.chatIdentity.uid });
 
     // Configure axios instance
     const axiosConfig: AxiosRequestConfig = {
@@ -83,148 +171,219 @@ export class TAKServerClient extends EventEmitter {
         }
       );
     }
+
+    this.backend = createBackend(config.type || 'tak-server', {
+      http: this.axios,
+      restAvailable: !this.streamOnly,
+      getStreamEvents: async (query) => {
+        if (!this.streamUrl) {
+          throw new Error(`No CoT stream configured for ${this.serverType}`);
+        }
+        await this.getStream();
+        return this.getStreamEvents(query);
+      },
+      logger: this.logger
+    });
+  }
+
+  get serverType(): TAKServerType {
+    return this.backend.type;
+  }
+
+  // Streaming-only servers (e.g. taky) expose no REST API at all
+  get streamOnly(): boolean {
+    return isStreamUrl(this.config.url);
+  }
+
+  get chatIdentity(): { uid: string; callsign: string } {
+    return {
+      uid: this.config.chat?.uid || 'tak-server-mcp',
+      callsign: this.config.chat?.callsign || 'MCP'
+    };
+  }
+
+  get coordinateSystem(): CoordinateSystem {
+    return this.config.coordinateSystem || 'wgs84';
+  }
+
+  get streamUrl(): string | undefined {
+    return this.config.streamUrl || (this.streamOnly ? this.config.url : undefined);
+  }
+
+  // Where received CoT comes from: the native stream or the WebSocket endpoint
+  get feedUrl(): string {
+    return this.streamUrl || this.config.url.replace(/^https?/, 'wss') + '/Marti/api/takcl/ws';
+  }
+
+  // True while CoT is flowing into the entity store
+  get live(): boolean {
+    if (this.streamUrl) return !!this.stream?.connected;
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Keep a CoT connection open for the lifetime of the client so the entity
+   * store stays current. Tool subscriptions share this connection.
+   */
+  async startLiveFeed(): Promise<void> {
+    this.liveFeed = true;
+    this.entities.start();
+    await this.tracks?.open();
+    await this.connectFeed();
   }
 
   async testConnection(): Promise<void> {
+    if (this.streamOnly) {
+      try {
+        await this.getStream();
+        this.logger?.info({ url: this.config.url }, 'Connected to CoT stream');
+        return;
+      } catch (error) {
+        throw new Error(`Failed to connect to CoT stream: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
     try {
-      // TAK Server version endpoint
-      const response = await this.axios.get('/Marti/api/version');
-      this.logger?.info('Connected to TAK Server', { version: response.data });
+      const version = await this.backend.testConnection();
+      this.logger?.info({ server: this.serverType, version }, 'Connected to TAK Server');
     } catch (error) {
       throw new Error(`Failed to connect to TAK Server: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   // CoT Event Management
-  async getCotEvents(params?: {
-    start?: Date;
-    end?: Date;
-    types?: string[];
-    uids?: string[];
-    bbox?: [number, number, number, number];
-    limit?: number;
-  }): Promise<CotEvent[]> {
-    const events: CotEvent[] = [];
-    const xmlParser = new XMLParser({
-      ignoreAttributes: false,
-      attributeNamePrefix: '',
-      parseAttributeValue: true
-    });
+  async getCotEvents(params?: CotQuery): Promise<CotEvent[]> {
+    // REST servers only return the latest event per UID; history comes from the track store
+    if (this.tracks && (params?.uids?.length || params?.start || params?.end)) {
+      const history = this.tracks.query(params);
+      if (history.length > 0 || this.streamOnly) return history;
+    }
 
-    // If specific UIDs provided, fetch each one
-    if (params?.uids && params.uids.length > 0) {
-      for (const uid of params.uids) {
-        try {
-          const response = await this.axios.get(`/api/cot/xml/${uid}`);
-          const parsed = xmlParser.parse(response.data);
-          if (parsed.event) {
-            events.push(this.parseCotEvent(parsed.event));
-          }
-        } catch (error) {
-          this.logger?.warn(`Failed to fetch CoT event for UID ${uid}:`, error);
-        }
-      }
-    } else {
-      // For history/search, TAK Server uses different endpoint
-      for (const uid of params?.uids || ['*']) {
-        let url = `/api/cot/xml/${uid}/all`;
-        const queryParams = new URLSearchParams();
-        
-        if (params?.start) {
-          queryParams.append('start', this.formatTAKDate(params.start));
-        }
-        if (params?.end) {
-          queryParams.append('end', this.formatTAKDate(params.end));
-        }
+    if (this.streamOnly) {
+      await this.getStream();
+      return this.getStreamEvents(params);
+    }
 
-        if (queryParams.toString()) {
-          url += `?${queryParams.toString()}`;
-        }
+    return this.backend.getCotEvents(params);
+  }
 
-        try {
-          const response = await this.axios.get(url, {
-            headers: { 'Accept': 'application/xml' }
-          });
-          
-          // Parse multiple events from response
-          const eventMatches = response.data.match(/<event[^>]*>[\s\S]*?<\/event>/g);
-          if (eventMatches) {
-            for (const eventXml of eventMatches) {
-              const parsed = xmlParser.parse(eventXml);
-              if (parsed.event) {
-                const event = this.parseCotEvent(parsed.event);
-                // Filter by type if specified
-                if (!params?.types || params.types.some(t => event.type.startsWith(t))) {
-                  events.push(event);
-                }
-              }
-            }
-          }
-        } catch (error) {
-          this.logger?.error('Failed to fetch CoT history:', error);
-        }
-      }
+  async sendCotEvent(event: CotMessage): Promise<void> {
+    const xml = buildCotXml(event);
+
+    if (this.streamUrl) {
+      const stream = await this.getStream();
+      await stream.send(xml);
+      return;
     }
+    
+    await this.backend.submitCotEvent(xml);
+  }
 
-    // Apply limit if specified
-    if (params?.limit && events.length > params.limit) {
-      return events.slice(0, params.limit);
+  // Returns a function that removes just this listener
+  async subscribeToCotEvents(
+    filter?: CotQuery,
+    onEvent?: (event: CotEvent) => void
+  ): Promise<() => void> {
+    await this.connectFeed();
+
+    if (!onEvent) {
+      return () => this.releaseFeed();
     }
 
-    return events;
+    const listener = (event: CotEvent) => {
+      if (matchesCotQuery(event, filter)) onEvent(event);
+    };
+    this.eventListeners.push(listener);
+    this.on('cot-event', listener);
+
+    return () => {
+      this.off('cot-event', listener);
+      this.eventListeners = this.eventListeners.filter(l => l !== listener);
+      this.releaseFeed();
+    };
   }
 
-  private formatTAKDate(date: Date): string {
-    // TAK Server expects ISO format with milliseconds
-    return date.toISOString();
+  async unsubscribe(): Promise<void> {
+    for (const listener of this.eventListeners) {
+      this.off('cot-event', listener);
+    }
+    this.eventListeners = [];
+    this.subscriptions.cancelAll();
+    this.releaseFeed();
   }
 
-  private parseCotEvent(eventData: any): CotEvent {
-    return {
-      uid: eventData.uid,
-      type: eventData.type,
-      time: new Date(eventData.time),
-      start: new Date(eventData.start),
-      stale: new Date(eventData.stale),
-      how: eventData.how,
-      point: {
-        lat: parseFloat(eventData.point.lat),
-        lon: parseFloat(eventData.point.lon),
-        hae: parseFloat(eventData.point.hae) || 999999,
-        ce: parseFloat(eventData.point.ce) || 999999,
-        le: parseFloat(eventData.point.le) || 999999
-      },
-      detail: eventData.detail
-    };
+  async createSubscription(filter?: SubscriptionFilter, options?: SubscriptionOptions): Promise<SubscriptionInfo> {
+    await this.connectFeed();
+    return this.subscriptions.create(filter, options);
   }
 
-  async sendCotEvent(event: CotMessage): Promise<void> {
-    const xmlBuilder = new XMLBuilder({
-      ignoreAttributes: false,
-      attributeNamePrefix: '@_',
-      format: true
-    });
+  cancelSubscription(id: string): boolean {
+    return this.subscriptions.cancel(id);
+  }
 
-    // Build XML from CotMessage
-    const xml = xmlBuilder.build(event);
-    
-    // TAK Server expects XML in the body
-    await this.axios.post('/Marti/api/cot/submit', xml, {
-      headers: {
-        'Content-Type': 'application/xml'
-      }
-    });
+  // Record matching feed traffic to disk until captures.stop()
+  async startCapture(options: CaptureOptions = {}): Promise<CaptureInfo> {
+    return this.captures.start(options, this.feedUrl, onEvent => this.subscribeToCotEvents(options.filter, onEvent));
   }
 
-  async subscribeToCotEvents(
-    filter?: {
-      types?: string[];
-      bbox?: [number, number, number, number];
-    },
-    onEvent?: (event: CotEvent) => void
-  ): Promise<void> {
+  private async connectFeed(): Promise<void> {
+    if (this.streamUrl) {
+      await this.getStream();
+    } else if (!this.ws || this.ws.readyState > WebSocket.OPEN) {
+      await this.connectWebSocket();
+    }
+  }
+
+  // Close the feed once neither the live feed nor any subscriber needs it
+  private releaseFeed(): void {
+    if (this.liveFeed || this.eventListeners.length > 0 || this.subscriptions.size > 0) return;
+    this.closeFeed();
+  }
+
+  private closeFeed(): void {
+    if (this.ws) {
+      this.ws.close();
+      this.ws = undefined;
+    }
+
+    if (this.stream) {
+      this.stream.close();
+      this.stream.removeAllListeners();
+      this.stream = undefined;
+    }
+  }
+
+  // Every CoT event from any feed passes through here
+  private handleCotEvent(event: CotEvent): void {
+    // Keepalive pings and pongs are not part of the picture
+    if (event.type.startsWith('t-x-c-t')) return;
+
+    this.entities.upsert(event);
+    this.tracks?.record(event);
+    this.chat.record(event);
+    this.geofences.evaluate(event);
+    this.subscriptions.dispatch(event);
+    this.emit('cot-event', event);
+  }
+
+  // Breaches go out as b-a-g CoT for TAK clients and through the server's alert API
+  private async publishGeofenceAlert(alert: GeofenceAlert): Promise<void> {
+    try {
+      await this.sendCotEvent(geofenceAlertToCotMessage(alert));
+      await this.sendAlert({
+        type: `geofence-${alert.transition}`,
+        message: describeGeofenceAlert(alert),
+        point: alert.point,
+        severity: alert.severity
+      });
+    } catch (error) {
+      this.logger?.warn({ error: error instanceof Error ? error.message : error, alert: alert.id }, 'Failed to publish geofence alert');
+    }
+  }
+
+  private async connectWebSocket(): Promise<void> {
     // TAK Server uses different WebSocket endpoint patterns
-    const wsUrl = this.config.url.replace(/^https?/, 'wss') + '/Marti/api/takcl/ws';
+    const wsUrl = this.feedUrl;
     
     const wsOptions: WebSocket.ClientOptions = {
       rejectUnauthorized: this.config.verifySsl !== false
@@ -243,26 +402,15 @@ export class TAKServerClient extends EventEmitter {
       wsOptions.key = fs.readFileSync(this.config.clientKey);
     }
 
-    this.ws = new WebSocket(wsUrl, wsOptions);
-    const xmlParser = new XMLParser({
-      ignoreAttributes: false,
-      attributeNamePrefix: '',
-      parseAttributeValue: true
-    });
+    const ws = new WebSocket(wsUrl, wsOptions);
+    this.ws = ws;
+    const xmlParser = createCotXmlParser();
 
-    this.ws.on('open', () => {
+    ws.on('open', () => {
       this.logger?.info('WebSocket connection established');
-      // TAK Server may expect subscription message
-      if (filter?.types) {
-        const subscribeMsg = {
-          type: 'subscribe',
-          filters: filter.types
-        };
-        this.ws!.send(JSON.stringify(subscribeMsg));
-      }
     });
 
-    this.ws.on('message', (data) => {
+    ws.on('message', (data) => {
       try {
         const message = data.toString();
         
@@ -270,9 +418,7 @@ export class TAKServerClient extends EventEmitter {
         if (message.includes('<event')) {
           const parsed = xmlParser.parse(message);
           if (parsed.event) {
-            const event = this.parseCotEvent(parsed.event);
-            this.emit('cot-event', event);
-            if (onEvent) onEvent(event);
+            this.handleCotEvent(parseCotEvent(parsed.event));
           }
         } else {
           // Handle other message types (JSON status messages, etc.)
@@ -288,31 +434,64 @@ export class TAKServerClient extends EventEmitter {
       }
     });
 
-    this.ws.on('error', (error) => {
+    ws.on('error', (error) => {
       this.logger?.error('WebSocket error:', error);
-      this.emit('error', error);
+      this.emitError(error);
     });
 
-    this.ws.on('close', () => {
+    ws.on('close', () => {
       this.logger?.info('WebSocket connection closed');
+      if (this.ws === ws) this.ws = undefined;
       this.emit('disconnected');
     });
   }
 
-  async unsubscribe(): Promise<void> {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = undefined;
+  // An 'error' event without a listener would crash the process, so log it instead
+  private emitError(error: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    } else {
+      this.logger?.warn('TAK Server feed error:', error.message);
+    }
+  }
+
+  // Lazily open the native CoT stream (TCP 8087 / TLS 8089)
+  private async getStream(): Promise<CotStreamClient> {
+    if (!this.stream) {
+      this.stream = new CotStreamClient({
+        url: this.streamUrl!,
+        clientCert: this.config.clientCert,
+        clientKey: this.config.clientKey,
+        caCert: this.config.caCert,
+        verifySsl: this.config.verifySsl,
+        timeout: this.config.timeout,
+        protocol: this.config.takProtocol,
+        logger: this.logger
+      });
+
+      this.stream.on('cot-event', (event: CotEvent) => this.handleCotEvent(event));
+
+      this.stream.on('error', (error) => this.emitError(error));
+      this.stream.on('disconnected', () => this.emit('disconnected'));
     }
+
+    await this.stream.connect();
+    return this.stream;
+  }
+
+  // Latest event per UID seen on the stream, used when no REST API exists
+  private getStreamEvents(params?: CotQuery): CotEvent[] {
+    return filterCotEvents(this.entities.events(), params);
   }
 
   // Entity Management
-  async getEntities(params?: {
-    types?: string[];
-    teams?: string[];
-    roles?: string[];
-    bbox?: [number, number, number, number];
-  }): Promise<TAKEntity[]> {
+  async getEntities(params?: EntityQuery): Promise<TAKEntity[]> {
+    // Served from the entity store while the live feed keeps it current
+    if (this.live || this.streamOnly) {
+      if (this.streamOnly) await this.getStream();
+      return this.entities.query(params);
+    }
+
     // TAK Server doesn't have a direct "entities" endpoint
     // We need to get CoT events and transform them to entities
     const events = await this.getCotEvents({
@@ -329,31 +508,17 @@ export class TAKServerClient extends EventEmitter {
       if (!entitiesMap.has(event.uid) || 
           new Date(event.time) > new Date(entitiesMap.get(event.uid)!.lastUpdate)) {
         
-        const entity: TAKEntity = {
-          uid: event.uid,
-          callsign: event.detail?.contact?.callsign || event.uid,
-          type: event.type,
-          team: event.detail?.group?.name || 'Unknown',
-          role: event.detail?.group?.role || 'Unknown',
-          location: {
-            lat: event.point.lat,
-            lon: event.point.lon,
-            alt: event.point.hae !== 999999 ? event.point.hae : undefined
-          },
-          lastUpdate: event.time,
-          status: {
-            online: new Date(event.stale) > new Date(),
-            battery: event.detail?.status?.battery,
-            speed: event.detail?.track?.speed,
-            course: event.detail?.track?.course,
-            readiness: event.detail?.status?.readiness ? 'ready' : 'unknown'
-          },
-          attributes: event.detail
-        };
+        const entity = cotEventToEntity(event);
 
         // Apply filters
         if (params?.teams && !params.teams.includes(entity.team)) continue;
         if (params?.roles && !params.roles.includes(entity.role)) continue;
+        if (params?.includeStale === false && !entity.status.online) continue;
+        if (params?.within) {
+          const [lat, lon] = params.within.center;
+          const distance = turf.distance([lon, lat], [event.point.lon, event.point.lat], { units: 'meters' });
+          if (distance > params.within.radius) continue;
+        }
         
         entitiesMap.set(event.uid, entity);
       }
@@ -363,103 +528,189 @@ export class TAKServerClient extends EventEmitter {
   }
 
   async getEntity(uid: string): Promise<TAKEntity> {
+    const cached = this.entities.get(uid);
+    if (cached && (this.live || this.streamOnly)) {
+      return cached;
+    }
+
+    if (this.streamOnly) {
+      throw new Error(`Entity not found: ${uid}`);
+    }
+
     // Get the specific CoT event for this UID
-    const response = await this.axios.get(`/api/cot/xml/${uid}`);
-    const xmlParser = new XMLParser({
-      ignoreAttributes: false,
-      attributeNamePrefix: '',
-      parseAttributeValue: true
-    });
-    
-    const parsed = xmlParser.parse(response.data);
-    if (!parsed.event) {
+    const event = await this.backend.getLatestCotEvent(uid);
+    if (!event) {
       throw new Error(`Entity not found: ${uid}`);
     }
     
-    const event = this.parseCotEvent(parsed.event);
-    
-    // Transform to TAKEntity
-    return {
-      uid: event.uid,
-      callsign: event.detail?.contact?.callsign || event.uid,
-      type: event.type,
-      team: event.detail?.group?.name || 'Unknown',
-      role: event.detail?.group?.role || 'Unknown',
-      location: {
-        lat: event.point.lat,
-        lon: event.point.lon,
-        alt: event.point.hae !== 999999 ? event.point.hae : undefined
-      },
-      lastUpdate: event.time,
-      status: {
-        online: new Date(event.stale) > new Date(),
-        battery: event.detail?.status?.battery,
-        speed: event.detail?.track?.speed,
-        course: event.detail?.track?.course,
-        readiness: event.detail?.status?.readiness ? 'ready' : 'unknown'
-      },
-      attributes: event.detail
-    };
+    return cotEventToEntity(event);
   }
 
   // Mission Management
   async getMissions(): Promise<Mission[]> {
-    const response = await this.axios.get('/Marti/api/missions');
-    return response.data;
+    return this.backend.getMissions();
   }
 
   async getMission(name: string): Promise<Mission> {
-    const response = await this.axios.get(`/Marti/api/missions/${name}`);
-    return response.data;
+    return this.backend.getMission(name);
   }
 
+  async searchMissions(search: MissionSearch = {}): Promise<Mission[]> {
+    const keyword = search.keyword?.toLowerCase();
+    const missions = await this.backend.getMissions();
+
+    return missions.filter(mission => {
+      if (keyword) {
+        const text = [mission.name, mission.description, ...(mission.keywords || [])].join(' ').toLowerCase();
+        if (!text.includes(keyword)) return false;
+      }
+      if (search.creatorUid && mission.creatorUid !== search.creatorUid) return false;
+
+      const created = new Date(mission.createTime).getTime();
+      if (search.createdAfter && !(created >= search.createdAfter.getTime())) return false;
+      if (search.createdBefore && !(created <= search.createdBefore.getTime())) return false;
+      return true;
+    });
+  }
+
+  // Mutations emit 'mission-changed' (name) so resource subscribers hear about them
   async createMission(mission: Partial<Mission>): Promise<Mission> {
-    const response = await this.axios.post('/Marti/api/missions', mission);
-    return response.data;
+    const created = await this.backend.createMission(mission);
+    this.emit('mission-changed', created?.name || mission.name);
+    return created;
   }
 
   async updateMission(name: string, updates: Partial<Mission>): Promise<Mission> {
-    const response = await this.axios.put(`/Marti/api/missions/${name}`, updates);
-    return response.data;
+    const updated = await this.backend.updateMission(name, updates);
+    this.emit('mission-changed', name);
+    return updated;
   }
 
   async deleteMission(name: string): Promise<void> {
-    await this.axios.delete(`/Marti/api/missions/${name}`);
+    await this.backend.deleteMission(name);
+    this.emit('mission-changed', name);
+  }
+
+  // Zip export of the mission with all its contents
+  async archiveMission(name: string): Promise<Buffer> {
+    return this.backend.archiveMission(name);
+  }
+
+  async addMissionContents(name: string, contents: MissionContentsChange): Promise<Mission> {
+    const mission = await this.backend.addMissionContents(name, contents);
+    this.emit('mission-changed', name);
+    return mission;
+  }
+
+  async removeMissionContents(name: string, contents: MissionContentsChange): Promise<Mission> {
+    const mission = await this.backend.removeMissionContents(name, contents);
+    this.emit('mission-changed', name);
+    return mission;
+  }
+
+  async getMissionSubscriptions(name: string): Promise<MissionSubscription[]> {
+    return this.backend.getMissionSubscriptions(name);
+  }
+
+  async subscribeToMission(name: string, clientUid: string): Promise<MissionSubscription> {
+    const subscription = await this.backend.subscribeToMission(name, clientUid);
+    this.emit('mission-changed', name);
+    return subscription;
+  }
+
+  async unsubscribeFromMission(name: string, clientUid: string): Promise<void> {
+    await this.backend.unsubscribeFromMission(name, clientUid);
+    this.emit('mission-changed', name);
+  }
+
+  async inviteToMission(name: string, invitation: MissionInvitation): Promise<void> {
+    await this.backend.inviteToMission(name, invitation);
+    this.emit('mission-changed', name);
+  }
+
+  async getMissionLog(name: string): Promise<MissionLogEntry[]> {
+    return this.backend.getMissionLog(name);
+  }
+
+  // Content and keyword changes merged with log entries, oldest first
+  async getMissionChanges(name: string, start?: Date, end?: Date): Promise<MissionChange[]> {
+    const [changes, log] = await Promise.all([
+      this.backend.getMissionChanges(name, start, end),
+      this.backend.getMissionLog(name).catch((error) => {
+        this.logger?.debug({ mission: name, error: error instanceof Error ? error.message : error }, 'Mission log unavailable');
+        return [] as MissionLogEntry[];
+      })
+    ]);
+
+    const inWindow = (time: Date) =>
+      (!start || time.getTime() >= start.getTime()) && (!end || time.getTime() <= end.getTime());
+
+    const logChanges: MissionChange[] = log
+      .map(entry => ({
+        type: 'log' as const,
+        missionName: name,
+        timestamp: entry.servertime || entry.dtg || new Date(0),
+        creatorUid: entry.creatorUid,
+        uid: entry.id,
+        content: entry.content,
+        details: { dtg: entry.dtg, keywords: entry.keywords }
+      }))
+      .filter(change => inWindow(change.timestamp));
+
+    return [...changes, ...logChanges].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  // CoT history limited to the map items (UIDs) a mission holds
+  async getMissionCotEvents(name: string, params: Omit<CotQuery, 'uids'> = {}): Promise<CotEvent[]> {
+    const mission = await this.backend.getMission(name);
+    if (!mission) {
+      throw new Error(`Mission not found: ${name}`);
+    }
+
+    const uids = (mission.contents || [])
+      .filter(content => content.type === 'ITEM')
+      .map(content => content.uid);
+    if (uids.length === 0) return [];
+
+    // Latest-per-UID lookups ignore the window and types, so filter again
+    const query = { ...params, uids };
+    return filterCotEvents(await this.getCotEvents({ ...query, limit: undefined }), query);
+  }
+
+  async addMissionLogEntry(entry: MissionLogEntry): Promise<MissionLogEntry> {
+    const created = await this.backend.addMissionLogEntry(entry);
+    for (const name of entry.missionNames) {
+      this.emit('mission-changed', name);
+    }
+    return created;
   }
 
   // Data Package Management
   async getDataPackages(): Promise<DataPackage[]> {
-    const response = await this.axios.get('/Marti/api/datapackages');
-    return response.data;
+    return this.backend.getDataPackages();
   }
 
-  async uploadDataPackage(file: Buffer, metadata: Partial<DataPackage>): Promise<DataPackage> {
-    const formData = new FormData();
-    formData.append('file', new Blob([file]));
-    formData.append('metadata', JSON.stringify(metadata));
+  // Packages are content-addressed, so an identical upload is found by hash
+  async findDataPackage(hash: string): Promise<DataPackage | undefined> {
+    const packages = await this.backend.getDataPackages();
+    return packages.find(pkg => pkg.hash?.toLowerCase() === hash.toLowerCase());
+  }
 
-    const response = await this.axios.post('/Marti/api/datapackages', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data'
-      }
-    });
-    return response.data;
+  async uploadDataPackage(file: Buffer, metadata: Partial<DataPackage>): Promise<DataPackage> {
+    return this.backend.uploadDataPackage(file, metadata);
   }
 
   async downloadDataPackage(id: string): Promise<Buffer> {
-    const response = await this.axios.get(`/Marti/api/datapackages/${id}`, {
-      responseType: 'arraybuffer'
-    });
-    return Buffer.from(response.data);
+    return this.backend.downloadDataPackage(id);
   }
 
   async deleteDataPackage(id: string): Promise<void> {
-    await this.axios.delete(`/Marti/api/datapackages/${id}`);
+    return this.backend.deleteDataPackage(id);
   }
 
   // Geospatial Operations
   async spatialQuery(params: {
-    center: [number, number];
+    center?: [number, number];
     radius?: number;
     polygon?: [number, number][];
     types?: string[];
@@ -486,22 +737,37 @@ export class TAKServerClient extends EventEmitter {
 
   // Alert Management
   async getAlerts(active?: boolean): Promise<any[]> {
-    const response = await this.axios.get(`/Marti/api/alerts${active !== undefined ? `?active=${active}` : ''}`);
-    return response.data;
+    return this.backend.getAlerts(active);
   }
 
-  async sendAlert(alert: {
-    type: string;
-    message: string;
-    point: [number, number];
-    severity: 'low' | 'medium' | 'high' | 'critical';
-  }): Promise<void> {
-    await this.axios.post('/Marti/api/alerts', alert);
+  async sendAlert(alert: AlertInput): Promise<void> {
+    return this.backend.sendAlert(alert);
   }
 
+  // GeoChat
+  async sendChatMessage(to: ChatRecipient, text: string, point?: [number, number]): Promise<ChatMessage> {
+    const message = buildGeoChatMessage({ ...this.chatIdentity, point }, to, text);
+    await this.sendCotEvent(message);
+
+    // The server may not echo our own message back, so file it now
+    const event = parseCotXml(buildCotXml(message));
+    const sent = event && parseGeoChat(event, this.chatIdentity.uid);
+    if (!sent) {
+      throw new Error('Failed to record sent chat message');
+    }
+    return this.chat.add(sent);
+  }
+
+
   // Cleanup
   async disconnect(): Promise<void> {
+    this.liveFeed = false;
+    this.replays.stopAll();
+    await this.captures.stopAll();
+    this.entities.stop();
+    await this.tracks?.close();
+    await this.geofences.close();
     await this.unsubscribe();
     this.removeAllListeners();
   }
-}
\ No newline at end of file
+}
@@ -1,18 +1,28 @@
 import fs from 'fs';
 import path from 'path';
 import Joi from 'joi';
+import { TAKServerType } from '../clients/backends';
+import { CoordinateSystem } from '../services/coordinates';
 
 export interface TAKServerConfig {
   url: string;
+  type: TAKServerType;
+  streamUrl?: string;
+  cotPort?: number;
   apiToken?: string;
   clientCert?: string;
   clientKey?: string;
+  caCert?: string;
   verifySsl: boolean;
+  timeout?: number;
+  takProtocol?: 'auto' | 'xml';
 }
 
 export interface MCPConfig {
   transport: 'stdio' | 'http' | 'sse';
   port?: number;
+  // Browser origins allowed to call the HTTP transport (default: localhost)
+  allowedOrigins?: string[];
   auth?: {
     enabled: boolean;
     method?: 'oauth2' | 'apikey' | 'basic';
@@ -30,7 +40,7 @@ export interface ToolsConfig {
   enabledTools?: string[];
   geospatial?: {
     defaultRadius: number;
-    coordinateSystem: 'wgs84' | 'mgrs';
+    coordinateSystem: CoordinateSystem;
     h3Resolution: number;
   };
   cache?: {
@@ -38,6 +48,40 @@ export interface ToolsConfig {
     ttl: number;
     maxSize: number;
   };
+  entityStore?: {
+    enabled: boolean;
+    retainStaleSeconds: number;
+    maxEntities: number;
+  };
+  trackHistory?: {
+    enabled: boolean;
+    directory?: string;
+    retentionHours: number;
+    maxPointsPerUid: number;
+  };
+  geofences?: {
+    file?: string;
+    dwellCheckInterval: number;
+  };
+  subscriptions?: {
+    defaultBufferSize: number;
+    maxSubscriptions: number;
+  };
+  replays?: {
+    maxReplays: number;
+    maxEvents: number;
+  };
+  captures?: {
+    directory?: string;
+    maxFileBytes: number;
+    rotateMinutes: number;
+    maxActive: number;
+  };
+  chat?: {
+    uid: string;
+    callsign: string;
+    maxMessagesPerRoom: number;
+  };
 }
 
 export interface Config {
@@ -49,10 +93,16 @@ export interface Config {
 const configSchema = Joi.object({
   takServer: Joi.object({
     url: Joi.string().uri().required(),
+    type: Joi.string().valid('tak-server', 'freetakserver', 'taky').default('tak-server'),
+    streamUrl: Joi.string().uri({ scheme: ['tcp', 'ssl', 'tls'] }).optional(),
+    cotPort: Joi.number().port().optional(),
     apiToken: Joi.string().optional(),
     clientCert: Joi.string().optional(),
     clientKey: Joi.string().optional(),
-    verifySsl: Joi.boolean().default(true)
+    caCert: Joi.string().optional(),
+    verifySsl: Joi.boolean().default(true),
+    timeout: Joi.number().min(0).optional(),
+    takProtocol: Joi.string().valid('auto', 'xml').default('auto')
   }).required(),
   mcp: Joi.object({
     transport: Joi.string().valid('stdio', 'http', 'sse').default('stdio'),
@@ -61,6 +111,7 @@ const configSchema = Joi.object({
       then: Joi.required(),
       otherwise: Joi.optional()
     }),
+    allowedOrigins: Joi.array().items(Joi.string()).optional(),
     auth: Joi.object({
       enabled: Joi.boolean().default(false),
       method: Joi.string().valid('oauth2', 'apikey', 'basic').optional(),
@@ -77,13 +128,47 @@ const configSchema = Joi.object({
     enabledTools: Joi.array().items(Joi.string()).optional(),
     geospatial: Joi.object({
       defaultRadius: Joi.number().default(1000),
-      coordinateSystem: Joi.string().valid('wgs84', 'mgrs').default('wgs84'),
+      coordinateSystem: Joi.string().valid('wgs84', 'mgrs', 'utm', 'dms').default('wgs84'),
       h3Resolution: Joi.number().min(0).max(15).default(9)
     }).default(),
     cache: Joi.object({
       enabled: Joi.boolean().default(true),
       ttl: Joi.number().default(3600),
       maxSize: Joi.number().default(1000)
+    }).default(),
+    entityStore: Joi.object({
+      enabled: Joi.boolean().default(true),
+      retainStaleSeconds: Joi.number().min(0).default(3600),
+      maxEntities: Joi.number().min(1).default(10000)
+    }).default(),
+    trackHistory: Joi.object({
+      enabled: Joi.boolean().default(true),
+      directory: Joi.string(),
+      retentionHours: Joi.number().min(1).default(72),
+      maxPointsPerUid: Joi.number().min(2).default(10000)
+    }).default(),
+    geofences: Joi.object({
+      file: Joi.string(),
+      dwellCheckInterval: Joi.number().min(1000).default(10000)
+    }).default(),
+    subscriptions: Joi.object({
+      defaultBufferSize: Joi.number().min(10).default(1000),
+      maxSubscriptions: Joi.number().min(1).default(50)
+    }).default(),
+    replays: Joi.object({
+      maxReplays: Joi.number().min(1).default(10),
+      maxEvents: Joi.number().min(1).default(100000)
+    }).default(),
+    captures: Joi.object({
+      directory: Joi.string(),
+      maxFileBytes: Joi.number().min(1024).default(10485760),
+      rotateMinutes: Joi.number().min(1).default(60),
+      maxActive: Joi.number().min(1).default(10)
+    }).default(),
+    chat: Joi.object({
+      uid: Joi.string().default('tak-server-mcp'),
+      callsign: Joi.string().default('MCP'),
+      maxMessagesPerRoom: Joi.number().min(10).default(500)
     }).default()
   }).default()
 });
@@ -106,16 +191,32 @@ export function getConfig(): Config {
   config.takServer = {
     ...config.takServer,
     url: process.env.TAK_SERVER_URL || config.takServer?.url || '',
+    type: (process.env.TAK_SERVER_TYPE as TAKServerType) || config.takServer?.type || 'tak-server',
+    streamUrl: process.env.TAK_SERVER_STREAM_URL || config.takServer?.streamUrl,
     apiToken: process.env.TAK_SERVER_API_TOKEN || config.takServer?.apiToken,
     clientCert: process.env.TAK_SERVER_CLIENT_CERT || config.takServer?.clientCert,
     clientKey: process.env.TAK_SERVER_CLIENT_KEY || config.takServer?.clientKey,
+    caCert: process.env.TAK_SERVER_CA_CERT || config.takServer?.caCert,
     verifySsl: process.env.TAK_SERVER_VERIFY_SSL !== 'false'
   };
 
+  // A bare CoT port next to a REST URL means plain TCP streaming on the same host
+  if (!config.takServer.streamUrl && config.takServer.cotPort && config.takServer.url) {
+    try {
+      const host = new URL(config.takServer.url).hostname;
+      config.takServer.streamUrl = `tcp://${host}:${config.takServer.cotPort}`;
+    } catch {
+      // Invalid URL is reported by schema validation below
+    }
+  }
+
   config.mcp = {
     ...config.mcp,
     transport: (process.env.MCP_TRANSPORT as any) || config.mcp?.transport || 'stdio',
-    port: process.env.MCP_PORT ? parseInt(process.env.MCP_PORT) : config.mcp?.port
+    port: process.env.MCP_PORT ? parseInt(process.env.MCP_PORT) : config.mcp?.port,
+    allowedOrigins: process.env.MCP_ALLOWED_ORIGINS
+      ? process.env.MCP_ALLOWED_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean)
+      : config.mcp?.allowedOrigins
   };
 
   if (process.env.MCP_AUTH_ENABLED === 'true') {
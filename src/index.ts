@@ -1,10 +1,20 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
 import pino from 'pino';
 import { getConfig } from './config/index';
 import { TAKServerClient } from './clients/tak-server';
 import { toolRegistry } from './tools/registry';
+import { resourceRegistry } from './resources/registry';
+import { ResourceNotifier } from './resources/notifier';
 import { createHttpTransport } from './transports/http';
 import { createSSETransport } from './transports/sse';
 
@@ -25,10 +35,27 @@ async function main() {
   // Initialize TAK Server client
   const takClient = new TAKServerClient({
     url: config.takServer.url,
+    type: config.takServer.type,
+    streamUrl: config.takServer.streamUrl,
     apiToken: config.takServer.apiToken,
     clientCert: config.takServer.clientCert,
     clientKey: config.takServer.clientKey,
-    verifySsl: config.takServer.verifySsl
+    caCert: config.takServer.caCert,
+    verifySsl: config.takServer.verifySsl,
+    timeout: config.takServer.timeout,
+    takProtocol: config.takServer.takProtocol,
+    entityStore: config.tools.entityStore,
+    trackHistory: config.tools.trackHistory,
+    geofences: config.tools.geofences,
+    subscriptions: config.tools.subscriptions,
+    replays: config.tools.replays,
+    captures: config.tools.captures,
+    chat: config.tools.chat,
+    coordinateSystem: config.tools.geospatial?.coordinateSystem
+  });
+
+  takClient.on('error', (error) => {
+    logger.warn('TAK Server feed error:', error instanceof Error ? error.message : String(error));
   });
 
   // Test connection (optional - don't exit if it fails)
@@ -40,88 +67,150 @@ async function main() {
     logger.info('TAK Server connection will be retried when tools are called');
   }
 
-  // Create MCP server
-  const server = new Server(
-    {
-      name: 'tak-server-mcp',
-      vendor: 'skyfi',
-      version: '0.1.0',
-      description: 'Model Context Protocol server for TAK Server integration'
-    },
-    {
-      capabilities: {
-        tools: {}
-      }
-    }
-  );
+  try {
+    await takClient.geofences.open();
+  } catch (error) {
+    logger.warn('Failed to load geofences:', error instanceof Error ? error.message : String(error));
+  }
 
-  // Register tool handlers
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    const tools = toolRegistry.getEnabledTools(config.tools.enabledTools);
-    return { tools };
-  });
+  // Keep the local picture current so entity queries don't hit the server
+  if (config.tools.entityStore?.enabled !== false || config.tools.trackHistory?.enabled !== false) {
+    takClient.startLiveFeed().catch((error) => {
+      logger.warn('Live CoT feed unavailable, entity queries will use the REST API:', error instanceof Error ? error.message : String(error));
+    });
+  }
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const tool = toolRegistry.getTool(request.params.name);
-    if (!tool) {
-      throw new Error(`Tool not found: ${request.params.name}`);
-    }
+  const resourceContext = { takClient, logger: logger.child({ component: 'resources' }) };
+  const notifier = new ResourceNotifier(takClient, resourceContext.logger);
 
-    try {
-      const result = await tool.handler({
-        takClient,
-        params: request.params.arguments || {},
-        logger: logger.child({ tool: request.params.name })
-      });
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: typeof result === 'string' ? result : JSON.stringify(result, null, 2)
-          }
-        ]
-      };
-    } catch (error) {
-      logger.error(`Tool execution failed: ${request.params.name}`, error);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+  // Create an MCP server; the HTTP transport creates one per session
+  const createServer = (): Server => {
+    const server = new Server(
+      {
+        name: 'tak-server-mcp',
+        vendor: 'skyfi',
+        version: '0.1.0',
+        description: 'Model Context Protocol server for TAK Server integration'
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: {
+            subscribe: true,
+            listChanged: true
           }
-        ]
-      };
-    }
-  });
+        }
+      }
+    );
+
+    // Register tool handlers
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const tools = toolRegistry.getEnabledTools(config.tools.enabledTools);
+      return { tools };
+    });
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const tool = toolRegistry.getTool(request.params.name);
+      if (!tool) {
+        throw new Error(`Tool not found: ${request.params.name}`);
+      }
+
+      try {
+        const result = await tool.handler({
+          takClient,
+          params: request.params.arguments || {},
+          logger: logger.child({ tool: request.params.name })
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: typeof result === 'string' ? result : JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error(`Tool execution failed: ${request.params.name}`, error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            }
+          ]
+        };
+      }
+    });
+
+    // Register resource handlers
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      return resourceRegistry.listResources(resourceContext, request.params?.cursor);
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: resourceRegistry.getTemplates() };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const contents = await resourceRegistry.readResource(request.params.uri, resourceContext);
+      return { contents: [contents] };
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      notifier.subscribe(server, request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      notifier.unsubscribe(server, request.params.uri);
+      return {};
+    });
+
+    notifier.attach(server);
+    server.onclose = () => notifier.detach(server);
+    return server;
+  };
 
   // Select transport based on configuration
-  let transport;
+  let close: () => Promise<void>;
   switch (config.mcp.transport) {
-    case 'stdio':
+    case 'stdio': {
       logger.info('Using stdio transport');
-      transport = new StdioServerTransport();
+      const server = createServer();
+      await server.connect(new StdioServerTransport());
+      close = () => server.close();
       break;
-    case 'http':
+    }
+    case 'http': {
       logger.info(`Using HTTP transport on port ${config.mcp.port}`);
-      transport = await createHttpTransport(server, config);
+      const transport = await createHttpTransport(createServer, config, takClient);
+      close = () => transport.close();
       break;
-    case 'sse':
+    }
+    case 'sse': {
       logger.info(`Using SSE transport on port ${config.mcp.port}`);
-      transport = await createSSETransport(server, config);
+      const server = createServer();
+      const transport = await createSSETransport(server, config, takClient);
+      await server.connect(transport as any);
+      close = async () => {
+        await server.close();
+        await transport.close();
+      };
       break;
+    }
     default:
       throw new Error(`Unknown transport: ${config.mcp.transport}`);
   }
 
-  // Start server
-  await server.connect(transport as any);
   logger.info('TAK Server MCP is running');
 
   // Handle shutdown
   process.on('SIGINT', async () => {
     logger.info('Shutting down...');
-    await server.close();
+    notifier.close();
+    await takClient.disconnect();
+    await close();
     process.exit(0);
   });
 }
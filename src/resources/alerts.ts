@@ -0,0 +1,25 @@
+import { TAKResourceProvider } from './registry';
+import { jsonContents } from './contents';
+
+export const alertResources: TAKResourceProvider = {
+  name: 'alerts',
+  resources: [
+    {
+      uri: 'tak://alerts/active',
+      name: 'Active Alerts',
+      description: 'Active emergency alerts and recent geofence breaches',
+      mimeType: 'application/json'
+    }
+  ],
+
+  async read(uri, { takClient }) {
+    if (uri !== 'tak://alerts/active') return undefined;
+
+    const alerts = await takClient.getAlerts(true);
+    return jsonContents(uri, {
+      count: alerts.length,
+      alerts,
+      geofenceAlerts: takClient.geofences.alerts()
+    });
+  }
+};
@@ -0,0 +1,9 @@
+import { TextResourceContents } from '@modelcontextprotocol/sdk/types.js';
+
+export function jsonContents(uri: string, data: any): TextResourceContents {
+  return {
+    uri,
+    mimeType: 'application/json',
+    text: JSON.stringify(data, null, 2)
+  };
+}
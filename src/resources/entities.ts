@@ -0,0 +1,53 @@
+import { TAKResourceProvider } from './registry';
+import { jsonContents } from './contents';
+
+const ENTITY_URI = /^tak:\/\/entity\/(.+)$/;
+
+export function entityUri(uid: string): string {
+  return `tak://entity/${encodeURIComponent(uid)}`;
+}
+
+export const entityResources: TAKResourceProvider = {
+  name: 'entities',
+  resources: [
+    {
+      uri: 'tak://entities',
+      name: 'Entities',
+      description: 'Current state of every entity in the local picture',
+      mimeType: 'application/json'
+    }
+  ],
+  templates: [
+    {
+      uriTemplate: 'tak://entity/{uid}',
+      name: 'Entity',
+      description: 'Latest position, status and detail of a single entity by UID',
+      mimeType: 'application/json'
+    }
+  ],
+
+  async list({ takClient }) {
+    return takClient.entities.query().map(entity => ({
+      uri: entityUri(entity.uid),
+      name: entity.callsign,
+      description: `${entity.type} (${entity.team})`,
+      mimeType: 'application/json'
+    }));
+  },
+
+  async read(uri, { takClient }) {
+    if (uri === 'tak://entities') {
+      const entities = await takClient.getEntities();
+      return jsonContents(uri, { count: entities.length, entities });
+    }
+
+    const match = uri.match(ENTITY_URI);
+    if (!match) return undefined;
+
+    const uid = decodeURIComponent(match[1]);
+    return jsonContents(uri, {
+      entity: await takClient.getEntity(uid),
+      detail: takClient.entities.getEvent(uid)?.detail
+    });
+  }
+};
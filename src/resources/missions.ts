@@ -0,0 +1,75 @@
+import { TAKResourceProvider } from './registry';
+import { jsonContents } from './contents';
+
+const MISSION_URI = /^tak:\/\/mission\/([^/?]+)$/;
+const MISSION_CHANGES_URI = /^tak:\/\/mission\/([^/?]+)\/changes(?:\?since=([^&]+))?$/;
+
+// Window used when a changes URI does not name a start time
+const DEFAULT_CHANGE_WINDOW = 24 * 60 * 60 * 1000;
+
+export function missionUri(name: string): string {
+  return `tak://mission/${encodeURIComponent(name)}`;
+}
+
+export function missionChangesUri(name: string): string {
+  return `${missionUri(name)}/changes`;
+}
+
+export const missionResources: TAKResourceProvider = {
+  name: 'missions',
+  resources: [
+    {
+      uri: 'tak://missions',
+      name: 'Missions',
+      description: 'Missions (data syncs) on the TAK Server',
+      mimeType: 'application/json'
+    }
+  ],
+  templates: [
+    {
+      uriTemplate: 'tak://mission/{name}',
+      name: 'Mission',
+      description: 'A single mission with its members and contents',
+      mimeType: 'application/json'
+    },
+    {
+      uriTemplate: 'tak://mission/{name}/changes{?since}',
+      name: 'Mission Changes',
+      description: 'Content, keyword and log changes in a mission since a time (default: the last 24 hours)',
+      mimeType: 'application/json'
+    }
+  ],
+
+  async list({ takClient }) {
+    const missions = await takClient.getMissions();
+    return missions.map(mission => ({
+      uri: missionUri(mission.name),
+      name: mission.name,
+      description: mission.description,
+      mimeType: 'application/json'
+    }));
+  },
+
+  async read(uri, { takClient }) {
+    if (uri === 'tak://missions') {
+      const missions = await takClient.getMissions();
+      return jsonContents(uri, { count: missions.length, missions });
+    }
+
+    const changes = uri.match(MISSION_CHANGES_URI);
+    if (changes) {
+      const name = decodeURIComponent(changes[1]);
+      const since = changes[2] ? new Date(decodeURIComponent(changes[2])) : new Date(Date.now() - DEFAULT_CHANGE_WINDOW);
+      if (isNaN(since.getTime())) {
+        throw new Error(`Invalid since time in ${uri}`);
+      }
+      const list = await takClient.getMissionChanges(name, since);
+      return jsonContents(uri, { missionName: name, since, count: list.length, changes: list });
+    }
+
+    const match = uri.match(MISSION_URI);
+    if (!match) return undefined;
+
+    return jsonContents(uri, await takClient.getMission(decodeURIComponent(match[1])));
+  }
+};
@@ -0,0 +1,215 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Logger } from 'pino';
+import { TAKServerClient } from '../clients/tak-server';
+import { CotEvent } from '../types/cot';
+import { TAKEntity } from '../types/tak';
+import { entityUri } from './entities';
+import { missionChangesUri, missionUri } from './missions';
+
+const ALERT_TYPES = ['b-a-o', 'b-a-g'];
+
+// TAK Server sends mission change CoT to the mission's subscribers
+const MISSION_CHANGE_TYPE = 't-x-m-c';
+
+// Mission resources a subscription may name, changes or not
+const MISSION_URI = /^tak:\/\/mission\/([^/?]+)(?:\/changes)?$/;
+
+interface SessionState {
+  // Subscribed URIs keyed by the URI without its query, which is what changes are reported on
+  subscribed: Map<string, Set<string>>;
+  pending: Set<string>;
+  listChanged: boolean;
+}
+
+/**
+ * Translates changes in the live picture into MCP resource notifications for
+ * every attached server (one per MCP session). Updates are coalesced per URI
+ * and flushed at most once per interval, and only URIs a session subscribed
+ * to are reported. A subscription to a URI with a query (e.g.
+ * tak://mission/{name}/changes?since=...) is notified when the URI without
+ * the query changes.
+ *
+ * Missions change on the server as well as through this client: mission
+ * change CoT on the feed is reported as it arrives, and subscribed missions
+ * are polled for changes in case the feed is not subscribed to them.
+ */
+export class ResourceNotifier {
+  private sessions = new Map<Server, SessionState>();
+  private knownEntities = new Set<string>();
+  private flushTimer?: NodeJS.Timeout;
+  private pollTimer: NodeJS.Timeout;
+  private polling = false;
+  // Latest change seen per subscribed mission
+  private missionCursors = new Map<string, Date>();
+  private detachListeners: () => void;
+
+  constructor(
+    private takClient: TAKServerClient,
+    private logger: Logger,
+    private interval: number = 1000,
+    missionPollInterval: number = 30000
+  ) {
+    const onEntityUpdate = (entity: TAKEntity) => {
+      const added = !this.knownEntities.has(entity.uid);
+      if (added) this.knownEntities.add(entity.uid);
+      this.changed([entityUri(entity.uid), 'tak://entities'], added);
+    };
+
+    const onEntityRemove = (uid: string) => {
+      this.knownEntities.delete(uid);
+      this.changed([entityUri(uid), 'tak://entities'], true);
+    };
+
+    const onCotEvent = (event: CotEvent) => {
+      if (ALERT_TYPES.some(type => event.type.startsWith(type))) {
+        this.changed(['tak://alerts/active']);
+      }
+      const mission = event.detail?.mission?.name;
+      if (event.type.startsWith(MISSION_CHANGE_TYPE) && mission !== undefined) {
+        onMissionChanged(String(mission));
+      }
+    };
+
+    // Geofence alerts may not echo back over the feed
+    const onGeofenceAlert = () => this.changed(['tak://alerts/active']);
+
+    const onMissionChanged = (name: string) =>
+      this.changed(['tak://missions', missionUri(name), missionChangesUri(name)], true);
+
+    takClient.entities.on('update', onEntityUpdate);
+    takClient.entities.on('remove', onEntityRemove);
+    takClient.on('cot-event', onCotEvent);
+    takClient.geofences.on('alert', onGeofenceAlert);
+    takClient.on('mission-changed', onMissionChanged);
+
+    this.detachListeners = () => {
+      takClient.entities.off('update', onEntityUpdate);
+      takClient.entities.off('remove', onEntityRemove);
+      takClient.off('cot-event', onCotEvent);
+      takClient.geofences.off('alert', onGeofenceAlert);
+      takClient.off('mission-changed', onMissionChanged);
+    };
+
+    this.pollTimer = setInterval(() => this.pollMissions(), missionPollInterval);
+    this.pollTimer.unref();
+  }
+
+  attach(server: Server): void {
+    this.sessions.set(server, { subscribed: new Map(), pending: new Set(), listChanged: false });
+  }
+
+  detach(server: Server): void {
+    this.sessions.delete(server);
+  }
+
+  subscribe(server: Server, uri: string): void {
+    const session = this.sessions.get(server);
+    if (!session) return;
+    const key = withoutQuery(uri);
+    const uris = session.subscribed.get(key) || new Set<string>();
+    uris.add(uri);
+    session.subscribed.set(key, uris);
+  }
+
+  unsubscribe(server: Server, uri: string): void {
+    const session = this.sessions.get(server);
+    if (!session) return;
+    const key = withoutQuery(uri);
+    const uris = session.subscribed.get(key);
+    uris?.delete(uri);
+    if (uris?.size === 0) session.subscribed.delete(key);
+    session.pending.delete(uri);
+  }
+
+  close(): void {
+    this.detachListeners();
+    clearInterval(this.pollTimer);
+    this.sessions.clear();
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+
+  private changed(uris: string[], listChanged: boolean = false): void {
+    let due = false;
+    for (const session of this.sessions.values()) {
+      for (const uri of uris) {
+        for (const subscribed of session.subscribed.get(uri) || []) {
+          session.pending.add(subscribed);
+        }
+      }
+      if (listChanged) session.listChanged = true;
+      due = due || session.pending.size > 0 || session.listChanged;
+    }
+
+    if (due && !this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.interval);
+      this.flushTimer.unref();
+    }
+  }
+
+  private async pollMissions(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const missions = new Set<string>();
+      for (const session of this.sessions.values()) {
+        for (const key of session.subscribed.keys()) {
+          const match = key.match(MISSION_URI);
+          if (match) missions.add(decodeURIComponent(match[1]));
+        }
+      }
+
+      for (const name of this.missionCursors.keys()) {
+        if (!missions.has(name)) this.missionCursors.delete(name);
+      }
+
+      for (const name of missions) {
+        // Start from the first poll so earlier history is not reported as new
+        const since = this.missionCursors.get(name) || new Date();
+        this.missionCursors.set(name, since);
+
+        try {
+          const changes = (await this.takClient.getMissionChanges(name, since))
+            .filter(change => new Date(change.timestamp).getTime() > since.getTime());
+          if (changes.length === 0) continue;
+
+          const latest = Math.max(...changes.map(change => new Date(change.timestamp).getTime()));
+          this.missionCursors.set(name, new Date(latest));
+          this.changed(['tak://missions', missionUri(name), missionChangesUri(name)], true);
+        } catch (error) {
+          this.logger.debug({ mission: name, error: error instanceof Error ? error.message : error }, 'Failed to poll mission changes');
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private flush(): void {
+    this.flushTimer = undefined;
+
+    for (const [server, session] of this.sessions) {
+      for (const uri of session.pending) {
+        server.sendResourceUpdated({ uri }).catch((error) => {
+          this.logger.debug({ uri, error: error.message }, 'Failed to send resource update');
+        });
+      }
+      session.pending.clear();
+
+      if (session.listChanged) {
+        session.listChanged = false;
+        server.sendResourceListChanged().catch((error) => {
+          this.logger.debug({ error: error.message }, 'Failed to send resource list change');
+        });
+      }
+    }
+  }
+}
+
+function withoutQuery(uri: string): string {
+  const query = uri.indexOf('?');
+  return query === -1 ? uri : uri.slice(0, query);
+}
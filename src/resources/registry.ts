@@ -0,0 +1,75 @@
+import { Resource, ResourceTemplate, TextResourceContents } from '@modelcontextprotocol/sdk/types.js';
+import { TAKServerClient } from '../clients/tak-server';
+import { Logger } from 'pino';
+
+// Import all resource providers
+import { entityResources } from './entities';
+import { alertResources } from './alerts';
+import { missionResources } from './missions';
+
+export interface ResourceContext {
+  takClient: TAKServerClient;
+  logger: Logger;
+}
+
+export interface TAKResourceProvider {
+  name: string;
+  // Fixed resources such as tak://alerts/active
+  resources?: Resource[];
+  templates?: ResourceTemplate[];
+  // Concrete instances of the templates in the current picture
+  list?: (context: ResourceContext) => Promise<Resource[]>;
+  // Returns undefined when the URI does not belong to this provider
+  read: (uri: string, context: ResourceContext) => Promise<TextResourceContents | undefined>;
+}
+
+const PAGE_SIZE = 500;
+
+class ResourceRegistry {
+  private providers: TAKResourceProvider[] = [];
+
+  constructor() {
+    // Register all providers
+    this.registerProvider(entityResources);
+    this.registerProvider(alertResources);
+    this.registerProvider(missionResources);
+  }
+
+  registerProvider(provider: TAKResourceProvider): void {
+    this.providers.push(provider);
+  }
+
+  getTemplates(): ResourceTemplate[] {
+    return this.providers.flatMap(provider => provider.templates || []);
+  }
+
+  async listResources(context: ResourceContext, cursor?: string): Promise<{ resources: Resource[]; nextCursor?: string }> {
+    const resources: Resource[] = [];
+    for (const provider of this.providers) {
+      resources.push(...(provider.resources || []));
+      if (provider.list) {
+        try {
+          resources.push(...await provider.list(context));
+        } catch (error) {
+          // A server without e.g. a mission API still lists everything else
+          context.logger.debug({ provider: provider.name, error: error instanceof Error ? error.message : error }, 'Resource listing failed');
+        }
+      }
+    }
+
+    const offset = cursor ? parseInt(cursor, 10) || 0 : 0;
+    const page = resources.slice(offset, offset + PAGE_SIZE);
+    const next = offset + PAGE_SIZE;
+    return { resources: page, nextCursor: next < resources.length ? String(next) : undefined };
+  }
+
+  async readResource(uri: string, context: ResourceContext): Promise<TextResourceContents> {
+    for (const provider of this.providers) {
+      const contents = await provider.read(uri, context);
+      if (contents) return contents;
+    }
+    throw new Error(`Resource not found: ${uri}`);
+  }
+}
+
+export const resourceRegistry = new ResourceRegistry();
@@ -0,0 +1,300 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { CotEvent, CotMessage, COT_TYPES } from '../types/cot';
+
+export const ALL_CHAT_ROOMS = 'All Chat Rooms';
+
+export interface ChatStoreOptions {
+  // Our own UID, so direct messages to us are filed under the sender
+  uid?: string;
+  maxMessagesPerRoom?: number;
+}
+
+export interface ChatReceipt {
+  uid: string;
+  time: Date;
+}
+
+export interface ChatMessage {
+  id: string;
+  // Room key: All Chat Rooms, a group ID, or the other party's UID for direct chats
+  roomId: string;
+  room: string;
+  senderUid: string;
+  senderCallsign: string;
+  text: string;
+  time: Date;
+  // UIDs the chat group names besides the sender
+  recipients: string[];
+  direction: 'sent' | 'received';
+  point?: [number, number]; // [lat, lon]
+  deliveredTo: ChatReceipt[];
+  readBy: ChatReceipt[];
+}
+
+export interface ChatRoomSummary {
+  roomId: string;
+  room: string;
+  messageCount: number;
+  lastMessageTime: Date;
+}
+
+export type ChatRecipient =
+  | { kind: 'all' }
+  | { kind: 'group'; name: string; id?: string; members?: string[] }
+  | { kind: 'contact'; uid: string; callsign?: string };
+
+export interface ChatSender {
+  uid: string;
+  callsign: string;
+  point?: [number, number]; // [lat, lon]
+}
+
+/**
+ * GeoChat history per room, built from b-t-f traffic on the live feed and
+ * from messages we send. Delivery (b-t-f-d) and read (b-t-f-r) receipts are
+ * attached to the message they acknowledge.
+ */
+export class ChatStore extends EventEmitter {
+  private rooms = new Map<string, { room: string; messages: ChatMessage[] }>();
+  private messages = new Map<string, ChatMessage>();
+  private options: Required<Omit<ChatStoreOptions, 'uid'>> & { uid?: string };
+
+  constructor(options: ChatStoreOptions = {}) {
+    super();
+    this.options = {
+      uid: options.uid,
+      maxMessagesPerRoom: options.maxMessagesPerRoom ?? 500
+    };
+  }
+
+  get size(): number {
+    return this.messages.size;
+  }
+
+  // Returns the message a chat event created or updated, if any
+  record(event: CotEvent): ChatMessage | undefined {
+    if (event.type === COT_TYPES.GEOCHAT) {
+      const message = parseGeoChat(event, this.options.uid);
+      return message ? this.add(message) : undefined;
+    }
+
+    if (event.type === COT_TYPES.GEOCHAT_DELIVERED || event.type === COT_TYPES.GEOCHAT_READ) {
+      return this.applyReceipt(event);
+    }
+
+    return undefined;
+  }
+
+  add(message: ChatMessage): ChatMessage {
+    // The server echoes our own messages back; keep the first copy
+    const existing = this.messages.get(message.id);
+    if (existing) return existing;
+
+    let room = this.rooms.get(message.roomId);
+    if (!room) {
+      room = { room: message.room, messages: [] };
+      this.rooms.set(message.roomId, room);
+    }
+
+    // Keep rooms sorted by time; messages almost always arrive in order
+    let index = room.messages.length;
+    while (index > 0 && room.messages[index - 1].time > message.time) index--;
+    room.messages.splice(index, 0, message);
+    this.messages.set(message.id, message);
+
+    while (room.messages.length > this.options.maxMessagesPerRoom) {
+      const dropped = room.messages.shift()!;
+      this.messages.delete(dropped.id);
+    }
+
+    this.emit('message', message);
+    return message;
+  }
+
+  get(id: string): ChatMessage | undefined {
+    return this.messages.get(id);
+  }
+
+  listRooms(): ChatRoomSummary[] {
+    return Array.from(this.rooms.entries())
+      .filter(([, room]) => room.messages.length > 0)
+      .map(([roomId, room]) => ({
+        roomId,
+        room: room.room,
+        messageCount: room.messages.length,
+        lastMessageTime: room.messages[room.messages.length - 1].time
+      }))
+      .sort((a, b) => b.lastMessageTime.getTime() - a.lastMessageTime.getTime());
+  }
+
+  // Newest `limit` messages of a room (by ID or display name), oldest first
+  history(room: string, options: { since?: Date; limit?: number } = {}): ChatMessage[] {
+    const entry = this.rooms.get(room) ||
+      Array.from(this.rooms.values()).find(candidate => candidate.room.toLowerCase() === room.toLowerCase());
+    if (!entry) return [];
+
+    const messages = options.since
+      ? entry.messages.filter(message => message.time >= options.since!)
+      : entry.messages;
+    return options.limit ? messages.slice(-options.limit) : messages.slice();
+  }
+
+  clear(): void {
+    this.rooms.clear();
+    this.messages.clear();
+  }
+
+  private applyReceipt(event: CotEvent): ChatMessage | undefined {
+    const detail = event.detail || {};
+    const receipt = detail.__chatreceipt || detail.__chat || {};
+    const message = this.messages.get(String(receipt.messageId ?? event.uid));
+    if (!message) return undefined;
+
+    const uid = String(detail.link?.uid ?? receipt.chatgrp?.uid0 ?? '');
+    if (!uid) return undefined;
+
+    const list = event.type === COT_TYPES.GEOCHAT_READ ? message.readBy : message.deliveredTo;
+    if (!list.some(existing => existing.uid === uid)) {
+      list.push({ uid, time: event.time });
+    }
+    // A read receipt implies delivery
+    if (event.type === COT_TYPES.GEOCHAT_READ && !message.deliveredTo.some(existing => existing.uid === uid)) {
+      message.deliveredTo.push({ uid, time: event.time });
+    }
+
+    this.emit('receipt', message, event.type === COT_TYPES.GEOCHAT_READ ? 'read' : 'delivered', uid);
+    return message;
+  }
+}
+
+export function parseGeoChat(event: CotEvent, ownUid?: string): ChatMessage | undefined {
+  const chat = event.detail?.__chat;
+  if (!chat) return undefined;
+
+  const group = chat.chatgrp || {};
+  const remarks = event.detail?.remarks;
+  const text = typeof remarks === 'object' && remarks !== null ? remarks['#text'] : remarks;
+
+  const senderUid = String(group.uid0 ?? event.detail?.link?.uid ?? event.uid);
+  let roomId = String(chat.id ?? chat.chatroom ?? ALL_CHAT_ROOMS);
+  let room = String(chat.chatroom ?? roomId);
+
+  // A direct message to us belongs in the conversation with its sender
+  if (ownUid && roomId === ownUid) {
+    roomId = senderUid;
+    room = String(chat.senderCallsign ?? senderUid);
+  }
+
+  const recipients = Object.keys(group)
+    .filter(key => /^uid\d+$/.test(key) && key !== 'uid0')
+    .map(key => String(group[key]));
+
+  return {
+    id: String(chat.messageId ?? event.uid),
+    roomId,
+    room,
+    senderUid,
+    senderCallsign: String(chat.senderCallsign ?? senderUid),
+    text: text === undefined ? '' : String(text),
+    time: event.time,
+    recipients,
+    direction: ownUid && senderUid === ownUid ? 'sent' : 'received',
+    point: event.point.lat || event.point.lon ? [event.point.lat, event.point.lon] : undefined,
+    deliveredTo: [],
+    readBy: []
+  };
+}
+
+// b-t-f event in the layout ATAK and WinTAK produce
+export function buildGeoChatMessage(
+  sender: ChatSender,
+  to: ChatRecipient,
+  text: string,
+  messageId: string = uuidv4(),
+  now: Date = new Date()
+): CotMessage {
+  let room: string;
+  let roomId: string;
+  let parent: string;
+  let members: string[];
+  const destinations: Array<{ uid?: string; callsign?: string }> = [];
+
+  switch (to.kind) {
+    case 'all':
+      room = ALL_CHAT_ROOMS;
+      roomId = ALL_CHAT_ROOMS;
+      parent = 'RootContactGroup';
+      members = [ALL_CHAT_ROOMS];
+      break;
+    case 'group':
+      room = to.name;
+      roomId = to.id || to.name;
+      // Team rooms (e.g. "Cyan") have no member list; user groups do
+      parent = to.members?.length ? 'UserGroups' : 'TeamGroups';
+      members = to.members?.length ? to.members : [roomId];
+      destinations.push(...(to.members || []).map(uid => ({ uid })));
+      break;
+    case 'contact':
+      room = to.callsign || to.uid;
+      roomId = to.uid;
+      parent = 'RootContactGroup';
+      members = [to.uid];
+      destinations.push(to.callsign ? { callsign: to.callsign } : { uid: to.uid });
+      break;
+  }
+
+  const chatgrp: Record<string, string> = { uid0: sender.uid, id: roomId };
+  members.forEach((uid, index) => {
+    chatgrp[`uid${index + 1}`] = uid;
+  });
+
+  const detail: Record<string, any> = {
+    __chat: {
+      _attributes: {
+        parent,
+        groupOwner: 'false',
+        messageId,
+        chatroom: room,
+        id: roomId,
+        senderCallsign: sender.callsign
+      },
+      chatgrp: { _attributes: chatgrp }
+    },
+    link: {
+      _attributes: { uid: sender.uid, type: 'a-f-G-U-C', relation: 'p-p' }
+    },
+    remarks: {
+      _attributes: { source: `BAO.F.ATAK.${sender.uid}`, to: roomId, time: now.toISOString() },
+      _text: text
+    }
+  };
+
+  if (destinations.length > 0) {
+    detail.marti = { dest: destinations.map(destination => ({ _attributes: destination })) };
+  }
+
+  return {
+    event: {
+      _attributes: {
+        version: '2.0',
+        uid: `GeoChat.${sender.uid}.${roomId}.${messageId}`,
+        type: COT_TYPES.GEOCHAT,
+        time: now.toISOString(),
+        start: now.toISOString(),
+        stale: new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+        how: 'h-g-i-g-o'
+      },
+      point: {
+        _attributes: {
+          lat: String(sender.point?.[0] ?? 0),
+          lon: String(sender.point?.[1] ?? 0),
+          hae: '9999999',
+          ce: '9999999',
+          le: '9999999'
+        }
+      },
+      detail
+    }
+  };
+}
@@ -0,0 +1,125 @@
+import mgrs from 'mgrs';
+import { formatCoordinate, fromUtm, parseCoordinate, toPosition, toUtm, utmZone } from './coordinates';
+
+// Washington Monument, Sydney Opera House, Bergen and Longyearbyen
+const WASHINGTON: [number, number] = [38.8895, -77.0353];
+const SYDNEY: [number, number] = [-33.8568, 151.2153];
+const BERGEN: [number, number] = [60.39, 5.32];
+const LONGYEARBYEN: [number, number] = [78.22, 15.65];
+
+function expectNear([lat, lon]: [number, number], [expectedLat, expectedLon]: [number, number], digits = 5) {
+  expect(lat).toBeCloseTo(expectedLat, digits);
+  expect(lon).toBeCloseTo(expectedLon, digits);
+}
+
+describe('UTM', () => {
+  it('puts the equator on a central meridian at 500000mE 0mN', () => {
+    expect(toUtm(0, 3)).toEqual({ zone: 31, band: 'N', easting: 500000, northing: 0 });
+    expect(toUtm(0, -177)).toMatchObject({ zone: 1, easting: 500000, northing: 0 });
+  });
+
+  it('matches published grid positions', () => {
+    const washington = toUtm(...WASHINGTON);
+    expect(washington).toMatchObject({ zone: 18, band: 'S' });
+    expect(Math.abs(washington.easting - 323480)).toBeLessThan(10);
+    expect(Math.abs(washington.northing - 4306480)).toBeLessThan(10);
+
+    const sydney = toUtm(...SYDNEY);
+    expect(sydney).toMatchObject({ zone: 56, band: 'H' });
+    expect(Math.abs(sydney.easting - 334900)).toBeLessThan(10);
+    expect(Math.abs(sydney.northing - 6252290)).toBeLessThan(10);
+  });
+
+  it('agrees with the MGRS library to the metre', () => {
+    for (const [lat, lon] of [WASHINGTON, SYDNEY, BERGEN, LONGYEARBYEN]) {
+      const utm = toUtm(lat, lon);
+      const grid = mgrs.forward([lon, lat], 5);
+      expect(grid.startsWith(`${utm.zone}${utm.band}`)).toBe(true);
+      expect(Math.abs(Number(grid.slice(-10, -5)) - utm.easting % 100000)).toBeLessThan(1);
+      expect(Math.abs(Number(grid.slice(-5)) - utm.northing % 100000)).toBeLessThan(1);
+    }
+  });
+
+  it.each([WASHINGTON, SYDNEY, BERGEN, LONGYEARBYEN])('round-trips %p', (lat, lon) => {
+    const utm = toUtm(lat, lon);
+    expectNear(fromUtm(utm.zone, utm.band, utm.easting, utm.northing), [lat, lon], 6);
+  });
+
+  it('is undefined beyond 80°S and 84°N', () => {
+    expect(() => toUtm(84.5, 0)).toThrow(/UTM is undefined/);
+    expect(() => toUtm(-80.5, 0)).toThrow(/UTM is undefined/);
+    expect(() => fromUtm(61, 'N', 500000, 0)).toThrow(/Invalid UTM zone/);
+  });
+});
+
+describe('utmZone', () => {
+  it('uses 6° zones outside the exceptions', () => {
+    expect(utmZone(0, -180)).toBe(1);
+    expect(utmZone(0, 179.9)).toBe(60);
+    expect(utmZone(60, 2)).toBe(31);
+  });
+
+  it('widens zone 32 over southwest Norway', () => {
+    expect(utmZone(60, 5)).toBe(32);
+    expect(utmZone(55.9, 5)).toBe(31);
+    expect(formatCoordinate(...BERGEN, 'mgrs').startsWith('32V ')).toBe(true);
+  });
+
+  it('uses the odd zones 31, 33, 35 and 37 over Svalbard', () => {
+    expect([8, 10, 25, 40].map(lon => utmZone(78, lon))).toEqual([31, 33, 35, 37]);
+    expect(formatCoordinate(...LONGYEARBYEN, 'utm').startsWith('33X ')).toBe(true);
+    expect(formatCoordinate(...LONGYEARBYEN, 'mgrs').startsWith('33X ')).toBe(true);
+  });
+});
+
+describe('formatCoordinate', () => {
+  it('writes each notation', () => {
+    expect(formatCoordinate(...WASHINGTON, 'wgs84')).toBe('38.889500, -77.035300');
+    expect(formatCoordinate(...WASHINGTON, 'dms')).toBe('38°53\'22.2"N 77°02\'07.1"W');
+    expect(formatCoordinate(...WASHINGTON, 'utm')).toMatch(/^18S 3234\d\dmE 43064\d\dmN$/);
+    expect(formatCoordinate(...WASHINGTON, 'mgrs')).toMatch(/^18S UJ 234\d\d 064\d\d$/);
+    expect(formatCoordinate(...SYDNEY, 'dms')).toBe('33°51\'24.5"S 151°12\'55.1"E');
+  });
+
+  it('omits grid notations near the poles', () => {
+    expect(() => formatCoordinate(89, 0, 'mgrs')).toThrow(/MGRS is undefined/);
+    expect(toPosition(89, 0, 'mgrs')).toEqual({ lat: 89, lon: 0 });
+    expect(toPosition(...WASHINGTON, 'utm', 12)).toMatchObject({ alt: 12, utm: formatCoordinate(...WASHINGTON, 'utm') });
+  });
+});
+
+describe('parseCoordinate', () => {
+  it('reads arrays, objects and decimal degrees', () => {
+    expect(parseCoordinate([38.8895, -77.0353])).toEqual(WASHINGTON);
+    expect(parseCoordinate({ lat: '38.8895', lon: -77.0353 })).toEqual(WASHINGTON);
+    expect(parseCoordinate('38.8895, -77.0353')).toEqual(WASHINGTON);
+    expect(parseCoordinate('-33.8568 151.2153')).toEqual(SYDNEY);
+  });
+
+  it('reads DMS with hemisphere letters before or after', () => {
+    const expected: [number, number] = [34 + 3 / 60 + 8 / 3600, -(118 + 14 / 60 + 37 / 3600)];
+    expectNear(parseCoordinate('34°03\'08"N 118°14\'37"W'), expected, 9);
+    expectNear(parseCoordinate('N 34 03 08, W 118 14 37'), expected, 9);
+    expectNear(parseCoordinate('33°51\'24.5"S 151°12\'55.1"E'), SYDNEY, 4);
+  });
+
+  it('reads formatted MGRS and UTM back to the same point', () => {
+    for (const point of [WASHINGTON, SYDNEY, BERGEN, LONGYEARBYEN]) {
+      expectNear(parseCoordinate(formatCoordinate(...point, 'utm')), point, 4);
+      expectNear(parseCoordinate(formatCoordinate(...point, 'mgrs')), point, 4);
+    }
+  });
+
+  it('accepts MGRS with or without spaces and at lower precision', () => {
+    const spaced = parseCoordinate('18S UJ 23478 06483');
+    expectNear(parseCoordinate('18SUJ2347806483'), spaced, 9);
+    expectNear(parseCoordinate('18S UJ 234 064'), spaced, 2);
+  });
+
+  it('rejects malformed and out-of-range input', () => {
+    expect(() => parseCoordinate('18S UJ 2347 064')).toThrow(/Invalid MGRS/);
+    expect(() => parseCoordinate('91, 0')).toThrow(/Invalid coordinates/);
+    expect(() => parseCoordinate('somewhere')).toThrow(/Unrecognized coordinates/);
+    expect(() => parseCoordinate([1, 2, 3])).toThrow(/Invalid coordinates/);
+  });
+});
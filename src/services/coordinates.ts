@@ -0,0 +1,268 @@
+import mgrs from 'mgrs';
+
+// How positions are written in tool output, next to decimal degrees
+export type CoordinateSystem = 'wgs84' | 'mgrs' | 'utm' | 'dms';
+
+export interface Position {
+  lat: number;
+  lon: number;
+  alt?: number;
+  mgrs?: string;
+  utm?: string;
+  dms?: string;
+}
+
+// WGS84 ellipsoid and UTM scale factor
+const A = 6378137;
+const F = 1 / 298.257223563;
+const E2 = F * (2 - F);
+const EP2 = E2 / (1 - E2);
+const K0 = 0.9996;
+
+// Latitude bands C-X, 8° each from 80°S (X is 12°)
+const BANDS = 'CDEFGHJKLMNPQRSTUVWX';
+
+const MGRS_PATTERN = /^(\d{1,2})\s*([C-HJ-NP-X])\s*([A-HJ-NP-Z]{2})\s*(\d*)\s*(\d*)$/i;
+const UTM_PATTERN = /^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*(?:m\s*)?E?\s*[,\s]\s*(\d+(?:\.\d+)?)\s*(?:m\s*)?N?$/i;
+
+const NOTATION_EXAMPLES = 'a string such as "34.0522, -118.2437", ' +
+  '"34°03\'08"N 118°14\'37"W", "11S LT 85000 06000" (MGRS) or "11S 385000 3768000" (UTM)';
+
+/**
+ * JSON schema for a location parameter: a [lat, lon] array, or a string in
+ * decimal degrees, DMS, MGRS or UTM.
+ */
+export function coordinateSchema(description: string): Record<string, any> {
+  return {
+    type: ['array', 'string'],
+    items: { type: 'number' },
+    minItems: 2,
+    maxItems: 2,
+    description: `${description}: [lat, lon], or ${NOTATION_EXAMPLES}`
+  };
+}
+
+// Same as coordinateSchema for parameters written as { lat, lon, alt }
+export function locationSchema(description: string): Record<string, any> {
+  return {
+    type: ['object', 'string'],
+    properties: {
+      lat: { type: 'number', minimum: -90, maximum: 90 },
+      lon: { type: 'number', minimum: -180, maximum: 180 },
+      alt: { type: 'number', description: 'Altitude in meters HAE' }
+    },
+    required: ['lat', 'lon'],
+    description: `${description}: { lat, lon, alt? }, or ${NOTATION_EXAMPLES}`
+  };
+}
+
+function checked(lat: number, lon: number, input: unknown): [number, number] {
+  if (!isFinite(lat) || !isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    throw new Error(`Invalid coordinates: ${typeof input === 'string' ? input : JSON.stringify(input)}`);
+  }
+  return [lat, lon];
+}
+
+/**
+ * Any supported location notation to [lat, lon]: [lat, lon] arrays,
+ * { lat, lon } objects, and strings in decimal degrees, degrees-minutes-seconds,
+ * MGRS or UTM.
+ */
+export function parseCoordinate(value: unknown): [number, number] {
+  if (Array.isArray(value) && value.length === 2) {
+    return checked(Number(value[0]), Number(value[1]), value);
+  }
+  if (value && typeof value === 'object' && 'lat' in value && 'lon' in value) {
+    const point = value as { lat: unknown; lon: unknown };
+    return checked(Number(point.lat), Number(point.lon), value);
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`Invalid coordinates: ${JSON.stringify(value)}`);
+  }
+
+  const text = value.trim();
+
+  const grid = text.match(MGRS_PATTERN);
+  if (grid) {
+    const [, zone, band, square, easting, northing] = grid;
+    // Easting and northing may be written as one run of digits
+    const digits = northing ? easting + northing : easting;
+    if (digits.length % 2 !== 0 || digits.length > 10) {
+      throw new Error(`Invalid MGRS grid reference: ${text}`);
+    }
+    const [lon, lat] = mgrs.toPoint(`${zone}${band}${square}${digits}`.toUpperCase());
+    return checked(lat, lon, text);
+  }
+
+  const utm = text.match(UTM_PATTERN);
+  if (utm) {
+    const [, zone, band, easting, northing] = utm;
+    return checked(...fromUtm(Number(zone), band.toUpperCase(), Number(easting), Number(northing)), text);
+  }
+
+  return parseDegrees(text);
+}
+
+// Parses each element of a list of locations
+export function parseCoordinates(values: unknown[]): Array<[number, number]> {
+  return values.map(parseCoordinate);
+}
+
+// Decimal degrees or DMS, latitude first, hemisphere letters before or after each half
+function parseDegrees(text: string): [number, number] {
+  const upper = text.toUpperCase();
+  let halves: Array<{ value: string; hemisphere?: string }>;
+
+  const lettered = upper.match(/^([NS])?\s*([^NSEW]+?)\s*([NS])?\s*[,;]?\s*([EW])?\s*([^NSEW]+?)\s*([EW])?$/);
+  if (lettered && (lettered[1] || lettered[3]) && (lettered[4] || lettered[6])) {
+    halves = [
+      { value: lettered[2], hemisphere: lettered[1] || lettered[3] },
+      { value: lettered[5], hemisphere: lettered[4] || lettered[6] }
+    ];
+  } else if (/[,;]/.test(upper)) {
+    halves = upper.split(/[,;]/).map(value => ({ value }));
+  } else {
+    // "34.05 -118.24" has nothing but whitespace between the halves
+    halves = upper.split(/\s+/).map(value => ({ value }));
+  }
+
+  if (halves.length !== 2) {
+    throw new Error(`Unrecognized coordinates: ${text} (use [lat, lon], decimal degrees, DMS, MGRS or UTM)`);
+  }
+
+  const [lat, lon] = halves.map(half => {
+    const numbers = (half.value.match(/\d+(?:\.\d+)?/g) || []).map(Number);
+    if (numbers.length === 0 || numbers.length > 3 || numbers.slice(1).some(part => part >= 60)) {
+      throw new Error(`Unrecognized coordinates: ${text} (use [lat, lon], decimal degrees, DMS, MGRS or UTM)`);
+    }
+    const [degrees, minutes = 0, seconds = 0] = numbers;
+    const magnitude = degrees + minutes / 60 + seconds / 3600;
+    const negative = half.value.trim().startsWith('-') || half.hemisphere === 'S' || half.hemisphere === 'W';
+    return negative ? -magnitude : magnitude;
+  });
+
+  return checked(lat, lon, text);
+}
+
+export function utmZone(lat: number, lon: number): number {
+  // Norway and Svalbard exceptions
+  if (lat >= 56 && lat < 64 && lon >= 3 && lon < 12) return 32;
+  if (lat >= 72 && lat < 84 && lon >= 0 && lon < 42) {
+    return lon < 9 ? 31 : lon < 21 ? 33 : lon < 33 ? 35 : 37;
+  }
+  return Math.min(60, Math.floor((lon + 180) / 6) + 1);
+}
+
+export function toUtm(lat: number, lon: number): { zone: number; band: string; easting: number; northing: number } {
+  if (lat < -80 || lat > 84) {
+    throw new Error(`UTM is undefined beyond 80°S and 84°N: ${lat}`);
+  }
+
+  const zone = utmZone(lat, lon);
+  const phi = lat * Math.PI / 180;
+  const lambda0 = ((zone - 1) * 6 - 180 + 3) * Math.PI / 180;
+
+  const sin = Math.sin(phi);
+  const cos = Math.cos(phi);
+  const n = A / Math.sqrt(1 - E2 * sin * sin);
+  const t = Math.tan(phi) ** 2;
+  const c = EP2 * cos * cos;
+  const a = cos * (lon * Math.PI / 180 - lambda0);
+  const m = meridianArc(phi);
+
+  const easting = K0 * n * (a + (1 - t + c) * a ** 3 / 6 + (5 - 18 * t + t * t + 72 * c - 58 * EP2) * a ** 5 / 120) + 500000;
+  let northing = K0 * (m + n * Math.tan(phi) * (a * a / 2 + (5 - t + 9 * c + 4 * c * c) * a ** 4 / 24 +
+    (61 - 58 * t + t * t + 600 * c - 330 * EP2) * a ** 6 / 720));
+  if (lat < 0) northing += 10000000;
+
+  return { zone, band: BANDS[Math.min(19, Math.floor((lat + 80) / 8))], easting, northing };
+}
+
+// Band letters N-X are north of the equator, C-M south
+export function fromUtm(zone: number, band: string, easting: number, northing: number): [number, number] {
+  if (zone < 1 || zone > 60 || !BANDS.includes(band)) {
+    throw new Error(`Invalid UTM zone: ${zone}${band}`);
+  }
+
+  const x = easting - 500000;
+  const y = band < 'N' ? northing - 10000000 : northing;
+
+  const mu = y / K0 / (A * (1 - E2 / 4 - 3 * E2 * E2 / 64 - 5 * E2 ** 3 / 256));
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+  const phi1 = mu + (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * mu) +
+    (21 * e1 * e1 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * mu) +
+    (151 * e1 ** 3 / 96) * Math.sin(6 * mu) +
+    (1097 * e1 ** 4 / 512) * Math.sin(8 * mu);
+
+  const sin = Math.sin(phi1);
+  const cos = Math.cos(phi1);
+  const n1 = A / Math.sqrt(1 - E2 * sin * sin);
+  const t1 = Math.tan(phi1) ** 2;
+  const c1 = EP2 * cos * cos;
+  const r1 = A * (1 - E2) / (1 - E2 * sin * sin) ** 1.5;
+  const d = x / (n1 * K0);
+
+  const lat = phi1 - (n1 * Math.tan(phi1) / r1) * (d * d / 2 -
+    (5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * EP2) * d ** 4 / 24 +
+    (61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * EP2 - 3 * c1 * c1) * d ** 6 / 720);
+  const lon = (d - (1 + 2 * t1 + c1) * d ** 3 / 6 +
+    (5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * EP2 + 24 * t1 * t1) * d ** 5 / 120) / cos;
+
+  return [lat * 180 / Math.PI, (zone - 1) * 6 - 180 + 3 + lon * 180 / Math.PI];
+}
+
+function meridianArc(phi: number): number {
+  return A * ((1 - E2 / 4 - 3 * E2 * E2 / 64 - 5 * E2 ** 3 / 256) * phi -
+    (3 * E2 / 8 + 3 * E2 * E2 / 32 + 45 * E2 ** 3 / 1024) * Math.sin(2 * phi) +
+    (15 * E2 * E2 / 256 + 45 * E2 ** 3 / 1024) * Math.sin(4 * phi) -
+    (35 * E2 ** 3 / 3072) * Math.sin(6 * phi));
+}
+
+export function formatCoordinate(lat: number, lon: number, system: CoordinateSystem): string {
+  switch (system) {
+    case 'mgrs': {
+      if (lat < -80 || lat > 84) {
+        throw new Error(`MGRS is undefined beyond 80°S and 84°N: ${lat}`);
+      }
+      // 1 m precision, grouped the way ATAK displays it: 11S LT 85000 06000
+      const grid = mgrs.forward([lon, lat], 5);
+      const match = grid.match(/^(\d{1,2}[A-Z])([A-Z]{2})(\d{5})(\d{5})$/);
+      return match ? `${match[1]} ${match[2]} ${match[3]} ${match[4]}` : grid;
+    }
+    case 'utm': {
+      const utm = toUtm(lat, lon);
+      return `${utm.zone}${utm.band} ${Math.round(utm.easting)}mE ${Math.round(utm.northing)}mN`;
+    }
+    case 'dms':
+      return `${toDms(lat, 'N', 'S')} ${toDms(lon, 'E', 'W')}`;
+    default:
+      return `${lat.toFixed(6)}, ${lon.toFixed(6)}`;
+  }
+}
+
+function toDms(value: number, positive: string, negative: string): string {
+  let totalSeconds = Math.round(Math.abs(value) * 36000) / 10;
+  const degrees = Math.floor(totalSeconds / 3600);
+  totalSeconds -= degrees * 3600;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds - minutes * 60).toFixed(1);
+  return `${degrees}°${String(minutes).padStart(2, '0')}'${seconds.padStart(4, '0')}"${value < 0 ? negative : positive}`;
+}
+
+/**
+ * Decimal degrees plus the configured notation, for tool output. Grid
+ * systems are undefined near the poles; those positions are given in
+ * decimal degrees only.
+ */
+export function toPosition(lat: number, lon: number, system: CoordinateSystem = 'wgs84', alt?: number): Position {
+  const position: Position = { lat, lon };
+  if (alt !== undefined) position.alt = alt;
+  if (system === 'wgs84') return position;
+
+  try {
+    position[system] = formatCoordinate(lat, lon, system);
+  } catch {
+    // Outside the grid's coverage
+  }
+  return position;
+}
@@ -0,0 +1,406 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { Logger } from 'pino';
+import { v4 as uuidv4 } from 'uuid';
+import { CotEvent } from '../types/cot';
+import { CotQuery } from '../clients/backends/types';
+import { matchesCotQuery } from '../clients/cot-filter';
+import { buildCotXml, cotEventToMessage, parseCotXml, createCotXmlParser } from '../clients/cot-xml';
+
+// ndxml: one <event> per line behind a <?tak-capture?> instruction; jsonl: one JSON record per line
+export type CaptureFormat = 'ndxml' | 'jsonl';
+export type CaptureState = 'recording' | 'stopped' | 'interrupted';
+
+export const CAPTURE_FORMATS: CaptureFormat[] = ['ndxml', 'jsonl'];
+
+export type CaptureFilter = Pick<CotQuery, 'types' | 'uids' | 'bbox'>;
+
+export interface CaptureRecord {
+  // When this server received the event, independent of the event's own time
+  received: Date;
+  // Feed the event arrived on
+  source: string;
+  event: CotEvent;
+}
+
+export interface CaptureOptions {
+  name?: string;
+  format?: CaptureFormat;
+  filter?: CaptureFilter;
+}
+
+export interface CaptureInfo {
+  id: string;
+  name: string;
+  format: CaptureFormat;
+  filter: CaptureFilter;
+  source: string;
+  state: CaptureState;
+  started: Date;
+  stopped?: Date;
+  events: number;
+  bytes: number;
+  directory: string;
+  files: string[];
+}
+
+export interface CaptureManagerOptions {
+  directory?: string;
+  // Start a new file once the current one reaches this size or age
+  maxFileBytes?: number;
+  rotateMinutes?: number;
+  maxActive?: number;
+  flushInterval?: number;
+  logger?: Logger;
+}
+
+// Registers a feed listener and returns the function that removes it
+export type CaptureSubscribe = (onEvent: (event: CotEvent) => void) => Promise<() => void>;
+
+const MANIFEST = 'capture.json';
+const FILE_PATTERN = /^\d{6}-.+\.(ndxml|jsonl)$/;
+const CAPTURE_HEADER = /^<\?tak-capture received="([^"]*)" source="([^"]*)"\?>/;
+
+class Capture {
+  private pending: string[] = [];
+  private file?: string;
+  private fileBytes = 0;
+  private fileOpened = 0;
+  // Tail of the write queue; every flush chains onto it so appends and rotations never interleave
+  private flushing: Promise<void> = Promise.resolve();
+  private timer?: NodeJS.Timeout;
+  unsubscribe?: () => void;
+
+  constructor(readonly info: CaptureInfo, private options: Required<Omit<CaptureManagerOptions, 'logger'>>, private logger?: Logger) {}
+
+  begin(): void {
+    this.timer = setInterval(() => {
+      this.flush().catch(error => this.logger?.error({ error: error.message, capture: this.info.id }, 'Capture flush failed'));
+    }, this.options.flushInterval);
+    this.timer.unref();
+  }
+
+  record(event: CotEvent): void {
+    if (this.info.state !== 'recording') return;
+
+    const record: CaptureRecord = { received: new Date(), source: this.info.source, event };
+    this.pending.push(formatRecord(record, this.info.format));
+    this.info.events++;
+  }
+
+  async end(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    this.info.state = 'stopped';
+    this.info.stopped = new Date();
+    await this.flush();
+    await writeManifest(this.info);
+  }
+
+  // Append pending lines, starting a new file whenever the current one is full or old
+  async flush(): Promise<void> {
+    const flushed = this.flushing.then(async () => {
+      if (this.pending.length === 0) return;
+
+      const lines = this.pending;
+      this.pending = [];
+      try {
+        await this.write(lines);
+      } catch (error) {
+        // Keep the lines for the next attempt
+        this.pending = lines.concat(this.pending);
+        throw error;
+      }
+    });
+    // A failed flush is reported to its caller without stalling the queue
+    this.flushing = flushed.catch(() => undefined);
+    await flushed;
+  }
+
+  private async write(lines: string[]): Promise<void> {
+    while (lines.length > 0) {
+      if (!this.file || this.fileBytes >= this.options.maxFileBytes || Date.now() - this.fileOpened >= this.options.rotateMinutes * 60 * 1000) {
+        this.rotate();
+      }
+
+      // Take as many lines as fit, but always at least one
+      let chunk = '';
+      let taken = 0;
+      while (taken < lines.length) {
+        const line = lines[taken] + '\n';
+        if (taken > 0 && this.fileBytes + Buffer.byteLength(chunk + line, 'utf8') > this.options.maxFileBytes) break;
+        chunk += line;
+        taken++;
+      }
+
+      await fs.promises.appendFile(path.join(this.info.directory, this.file!), chunk, 'utf8');
+      const bytes = Buffer.byteLength(chunk, 'utf8');
+      this.fileBytes += bytes;
+      this.info.bytes += bytes;
+      lines.splice(0, taken);
+    }
+    await writeManifest(this.info);
+  }
+
+  private rotate(): void {
+    const sequence = String(this.info.files.length + 1).padStart(6, '0');
+    this.file = `${sequence}-${new Date().toISOString().replace(/[:.]/g, '-')}.${this.info.format}`;
+    this.fileBytes = 0;
+    this.fileOpened = Date.now();
+    this.info.files.push(this.file);
+  }
+}
+
+/**
+ * Records the raw CoT feed to disk as an evidence trail that does not depend
+ * on TAK Server retention. Each capture lives in its own directory with a
+ * capture.json manifest and size- or age-rotated data files, and captures
+ * from earlier runs stay listable and queryable. Files are never pruned.
+ */
+export class CaptureManager {
+  private active = new Map<string, Capture>();
+  private options: Required<Omit<CaptureManagerOptions, 'logger'>>;
+  private logger?: Logger;
+
+  constructor(options: CaptureManagerOptions = {}) {
+    this.options = {
+      directory: options.directory ?? path.join(process.cwd(), 'tak-data', 'captures'),
+      maxFileBytes: options.maxFileBytes ?? 10 * 1024 * 1024,
+      rotateMinutes: options.rotateMinutes ?? 60,
+      maxActive: options.maxActive ?? 10,
+      flushInterval: options.flushInterval ?? 2000
+    };
+    this.logger = options.logger;
+  }
+
+  get size(): number {
+    return this.active.size;
+  }
+
+  async start(options: CaptureOptions, source: string, subscribe: CaptureSubscribe): Promise<CaptureInfo> {
+    if (this.active.size >= this.options.maxActive) {
+      throw new Error(`Too many active captures (max ${this.options.maxActive})`);
+    }
+
+    const id = `capture-${uuidv4()}`;
+    const info: CaptureInfo = {
+      id,
+      name: options.name || id,
+      format: options.format || 'ndxml',
+      filter: options.filter || {},
+      source,
+      state: 'recording',
+      started: new Date(),
+      events: 0,
+      bytes: 0,
+      directory: path.join(this.options.directory, id),
+      files: []
+    };
+
+    await fs.promises.mkdir(info.directory, { recursive: true });
+    await writeManifest(info);
+
+    const capture = new Capture(info, this.options, this.logger);
+    try {
+      capture.unsubscribe = await subscribe(event => capture.record(event));
+    } catch (error) {
+      // Nothing was recorded; don't leave an empty capture behind
+      await fs.promises.rm(info.directory, { recursive: true, force: true });
+      throw error;
+    }
+    capture.begin();
+    this.active.set(id, capture);
+
+    this.logger?.info({ capture: id, format: info.format, source }, 'CoT capture started');
+    return { ...info, files: [...info.files] };
+  }
+
+  async stop(id: string): Promise<CaptureInfo> {
+    const capture = this.active.get(id);
+    if (!capture) {
+      const info = await this.get(id);
+      if (!info) throw new Error(`Capture not found: ${id}`);
+      return info;
+    }
+
+    this.active.delete(id);
+    await capture.end();
+    this.logger?.info({ capture: id, events: capture.info.events }, 'CoT capture stopped');
+    return { ...capture.info, files: [...capture.info.files] };
+  }
+
+  async stopAll(): Promise<void> {
+    for (const id of Array.from(this.active.keys())) {
+      await this.stop(id).catch(error => this.logger?.error({ error: error.message, capture: id }, 'Failed to stop capture'));
+    }
+  }
+
+  async get(id: string): Promise<CaptureInfo | undefined> {
+    const capture = this.active.get(id);
+    if (capture) return { ...capture.info, files: [...capture.info.files] };
+    // IDs come from tool input; don't let them walk out of the capture directory
+    if (path.basename(id) !== id) return undefined;
+    return readManifest(path.join(this.options.directory, id));
+  }
+
+  // Active captures and every capture recorded earlier, newest first
+  async list(): Promise<CaptureInfo[]> {
+    let entries: string[] = [];
+    try {
+      entries = await fs.promises.readdir(this.options.directory);
+    } catch {
+      // Nothing recorded yet
+    }
+
+    const captures: CaptureInfo[] = [];
+    for (const entry of entries) {
+      const info = await this.get(entry);
+      if (info) captures.push(info);
+    }
+    return captures.sort((a, b) => b.started.getTime() - a.started.getTime());
+  }
+
+  /**
+   * Records from the given captures (default: all) that match the query, in
+   * recorded order per capture. Active captures are flushed first so the
+   * latest events are included.
+   */
+  async query(ids: string[] | undefined, query: CotQuery = {}): Promise<Array<CaptureRecord & { capture: string }>> {
+    const captures: CaptureInfo[] = [];
+    for (const id of ids && ids.length > 0 ? ids : (await this.list()).map(info => info.id).reverse()) {
+      await this.active.get(id)?.flush();
+      const info = await this.get(id);
+      if (!info) throw new Error(`Capture not found: ${id}`);
+      captures.push(info);
+    }
+
+    const results: Array<CaptureRecord & { capture: string }> = [];
+    for (const info of captures) {
+      for (const file of info.files) {
+        const done = await readCaptureLines(path.join(info.directory, file), (record) => {
+          if (!matchesCotQuery(record.event, query)) return true;
+          results.push({ ...record, capture: info.id });
+          return !query.limit || results.length < query.limit;
+        }, this.logger);
+        if (!done) return results;
+      }
+    }
+    return results;
+  }
+}
+
+// Every record in a capture data file (.ndxml or .jsonl)
+export async function readCaptureFile(file: string, logger?: Logger): Promise<CaptureRecord[]> {
+  const records: CaptureRecord[] = [];
+  await readCaptureLines(file, (record) => {
+    records.push(record);
+    return true;
+  }, logger);
+  return records;
+}
+
+export function formatRecord(record: CaptureRecord, format: CaptureFormat): string {
+  if (format === 'jsonl') return JSON.stringify(record);
+
+  // Line breaks inside text become character references so each event stays on one line
+  const xml = buildCotXml(cotEventToMessage(record.event), false).replace(/\r/g, '&#13;').replace(/\n/g, '&#10;');
+  return `<?tak-capture received="${record.received.toISOString()}" source="${escapeAttribute(record.source)}"?>${xml}`;
+}
+
+export function parseRecord(line: string, format: CaptureFormat, parser = createCotXmlParser()): CaptureRecord | undefined {
+  if (format === 'jsonl') {
+    const raw = JSON.parse(line);
+    return {
+      received: new Date(raw.received),
+      source: raw.source,
+      event: {
+        ...raw.event,
+        time: new Date(raw.event.time),
+        start: new Date(raw.event.start),
+        stale: new Date(raw.event.stale)
+      }
+    };
+  }
+
+  const header = line.match(CAPTURE_HEADER);
+  // The parser leaves numeric references alone, so restore the line breaks formatRecord encoded
+  const xml = (header ? line.slice(header[0].length) : line).replace(/&#13;/g, '\r').replace(/&#10;/g, '\n');
+  const event = parseCotXml(xml, parser);
+  if (!event) return undefined;
+  return {
+    received: header ? new Date(header[1]) : event.time,
+    source: header ? unescapeAttribute(header[2]) : '',
+    event
+  };
+}
+
+// Calls onRecord for each record until it returns false; resolves false if stopped early
+async function readCaptureLines(file: string, onRecord: (record: CaptureRecord) => boolean, logger?: Logger): Promise<boolean> {
+  const format: CaptureFormat = file.toLowerCase().endsWith('.jsonl') ? 'jsonl' : 'ndxml';
+  const parser = createCotXmlParser();
+  const input = fs.createReadStream(file, 'utf8');
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+  try {
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      let record: CaptureRecord | undefined;
+      try {
+        record = parseRecord(line, format, parser);
+      } catch {
+        logger?.warn({ file }, 'Skipping corrupt capture record');
+      }
+      if (record && !onRecord(record)) return false;
+    }
+    return true;
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+}
+
+async function writeManifest(info: CaptureInfo): Promise<void> {
+  const { directory, ...manifest } = info;
+  await fs.promises.writeFile(path.join(directory, MANIFEST), JSON.stringify(manifest, null, 2), 'utf8');
+}
+
+async function readManifest(directory: string): Promise<CaptureInfo | undefined> {
+  let raw: any;
+  try {
+    raw = JSON.parse(await fs.promises.readFile(path.join(directory, MANIFEST), 'utf8'));
+  } catch {
+    return undefined;
+  }
+
+  // Data files on disk are the record; the manifest may lag behind them after a crash
+  let files: string[] = [];
+  try {
+    files = (await fs.promises.readdir(directory)).filter(file => FILE_PATTERN.test(file)).sort();
+  } catch {
+    files = raw.files || [];
+  }
+
+  return {
+    ...raw,
+    // Not active in this process, so a capture still marked recording was cut off
+    state: raw.state === 'recording' ? 'interrupted' : raw.state,
+    started: new Date(raw.started),
+    stopped: raw.stopped ? new Date(raw.stopped) : undefined,
+    directory,
+    files
+  };
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function unescapeAttribute(value: string): string {
+  return value.replace(/&lt;/g, '<').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+}
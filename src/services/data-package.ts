@@ -0,0 +1,417 @@
+import { createHash } from 'crypto';
+import JSZip from 'jszip';
+import path from 'path';
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import { v5 as uuidv5 } from 'uuid';
+import { createCotXmlParser, parseCotXml } from '../clients/cot-xml';
+import { CotEvent } from '../types/cot';
+
+export const MANIFEST_PATH = 'MANIFEST/manifest.xml';
+
+// Namespace for package UIDs derived from their contents
+const PACKAGE_UID_NAMESPACE = 'a4f8e0c2-5d3b-4f4e-9b61-2c7d8e9f0a1b';
+
+// Fixed entry timestamps keep identical packages byte-identical, so their hashes match
+const ENTRY_DATE = new Date('1980-01-01T00:00:00Z');
+
+// What an uploaded zip may inflate to, so a small zip bomb cannot exhaust memory
+export const MAX_ZIP_ENTRIES = 10000;
+export const MAX_ZIP_ENTRY_BYTES = 64 * 1024 * 1024;
+export const MAX_ZIP_BYTES = 256 * 1024 * 1024;
+
+export interface DataPackageAttachment {
+  name: string;
+  data: Buffer;
+  // UID of the map item the file is attached to
+  uid: string;
+}
+
+export interface DataPackageFile {
+  // KML/KMZ overlays, imagery and other files ATAK imports by extension
+  name: string;
+  data: Buffer;
+}
+
+export interface DataPackageSpec {
+  name: string;
+  // Derived from the contents when omitted
+  uid?: string;
+  // Delete the package from the device once its contents are imported
+  onReceiveDelete?: boolean;
+  cot?: string[];
+  attachments?: DataPackageAttachment[];
+  files?: DataPackageFile[];
+}
+
+export interface DataPackageEntry {
+  zipEntry: string;
+  // Map item the entry belongs to (CoT events and their attachments)
+  uid?: string;
+  size: number;
+}
+
+export interface BuiltDataPackage {
+  uid: string;
+  name: string;
+  fileName: string;
+  data: Buffer;
+  hash: string;
+  manifest: string;
+  entries: DataPackageEntry[];
+}
+
+export type DataPackageFileKind = 'cot' | 'image' | 'kml' | 'kmz' | 'geojson' | 'other';
+
+export interface DataPackageFileSummary {
+  zipEntry: string;
+  kind: DataPackageFileKind;
+  mimeType: string;
+  size: number;
+  // Map item the file belongs to, from the manifest
+  uid?: string;
+  // Entries the manifest marks ignore="true"
+  ignored: boolean;
+  width?: number;
+  height?: number;
+}
+
+export interface DataPackageContents {
+  // Manifest configuration; packages without a manifest only have files
+  uid?: string;
+  name?: string;
+  onReceiveDelete?: boolean;
+  hasManifest: boolean;
+  hash: string;
+  size: number;
+  events: CotEvent[];
+  files: DataPackageFileSummary[];
+  // Entries that could not be decoded, e.g. malformed CoT
+  errors: Array<{ zipEntry: string; error: string }>;
+}
+
+const MIME_TYPES: Record<string, [DataPackageFileKind, string]> = {
+  '.cot': ['cot', 'application/xml'],
+  '.kml': ['kml', 'application/vnd.google-earth.kml+xml'],
+  '.kmz': ['kmz', 'application/vnd.google-earth.kmz'],
+  '.geojson': ['geojson', 'application/geo+json'],
+  '.png': ['image', 'image/png'],
+  '.jpg': ['image', 'image/jpeg'],
+  '.jpeg': ['image', 'image/jpeg'],
+  '.gif': ['image', 'image/gif'],
+  '.tif': ['image', 'image/tiff'],
+  '.tiff': ['image', 'image/tiff'],
+  '.ntf': ['image', 'application/vnd.nitf'],
+  '.sid': ['image', 'image/x-mrsid'],
+  '.pdf': ['other', 'application/pdf'],
+  '.txt': ['other', 'text/plain'],
+  '.xml': ['other', 'application/xml']
+};
+
+export function dataPackageHash(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Assembles an ATAK mission package: every CoT event in <uid>/<uid>.cot,
+ * attachments next to the event they belong to, other files in a folder
+ * named after their content, and a MANIFEST/manifest.xml listing it all.
+ */
+export async function buildDataPackage(spec: DataPackageSpec): Promise<BuiltDataPackage> {
+  if (!spec.name?.trim()) {
+    throw new Error('Data package name is required');
+  }
+
+  const files: Array<{ zipEntry: string; data: Buffer; uid?: string }> = [];
+
+  for (const xml of spec.cot || []) {
+    const event = parseCotXml(xml);
+    if (!event?.uid) {
+      throw new Error('Data package CoT must be a CoT <event> with a uid');
+    }
+    const uid = String(event.uid);
+    files.push({ zipEntry: `${safeSegment(uid)}/${safeSegment(uid)}.cot`, data: Buffer.from(xml, 'utf8'), uid });
+  }
+
+  for (const attachment of spec.attachments || []) {
+    files.push({
+      zipEntry: `${safeSegment(attachment.uid)}/${safeSegment(attachment.name)}`,
+      data: attachment.data,
+      uid: attachment.uid
+    });
+  }
+
+  for (const file of spec.files || []) {
+    files.push({
+      zipEntry: `${dataPackageHash(file.data).slice(0, 32)}/${safeSegment(file.name)}`,
+      data: file.data
+    });
+  }
+
+  if (files.length === 0) {
+    throw new Error('Data package needs at least one CoT event, attachment or file');
+  }
+
+  const seen = new Set<string>();
+  for (const file of files) {
+    if (seen.has(file.zipEntry)) {
+      throw new Error(`Duplicate data package entry: ${file.zipEntry}`);
+    }
+    seen.add(file.zipEntry);
+  }
+
+  const onReceiveDelete = spec.onReceiveDelete ?? false;
+  const uid = spec.uid || contentUid(spec.name, onReceiveDelete, files);
+  const manifest = buildManifest(uid, spec.name, onReceiveDelete, files);
+
+  const zip = new JSZip();
+  zip.file(MANIFEST_PATH, manifest, { date: ENTRY_DATE, createFolders: false });
+  for (const file of files) {
+    zip.file(file.zipEntry, file.data, { date: ENTRY_DATE, createFolders: false });
+  }
+
+  const data = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+  return {
+    uid,
+    name: spec.name,
+    fileName: `${safeSegment(spec.name)}.zip`,
+    data,
+    hash: dataPackageHash(data),
+    manifest,
+    entries: files.map(file => ({ zipEntry: file.zipEntry, uid: file.uid, size: file.data.length }))
+  };
+}
+
+export function buildManifest(
+  uid: string,
+  name: string,
+  onReceiveDelete: boolean,
+  entries: Array<{ zipEntry: string; uid?: string }>
+): string {
+  const xmlBuilder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    suppressEmptyNode: true,
+    suppressBooleanAttributes: false,
+    format: true
+  });
+
+  return xmlBuilder.build({
+    MissionPackageManifest: {
+      '@_version': '2',
+      Configuration: {
+        Parameter: [
+          { '@_name': 'uid', '@_value': uid },
+          { '@_name': 'name', '@_value': name },
+          { '@_name': 'onReceiveDelete', '@_value': String(onReceiveDelete) }
+        ]
+      },
+      Contents: {
+        Content: entries.map(entry => ({
+          '@_ignore': 'false',
+          '@_zipEntry': entry.zipEntry,
+          ...(entry.uid ? { Parameter: { '@_name': 'uid', '@_value': entry.uid } } : {})
+        }))
+      }
+    }
+  });
+}
+
+function contentUid(name: string, onReceiveDelete: boolean, files: Array<{ zipEntry: string; data: Buffer }>): string {
+  const digest = createHash('sha256').update(name).update(String(onReceiveDelete));
+  for (const file of files) {
+    digest.update(file.zipEntry).update(dataPackageHash(file.data));
+  }
+  return uuidv5(digest.digest('hex'), PACKAGE_UID_NAMESPACE);
+}
+
+// Zip entries must stay inside their folder
+function safeSegment(value: string): string {
+  const segment = value.replace(/[\\/:*?"<>|\x00-\x1f]+/g, '_').replace(/^\.+/, '_');
+  return segment || '_';
+}
+
+/**
+ * Unzips a data package in memory: reads the manifest, decodes every .cot
+ * entry into a CotEvent and describes the remaining files.
+ */
+export async function readDataPackage(data: Buffer): Promise<DataPackageContents> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    throw new Error(`Not a zip data package: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const contents: DataPackageContents = {
+    hasManifest: false,
+    hash: dataPackageHash(data),
+    size: data.length,
+    events: [],
+    files: [],
+    errors: []
+  };
+
+  checkZipLimits(zip);
+
+  const manifestFile = zip.file(/^manifest\/manifest\.xml$/i)[0];
+  const manifestEntries = new Map<string, { uid?: string; ignored: boolean }>();
+  if (manifestFile) {
+    const manifest = parseManifest((await readZipEntry(manifestFile)).toString('utf8'));
+    contents.hasManifest = true;
+    contents.uid = manifest.uid;
+    contents.name = manifest.name;
+    contents.onReceiveDelete = manifest.onReceiveDelete;
+    for (const entry of manifest.entries) {
+      manifestEntries.set(entry.zipEntry, entry);
+    }
+  }
+
+  const cotParser = createCotXmlParser();
+  for (const file of Object.values(zip.files)) {
+    if (file.dir || file === manifestFile) continue;
+
+    const buffer = await readZipEntry(file);
+    const [kind, mimeType] = MIME_TYPES[path.extname(file.name).toLowerCase()] || ['other', 'application/octet-stream'];
+    const listed = manifestEntries.get(file.name);
+    const summary: DataPackageFileSummary = {
+      zipEntry: file.name,
+      kind,
+      mimeType,
+      size: buffer.length,
+      uid: listed?.uid,
+      ignored: listed?.ignored ?? false
+    };
+
+    if (kind === 'image') {
+      Object.assign(summary, imageDimensions(buffer));
+    }
+
+    if (kind === 'cot' && !summary.ignored) {
+      try {
+        const event = parseCotXml(buffer.toString('utf8'), cotParser);
+        if (!event) throw new Error('No located <event> element');
+        contents.events.push(event);
+        summary.uid = summary.uid ?? event.uid;
+      } catch (error) {
+        contents.errors.push({ zipEntry: file.name, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    contents.files.push(summary);
+  }
+
+  return contents;
+}
+
+/**
+ * Checks the entry count and the uncompressed sizes a zip's directory declares
+ * before anything is inflated. readZipEntry holds each entry to its declared
+ * size, so together they cap what the zip can inflate to.
+ */
+export function checkZipLimits(zip: JSZip): void {
+  const entries = Object.values(zip.files).filter(file => !file.dir);
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`Zip has ${entries.length} entries, more than the ${MAX_ZIP_ENTRIES} allowed`);
+  }
+
+  let total = 0;
+  for (const file of entries) {
+    const size = declaredSize(file);
+    if (size > MAX_ZIP_ENTRY_BYTES) {
+      throw new Error(`Zip entry ${file.name} inflates to ${size} bytes, more than the ${MAX_ZIP_ENTRY_BYTES} allowed`);
+    }
+    total += size;
+    if (total > MAX_ZIP_BYTES) {
+      throw new Error(`Zip inflates to more than the ${MAX_ZIP_BYTES} bytes allowed`);
+    }
+  }
+}
+
+// Inflates an entry, giving up as soon as it grows past the size the zip declared
+export function readZipEntry(file: JSZip.JSZipObject): Promise<Buffer> {
+  const limit = declaredSize(file);
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  return new Promise((resolve, reject) => {
+    const stream = file.nodeStream('nodebuffer');
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.removeListener('data', onData);
+        stream.pause();
+        reject(new Error(`Zip entry ${file.name} inflates past its declared ${limit} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    stream.on('data', onData);
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+// JSZip keeps the directory's uncompressed size on the private _data of loaded entries
+function declaredSize(file: JSZip.JSZipObject): number {
+  const size = (file as any)._data?.uncompressedSize;
+  return typeof size === 'number' ? size : Infinity;
+}
+
+function parseManifest(xml: string) {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    isArray: name => name === 'Parameter' || name === 'Content'
+  });
+  const root = parser.parse(xml).MissionPackageManifest || {};
+
+  const parameters = (node: any): Record<string, string> =>
+    Object.fromEntries((node?.Parameter || []).map((param: any) => [param.name, String(param.value)]));
+
+  const config = parameters(root.Configuration);
+  return {
+    uid: config.uid,
+    name: config.name,
+    onReceiveDelete: config.onReceiveDelete === undefined ? undefined : config.onReceiveDelete === 'true',
+    entries: (root.Contents?.Content || []).map((content: any) => ({
+      zipEntry: String(content.zipEntry),
+      uid: parameters(content).uid,
+      ignored: String(content.ignore) === 'true'
+    }))
+  };
+}
+
+// Width and height from PNG, GIF and JPEG headers without decoding the image
+export function imageDimensions(data: Buffer): { width?: number; height?: number } {
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  if (data.length >= 10 && data.toString('ascii', 0, 3) === 'GIF') {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) {
+        offset++;
+        continue;
+      }
+      const marker = data[offset + 1];
+      // Fill bytes pad between segments
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      // SOF0-SOF15 carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) do not
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+
+  return {};
+}
@@ -0,0 +1,372 @@
+import * as turf from '@turf/turf';
+import { v4 as uuidv4 } from 'uuid';
+import { CotEvent, CotMessage } from '../types/cot';
+
+export type DrawingKind = 'line' | 'polygon' | 'rectangle' | 'circle' | 'range-bearing' | 'range-rings';
+
+// ATAK drawing types; lines and polygons are both freeform (u-d-f)
+export const DRAWING_TYPES: Record<DrawingKind, string> = {
+  line: 'u-d-f',
+  polygon: 'u-d-f',
+  rectangle: 'u-d-r',
+  circle: 'u-d-c-c',
+  'range-bearing': 'u-rb-a',
+  'range-rings': 'u-r-b-c-c'
+};
+
+export interface DrawingStyle {
+  // Signed 32-bit ARGB ints, as ATAK writes them
+  strokeColor: number;
+  strokeWeight: number;
+  fillColor?: number;
+  labels: boolean;
+}
+
+export interface Drawing {
+  uid: string;
+  name: string;
+  kind: DrawingKind;
+  // Vertices for lines and polygons, the four corners of a rectangle,
+  // or the start of a range & bearing line; [lat, lon]
+  points: Array<[number, number]>;
+  center?: [number, number];
+  radius?: number; // meters; the innermost ring for range rings
+  rings?: number;
+  range?: number; // meters
+  bearing?: number; // degrees true
+  style: DrawingStyle;
+  remarks?: string;
+}
+
+export interface DrawingInput {
+  uid?: string;
+  name: string;
+  kind: DrawingKind;
+  // Lines and polygons: vertices. Rectangles: two opposite corners.
+  // Range & bearing: the start, and optionally the end instead of range/bearing
+  points?: Array<[number, number]>;
+  center?: [number, number];
+  radius?: number;
+  rings?: number;
+  range?: number;
+  bearing?: number;
+  // '#RRGGBB', '#AARRGGBB' or an ARGB int
+  strokeColor?: string | number;
+  strokeWeight?: number;
+  fillColor?: string | number;
+  // 0-1, applied to the fill colour when it has no alpha of its own
+  fillOpacity?: number;
+  labels?: boolean;
+  remarks?: string;
+}
+
+const WHITE = -1;
+
+export function toArgb(color: string | number, opacity?: number): number {
+  if (typeof color === 'number') return color | 0;
+
+  const hex = color.replace(/^#/, '');
+  if (!/^([0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) {
+    throw new Error(`Invalid colour: ${color} (use #RRGGBB or #AARRGGBB)`);
+  }
+
+  const alpha = hex.length === 8
+    ? parseInt(hex.slice(0, 2), 16)
+    : Math.round(255 * Math.min(1, Math.max(0, opacity ?? 1)));
+  const rgb = parseInt(hex.slice(-6), 16);
+  return ((alpha << 24) | rgb) | 0;
+}
+
+// KML colours are aabbggrr
+export function toKmlColor(argb: number): string {
+  const value = argb >>> 0;
+  const hex = (byte: number) => byte.toString(16).padStart(2, '0');
+  return hex(value >>> 24) + hex(value & 0xff) + hex((value >>> 8) & 0xff) + hex((value >>> 16) & 0xff);
+}
+
+export function fromKmlColor(color: string): number {
+  const hex = color.trim().replace(/^#/, '');
+  if (!/^[0-9a-f]{8}$/i.test(hex)) {
+    throw new Error(`Invalid KML colour: ${color} (use aabbggrr)`);
+  }
+  return toArgb(`#${hex.slice(0, 2)}${hex.slice(6, 8)}${hex.slice(4, 6)}${hex.slice(2, 4)}`);
+}
+
+function validPoint(point: [number, number] | undefined, label: string): [number, number] {
+  if (!point || !isFinite(point[0]) || !isFinite(point[1]) || Math.abs(point[0]) > 90 || Math.abs(point[1]) > 180) {
+    throw new Error(`Invalid ${label}: ${point}`);
+  }
+  return [point[0], point[1]];
+}
+
+/**
+ * Normalizes tool input into a Drawing: rectangles get all four corners,
+ * range & bearing lines get range and bearing, and colours become ARGB ints.
+ */
+export function createDrawing(input: DrawingInput): Drawing {
+  const strokeColor = input.strokeColor !== undefined ? toArgb(input.strokeColor) : WHITE;
+  const closed = ['polygon', 'rectangle', 'circle', 'range-rings'].includes(input.kind);
+  const fillOpacity = input.fillOpacity ?? 0.3;
+  const style: DrawingStyle = {
+    strokeColor,
+    strokeWeight: input.strokeWeight ?? 3,
+    labels: input.labels ?? true,
+    // Closed shapes default to a translucent fill in the stroke colour
+    fillColor: !closed ? undefined
+      : input.fillColor !== undefined ? toArgb(input.fillColor, fillOpacity)
+      : ((Math.round(255 * Math.min(1, Math.max(0, fillOpacity))) << 24) | (strokeColor & 0xffffff)) | 0
+  };
+
+  const drawing: Drawing = {
+    uid: input.uid || uuidv4(),
+    name: input.name,
+    kind: input.kind,
+    points: [],
+    style,
+    remarks: input.remarks
+  };
+
+  switch (input.kind) {
+    case 'line':
+    case 'polygon': {
+      const points = (input.points || []).map((point, index) => validPoint(point, `point ${index + 1}`));
+      if (points.length < (input.kind === 'polygon' ? 3 : 2)) {
+        throw new Error(`A ${input.kind} needs at least ${input.kind === 'polygon' ? 3 : 2} points`);
+      }
+      drawing.points = points;
+      break;
+    }
+
+    case 'rectangle': {
+      const corners = (input.points || []).map((point, index) => validPoint(point, `corner ${index + 1}`));
+      if (corners.length === 2) {
+        const [[lat1, lon1], [lat2, lon2]] = corners;
+        drawing.points = [[lat1, lon1], [lat1, lon2], [lat2, lon2], [lat2, lon1]];
+      } else if (corners.length === 4) {
+        drawing.points = corners;
+      } else {
+        throw new Error('A rectangle needs two opposite corners (or all four)');
+      }
+      break;
+    }
+
+    case 'circle':
+    case 'range-rings': {
+      drawing.center = validPoint(input.center, 'center');
+      if (!(input.radius! > 0)) {
+        throw new Error(`A ${input.kind} needs a positive radius`);
+      }
+      drawing.radius = input.radius;
+      drawing.rings = input.kind === 'range-rings' ? Math.max(1, Math.round(input.rings ?? 3)) : 1;
+      break;
+    }
+
+    case 'range-bearing': {
+      const [start, end] = (input.points || []).map((point, index) => validPoint(point, `point ${index + 1}`));
+      if (!start) {
+        throw new Error('A range & bearing line needs a start point');
+      }
+      drawing.points = [start];
+      if (end) {
+        const from = turf.point([start[1], start[0]]);
+        const to = turf.point([end[1], end[0]]);
+        drawing.range = turf.distance(from, to, { units: 'meters' });
+        drawing.bearing = (turf.bearing(from, to) + 360) % 360;
+      } else if (input.range! > 0 && isFinite(input.bearing!)) {
+        drawing.range = input.range;
+        drawing.bearing = ((input.bearing! % 360) + 360) % 360;
+      } else {
+        throw new Error('A range & bearing line needs an end point, or range and bearing');
+      }
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown drawing kind: ${input.kind}`);
+  }
+
+  return drawing;
+}
+
+// End point of a range & bearing line
+export function rangeBearingEnd(drawing: Drawing): [number, number] | undefined {
+  if (drawing.kind !== 'range-bearing' || drawing.range === undefined || drawing.bearing === undefined) return undefined;
+  const [lat, lon] = drawing.points[0];
+  const end = turf.destination(turf.point([lon, lat]), drawing.range, drawing.bearing, { units: 'meters' });
+  return [end.geometry.coordinates[1], end.geometry.coordinates[0]];
+}
+
+export function drawingToCotMessage(drawing: Drawing): CotMessage {
+  const now = new Date();
+  const anchor = drawing.center || centroid(drawing.points);
+  const { style } = drawing;
+
+  const detail: Record<string, any> = {};
+
+  switch (drawing.kind) {
+    case 'line':
+    case 'polygon':
+    case 'rectangle': {
+      // Freeform polygons repeat the first vertex to close
+      const points = drawing.kind === 'polygon' ? [...drawing.points, drawing.points[0]] : drawing.points;
+      detail.link = points.map(([lat, lon]) => ({ _attributes: { point: `${lat},${lon}` } }));
+      break;
+    }
+
+    case 'circle':
+    case 'range-rings': {
+      const rings = drawing.rings || 1;
+      detail.shape = {
+        ellipse: Array.from({ length: rings }, (_, index) => ({
+          _attributes: {
+            major: String(drawing.radius! * (index + 1)),
+            minor: String(drawing.radius! * (index + 1)),
+            angle: '360'
+          }
+        })),
+        link: {
+          _attributes: { uid: `${drawing.uid}.Style`, type: 'b-x-KmlStyle', relation: 'p-c' },
+          Style: {
+            LineStyle: {
+              color: { _text: toKmlColor(style.strokeColor) },
+              width: { _text: String(style.strokeWeight) }
+            },
+            PolyStyle: {
+              color: { _text: toKmlColor(style.fillColor ?? 0) }
+            }
+          }
+        }
+      };
+      break;
+    }
+
+    case 'range-bearing':
+      detail.range = { _attributes: { value: String(drawing.range) } };
+      detail.bearing = { _attributes: { value: String(drawing.bearing) } };
+      detail.inclination = { _attributes: { value: '0.0' } };
+      detail.rangeUnits = { _attributes: { value: '1' } };
+      detail.bearingUnits = { _attributes: { value: '0' } };
+      detail.northRef = { _attributes: { value: '1' } };
+      break;
+  }
+
+  detail.strokeColor = { _attributes: { value: String(style.strokeColor) } };
+  detail.strokeWeight = { _attributes: { value: style.strokeWeight.toFixed(1) } };
+  if (style.fillColor !== undefined) {
+    detail.fillColor = { _attributes: { value: String(style.fillColor) } };
+  }
+  detail.contact = { _attributes: { callsign: drawing.name } };
+  detail.remarks = drawing.remarks || '';
+  detail.archive = {};
+  detail.labels_on = { _attributes: { value: String(style.labels) } };
+
+  return {
+    event: {
+      _attributes: {
+        version: '2.0',
+        uid: drawing.uid,
+        type: DRAWING_TYPES[drawing.kind],
+        time: now.toISOString(),
+        start: now.toISOString(),
+        stale: new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours
+        how: 'h-e'
+      },
+      point: {
+        _attributes: {
+          lat: anchor[0].toString(),
+          lon: anchor[1].toString(),
+          hae: '0',
+          ce: '9999999',
+          le: '9999999'
+        }
+      },
+      detail
+    }
+  };
+}
+
+// Structured drawing from a received CoT event; undefined for non-drawings
+export function parseDrawingEvent(event: CotEvent): Drawing | undefined {
+  const detail = event.detail || {};
+  const links = (Array.isArray(detail.link) ? detail.link : detail.link ? [detail.link] : [])
+    .map((link: any) => String(link.point ?? '').split(',').map(Number))
+    .filter(([lat, lon]: number[]) => isFinite(lat) && isFinite(lon))
+    .map(([lat, lon]: number[]) => [lat, lon] as [number, number]);
+
+  const number = (node: any) => (node?.value !== undefined ? Number(node.value) : undefined);
+  const remarks = typeof detail.remarks === 'object' ? detail.remarks?.['#text'] : detail.remarks;
+  const base = {
+    uid: String(event.uid),
+    name: String(detail.contact?.callsign ?? event.uid),
+    points: [] as Array<[number, number]>,
+    style: {
+      strokeColor: number(detail.strokeColor) ?? WHITE,
+      strokeWeight: number(detail.strokeWeight) ?? 3,
+      fillColor: number(detail.fillColor),
+      labels: String(detail.labels_on?.value ?? 'true') === 'true'
+    },
+    remarks: remarks ? String(remarks) : undefined
+  };
+
+  switch (event.type) {
+    case 'u-d-f': {
+      if (links.length < 2) return undefined;
+      const [first, last] = [links[0], links[links.length - 1]];
+      const closed = links.length > 3 && first[0] === last[0] && first[1] === last[1];
+      return { ...base, kind: closed ? 'polygon' : 'line', points: closed ? links.slice(0, -1) : links };
+    }
+
+    case 'u-d-r':
+      return links.length >= 4 ? { ...base, kind: 'rectangle', points: links.slice(0, 4) } : undefined;
+
+    case 'u-d-c-c':
+    case 'u-r-b-c-c': {
+      const ellipses = detail.shape?.ellipse;
+      const list = Array.isArray(ellipses) ? ellipses : ellipses ? [ellipses] : [];
+      const radius = Number(list[0]?.major);
+      if (!(radius > 0)) return undefined;
+      return {
+        ...base,
+        kind: event.type === 'u-d-c-c' ? 'circle' : 'range-rings',
+        center: [event.point.lat, event.point.lon],
+        radius,
+        rings: list.length
+      };
+    }
+
+    case 'u-rb-a': {
+      const range = number(detail.range);
+      const bearing = number(detail.bearing);
+      if (range === undefined || bearing === undefined) return undefined;
+      return { ...base, kind: 'range-bearing', points: [[event.point.lat, event.point.lon]], range, bearing };
+    }
+  }
+
+  return undefined;
+}
+
+// Back to tool input, so updates can be merged over an existing drawing
+export function drawingToInput(drawing: Drawing): DrawingInput {
+  return {
+    uid: drawing.uid,
+    name: drawing.name,
+    kind: drawing.kind,
+    points: drawing.kind === 'rectangle' ? [drawing.points[0], drawing.points[2]] : drawing.points,
+    center: drawing.center,
+    radius: drawing.radius,
+    rings: drawing.rings,
+    range: drawing.range,
+    bearing: drawing.bearing,
+    strokeColor: drawing.style.strokeColor,
+    strokeWeight: drawing.style.strokeWeight,
+    fillColor: drawing.style.fillColor,
+    labels: drawing.style.labels,
+    remarks: drawing.remarks
+  };
+}
+
+function centroid(points: Array<[number, number]>): [number, number] {
+  const lat = points.reduce((sum, point) => sum + point[0], 0) / points.length;
+  const lon = points.reduce((sum, point) => sum + point[1], 0) / points.length;
+  return [lat, lon];
+}
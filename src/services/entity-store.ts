@@ -0,0 +1,301 @@
+import { EventEmitter } from 'events';
+import * as turf from '@turf/turf';
+import * as h3 from 'h3-js';
+import { CotEvent } from '../types/cot';
+import { TAKEntity } from '../types/tak';
+import { matchesCotType } from '../clients/cot-filter';
+
+export interface EntityStoreOptions {
+  // How long an entity is kept after its stale time before it is evicted
+  retainStaleSeconds?: number;
+  maxEntities?: number;
+  // H3 resolution of the spatial index (7 ≈ 1.4 km edges)
+  indexResolution?: number;
+  sweepInterval?: number;
+}
+
+export interface EntityQuery {
+  types?: string[];
+  teams?: string[];
+  roles?: string[];
+  bbox?: [number, number, number, number];
+  within?: {
+    center: [number, number]; // [lat, lon]
+    radius: number; // meters
+  };
+  includeStale?: boolean;
+}
+
+interface EntityRecord {
+  event: CotEvent;
+  entity: TAKEntity;
+  cell: string;
+}
+
+/**
+ * Latest known state of every UID on the live CoT feed, indexed by H3 cell.
+ * Deleted UIDs leave a tombstone so older copies still in flight don't
+ * bring them back. Emits 'update' (entity, event) and 'remove' (uid).
+ */
+export class EntityStore extends EventEmitter {
+  private records = new Map<string, EntityRecord>();
+  private cells = new Map<string, Set<string>>();
+  // Deletion time per deleted UID
+  private tombstones = new Map<string, Date>();
+  private options: Required<EntityStoreOptions>;
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(options: EntityStoreOptions = {}) {
+    super();
+    this.options = {
+      retainStaleSeconds: options.retainStaleSeconds ?? 3600,
+      maxEntities: options.maxEntities ?? 10000,
+      indexResolution: options.indexResolution ?? 7,
+      sweepInterval: options.sweepInterval ?? 30000
+    };
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  start(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.prune(), this.options.sweepInterval);
+    this.sweepTimer.unref();
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+
+  /**
+   * Apply an incoming event. Returns the updated entity, or undefined when the
+   * event is older than what we hold, is not a picture item, or removed one.
+   */
+  upsert(event: CotEvent): TAKEntity | undefined {
+    // Forced delete (t-x-d-d) names its target in <link uid="..."/>
+    if (event.type === 't-x-d-d') {
+      const target = event.detail?.link?.uid;
+      if (target !== undefined) this.delete(String(target), event.time);
+      return undefined;
+    }
+    // Control, ping and protocol traffic is not part of the picture
+    if (event.type.startsWith('t-')) return undefined;
+    if (!isFinite(event.point.lat) || !isFinite(event.point.lon)) return undefined;
+
+    const uid = String(event.uid);
+    const deleted = this.tombstones.get(uid);
+    if (deleted) {
+      if (event.time <= deleted) return undefined;
+      this.tombstones.delete(uid);
+    }
+
+    const existing = this.records.get(uid);
+    if (existing && existing.event.time > event.time) return undefined;
+
+    const cell = h3.latLngToCell(event.point.lat, event.point.lon, this.options.indexResolution);
+    if (existing && existing.cell !== cell) {
+      this.unindex(uid, existing.cell);
+    }
+
+    const entity = cotEventToEntity(event);
+    this.records.set(uid, { event, entity, cell });
+    this.index(uid, cell);
+
+    if (!existing && this.records.size > this.options.maxEntities) {
+      this.evictOldest();
+    }
+
+    this.emit('update', entity, event);
+    return entity;
+  }
+
+  remove(uid: string): boolean {
+    const record = this.records.get(uid);
+    if (!record) return false;
+
+    this.unindex(uid, record.cell);
+    this.records.delete(uid);
+    this.emit('remove', uid);
+    return true;
+  }
+
+  // Remove a UID and ignore any of its events from before the deletion
+  delete(uid: string, time: Date = new Date()): boolean {
+    const previous = this.tombstones.get(uid);
+    if (!previous || previous < time) this.tombstones.set(uid, time);
+    return this.remove(uid);
+  }
+
+  isDeleted(uid: string): boolean {
+    return this.tombstones.has(uid);
+  }
+
+  get(uid: string): TAKEntity | undefined {
+    const record = this.records.get(uid);
+    return record ? refreshStatus(record) : undefined;
+  }
+
+  // Latest raw event for a UID, including every detail element
+  getEvent(uid: string): CotEvent | undefined {
+    return this.records.get(uid)?.event;
+  }
+
+  events(): CotEvent[] {
+    return Array.from(this.records.values(), record => record.event);
+  }
+
+  query(query: EntityQuery = {}): TAKEntity[] {
+    const now = new Date();
+    let candidates: Iterable<EntityRecord>;
+
+    if (query.within) {
+      candidates = this.candidatesNear(query.within.center, query.within.radius);
+    } else if (query.bbox) {
+      const [minLon, minLat, maxLon, maxLat] = query.bbox;
+      const center: [number, number] = [(minLat + maxLat) / 2, (minLon + maxLon) / 2];
+      const radius = turf.distance([minLon, minLat], [maxLon, maxLat], { units: 'meters' }) / 2;
+      candidates = this.candidatesNear(center, radius);
+    } else {
+      candidates = this.records.values();
+    }
+
+    const results: TAKEntity[] = [];
+    for (const record of candidates) {
+      const { event } = record;
+      if (query.includeStale === false && event.stale <= now) continue;
+      const entity = refreshStatus(record, now);
+      if (!matchesCotType(entity.type, query.types)) continue;
+      if (query.teams && !query.teams.includes(entity.team)) continue;
+      if (query.roles && !query.roles.includes(entity.role)) continue;
+
+      if (query.bbox) {
+        const [minLon, minLat, maxLon, maxLat] = query.bbox;
+        const { lat, lon } = entity.location;
+        if (lon < minLon || lon > maxLon || lat < minLat || lat > maxLat) continue;
+      }
+      if (query.within && distanceTo(query.within.center, entity) > query.within.radius) continue;
+
+      results.push(entity);
+    }
+    return results;
+  }
+
+  nearest(point: [number, number], options: { limit?: number; maxDistance?: number; types?: string[] } = {}) {
+    const entities = options.maxDistance !== undefined
+      ? this.query({ within: { center: point, radius: options.maxDistance }, types: options.types })
+      : this.query({ types: options.types });
+
+    return entities
+      .map(entity => ({ entity, distance: distanceTo(point, entity) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, options.limit ?? 10);
+  }
+
+  // Evict entities that went stale, and tombstones older than retainStaleSeconds
+  prune(now: Date = new Date()): number {
+    const cutoff = now.getTime() - this.options.retainStaleSeconds * 1000;
+    let removed = 0;
+
+    for (const [uid, time] of this.tombstones) {
+      if (time.getTime() < cutoff) this.tombstones.delete(uid);
+    }
+
+    for (const [uid, record] of this.records) {
+      if (record.event.stale.getTime() < cutoff) {
+        this.remove(uid);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.records.clear();
+    this.cells.clear();
+    this.tombstones.clear();
+  }
+
+  private *candidatesNear(center: [number, number], radius: number): Iterable<EntityRecord> {
+    const edge = h3.getHexagonEdgeLengthAvg(this.options.indexResolution, 'm');
+    const rings = Math.ceil(radius / (edge * 1.5)) + 1;
+    const cellCount = 3 * rings * (rings + 1) + 1;
+
+    // A huge search area is cheaper as a plain scan
+    if (cellCount > this.records.size) {
+      yield* this.records.values();
+      return;
+    }
+
+    const origin = h3.latLngToCell(center[0], center[1], this.options.indexResolution);
+    for (const cell of h3.gridDisk(origin, rings)) {
+      const uids = this.cells.get(cell);
+      if (!uids) continue;
+      for (const uid of uids) {
+        yield this.records.get(uid)!;
+      }
+    }
+  }
+
+  private index(uid: string, cell: string): void {
+    let uids = this.cells.get(cell);
+    if (!uids) {
+      uids = new Set();
+      this.cells.set(cell, uids);
+    }
+    uids.add(uid);
+  }
+
+  private unindex(uid: string, cell: string): void {
+    const uids = this.cells.get(cell);
+    if (!uids) return;
+    uids.delete(uid);
+    if (uids.size === 0) this.cells.delete(cell);
+  }
+
+  private evictOldest(): void {
+    let oldest: [string, EntityRecord] | undefined;
+    for (const entry of this.records) {
+      if (!oldest || entry[1].event.time < oldest[1].event.time) oldest = entry;
+    }
+    if (oldest) this.remove(oldest[0]);
+  }
+}
+
+export function cotEventToEntity(event: CotEvent): TAKEntity {
+  return {
+    uid: event.uid,
+    callsign: event.detail?.contact?.callsign || event.uid,
+    type: event.type,
+    team: event.detail?.__group?.name || 'Unknown',
+    role: event.detail?.__group?.role || 'Unknown',
+    location: {
+      lat: event.point.lat,
+      lon: event.point.lon,
+      alt: event.point.hae !== 999999 ? event.point.hae : undefined
+    },
+    lastUpdate: event.time,
+    status: {
+      online: new Date(event.stale) > new Date(),
+      battery: event.detail?.status?.battery,
+      speed: event.detail?.track?.speed,
+      course: event.detail?.track?.course,
+      readiness: event.detail?.status?.readiness ? 'ready' : 'unknown'
+    },
+    attributes: event.detail
+  };
+}
+
+// Online state depends on the clock, not just on the last event
+function refreshStatus(record: EntityRecord, now: Date = new Date()): TAKEntity {
+  record.entity.status.online = record.event.stale > now;
+  return record.entity;
+}
+
+function distanceTo(point: [number, number], entity: TAKEntity): number {
+  return turf.distance([point[1], point[0]], [entity.location.lon, entity.location.lat], { units: 'meters' });
+}
@@ -0,0 +1,493 @@
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import * as turf from '@turf/turf';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from 'pino';
+import { CotEvent, CotMessage } from '../types/cot';
+import { matchesCotType } from '../clients/cot-filter';
+
+export type GeofenceSeverity = 'low' | 'medium' | 'high' | 'critical';
+export type GeofenceTransition = 'entry' | 'exit' | 'dwell';
+
+export interface GeofenceShape {
+  type: 'circle' | 'polygon' | 'rectangle';
+  center?: [number, number]; // [lat, lon]
+  radius?: number; // meters
+  vertices?: [number, number][]; // [[lat, lon], ...]
+  width?: number; // meters
+  height?: number; // meters
+}
+
+export interface GeofenceTriggers {
+  onEntry: boolean;
+  onExit: boolean;
+  onDwell?: {
+    enabled: boolean;
+    duration?: number; // seconds
+  };
+}
+
+export interface Geofence {
+  id: string;
+  name: string;
+  shape: GeofenceShape;
+  geometry: GeoJSON.Feature<GeoJSON.Polygon>;
+  triggers: GeofenceTriggers;
+  monitorTypes: string[];
+  alertLevel: GeofenceSeverity;
+  active: boolean;
+  created: string;
+  updated: string;
+  stats: {
+    area: number;
+    perimeter: number;
+  };
+}
+
+export interface GeofenceInput {
+  name: string;
+  shape: GeofenceShape;
+  triggers?: Partial<GeofenceTriggers>;
+  monitorTypes?: string[];
+  alertLevel?: GeofenceSeverity;
+  active?: boolean;
+}
+
+export interface GeofenceAlert {
+  id: string;
+  geofenceId: string;
+  geofenceName: string;
+  transition: GeofenceTransition;
+  uid: string;
+  callsign: string;
+  type: string;
+  point: [number, number]; // [lat, lon]
+  severity: GeofenceSeverity;
+  time: Date;
+  dwellSeconds?: number;
+}
+
+export interface GeofenceEngineOptions {
+  file?: string;
+  dwellCheckInterval?: number;
+  maxAlerts?: number;
+  logger?: Logger;
+}
+
+interface Occupancy {
+  inside: boolean;
+  since: Date;
+  dwellAlerted: boolean;
+  callsign: string;
+  type: string;
+  point: [number, number];
+}
+
+/**
+ * Persistent geofence registry. Every position passed to evaluate() is tested
+ * against the active fences with per-entity inside/outside state.
+ * Emits 'alert' (GeofenceAlert) on entry, exit and dwell.
+ */
+export class GeofenceEngine extends EventEmitter {
+  private fences = new Map<string, Geofence>();
+  private occupancy = new Map<string, Map<string, Occupancy>>();
+  private recent: GeofenceAlert[] = [];
+  private options: Required<Omit<GeofenceEngineOptions, 'logger'>>;
+  private logger?: Logger;
+  private dwellTimer?: NodeJS.Timeout;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: GeofenceEngineOptions = {}) {
+    super();
+    this.options = {
+      file: options.file ?? path.join(process.cwd(), 'tak-data', 'geofences.json'),
+      dwellCheckInterval: options.dwellCheckInterval ?? 10000,
+      maxAlerts: options.maxAlerts ?? 500
+    };
+    this.logger = options.logger;
+  }
+
+  get size(): number {
+    return this.fences.size;
+  }
+
+  async open(): Promise<void> {
+    try {
+      const stored: Geofence[] = JSON.parse(await fs.promises.readFile(this.options.file, 'utf8'));
+      for (const fence of stored) {
+        this.fences.set(fence.id, fence);
+      }
+      this.logger?.info({ count: this.fences.size }, 'Geofences loaded');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+
+    if (!this.dwellTimer) {
+      this.dwellTimer = setInterval(() => this.checkDwell(), this.options.dwellCheckInterval);
+      this.dwellTimer.unref();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.dwellTimer) {
+      clearInterval(this.dwellTimer);
+      this.dwellTimer = undefined;
+    }
+    await this.saving;
+  }
+
+  list(): Geofence[] {
+    return Array.from(this.fences.values());
+  }
+
+  get(id: string): Geofence | undefined {
+    return this.fences.get(id);
+  }
+
+  async create(input: GeofenceInput): Promise<Geofence> {
+    const now = new Date().toISOString();
+    const { geometry, area, perimeter } = buildGeofenceGeometry(input.shape);
+
+    const fence: Geofence = {
+      id: `geofence-${uuidv4()}`,
+      name: input.name,
+      shape: input.shape,
+      geometry,
+      triggers: {
+        onEntry: input.triggers?.onEntry ?? true,
+        onExit: input.triggers?.onExit ?? true,
+        onDwell: input.triggers?.onDwell
+      },
+      monitorTypes: input.monitorTypes || ['a-*'],
+      alertLevel: input.alertLevel || 'medium',
+      active: input.active !== false,
+      created: now,
+      updated: now,
+      stats: { area: Math.round(area), perimeter: Math.round(perimeter) }
+    };
+
+    this.fences.set(fence.id, fence);
+    await this.save();
+    return fence;
+  }
+
+  async update(id: string, updates: Partial<GeofenceInput>): Promise<Geofence> {
+    const fence = this.fences.get(id);
+    if (!fence) {
+      throw new Error(`Geofence not found: ${id}`);
+    }
+
+    if (updates.shape) {
+      const { geometry, area, perimeter } = buildGeofenceGeometry(updates.shape);
+      fence.shape = updates.shape;
+      fence.geometry = geometry;
+      fence.stats = { area: Math.round(area), perimeter: Math.round(perimeter) };
+      // Inside/outside state no longer applies to the new boundary
+      this.occupancy.delete(id);
+    }
+    if (updates.name !== undefined) fence.name = updates.name;
+    if (updates.triggers) fence.triggers = { ...fence.triggers, ...updates.triggers };
+    if (updates.monitorTypes) fence.monitorTypes = updates.monitorTypes;
+    if (updates.alertLevel) fence.alertLevel = updates.alertLevel;
+    if (updates.active !== undefined) {
+      fence.active = updates.active;
+      if (!fence.active) this.occupancy.delete(id);
+    }
+    fence.updated = new Date().toISOString();
+
+    await this.save();
+    return fence;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!this.fences.delete(id)) return false;
+    this.occupancy.delete(id);
+    await this.save();
+    return true;
+  }
+
+  // UIDs currently inside a fence
+  occupants(id: string): Array<{ uid: string; callsign: string; since: Date }> {
+    const states = this.occupancy.get(id);
+    if (!states) return [];
+
+    return Array.from(states.entries())
+      .filter(([, state]) => state.inside)
+      .map(([uid, state]) => ({ uid, callsign: state.callsign, since: state.since }));
+  }
+
+  alerts(geofenceId?: string, limit: number = 50): GeofenceAlert[] {
+    const alerts = geofenceId ? this.recent.filter(alert => alert.geofenceId === geofenceId) : this.recent;
+    return alerts.slice(-limit).reverse();
+  }
+
+  evaluate(event: CotEvent): GeofenceAlert[] {
+    if (event.type.startsWith('t-') || event.type.startsWith('b-a-g')) return [];
+    if (!isFinite(event.point.lat) || !isFinite(event.point.lon)) return [];
+
+    const uid = String(event.uid);
+    const position = turf.point([event.point.lon, event.point.lat]);
+    const alerts: GeofenceAlert[] = [];
+
+    for (const fence of this.fences.values()) {
+      if (!fence.active || uid === fence.id) continue;
+      if (!matchesCotType(event.type, fence.monitorTypes)) continue;
+
+      let states = this.occupancy.get(fence.id);
+      if (!states) {
+        states = new Map();
+        this.occupancy.set(fence.id, states);
+      }
+
+      const inside = turf.booleanPointInPolygon(position, fence.geometry);
+      const previous = states.get(uid);
+      const state: Occupancy = {
+        inside,
+        since: previous && previous.inside === inside ? previous.since : event.time,
+        dwellAlerted: previous && previous.inside === inside ? previous.dwellAlerted : false,
+        callsign: event.detail?.contact?.callsign !== undefined ? String(event.detail.contact.callsign) : uid,
+        type: event.type,
+        point: [event.point.lat, event.point.lon]
+      };
+      states.set(uid, state);
+
+      // An entity first seen inside has entered; first seen outside is just its baseline
+      if (inside && !previous?.inside && fence.triggers.onEntry) {
+        alerts.push(this.raise(fence, uid, state, 'entry', event.time));
+      } else if (!inside && previous?.inside && fence.triggers.onExit) {
+        alerts.push(this.raise(fence, uid, state, 'exit', event.time));
+      } else if (inside) {
+        const dwell = this.dwellAlert(fence, uid, state, event.time);
+        if (dwell) alerts.push(dwell);
+      }
+    }
+
+    return alerts;
+  }
+
+  // Forget an entity that left the picture (e.g. forced delete)
+  forget(uid: string): void {
+    for (const states of this.occupancy.values()) {
+      states.delete(uid);
+    }
+  }
+
+  private checkDwell(now: Date = new Date()): void {
+    for (const [id, states] of this.occupancy) {
+      const fence = this.fences.get(id);
+      if (!fence?.active) continue;
+
+      for (const [uid, state] of states) {
+        if (state.inside) this.dwellAlert(fence, uid, state, now);
+      }
+    }
+  }
+
+  private dwellAlert(fence: Geofence, uid: string, state: Occupancy, now: Date): GeofenceAlert | undefined {
+    const dwell = fence.triggers.onDwell;
+    if (!dwell?.enabled || !dwell.duration || state.dwellAlerted) return undefined;
+
+    const seconds = (now.getTime() - state.since.getTime()) / 1000;
+    if (seconds < dwell.duration) return undefined;
+
+    state.dwellAlerted = true;
+    return this.raise(fence, uid, state, 'dwell', now, Math.round(seconds));
+  }
+
+  private raise(
+    fence: Geofence,
+    uid: string,
+    state: Occupancy,
+    transition: GeofenceTransition,
+    time: Date,
+    dwellSeconds?: number
+  ): GeofenceAlert {
+    const alert: GeofenceAlert = {
+      id: `${fence.id}-${transition}-${uid}-${time.getTime()}`,
+      geofenceId: fence.id,
+      geofenceName: fence.name,
+      transition,
+      uid,
+      callsign: state.callsign,
+      type: state.type,
+      point: state.point,
+      severity: fence.alertLevel,
+      time,
+      dwellSeconds
+    };
+
+    this.recent.push(alert);
+    if (this.recent.length > this.options.maxAlerts) {
+      this.recent.splice(0, this.recent.length - this.options.maxAlerts);
+    }
+
+    this.logger?.info({ geofence: fence.name, uid, transition }, 'Geofence alert');
+    this.emit('alert', alert);
+    return alert;
+  }
+
+  // Writes are serialized and go through a temp file so a crash never truncates the registry
+  private save(): Promise<void> {
+    const fences = JSON.stringify(this.list(), null, 2);
+    const file = this.options.file;
+
+    this.saving = this.saving.catch(() => undefined).then(async () => {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(`${file}.tmp`, fences, 'utf8');
+      await fs.promises.rename(`${file}.tmp`, file);
+    });
+    return this.saving;
+  }
+}
+
+export function buildGeofenceGeometry(shape: GeofenceShape): {
+  geometry: GeoJSON.Feature<GeoJSON.Polygon>;
+  area: number;
+  perimeter: number;
+} {
+  switch (shape.type) {
+    case 'circle': {
+      if (!shape.center || !shape.radius) {
+        throw new Error('Circle geofence requires center and radius');
+      }
+      const center = turf.point([shape.center[1], shape.center[0]]);
+      return {
+        geometry: turf.circle(center, shape.radius / 1000, { units: 'kilometers' }),
+        area: Math.PI * Math.pow(shape.radius, 2),
+        perimeter: 2 * Math.PI * shape.radius
+      };
+    }
+
+    case 'polygon': {
+      if (!shape.vertices || shape.vertices.length < 3) {
+        throw new Error('Polygon geofence requires at least 3 vertices');
+      }
+      const vertices = shape.vertices.map(v => [v[1], v[0]]);
+      vertices.push(vertices[0]); // Close the polygon
+      const geometry = turf.polygon([vertices]);
+      return {
+        geometry,
+        area: turf.area(geometry),
+        perimeter: turf.length(turf.polygonToLine(geometry) as GeoJSON.Feature<GeoJSON.LineString>, { units: 'meters' })
+      };
+    }
+
+    case 'rectangle': {
+      if (!shape.center || !shape.width || !shape.height) {
+        throw new Error('Rectangle geofence requires center, width, and height');
+      }
+      // North-aligned rectangle
+      const center = turf.point([shape.center[1], shape.center[0]]);
+      const north = turf.destination(center, shape.height / 2, 0, { units: 'meters' });
+      const south = turf.destination(center, shape.height / 2, 180, { units: 'meters' });
+      const corner = (edge: GeoJSON.Feature<GeoJSON.Point>, bearing: number) =>
+        turf.destination(edge, shape.width! / 2, bearing, { units: 'meters' }).geometry.coordinates;
+
+      const topLeft = corner(north, -90);
+      return {
+        geometry: turf.polygon([[topLeft, corner(north, 90), corner(south, 90), corner(south, -90), topLeft]]),
+        area: shape.width * shape.height,
+        perimeter: 2 * (shape.width + shape.height)
+      };
+    }
+
+    default:
+      throw new Error(`Unknown geofence shape: ${(shape as GeofenceShape).type}`);
+  }
+}
+
+// Drawing event that shows a fence on ATAK/WinTAK maps
+export function geofenceToCotMessage(fence: Geofence): CotMessage {
+  const now = new Date();
+  const center = fence.shape.center || (turf.centroid(fence.geometry).geometry.coordinates.slice().reverse() as [number, number]);
+
+  return {
+    event: {
+      _attributes: {
+        version: '2.0',
+        uid: fence.id,
+        type: 'u-d-f', // Drawing feature
+        time: now.toISOString(),
+        start: now.toISOString(),
+        stale: new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours
+        how: 'h-e'
+      },
+      point: {
+        _attributes: {
+          lat: center[0].toString(),
+          lon: center[1].toString(),
+          hae: '0',
+          ce: '10',
+          le: '10'
+        }
+      },
+      detail: {
+        link: fence.geometry.geometry.coordinates[0].map(([lon, lat]) => ({
+          _attributes: { point: `${lat},${lon}` }
+        })),
+        strokeColor: { _attributes: { value: '-16777216' } },
+        strokeWeight: { _attributes: { value: '2.0' } },
+        fillColor: { _attributes: { value: String(FILL_COLORS[fence.alertLevel]) } },
+        contact: { _attributes: { callsign: fence.name } },
+        remarks: `Geofence: ${fence.name}`,
+        labels_on: { _attributes: { value: 'true' } }
+      }
+    }
+  };
+}
+
+// Translucent ARGB fill per alert level, as signed 32-bit ints like ATAK writes them
+const FILL_COLORS: Record<GeofenceSeverity, number> = {
+  low: 0x5000ff00 | 0,
+  medium: 0x50ffff00 | 0,
+  high: 0x50ffa500 | 0,
+  critical: 0x50ff0000 | 0
+};
+
+// Geofence breach alert (ATAK b-a-g) pointing at the fence and the entity
+export function geofenceAlertToCotMessage(alert: GeofenceAlert): CotMessage {
+  const now = new Date();
+
+  return {
+    event: {
+      _attributes: {
+        version: '2.0',
+        uid: alert.id,
+        type: 'b-a-g',
+        time: now.toISOString(),
+        start: now.toISOString(),
+        stale: new Date(now.getTime() + 10 * 60 * 1000).toISOString(),
+        how: 'm-g'
+      },
+      point: {
+        _attributes: {
+          lat: alert.point[0].toString(),
+          lon: alert.point[1].toString(),
+          hae: '0',
+          ce: '10',
+          le: '10'
+        }
+      },
+      detail: {
+        link: [
+          { _attributes: { uid: alert.geofenceId, type: 'u-d-f', relation: 'p-p' } },
+          { _attributes: { uid: alert.uid, type: alert.type, relation: 'r-u' } }
+        ],
+        contact: { _attributes: { callsign: `Geofence ${alert.transition}: ${alert.geofenceName}` } },
+        remarks: describeGeofenceAlert(alert)
+      }
+    }
+  };
+}
+
+export function describeGeofenceAlert(alert: GeofenceAlert): string {
+  switch (alert.transition) {
+    case 'entry':
+      return `${alert.callsign} entered ${alert.geofenceName}`;
+    case 'exit':
+      return `${alert.callsign} exited ${alert.geofenceName}`;
+    case 'dwell':
+      return `${alert.callsign} has been in ${alert.geofenceName} for ${alert.dwellSeconds}s`;
+  }
+}
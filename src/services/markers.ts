@@ -0,0 +1,127 @@
+import { v4 as uuidv4 } from 'uuid';
+import { cotEventToMessage } from '../clients/cot-xml';
+import { CotEvent, CotMessage, COT_TYPES } from '../types/cot';
+import { toArgb } from './drawings';
+import { parseCoordinate } from './coordinates';
+
+// Markers are static map items, not position reports
+export const MARKER_STALE_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface MarkerInput {
+  uid?: string;
+  type?: string;
+  callsign: string;
+  point: [number, number]; // [lat, lon]
+  hae?: number;
+  // e.g. 'COT_MAPPING_2525B/a-h/a-h-G' or '<iconset uid>/<group>/<icon>.png'
+  iconsetPath?: string;
+  // '#RRGGBB', '#AARRGGBB' or an ARGB int
+  color?: string | number;
+  remarks?: string;
+  staleMs?: number;
+}
+
+// Fields an update may change; everything else in the marker's detail is kept
+export type MarkerChanges = Partial<Omit<MarkerInput, 'uid'>>;
+
+// Tool input places a marker by lat/lon or by a position in any supported notation
+export function markerPosition(marker: { lat?: number; lon?: number; position?: unknown }): [number, number] {
+  if (marker.position !== undefined) return parseCoordinate(marker.position);
+  if (marker.lat === undefined || marker.lon === undefined) {
+    throw new Error('Marker needs lat and lon, or a position');
+  }
+  return parseCoordinate([marker.lat, marker.lon]);
+}
+
+function validPoint(point: [number, number]): [number, number] {
+  const [lat, lon] = point;
+  if (!isFinite(lat) || !isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    throw new Error(`Invalid marker position: ${point}`);
+  }
+  return [lat, lon];
+}
+
+// Marker in the layout ATAK writes for points dropped by hand
+export function buildMarkerMessage(input: MarkerInput, now: Date = new Date()): CotMessage {
+  const [lat, lon] = validPoint(input.point);
+  const detail: Record<string, any> = {
+    status: { _attributes: { readiness: 'true' } },
+    archive: {},
+    contact: { _attributes: { callsign: input.callsign } },
+    remarks: input.remarks || ''
+  };
+  if (input.color !== undefined) {
+    detail.color = { _attributes: { argb: String(toArgb(input.color)) } };
+  }
+  if (input.iconsetPath) {
+    detail.usericon = { _attributes: { iconsetpath: input.iconsetPath } };
+  }
+
+  return {
+    event: {
+      _attributes: {
+        version: '2.0',
+        uid: input.uid || uuidv4(),
+        type: input.type || COT_TYPES.UNKNOWN_GROUND,
+        time: now.toISOString(),
+        start: now.toISOString(),
+        stale: new Date(now.getTime() + (input.staleMs ?? MARKER_STALE_MS)).toISOString(),
+        how: 'h-g-i-g-o'
+      },
+      point: {
+        _attributes: {
+          lat: String(lat),
+          lon: String(lon),
+          hae: String(input.hae ?? 0),
+          ce: '9999999',
+          le: '9999999'
+        }
+      },
+      detail
+    }
+  };
+}
+
+/**
+ * Re-issues an existing marker with the given changes applied. Detail
+ * elements the update does not touch (links, attachments, sensor fields)
+ * are carried over, and the stale window keeps its original length.
+ */
+export function updateMarkerMessage(event: CotEvent, changes: MarkerChanges, now: Date = new Date()): CotMessage {
+  const message = cotEventToMessage(event);
+  const attributes = message.event._attributes;
+  const detail = message.event.detail;
+
+  const staleMs = changes.staleMs ?? Math.max(event.stale.getTime() - event.time.getTime(), 60 * 1000);
+  attributes.time = now.toISOString();
+  attributes.start = now.toISOString();
+  attributes.stale = new Date(now.getTime() + staleMs).toISOString();
+  if (changes.type) attributes.type = changes.type;
+
+  if (changes.point) {
+    const [lat, lon] = validPoint(changes.point);
+    message.event.point._attributes.lat = String(lat);
+    message.event.point._attributes.lon = String(lon);
+  }
+  if (changes.hae !== undefined) {
+    message.event.point._attributes.hae = String(changes.hae);
+  }
+
+  if (changes.callsign !== undefined) {
+    detail.contact = { ...detail.contact, callsign: changes.callsign };
+  }
+  if (changes.color !== undefined) {
+    detail.color = { ...detail.color, argb: String(toArgb(changes.color)) };
+  }
+  if (changes.iconsetPath !== undefined) {
+    detail.usericon = { ...detail.usericon, iconsetpath: changes.iconsetPath };
+  }
+  if (changes.remarks !== undefined) {
+    // Keep remarks attributes such as source and time
+    detail.remarks = typeof detail.remarks === 'object' && detail.remarks !== null
+      ? { ...detail.remarks, '#text': changes.remarks }
+      : changes.remarks;
+  }
+
+  return message;
+}
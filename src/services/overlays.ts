@@ -0,0 +1,531 @@
+import JSZip from 'jszip';
+import path from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import { v5 as uuidv5 } from 'uuid';
+import { CotMessage, COT_TYPES } from '../types/cot';
+import { checkZipLimits, readZipEntry } from './data-package';
+import { createDrawing, drawingToCotMessage, fromKmlColor, toArgb } from './drawings';
+import { buildMarkerMessage } from './markers';
+import { planRoute, routeToCotMessage } from './routes';
+import { resolveCotType } from './symbology';
+
+export type OverlayFormat = 'kml' | 'kmz' | 'geojson';
+
+// Namespace for map item UIDs derived from the overlay name and feature, so a re-import replaces the earlier items
+const OVERLAY_UID_NAMESPACE = '7d2c9b4e-3f1a-4c8d-a6e5-0b9f8e7d6c5a';
+
+// Larger overlays belong in a data package as the original file
+export const MAX_OVERLAY_ITEMS = 1000;
+
+// ATAK colours spot map markers by the last segment of their iconset path
+const SPOT_MARKER_TYPE = 'b-m-p-s-m';
+
+export type OverlayGeometry =
+  | { kind: 'point'; point: [number, number]; hae?: number }
+  | { kind: 'line'; points: Array<[number, number]> }
+  // Outer ring only; holes are counted so the caller can report them
+  | { kind: 'polygon'; points: Array<[number, number]>; holes: number };
+
+export interface OverlayStyle {
+  // Signed 32-bit ARGB ints, as ATAK writes them
+  stroke?: number;
+  strokeWidth?: number;
+  fill?: number;
+  marker?: number;
+}
+
+export interface OverlayFeature {
+  // Position in the source document
+  index: number;
+  // KML Placemark id or GeoJSON feature id
+  id?: string;
+  // Folder path and name, for reporting
+  label: string;
+  name?: string;
+  description?: string;
+  geometries: OverlayGeometry[];
+  // Geometry types that have no CoT equivalent, e.g. 3D models and tracks
+  unsupported: string[];
+  style: OverlayStyle;
+  // KML ExtendedData or GeoJSON properties
+  properties: Record<string, any>;
+}
+
+export interface SkippedFeature {
+  feature: string;
+  reason: string;
+}
+
+export interface Overlay {
+  format: OverlayFormat;
+  // KML Document name or GeoJSON "name" member
+  name?: string;
+  features: OverlayFeature[];
+  // Elements that are not features, such as image overlays and network links
+  skipped: SkippedFeature[];
+}
+
+export type OverlayItemKind = 'marker' | 'line' | 'polygon' | 'route';
+
+export interface OverlayItem {
+  uid: string;
+  name: string;
+  kind: OverlayItemKind;
+  feature: string;
+  message: CotMessage;
+  // Parts of the feature that were dropped, e.g. polygon holes
+  note?: string;
+}
+
+export interface OverlayOptions {
+  // Overlay identity for derived UIDs
+  key: string;
+  // Convert LineStrings to navigable routes instead of line drawings
+  linesAsRoutes?: boolean;
+  // CoT type or SIDC for points without a colour or type of their own
+  markerType?: string;
+}
+
+export interface OverlayConversion {
+  items: OverlayItem[];
+  skipped: SkippedFeature[];
+}
+
+const KML_LISTS = new Set([
+  'Document', 'Folder', 'Placemark', 'Style', 'StyleMap', 'Pair', 'Data', 'SchemaData', 'SimpleData',
+  'Point', 'LineString', 'LinearRing', 'Polygon', 'MultiGeometry', 'innerBoundaryIs',
+  'Model', 'Track', 'MultiTrack', 'GroundOverlay', 'ScreenOverlay', 'PhotoOverlay', 'NetworkLink'
+]);
+
+const KML_NON_FEATURES: Record<string, string> = {
+  GroundOverlay: 'Image overlays are not converted; send the KMZ in a data package instead',
+  ScreenOverlay: 'Screen overlays have no map position',
+  PhotoOverlay: 'Image overlays are not converted; send the KMZ in a data package instead',
+  NetworkLink: 'Network links are not followed'
+};
+
+export function detectOverlayFormat(data: Buffer, fileName?: string): OverlayFormat {
+  const extension = fileName ? path.extname(fileName).toLowerCase() : '';
+  if (extension === '.kmz' || (data.length >= 4 && data.readUInt32BE(0) === 0x504b0304)) return 'kmz';
+  if (extension === '.geojson' || extension === '.json') return 'geojson';
+  if (extension === '.kml') return 'kml';
+
+  const head = data.toString('utf8', 0, 256).replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('{')) return 'geojson';
+  if (head.startsWith('<')) return 'kml';
+  throw new Error('Cannot tell the overlay format; set format to kml, kmz or geojson');
+}
+
+export async function readOverlay(data: Buffer, format: OverlayFormat = detectOverlayFormat(data)): Promise<Overlay> {
+  switch (format) {
+    case 'kml':
+      return parseKml(data.toString('utf8'));
+    case 'kmz': {
+      const zip = await JSZip.loadAsync(data);
+      checkZipLimits(zip);
+      // doc.kml by convention, otherwise the shallowest .kml in the archive
+      const document = zip.file('doc.kml') || zip.file(/\.kml$/i)
+        .sort((a, b) => a.name.split('/').length - b.name.split('/').length)[0];
+      if (!document) throw new Error('KMZ has no KML document');
+      return { ...parseKml((await readZipEntry(document)).toString('utf8')), format: 'kmz' };
+    }
+    case 'geojson':
+      return parseGeoJson(data.toString('utf8'));
+    default:
+      throw new Error(`Unknown overlay format: ${format}`);
+  }
+}
+
+export function parseKml(xml: string): Overlay {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    // kml: and gx: prefixes
+    removeNSPrefix: true,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    isArray: (name, _jpath, _leaf, isAttribute) => !isAttribute && KML_LISTS.has(name)
+  });
+  const parsed = parser.parse(xml);
+  const root = parsed.kml;
+  if (!root) throw new Error('Not a KML document');
+
+  const styles = new Map<string, OverlayStyle>();
+  const styleMaps = new Map<string, string>();
+  collectKmlStyles(root, styles, styleMaps);
+
+  const resolveStyle = (url: unknown): OverlayStyle => {
+    const id = String(text(url) ?? '').split('#').pop() || '';
+    return styles.get(styleMaps.get(id) ?? id) ?? {};
+  };
+
+  const overlay: Overlay = {
+    format: 'kml',
+    name: text(root.Document?.[0]?.name),
+    features: [],
+    skipped: []
+  };
+
+  const walk = (container: any, folders: string[]) => {
+    for (const document of container.Document || []) walk(document, folders);
+    for (const folder of container.Folder || []) walk(folder, [...folders, text(folder.name) || 'Folder']);
+
+    for (const placemark of container.Placemark || []) {
+      const index = overlay.features.length;
+      const name = text(placemark.name);
+      const feature: OverlayFeature = {
+        index,
+        id: placemark.id !== undefined ? String(placemark.id) : undefined,
+        label: [...folders, name || `Placemark ${index + 1}`].join('/'),
+        name,
+        description: plainText(text(placemark.description)),
+        geometries: [],
+        unsupported: [],
+        // An inline style overrides the shared one
+        style: { ...resolveStyle(placemark.styleUrl), ...(placemark.Style ? kmlStyle(placemark.Style[0]) : {}) },
+        properties: kmlExtendedData(placemark.ExtendedData)
+      };
+      kmlGeometries(placemark, feature);
+      overlay.features.push(feature);
+    }
+
+    for (const [element, reason] of Object.entries(KML_NON_FEATURES)) {
+      for (const node of container[element] || []) {
+        overlay.skipped.push({ feature: [...folders, text(node.name) || element].join('/'), reason });
+      }
+    }
+  };
+  walk(root, []);
+
+  return overlay;
+}
+
+export function parseGeoJson(json: string): Overlay {
+  const document = JSON.parse(json);
+  const features: any[] = document.type === 'FeatureCollection' ? document.features
+    : document.type === 'Feature' ? [document]
+    : [{ type: 'Feature', geometry: document, properties: {} }];
+  if (!Array.isArray(features)) throw new Error('GeoJSON FeatureCollection has no features array');
+
+  return {
+    format: 'geojson',
+    name: typeof document.name === 'string' ? document.name : undefined,
+    features: features.map((source, index) => {
+      const properties = source?.properties || {};
+      const name = properties.name ?? properties.title ?? properties.Name;
+      const feature: OverlayFeature = {
+        index,
+        id: source?.id !== undefined ? String(source.id) : undefined,
+        label: name !== undefined ? String(name) : `Feature ${index + 1}`,
+        name: name !== undefined ? String(name) : undefined,
+        description: plainText(properties.description ?? properties.Description),
+        geometries: [],
+        unsupported: [],
+        // simplestyle-spec, as written by geojson.io and QGIS exports
+        style: {
+          stroke: color(properties.stroke, properties['stroke-opacity']),
+          strokeWidth: properties['stroke-width'] !== undefined ? Number(properties['stroke-width']) : undefined,
+          fill: color(properties.fill, properties['fill-opacity'] ?? 0.6),
+          marker: color(properties['marker-color'])
+        },
+        properties
+      };
+      geoJsonGeometries(source?.geometry, feature);
+      return feature;
+    }),
+    skipped: []
+  };
+}
+
+/**
+ * Turns overlay features into CoT: points become markers (coloured points
+ * become spot map markers), lines become line drawings or routes, and
+ * polygons become filled shapes. Multi-geometries give one item per part.
+ * UIDs derive from the overlay key and feature, so importing the same
+ * overlay again updates the items instead of duplicating them.
+ */
+export function convertOverlay(features: OverlayFeature[], options: OverlayOptions): OverlayConversion {
+  const conversion: OverlayConversion = { items: [], skipped: [] };
+
+  for (const feature of features) {
+    if (feature.geometries.length === 0) {
+      conversion.skipped.push({
+        feature: feature.label,
+        reason: feature.unsupported.length ? `Unsupported geometry: ${feature.unsupported.join(', ')}` : 'No geometry'
+      });
+      continue;
+    }
+    for (const type of feature.unsupported) {
+      conversion.skipped.push({ feature: feature.label, reason: `Unsupported geometry: ${type}` });
+    }
+
+    feature.geometries.forEach((geometry, index) => {
+      const part = feature.geometries.length > 1 ? ` (${index + 1})` : '';
+      const label = feature.label + part;
+
+      if (conversion.items.length >= MAX_OVERLAY_ITEMS) {
+        conversion.skipped.push({ feature: label, reason: `Imports are limited to ${MAX_OVERLAY_ITEMS} map items` });
+        return;
+      }
+
+      try {
+        const uid = uuidv5(`${options.key}/${feature.id ?? `#${feature.index}`}/${index}`, OVERLAY_UID_NAMESPACE);
+        const name = feature.name ? feature.name + part : label;
+        conversion.items.push({ uid, name, feature: label, ...convertGeometry(geometry, feature, uid, name, options) });
+      } catch (error) {
+        conversion.skipped.push({ feature: label, reason: error instanceof Error ? error.message : String(error) });
+      }
+    });
+  }
+
+  return conversion;
+}
+
+function convertGeometry(
+  geometry: OverlayGeometry,
+  feature: OverlayFeature,
+  uid: string,
+  name: string,
+  options: OverlayOptions
+): { kind: OverlayItemKind; message: CotMessage; note?: string } {
+  const { style, description: remarks } = feature;
+
+  switch (geometry.kind) {
+    case 'point': {
+      const explicitType = feature.properties.cotType ?? feature.properties.sidc;
+      const spot = explicitType === undefined && style.marker !== undefined;
+      const type = explicitType !== undefined ? resolveCotType(String(explicitType))
+        : spot ? SPOT_MARKER_TYPE
+        : resolveCotType(options.markerType || COT_TYPES.UNKNOWN_GROUND);
+
+      return {
+        kind: 'marker',
+        message: buildMarkerMessage({
+          uid,
+          type,
+          callsign: name,
+          point: geometry.point,
+          hae: geometry.hae,
+          color: style.marker,
+          iconsetPath: spot ? `COT_MAPPING_SPOTMAP/${SPOT_MARKER_TYPE}/${style.marker}` : undefined,
+          remarks
+        })
+      };
+    }
+
+    case 'line':
+      if (options.linesAsRoutes) {
+        return {
+          kind: 'route',
+          message: routeToCotMessage(planRoute({
+            uid,
+            name,
+            waypoints: geometry.points.map((point, index) => ({ point, uid: `${uid}.${index}` })),
+            color: style.stroke,
+            remarks
+          }))
+        };
+      }
+      return {
+        kind: 'line',
+        message: drawingToCotMessage(createDrawing({
+          uid,
+          name,
+          kind: 'line',
+          points: geometry.points,
+          strokeColor: style.stroke,
+          strokeWeight: style.strokeWidth,
+          remarks
+        }))
+      };
+
+    case 'polygon':
+      return {
+        kind: 'polygon',
+        message: drawingToCotMessage(createDrawing({
+          uid,
+          name,
+          kind: 'polygon',
+          points: geometry.points,
+          strokeColor: style.stroke,
+          strokeWeight: style.strokeWidth,
+          fillColor: style.fill,
+          remarks
+        })),
+        note: geometry.holes > 0 ? `${geometry.holes} interior ring(s) dropped` : undefined
+      };
+  }
+}
+
+function collectKmlStyles(container: any, styles: Map<string, OverlayStyle>, styleMaps: Map<string, string>): void {
+  for (const style of container.Style || []) {
+    if (style.id !== undefined) styles.set(String(style.id), kmlStyle(style));
+  }
+  for (const map of container.StyleMap || []) {
+    // The normal (not highlighted) half of the pair is what stays on the map
+    const normal = (map.Pair || []).find((pair: any) => text(pair.key) === 'normal');
+    if (map.id === undefined || !normal) continue;
+    if (normal.Style) {
+      styles.set(String(map.id), kmlStyle(normal.Style[0]));
+    } else if (normal.styleUrl !== undefined) {
+      styleMaps.set(String(map.id), String(text(normal.styleUrl)).split('#').pop() || '');
+    }
+  }
+  for (const child of [...(container.Document || []), ...(container.Folder || [])]) {
+    collectKmlStyles(child, styles, styleMaps);
+  }
+}
+
+function kmlStyle(style: any): OverlayStyle {
+  const result: OverlayStyle = {};
+  const kmlColor = (value: unknown) => {
+    try {
+      return value !== undefined ? fromKmlColor(String(text(value))) : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  if (style?.LineStyle) {
+    result.stroke = kmlColor(style.LineStyle.color);
+    const width = Number(text(style.LineStyle.width));
+    if (width > 0) result.strokeWidth = width;
+  }
+  if (style?.PolyStyle) {
+    // fill="0" draws the outline only
+    result.fill = text(style.PolyStyle.fill) === '0' ? 0 : kmlColor(style.PolyStyle.color);
+  }
+  if (style?.IconStyle) {
+    result.marker = kmlColor(style.IconStyle.color);
+  }
+
+  for (const key of Object.keys(result) as Array<keyof OverlayStyle>) {
+    if (result[key] === undefined) delete result[key];
+  }
+  return result;
+}
+
+function kmlExtendedData(extendedData: any): Record<string, any> {
+  const properties: Record<string, any> = {};
+  for (const data of extendedData?.Data || []) {
+    if (data.name !== undefined) properties[String(data.name)] = text(data.value);
+  }
+  for (const schemaData of extendedData?.SchemaData || []) {
+    for (const simpleData of schemaData.SimpleData || []) {
+      if (simpleData.name !== undefined) properties[String(simpleData.name)] = text(simpleData);
+    }
+  }
+  return properties;
+}
+
+function kmlGeometries(node: any, feature: OverlayFeature): void {
+  for (const point of node.Point || []) {
+    // Missing coordinates fail validation and are reported with the feature
+    const [coordinate = [NaN, NaN]] = kmlCoordinates(point.coordinates);
+    feature.geometries.push({ kind: 'point', point: [coordinate[0], coordinate[1]], hae: coordinate[2] });
+  }
+  for (const line of node.LineString || []) {
+    feature.geometries.push({ kind: 'line', points: kmlCoordinates(line.coordinates).map(([lat, lon]) => [lat, lon]) });
+  }
+  for (const ring of node.LinearRing || []) {
+    feature.geometries.push({ kind: 'polygon', points: openRing(kmlCoordinates(ring.coordinates)), holes: 0 });
+  }
+  for (const polygon of node.Polygon || []) {
+    const outer = polygon.outerBoundaryIs?.LinearRing?.[0];
+    feature.geometries.push({
+      kind: 'polygon',
+      points: openRing(kmlCoordinates(outer?.coordinates)),
+      holes: (polygon.innerBoundaryIs || []).length
+    });
+  }
+  for (const multi of node.MultiGeometry || []) {
+    kmlGeometries(multi, feature);
+  }
+  for (const type of ['Model', 'Track', 'MultiTrack']) {
+    if (node[type]) feature.unsupported.push(type);
+  }
+}
+
+// "lon,lat[,alt]" tuples separated by whitespace
+function kmlCoordinates(value: unknown): Array<[number, number, number?]> {
+  return String(text(value) ?? '').trim().split(/\s+/).filter(Boolean).map(tuple => {
+    const [lon, lat, alt] = tuple.split(',').map(Number);
+    return alt !== undefined && isFinite(alt) ? [lat, lon, alt] : [lat, lon];
+  });
+}
+
+function geoJsonGeometries(geometry: any, feature: OverlayFeature): void {
+  if (!geometry) return;
+  const position = (coordinate: number[]): [number, number] => [Number(coordinate?.[1]), Number(coordinate?.[0])];
+
+  switch (geometry.type) {
+    case 'Point':
+      feature.geometries.push({
+        kind: 'point',
+        point: position(geometry.coordinates),
+        hae: isFinite(geometry.coordinates?.[2]) ? Number(geometry.coordinates[2]) : undefined
+      });
+      break;
+    case 'MultiPoint':
+      for (const coordinates of geometry.coordinates || []) {
+        geoJsonGeometries({ type: 'Point', coordinates }, feature);
+      }
+      break;
+    case 'LineString':
+      feature.geometries.push({ kind: 'line', points: (geometry.coordinates || []).map(position) });
+      break;
+    case 'MultiLineString':
+      for (const coordinates of geometry.coordinates || []) {
+        geoJsonGeometries({ type: 'LineString', coordinates }, feature);
+      }
+      break;
+    case 'Polygon': {
+      const [outer, ...holes] = geometry.coordinates || [];
+      feature.geometries.push({ kind: 'polygon', points: openRing((outer || []).map(position)), holes: holes.length });
+      break;
+    }
+    case 'MultiPolygon':
+      for (const coordinates of geometry.coordinates || []) {
+        geoJsonGeometries({ type: 'Polygon', coordinates }, feature);
+      }
+      break;
+    case 'GeometryCollection':
+      for (const child of geometry.geometries || []) {
+        geoJsonGeometries(child, feature);
+      }
+      break;
+    default:
+      feature.unsupported.push(String(geometry.type));
+  }
+}
+
+// Drawings close polygons themselves
+function openRing(points: Array<[number, number, number?]>): Array<[number, number]> {
+  const ring = points.map(point => [point[0], point[1]] as [number, number]);
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (ring.length > 1 && first[0] === last[0] && first[1] === last[1]) ring.pop();
+  return ring;
+}
+
+function color(value: unknown, opacity?: unknown): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  try {
+    return toArgb(value, opacity !== undefined ? Number(opacity) : undefined);
+  } catch {
+    return undefined;
+  }
+}
+
+// Element text, whether or not the element also has attributes
+function text(node: any): string | undefined {
+  if (node === undefined || node === null) return undefined;
+  if (typeof node === 'object') return node['#text'] !== undefined ? String(node['#text']) : undefined;
+  return String(node);
+}
+
+// KML descriptions are often HTML balloons
+function plainText(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const plain = String(value).replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '').replace(/[ \t]+/g, ' ').trim();
+  return plain || undefined;
+}
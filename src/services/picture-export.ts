@@ -0,0 +1,457 @@
+import * as turf from '@turf/turf';
+import { XMLBuilder } from 'fast-xml-parser';
+import type { TAKServerClient } from '../clients/tak-server';
+import { CotEvent } from '../types/cot';
+import { TAKEntity } from '../types/tak';
+import { EntityQuery } from './entity-store';
+import { Drawing, parseDrawingEvent, rangeBearingEnd, toArgb, toKmlColor } from './drawings';
+import { parseRouteEvent } from './routes';
+import { describeCotType } from './symbology';
+
+export type ExportFormat = 'geojson' | 'kml' | 'csv';
+export type ExportLayer = 'entities' | 'shapes' | 'geofences' | 'tracks';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['geojson', 'kml', 'csv'];
+export const EXPORT_LAYERS: ExportLayer[] = ['entities', 'shapes', 'geofences', 'tracks'];
+
+export interface PictureQuery extends Pick<EntityQuery, 'types' | 'teams' | 'roles' | 'bbox' | 'includeStale'> {
+  layers?: ExportLayer[];
+  // Track history window; defaults to the last hour
+  trackStart?: Date;
+  trackEnd?: Date;
+}
+
+export interface PictureFeature {
+  layer: ExportLayer;
+  id: string;
+  name: string;
+  type?: string;
+  geometry: GeoJSON.Geometry;
+  // Label position and CSV lat/lon: [lat, lon]
+  point: [number, number];
+  properties: Record<string, string | number | boolean | undefined>;
+  // Signed ARGB ints for shapes and geofences; points and tracks are styled by affiliation
+  style?: { stroke?: number; fill?: number; width?: number };
+}
+
+export interface ExportedPicture {
+  format: ExportFormat;
+  mimeType: string;
+  extension: string;
+  content: string;
+  counts: Record<ExportLayer, number>;
+}
+
+const MIME_TYPES: Record<ExportFormat, [string, string]> = {
+  geojson: ['application/geo+json', 'geojson'],
+  kml: ['application/vnd.google-earth.kml+xml', 'kml'],
+  csv: ['text/csv', 'csv']
+};
+
+// 2525 frame fill colours per affiliation group, as ARGB
+const AFFILIATION_COLORS: Record<string, number> = {
+  friendly: toArgb('#80E0FF'),
+  hostile: toArgb('#FF8080'),
+  neutral: toArgb('#AAFFAA'),
+  unknown: toArgb('#FFFF80'),
+  other: toArgb('#FFFFFF')
+};
+
+const AFFILIATION_GROUPS: Record<string, string> = {
+  f: 'friendly',
+  a: 'friendly',
+  h: 'hostile',
+  s: 'hostile',
+  j: 'hostile',
+  k: 'hostile',
+  n: 'neutral',
+  u: 'unknown',
+  p: 'unknown'
+};
+
+const GEOFENCE_COLOR = toArgb('#FFA500');
+
+const CSV_COLUMNS = [
+  'layer', 'id', 'name', 'type', 'description', 'affiliation', 'team', 'role',
+  'lat', 'lon', 'alt', 'speed', 'course', 'time', 'wkt'
+];
+
+/**
+ * Gathers the operational picture as features: point entities, drawings and
+ * routes, geofences and recent track history. Entities, shapes and tracks
+ * go through the same type/team/role/bbox filters as getEntities; geofences
+ * are kept when they intersect the bbox.
+ */
+export async function collectPicture(takClient: TAKServerClient, query: PictureQuery = {}): Promise<PictureFeature[]> {
+  const layers = new Set(query.layers && query.layers.length > 0 ? query.layers : EXPORT_LAYERS);
+  const features: PictureFeature[] = [];
+  const tracked: TAKEntity[] = [];
+
+  if (layers.has('entities') || layers.has('shapes') || layers.has('tracks')) {
+    const entities = await takClient.getEntities({
+      types: query.types,
+      teams: query.teams,
+      roles: query.roles,
+      bbox: query.bbox,
+      includeStale: query.includeStale ?? false
+    });
+
+    for (const entity of entities) {
+      const event = takClient.entities.getEvent(entity.uid) || entityEvent(entity);
+      const shape = shapeFeature(event);
+      if (shape) {
+        if (layers.has('shapes')) features.push(shape);
+        continue;
+      }
+      if (layers.has('entities')) features.push(entityFeature(entity));
+      tracked.push(entity);
+    }
+  }
+
+  if (layers.has('geofences')) {
+    const area = query.bbox ? turf.bboxPolygon(query.bbox) : undefined;
+    for (const fence of takClient.geofences.list()) {
+      if (area && turf.booleanDisjoint(area, fence.geometry)) continue;
+      const [lon, lat] = turf.centroid(fence.geometry).geometry.coordinates;
+      features.push({
+        layer: 'geofences',
+        id: fence.id,
+        name: fence.name,
+        geometry: fence.geometry.geometry,
+        point: [lat, lon],
+        properties: {
+          shape: fence.shape.type,
+          alertLevel: fence.alertLevel,
+          active: fence.active,
+          monitorTypes: fence.monitorTypes.join(' '),
+          occupants: takClient.geofences.occupants(fence.id).length,
+          area: Math.round(fence.stats.area)
+        },
+        style: { stroke: GEOFENCE_COLOR, fill: (0x40 << 24) | (GEOFENCE_COLOR & 0xffffff), width: 2 }
+      });
+    }
+  }
+
+  if (layers.has('tracks') && takClient.tracks) {
+    const end = query.trackEnd || new Date();
+    const start = query.trackStart || new Date(end.getTime() - 60 * 60 * 1000);
+    for (const entity of tracked) {
+      const points = takClient.tracks.getTrack(entity.uid, start, end);
+      if (points.length < 2) continue;
+      const last = points[points.length - 1];
+      features.push({
+        layer: 'tracks',
+        id: `${entity.uid}.track`,
+        name: entity.callsign,
+        type: entity.type,
+        geometry: { type: 'LineString', coordinates: points.map(point => [point.lon, point.lat]) },
+        point: [last.lat, last.lon],
+        properties: {
+          uid: entity.uid,
+          affiliation: affiliationGroup(entity.type),
+          team: entity.team,
+          points: points.length,
+          start: points[0].time.toISOString(),
+          time: last.time.toISOString(),
+          length: Math.round(turf.length(turf.lineString(points.map(point => [point.lon, point.lat])), { units: 'meters' }))
+        }
+      });
+    }
+  }
+
+  return features;
+}
+
+export function exportPicture(features: PictureFeature[], format: ExportFormat): ExportedPicture {
+  const [mimeType, extension] = MIME_TYPES[format] || [];
+  if (!mimeType) throw new Error(`Unknown export format: ${format}`);
+
+  const counts = Object.fromEntries(EXPORT_LAYERS.map(layer => [layer, 0])) as Record<ExportLayer, number>;
+  for (const feature of features) counts[feature.layer]++;
+
+  const content = format === 'geojson' ? JSON.stringify(toGeoJson(features), null, 2)
+    : format === 'kml' ? toKml(features)
+    : toCsv(features);
+
+  return { format, mimeType, extension, content, counts };
+}
+
+// simplestyle-spec colours and the cotType property survive a round trip through tak_import_overlay
+export function toGeoJson(features: PictureFeature[]): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: features.map(feature => ({
+      type: 'Feature',
+      id: feature.id,
+      geometry: feature.geometry,
+      properties: {
+        layer: feature.layer,
+        name: feature.name,
+        cotType: feature.type,
+        ...feature.properties,
+        ...simpleStyle(feature)
+      }
+    }))
+  };
+}
+
+export function toKml(features: PictureFeature[], name: string = `TAK picture ${new Date().toISOString()}`): string {
+  const xmlBuilder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    suppressEmptyNode: true,
+    suppressBooleanAttributes: false,
+    format: true
+  });
+
+  // One shared style per affiliation for points and tracks
+  const styles = Object.entries(AFFILIATION_COLORS).map(([id, color]) => ({
+    '@_id': id,
+    IconStyle: { color: toKmlColor(color) },
+    LineStyle: { color: toKmlColor(color), width: 3 },
+    LabelStyle: { scale: 0.8 }
+  }));
+
+  const folders = EXPORT_LAYERS
+    .map(layer => ({ layer, items: features.filter(feature => feature.layer === layer) }))
+    .filter(({ items }) => items.length > 0)
+    .map(({ layer, items }) => ({
+      name: layer[0].toUpperCase() + layer.slice(1),
+      Placemark: items.map(kmlPlacemark)
+    }));
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' + xmlBuilder.build({
+    kml: {
+      '@_xmlns': 'http://www.opengis.net/kml/2.2',
+      Document: { name, Style: styles, Folder: folders }
+    }
+  });
+}
+
+export function toCsv(features: PictureFeature[]): string {
+  const rows = features.map(feature => {
+    const values: Record<string, unknown> = {
+      ...feature.properties,
+      layer: feature.layer,
+      id: feature.id,
+      name: feature.name,
+      type: feature.type,
+      lat: feature.point[0],
+      lon: feature.point[1],
+      wkt: toWkt(feature.geometry)
+    };
+    return CSV_COLUMNS.map(column => csvField(values[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function entityFeature(entity: TAKEntity): PictureFeature {
+  const { lat, lon, alt } = entity.location;
+  return {
+    layer: 'entities',
+    id: entity.uid,
+    name: entity.callsign,
+    type: entity.type,
+    geometry: { type: 'Point', coordinates: alt !== undefined ? [lon, lat, alt] : [lon, lat] },
+    point: [lat, lon],
+    properties: {
+      description: describeCotType(entity.type).description,
+      affiliation: affiliationGroup(entity.type),
+      team: entity.team,
+      role: entity.role,
+      alt,
+      speed: numeric(entity.status.speed),
+      course: numeric(entity.status.course),
+      battery: numeric(entity.status.battery),
+      online: entity.status.online,
+      time: new Date(entity.lastUpdate).toISOString()
+    }
+  };
+}
+
+// Drawings and routes as line and polygon features; undefined for anything else
+function shapeFeature(event: CotEvent): PictureFeature | undefined {
+  const route = parseRouteEvent(event);
+  if (route) {
+    return {
+      layer: 'shapes',
+      id: route.uid,
+      name: route.name,
+      type: event.type,
+      geometry: { type: 'LineString', coordinates: route.waypoints.map(waypoint => [waypoint.point[1], waypoint.point[0]]) },
+      point: route.waypoints[0].point,
+      properties: {
+        kind: 'route',
+        method: route.method,
+        waypoints: route.waypoints.length,
+        length: Math.round(route.totalDistance),
+        time: event.time.toISOString()
+      },
+      style: { stroke: route.color, width: 3 }
+    };
+  }
+
+  const drawing = parseDrawingEvent(event);
+  if (!drawing) return undefined;
+
+  return {
+    layer: 'shapes',
+    id: drawing.uid,
+    name: drawing.name,
+    type: event.type,
+    geometry: drawingGeometry(drawing),
+    point: [event.point.lat, event.point.lon],
+    properties: {
+      kind: drawing.kind,
+      radius: drawing.radius,
+      rings: drawing.kind === 'range-rings' ? drawing.rings : undefined,
+      range: drawing.range !== undefined ? Math.round(drawing.range) : undefined,
+      bearing: drawing.bearing,
+      remarks: drawing.remarks,
+      time: event.time.toISOString()
+    },
+    style: { stroke: drawing.style.strokeColor, fill: drawing.style.fillColor, width: drawing.style.strokeWeight }
+  };
+}
+
+function drawingGeometry(drawing: Drawing): GeoJSON.Geometry {
+  const positions = (points: Array<[number, number]>) => points.map(([lat, lon]) => [lon, lat]);
+  const circle = (radius: number) =>
+    turf.circle([drawing.center![1], drawing.center![0]], radius, { units: 'meters', steps: 64 }).geometry.coordinates[0];
+
+  switch (drawing.kind) {
+    case 'line':
+      return { type: 'LineString', coordinates: positions(drawing.points) };
+    case 'polygon':
+    case 'rectangle':
+      return { type: 'Polygon', coordinates: [positions([...drawing.points, drawing.points[0]])] };
+    case 'circle':
+      return { type: 'Polygon', coordinates: [circle(drawing.radius!)] };
+    case 'range-rings':
+      return {
+        type: 'MultiLineString',
+        coordinates: Array.from({ length: drawing.rings || 1 }, (_, index) => circle(drawing.radius! * (index + 1)))
+      };
+    case 'range-bearing':
+      return { type: 'LineString', coordinates: positions([drawing.points[0], rangeBearingEnd(drawing)!]) };
+  }
+}
+
+function kmlPlacemark(feature: PictureFeature) {
+  const data = Object.entries({ uid: feature.id, cotType: feature.type, ...feature.properties })
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => ({ '@_name': name, value: String(value) }));
+
+  const time = feature.properties.time;
+  return {
+    '@_id': feature.id,
+    name: feature.name,
+    description: feature.type ? describeCotType(feature.type).description : undefined,
+    ...(typeof time === 'string' ? { TimeStamp: { when: time } } : {}),
+    ...(feature.style
+      ? {
+          Style: {
+            LineStyle: { color: toKmlColor(feature.style.stroke ?? -1), width: feature.style.width ?? 3 },
+            PolyStyle: feature.style.fill !== undefined ? { color: toKmlColor(feature.style.fill) } : { fill: 0 }
+          }
+        }
+      : { styleUrl: `#${affiliationGroup(feature.type)}` }),
+    ExtendedData: { Data: data },
+    ...kmlGeometry(feature.geometry)
+  };
+}
+
+function kmlGeometry(geometry: GeoJSON.Geometry): Record<string, any> {
+  const coordinates = (positions: GeoJSON.Position[]) => positions.map(position => position.join(',')).join(' ');
+  const ring = (positions: GeoJSON.Position[]) => ({ LinearRing: { coordinates: coordinates(positions) } });
+
+  switch (geometry.type) {
+    case 'Point':
+      return { Point: { coordinates: coordinates([geometry.coordinates]) } };
+    case 'LineString':
+      return { LineString: { tessellate: 1, coordinates: coordinates(geometry.coordinates) } };
+    case 'Polygon': {
+      const [outer, ...holes] = geometry.coordinates;
+      return {
+        Polygon: {
+          outerBoundaryIs: ring(outer),
+          ...(holes.length > 0 ? { innerBoundaryIs: holes.map(ring) } : {})
+        }
+      };
+    }
+    case 'MultiLineString':
+      return { MultiGeometry: { LineString: geometry.coordinates.map(line => ({ tessellate: 1, coordinates: coordinates(line) })) } };
+    default:
+      return {};
+  }
+}
+
+function toWkt(geometry: GeoJSON.Geometry): string {
+  const position = (coordinates: GeoJSON.Position) => coordinates.slice(0, 2).join(' ');
+  const list = (positions: GeoJSON.Position[]) => `(${positions.map(position).join(', ')})`;
+
+  switch (geometry.type) {
+    case 'Point':
+      return `POINT (${position(geometry.coordinates)})`;
+    case 'LineString':
+      return `LINESTRING ${list(geometry.coordinates)}`;
+    case 'Polygon':
+      return `POLYGON (${geometry.coordinates.map(list).join(', ')})`;
+    case 'MultiLineString':
+      return `MULTILINESTRING (${geometry.coordinates.map(list).join(', ')})`;
+    default:
+      return '';
+  }
+}
+
+function simpleStyle(feature: PictureFeature): Record<string, string | number> {
+  const color = (argb: number) => `#${((argb >>> 0) & 0xffffff).toString(16).padStart(6, '0')}`;
+  const opacity = (argb: number) => Math.round(((argb >>> 24) / 255) * 100) / 100;
+
+  if (!feature.style) {
+    return feature.layer === 'entities' ? { 'marker-color': color(AFFILIATION_COLORS[affiliationGroup(feature.type)]) } : {};
+  }
+
+  const style: Record<string, string | number> = {};
+  if (feature.style.stroke !== undefined) {
+    style.stroke = color(feature.style.stroke);
+    style['stroke-opacity'] = opacity(feature.style.stroke);
+  }
+  if (feature.style.width !== undefined) style['stroke-width'] = feature.style.width;
+  if (feature.style.fill !== undefined) {
+    style.fill = color(feature.style.fill);
+    style['fill-opacity'] = opacity(feature.style.fill);
+  }
+  return style;
+}
+
+function affiliationGroup(type: string | undefined): string {
+  const [kind, affiliation] = (type || '').split('-');
+  return kind === 'a' ? AFFILIATION_GROUPS[affiliation] || 'other' : 'other';
+}
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function numeric(value: unknown): number | undefined {
+  const number = Number(value);
+  return value !== undefined && value !== null && value !== '' && isFinite(number) ? number : undefined;
+}
+
+// REST backends return entities without the raw event; the detail is all shapes need
+function entityEvent(entity: TAKEntity): CotEvent {
+  const time = new Date(entity.lastUpdate);
+  return {
+    uid: entity.uid,
+    type: entity.type,
+    time,
+    start: time,
+    stale: time,
+    how: 'h-e',
+    point: { lat: entity.location.lat, lon: entity.location.lon, hae: entity.location.alt ?? 0, ce: 9999999, le: 9999999 },
+    detail: entity.attributes || {}
+  };
+}
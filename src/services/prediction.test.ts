@@ -0,0 +1,180 @@
+import {
+  MovingPoint,
+  closestApproach,
+  deadReckon,
+  eventVelocity,
+  fitTrack,
+  interceptCourse,
+  predictedMarkerMessage
+} from './prediction';
+import { CotEvent } from '../types/cot';
+
+// @turf/turf pulls in ESM-only concaveman, which Jest's CommonJS runtime cannot load;
+// prediction only needs destination
+jest.mock('@turf/turf', () => ({
+  ...jest.requireActual('@turf/helpers'),
+  destination: jest.requireActual('@turf/destination').default
+}));
+
+// On the equator a degree of longitude or latitude is the same number of meters
+const METERS_PER_DEGREE = 6371008.8 * Math.PI / 180;
+const T0 = new Date('2026-01-01T12:00:00Z');
+
+// A mover x meters east and y meters north of 0°, 0°
+function mover(x: number, y: number, speed: number, course: number): MovingPoint {
+  return { time: T0, lat: y / METERS_PER_DEGREE, lon: x / METERS_PER_DEGREE, speed, course };
+}
+
+function meters([lat, lon]: [number, number]): [number, number] {
+  return [lon * METERS_PER_DEGREE, lat * METERS_PER_DEGREE];
+}
+
+describe('closestApproach', () => {
+  it('meets head-on movers halfway', () => {
+    const cpa = closestApproach(mover(0, 0, 10, 90), mover(2000, 0, 10, 270), T0);
+
+    expect(cpa.time).toBeCloseTo(100, 6);
+    expect(cpa.at).toEqual(new Date(T0.getTime() + 100 * 1000));
+    expect(cpa.distance).toBeCloseTo(0, 6);
+    expect(cpa.currentDistance).toBeCloseTo(2000, 6);
+    expect(cpa.rangeRate).toBeCloseTo(-20, 6);
+    expect(meters(cpa.positions[0])[0]).toBeCloseTo(1000, 3);
+    expect(meters(cpa.positions[1])[0]).toBeCloseTo(1000, 3);
+  });
+
+  it('finds the CPA of crossing tracks', () => {
+    // Relative position (1000, 0) and velocity (-10, -10): t = 10000 / 200, miss = |(500, -500)|
+    const cpa = closestApproach(mover(0, 0, 10, 0), mover(1000, 0, 10, 270), T0);
+
+    expect(cpa.time).toBeCloseTo(50, 6);
+    expect(cpa.distance).toBeCloseTo(500 * Math.SQRT2, 6);
+    expect(cpa.rangeRate).toBeCloseTo(-10, 6);
+    const [x, y] = meters(cpa.positions[0]);
+    expect(x).toBeCloseTo(0, 3);
+    expect(y).toBeCloseTo(500, 3);
+  });
+
+  it('reports the current distance when the two are opening', () => {
+    const cpa = closestApproach(mover(0, 0, 5, 270), mover(1000, 0, 5, 90), T0);
+
+    expect(cpa.time).toBe(0);
+    expect(cpa.distance).toBeCloseTo(1000, 6);
+    expect(cpa.rangeRate).toBeCloseTo(10, 6);
+  });
+
+  it('advances each mover from its own report time', () => {
+    const earlier = { ...mover(-1000, 0, 10, 90), time: new Date(T0.getTime() - 100 * 1000) };
+    const cpa = closestApproach(earlier, mover(2000, 0, 10, 270), T0);
+
+    expect(cpa.currentDistance).toBeCloseTo(2000, 3);
+    expect(cpa.time).toBeCloseTo(100, 3);
+  });
+});
+
+describe('interceptCourse', () => {
+  it('steers straight at a stationary target', () => {
+    const intercept = interceptCourse(mover(0, 0, 0, 0), 10, mover(1000, 0, 0, 0), T0)!;
+
+    expect(intercept.time).toBeCloseTo(100, 6);
+    expect(intercept.course).toBeCloseTo(90, 6);
+    expect(meters(intercept.point)[0]).toBeCloseTo(1000, 3);
+  });
+
+  it('leads a crossing target on a 3-4-5 triangle', () => {
+    // |(800, 6t)| = 10t gives t = 100 and a meeting point at (800, 600)
+    const intercept = interceptCourse(mover(0, 0, 0, 0), 10, mover(800, 0, 6, 0), T0)!;
+
+    expect(intercept.time).toBeCloseTo(100, 6);
+    expect(intercept.course).toBeCloseTo(Math.atan2(800, 600) * 180 / Math.PI, 6);
+    const [x, y] = meters(intercept.point);
+    expect(x).toBeCloseTo(800, 3);
+    expect(y).toBeCloseTo(600, 3);
+  });
+
+  it('meets a target closing at the same speed halfway', () => {
+    const intercept = interceptCourse(mover(0, 0, 0, 0), 10, mover(0, 1000, 10, 180), T0)!;
+
+    expect(intercept.time).toBeCloseTo(50, 6);
+    expect(intercept.course).toBeCloseTo(0, 6);
+  });
+
+  it('gives up on a target that outruns the pursuer', () => {
+    expect(interceptCourse(mover(0, 0, 0, 0), 5, mover(1000, 0, 10, 90), T0)).toBeUndefined();
+    expect(interceptCourse(mover(0, 0, 0, 0), 10, mover(1000, 0, 10, 90), T0)).toBeUndefined();
+  });
+});
+
+describe('deadReckon', () => {
+  it('projects along the course with an ellipse from speed and course error', () => {
+    const [position] = deadReckon(mover(0, 0, 10, 90), [100], { positionError: 10 }).positions;
+    const scale = Math.sqrt(-2 * Math.log(0.05));
+
+    const [x, y] = meters([position.lat, position.lon]);
+    expect(x).toBeCloseTo(1000, 0);
+    expect(y).toBeCloseTo(0, 3);
+    expect(position.time).toEqual(new Date(T0.getTime() + 100 * 1000));
+    // Along track: 10 m start error and 10% of 10 m/s over 100 s; across: 1000 m at 5°
+    expect(position.ellipse.semiMajor).toBeCloseTo(scale * Math.sqrt(100 + 100 ** 2), 6);
+    expect(position.ellipse.semiMinor).toBeCloseTo(scale * Math.sqrt(100 + (1000 * Math.sin(5 * Math.PI / 180)) ** 2), 6);
+    expect(position.ellipse.orientation).toBe(90);
+  });
+
+  it('keeps a stationary mover in place with the starting error', () => {
+    const [position] = deadReckon(mover(0, 0, 0, 0), [0], { positionError: 10, confidence: 0.95 }).positions;
+
+    expect([position.lat, position.lon]).toEqual([0, 0]);
+    expect(position.ellipse.semiMajor).toBeCloseTo(position.ellipse.semiMinor, 6);
+  });
+});
+
+describe('fitTrack', () => {
+  it('recovers the velocity of a clean straight track', () => {
+    const history = [0, 10, 20, 30, 40].map(seconds => ({
+      time: new Date(T0.getTime() + seconds * 1000),
+      lat: 5 * seconds / METERS_PER_DEGREE,
+      lon: 0
+    }));
+    const prediction = fitTrack(history, [60], 'linear', { positionError: 5 });
+
+    expect(prediction.velocity.speed).toBeCloseTo(5, 6);
+    expect(prediction.velocity.course).toBeCloseTo(0, 6);
+    expect(prediction.fit!.rmsError).toBeCloseTo(0, 6);
+    expect(meters([prediction.positions[0].lat, prediction.positions[0].lon])[1]).toBeCloseTo(5 * 100, 3);
+  });
+
+  it('needs more positions than model terms', () => {
+    expect(() => fitTrack([{ time: T0, lat: 0, lon: 0 }], [60])).toThrow(/at least 3 positions/);
+  });
+});
+
+describe('events', () => {
+  const event = (track?: Record<string, any>): CotEvent => ({
+    uid: 'A', type: 'a-f-G', time: T0, start: T0, stale: T0, how: 'm-g',
+    point: { lat: 0, lon: 0, hae: 0, ce: 5, le: 5 },
+    detail: track ? { track } : {}
+  });
+
+  it('reads velocity from the track detail', () => {
+    expect(eventVelocity(event({ speed: '3', course: '-90' }))).toEqual({ speed: 3, course: 270 });
+    expect(eventVelocity(event({ speed: '0.01' }))).toEqual({ speed: 0, course: 0 });
+    expect(eventVelocity(event({ speed: '3' }))).toBeUndefined();
+    expect(eventVelocity(event())).toBeUndefined();
+  });
+
+  it('builds a predicted marker that is stale at its predicted time', () => {
+    const time = new Date(Date.now() + 10 * 60 * 1000);
+    const message = predictedMarkerMessage({
+      uid: 'A.predicted.10m',
+      callsign: 'A +10m',
+      type: 'a-f-G',
+      position: { time, lat: 1, lon: 2, ellipse: { semiMajor: 50, semiMinor: 20, orientation: 45, confidence: 0.95 } },
+      parent: { uid: 'A', type: 'a-f-G' }
+    });
+    const attributes = message.event._attributes;
+
+    expect(attributes.how).toBe('m-p');
+    expect(new Date(attributes.stale).getTime()).toBe(time.getTime());
+    expect(Number(message.event.point._attributes.ce)).toBe(50);
+    expect(message.event.detail?.link?._attributes).toMatchObject({ uid: 'A', relation: 'p-p' });
+  });
+});
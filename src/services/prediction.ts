@@ -0,0 +1,468 @@
+import * as turf from '@turf/turf';
+import { CotEvent, CotMessage, COT_TYPES } from '../types/cot';
+
+export type PredictionMethod = 'dead-reckoning' | 'linear-fit' | 'quadratic-fit';
+
+export interface TimedPosition {
+  time: Date;
+  lat: number;
+  lon: number;
+}
+
+export interface Velocity {
+  speed: number; // m/s
+  course: number; // degrees true
+}
+
+// Something moving in a straight line: where it was at `time` and how it was moving
+export interface MovingPoint extends TimedPosition, Velocity {}
+
+export interface UncertaintyEllipse {
+  semiMajor: number; // meters
+  semiMinor: number; // meters
+  orientation: number; // degrees true of the major axis, 0-180
+  confidence: number; // e.g. 0.95
+}
+
+export interface PredictedPosition {
+  time: Date;
+  lat: number;
+  lon: number;
+  ellipse: UncertaintyEllipse;
+}
+
+export interface Prediction {
+  method: PredictionMethod;
+  from: TimedPosition;
+  velocity: Velocity;
+  positions: PredictedPosition[];
+  // Least-squares fits only
+  fit?: {
+    points: number;
+    rmsError: number; // meters
+    acceleration?: number; // m/s², quadratic fits
+  };
+}
+
+export interface ClosestApproach {
+  // Seconds after `at`; 0 when the two are already opening
+  time: number;
+  at: Date;
+  distance: number; // meters
+  currentDistance: number;
+  // Negative while closing, m/s
+  rangeRate: number;
+  positions: [[number, number], [number, number]]; // [lat, lon] of each at CPA
+}
+
+export interface Intercept {
+  time: number; // seconds after `at`
+  at: Date;
+  point: [number, number];
+  course: number; // degrees true to steer
+  speed: number;
+}
+
+export interface PredictionOptions {
+  // Position error at the start, 1-sigma meters; defaults to the event's ce, else 10 m
+  positionError?: number;
+  confidence?: number;
+}
+
+export interface PredictedMarker {
+  uid: string;
+  callsign: string;
+  type?: string;
+  position: PredictedPosition;
+  // The entity the prediction is for; linked as the marker's parent
+  parent?: { uid: string; type: string };
+  remarks?: string;
+}
+
+// A PredictedMarker as plain JSON: what the prediction tools return and tak_publish_predictions takes
+export interface PredictedMarkerInput {
+  uid: string;
+  callsign: string;
+  type?: string;
+  time: string;
+  lat: number;
+  lon: number;
+  ellipse: UncertaintyEllipse;
+  parentUid?: string;
+  parentType?: string;
+  remarks?: string;
+}
+
+const EARTH_RADIUS = 6371008.8;
+const DEFAULT_POSITION_ERROR = 10;
+// Dead reckoning assumes the reported speed is good to 10% (at least 0.5 m/s) and course to 5°
+const SPEED_ERROR_FRACTION = 0.1;
+const MIN_SPEED_ERROR = 0.5;
+const COURSE_ERROR = 5;
+// Below this a reported course means nothing
+const MIN_MOVING_SPEED = 0.1;
+
+/**
+ * Straight-line projection from the last reported speed and course. The
+ * ellipse grows along track with speed error and across track with course
+ * error on top of the starting position error.
+ */
+export function deadReckon(from: MovingPoint, horizons: number[], options: PredictionOptions = {}): Prediction {
+  const confidence = options.confidence ?? 0.95;
+  const sigma0 = options.positionError ?? DEFAULT_POSITION_ERROR;
+  const speedError = Math.max(MIN_SPEED_ERROR, from.speed * SPEED_ERROR_FRACTION);
+  const courseError = COURSE_ERROR * Math.PI / 180;
+
+  const positions = horizons.map(seconds => {
+    const distance = from.speed * seconds;
+    const [lat, lon] = moveAlong([from.lat, from.lon], distance, from.course);
+    const along = Math.sqrt(sigma0 ** 2 + (speedError * seconds) ** 2);
+    const across = Math.sqrt(sigma0 ** 2 + (distance * Math.sin(courseError)) ** 2);
+    const scale = confidenceScale(confidence);
+
+    return {
+      time: new Date(from.time.getTime() + seconds * 1000),
+      lat,
+      lon,
+      ellipse: {
+        semiMajor: scale * Math.max(along, across),
+        semiMinor: scale * Math.min(along, across),
+        orientation: normalizeAxis(along >= across ? from.course : from.course + 90),
+        confidence
+      }
+    };
+  });
+
+  return {
+    method: 'dead-reckoning',
+    from: { time: from.time, lat: from.lat, lon: from.lon },
+    velocity: { speed: from.speed, course: normalizeBearing(from.course) },
+    positions
+  };
+}
+
+/**
+ * Least-squares fit of east and north position against time (constant
+ * velocity, or constant acceleration for 'quadratic'), extrapolated from
+ * the latest fix. Ellipses are prediction intervals from the fit's residual
+ * covariance, so a noisy or turning track gets wider ellipses.
+ */
+export function fitTrack(
+  history: TimedPosition[],
+  horizons: number[],
+  model: 'linear' | 'quadratic' = 'linear',
+  options: PredictionOptions = {}
+): Prediction {
+  const terms = model === 'quadratic' ? 3 : 2;
+  if (history.length < terms + 1) {
+    throw new Error(`A ${model} fit needs at least ${terms + 1} positions (have ${history.length})`);
+  }
+
+  const confidence = options.confidence ?? 0.95;
+  const floor = options.positionError ?? DEFAULT_POSITION_ERROR;
+  const sorted = [...history].sort((a, b) => a.time.getTime() - b.time.getTime());
+  const last = sorted[sorted.length - 1];
+  const origin: [number, number] = [last.lat, last.lon];
+  const t0 = last.time.getTime();
+
+  const rows = sorted.map(point => basis((point.time.getTime() - t0) / 1000, terms));
+  const local = sorted.map(point => toLocal(origin, [point.lat, point.lon]));
+  const normal = invert(multiplyTranspose(rows));
+  const betaX = solve(normal, rows, local.map(([x]) => x));
+  const betaY = solve(normal, rows, local.map(([, y]) => y));
+
+  // Residual covariance, with the position error as a floor so a perfect fit still has some spread
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  rows.forEach((row, i) => {
+    const rx = local[i][0] - dot(row, betaX);
+    const ry = local[i][1] - dot(row, betaY);
+    sxx += rx * rx;
+    syy += ry * ry;
+    sxy += rx * ry;
+  });
+  const dof = rows.length - terms;
+  const rmsError = Math.sqrt((sxx + syy) / rows.length);
+  sxx = Math.max(sxx / dof, floor ** 2);
+  syy = Math.max(syy / dof, floor ** 2);
+  sxy /= dof;
+
+  const positions = horizons.map(seconds => {
+    const row = basis(seconds, terms);
+    const [lat, lon] = fromLocal(origin, [dot(row, betaX), dot(row, betaY)]);
+    // Uncertainty of the fitted mean plus that of a new observation
+    const inflate = 1 + dot(row, multiplyVector(normal, row));
+
+    return {
+      time: new Date(t0 + seconds * 1000),
+      lat,
+      lon,
+      ellipse: covarianceEllipse(sxx * inflate, syy * inflate, sxy * inflate, confidence)
+    };
+  });
+
+  const [vx, vy] = [betaX[1], betaY[1]];
+  return {
+    method: model === 'quadratic' ? 'quadratic-fit' : 'linear-fit',
+    from: { time: last.time, lat: last.lat, lon: last.lon },
+    velocity: { speed: Math.hypot(vx, vy), course: normalizeBearing(Math.atan2(vx, vy) * 180 / Math.PI) },
+    positions,
+    fit: {
+      points: rows.length,
+      rmsError,
+      acceleration: terms === 3 ? 2 * Math.hypot(betaX[2], betaY[2]) : undefined
+    }
+  };
+}
+
+// Where two straight-line movers come closest, from `at` onwards
+export function closestApproach(a: MovingPoint, b: MovingPoint, at: Date = new Date()): ClosestApproach {
+  const origin: [number, number] = [a.lat, a.lon];
+  const [pa, va] = stateAt(origin, a, at);
+  const [pb, vb] = stateAt(origin, b, at);
+  const r = [pb[0] - pa[0], pb[1] - pa[1]];
+  const v = [vb[0] - va[0], vb[1] - va[1]];
+
+  const currentDistance = Math.hypot(r[0], r[1]);
+  const closing = r[0] * v[0] + r[1] * v[1];
+  const relativeSpeed = v[0] ** 2 + v[1] ** 2;
+  const time = relativeSpeed > 0 ? Math.max(0, -closing / relativeSpeed) : 0;
+
+  return {
+    time,
+    at: new Date(at.getTime() + time * 1000),
+    distance: Math.hypot(r[0] + v[0] * time, r[1] + v[1] * time),
+    currentDistance,
+    rangeRate: currentDistance > 0 ? closing / currentDistance : 0,
+    positions: [
+      fromLocal(origin, [pa[0] + va[0] * time, pa[1] + va[1] * time]),
+      fromLocal(origin, [pb[0] + vb[0] * time, pb[1] + vb[1] * time])
+    ]
+  };
+}
+
+// Earliest point a pursuer at `speed` can reach a straight-line target; undefined if it never can
+export function interceptCourse(pursuer: TimedPosition, speed: number, target: MovingPoint, at: Date = new Date()): Intercept | undefined {
+  const origin: [number, number] = [pursuer.lat, pursuer.lon];
+  const [pt, vt] = stateAt(origin, target, at);
+
+  // |pt + vt·t| = speed·t
+  const qa = vt[0] ** 2 + vt[1] ** 2 - speed ** 2;
+  const qb = 2 * (pt[0] * vt[0] + pt[1] * vt[1]);
+  const qc = pt[0] ** 2 + pt[1] ** 2;
+
+  let time: number | undefined;
+  if (Math.abs(qa) < 1e-9) {
+    if (qb < 0) time = -qc / qb;
+  } else {
+    const discriminant = qb * qb - 4 * qa * qc;
+    if (discriminant >= 0) {
+      const roots = [(-qb - Math.sqrt(discriminant)) / (2 * qa), (-qb + Math.sqrt(discriminant)) / (2 * qa)];
+      time = roots.filter(root => root >= 0).sort((x, y) => x - y)[0];
+    }
+  }
+  if (time === undefined || !isFinite(time)) return undefined;
+
+  const meet: [number, number] = [pt[0] + vt[0] * time, pt[1] + vt[1] * time];
+  return {
+    time,
+    at: new Date(at.getTime() + time * 1000),
+    point: fromLocal(origin, meet),
+    course: normalizeBearing(Math.atan2(meet[0], meet[1]) * 180 / Math.PI),
+    speed
+  };
+}
+
+// Reported speed (m/s) and course from an event's <track>, if it has both
+export function eventVelocity(event: CotEvent): Velocity | undefined {
+  const speed = Number(event.detail?.track?.speed);
+  const course = Number(event.detail?.track?.course);
+  if (!isFinite(speed) || speed < 0) return undefined;
+  if (speed < MIN_MOVING_SPEED) return { speed: 0, course: isFinite(course) ? normalizeBearing(course) : 0 };
+  if (!isFinite(course)) return undefined;
+  return { speed, course: normalizeBearing(course) };
+}
+
+// 1-sigma position error from an event's ce; the 9999999 "unknown" convention counts as unknown
+export function eventPositionError(event: CotEvent): number | undefined {
+  const ce = Number(event.point.ce);
+  return isFinite(ce) && ce > 0 && ce < 999999 ? ce : undefined;
+}
+
+/**
+ * Predicted position as a marker (how m-p) that goes stale at the predicted
+ * time. The 95% semi-major axis goes in ce so clients can draw the error.
+ */
+export function predictedMarkerMessage(marker: PredictedMarker): CotMessage {
+  const now = new Date();
+  const { position } = marker;
+  const stale = new Date(Math.max(position.time.getTime(), now.getTime() + 60 * 1000));
+  const detail: Record<string, any> = {
+    contact: { _attributes: { callsign: marker.callsign } },
+    remarks: marker.remarks || describeEllipse(position),
+    archive: {}
+  };
+  if (marker.parent) {
+    detail.link = { _attributes: { uid: marker.parent.uid, type: marker.parent.type, relation: 'p-p' } };
+  }
+
+  return {
+    event: {
+      _attributes: {
+        version: '2.0',
+        uid: marker.uid,
+        type: marker.type || COT_TYPES.UNKNOWN_GROUND,
+        time: now.toISOString(),
+        start: now.toISOString(),
+        stale: stale.toISOString(),
+        how: 'm-p'
+      },
+      point: {
+        _attributes: {
+          lat: String(position.lat),
+          lon: String(position.lon),
+          hae: '0',
+          ce: position.ellipse.semiMajor.toFixed(1),
+          le: '9999999'
+        }
+      },
+      detail
+    }
+  };
+}
+
+export function predictedMarkerInput(marker: PredictedMarker): PredictedMarkerInput {
+  return {
+    uid: marker.uid,
+    callsign: marker.callsign,
+    type: marker.type,
+    time: marker.position.time.toISOString(),
+    lat: marker.position.lat,
+    lon: marker.position.lon,
+    ellipse: marker.position.ellipse,
+    parentUid: marker.parent?.uid,
+    parentType: marker.parent?.type,
+    remarks: marker.remarks
+  };
+}
+
+export function describeEllipse(position: PredictedPosition): string {
+  const { semiMajor, semiMinor, orientation, confidence } = position.ellipse;
+  return `Predicted for ${position.time.toISOString()}; ${Math.round(confidence * 100)}% ellipse ` +
+    `${Math.round(semiMajor)} x ${Math.round(semiMinor)} m, major axis ${Math.round(orientation)}°`;
+}
+
+// Radius multiplier for a 2D normal error at the given confidence (chi-square, 2 dof)
+function confidenceScale(confidence: number): number {
+  return Math.sqrt(-2 * Math.log(1 - Math.min(Math.max(confidence, 0.01), 0.999)));
+}
+
+function covarianceEllipse(sxx: number, syy: number, sxy: number, confidence: number): UncertaintyEllipse {
+  const mean = (sxx + syy) / 2;
+  const spread = Math.sqrt(((sxx - syy) / 2) ** 2 + sxy ** 2);
+  const scale = confidenceScale(confidence);
+  // Angle of the major axis from east, counter-clockwise
+  const theta = 0.5 * Math.atan2(2 * sxy, sxx - syy) * 180 / Math.PI;
+
+  return {
+    semiMajor: scale * Math.sqrt(mean + spread),
+    semiMinor: scale * Math.sqrt(Math.max(0, mean - spread)),
+    orientation: normalizeAxis(90 - theta),
+    confidence
+  };
+}
+
+// Position and velocity (east, north; meters and m/s) in the plane around `origin`, advanced to `at`
+function stateAt(origin: [number, number], mover: MovingPoint, at: Date): [[number, number], [number, number]] {
+  const course = mover.course * Math.PI / 180;
+  const velocity: [number, number] = [mover.speed * Math.sin(course), mover.speed * Math.cos(course)];
+  const [x, y] = toLocal(origin, [mover.lat, mover.lon]);
+  const elapsed = (at.getTime() - mover.time.getTime()) / 1000;
+  return [[x + velocity[0] * elapsed, y + velocity[1] * elapsed], velocity];
+}
+
+function moveAlong([lat, lon]: [number, number], distance: number, bearing: number): [number, number] {
+  if (distance === 0) return [lat, lon];
+  const moved = turf.destination(turf.point([lon, lat]), distance, bearing, { units: 'meters' });
+  return [moved.geometry.coordinates[1], moved.geometry.coordinates[0]];
+}
+
+// Equirectangular east/north meters around an origin; fine over the tens of km a track covers
+function toLocal(origin: [number, number], [lat, lon]: [number, number]): [number, number] {
+  const rad = Math.PI / 180;
+  let dLon = lon - origin[1];
+  if (dLon > 180) dLon -= 360;
+  if (dLon < -180) dLon += 360;
+  return [dLon * rad * EARTH_RADIUS * Math.cos(origin[0] * rad), (lat - origin[0]) * rad * EARTH_RADIUS];
+}
+
+function fromLocal(origin: [number, number], [x, y]: [number, number]): [number, number] {
+  const rad = Math.PI / 180;
+  let lon = origin[1] + x / (EARTH_RADIUS * Math.cos(origin[0] * rad)) / rad;
+  if (lon > 180) lon -= 360;
+  if (lon < -180) lon += 360;
+  return [origin[0] + y / EARTH_RADIUS / rad, lon];
+}
+
+function normalizeBearing(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+// Axes have no direction: 0-180
+function normalizeAxis(degrees: number): number {
+  return ((degrees % 180) + 180) % 180;
+}
+
+function basis(t: number, terms: number): number[] {
+  return [1, t, t * t].slice(0, terms);
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+// GᵀG
+function multiplyTranspose(rows: number[][]): number[][] {
+  const n = rows[0].length;
+  return Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+}
+
+function multiplyVector(matrix: number[][], vector: number[]): number[] {
+  return matrix.map(row => dot(row, vector));
+}
+
+// (GᵀG)⁻¹Gᵀy
+function solve(normal: number[][], rows: number[][], values: number[]): number[] {
+  const gty = rows[0].map((_, i) => rows.reduce((sum, row, k) => sum + row[i] * values[k], 0));
+  return multiplyVector(normal, gty);
+}
+
+// Gauss-Jordan inverse of the small normal matrix
+function invert(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      throw new Error('Positions are too close together in time to fit a track');
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const value = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= value;
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row][col];
+      for (let j = 0; j < 2 * n; j++) a[row][j] -= factor * a[col][j];
+    }
+  }
+
+  return a.map(row => row.slice(n));
+}
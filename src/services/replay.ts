@@ -0,0 +1,334 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CotEvent } from '../types/cot';
+
+export type ReplayState = 'running' | 'paused' | 'stopped' | 'finished';
+
+// Where replayed events go; rejections are counted, not fatal
+export type ReplaySink = (event: CotEvent) => Promise<void>;
+
+export interface ReplayOptions {
+  name?: string;
+  // Recorded seconds per wall-clock second; 1 is real time
+  speed?: number;
+  // Stepped replay: starts paused and only advances this many recorded seconds per step()
+  stepSeconds?: number;
+  // Prepended to every UID, and to links between replayed items, so a replay does not overwrite live tracks
+  uidPrefix?: string;
+  // Shown in status, e.g. 'server' or 'subscription sub-...'
+  target: string;
+}
+
+export interface ReplayInfo {
+  id: string;
+  name: string;
+  target: string;
+  state: ReplayState;
+  speed: number;
+  stepSeconds?: number;
+  uidPrefix?: string;
+  window: { start: Date; end: Date };
+  // Recorded time the replay has reached
+  position: Date;
+  progress: number;
+  total: number;
+  sent: number;
+  errors: number;
+  lastError?: string;
+  created: Date;
+}
+
+export interface ReplayManagerOptions {
+  maxReplays?: number;
+  maxEvents?: number;
+}
+
+class Replay {
+  readonly id = `replay-${uuidv4()}`;
+  readonly created = new Date();
+  state: ReplayState = 'paused';
+  private next = 0;
+  // Recorded time reached, in ms; events at or before it have been sent
+  private position: number;
+  // Wall clock and recorded time at the last start, resume or seek
+  private anchorWall = 0;
+  private anchorRecorded = 0;
+  private timer?: NodeJS.Timeout;
+  // Bumped by every schedule(), so a tick still awaiting the sink after a
+  // pause/resume or seek stops instead of running a second timer chain
+  private generation = 0;
+  // Ticks run one after another, so the sink never sees two sends at once
+  private ticking: Promise<void> = Promise.resolve();
+  private sent = 0;
+  private errors = 0;
+  private lastError?: string;
+  private readonly uids: Set<string>;
+
+  constructor(private events: CotEvent[], private options: ReplayOptions, private sink: ReplaySink) {
+    this.position = events[0].time.getTime() - 1;
+    this.uids = new Set(events.map(event => String(event.uid)));
+  }
+
+  get speed(): number {
+    return this.options.speed && this.options.speed > 0 ? this.options.speed : 1;
+  }
+
+  get ended(): boolean {
+    return this.state === 'stopped' || this.state === 'finished';
+  }
+
+  start(): void {
+    if (this.options.stepSeconds) return;
+    this.resume();
+  }
+
+  pause(): void {
+    if (this.state !== 'running') return;
+    this.position = this.recordedNow();
+    this.clearTimer();
+    this.state = 'paused';
+  }
+
+  resume(): void {
+    if (this.state !== 'paused') return;
+    this.state = 'running';
+    this.anchor();
+    this.schedule();
+  }
+
+  // Jump to a recorded time; events before it are skipped, not sent
+  seek(time: Date): void {
+    if (this.ended) throw new Error(`Replay ${this.id} has ${this.state}`);
+
+    const first = this.events[0].time.getTime();
+    const last = this.events[this.events.length - 1].time.getTime();
+    this.position = Math.min(Math.max(time.getTime(), first), last) - 1;
+    this.next = this.events.findIndex(event => event.time.getTime() > this.position);
+
+    if (this.state === 'running') {
+      this.clearTimer();
+      this.anchor();
+      this.schedule();
+    }
+  }
+
+  // Send the next stepSeconds (or given seconds) of recorded time while paused
+  async step(seconds?: number): Promise<number> {
+    if (this.state !== 'paused') throw new Error(`Replay ${this.id} must be paused to step (it is ${this.state})`);
+
+    // A tick interrupted by the pause may still be finishing its send
+    await this.ticking;
+    const span = (seconds ?? this.options.stepSeconds ?? 1) * 1000;
+    const sent = await this.sendUntil(this.position + span, () => this.state === 'paused');
+    this.position += span;
+    if (this.next >= this.events.length) this.finish();
+    return sent;
+  }
+
+  stop(): void {
+    if (this.ended) return;
+    this.clearTimer();
+    this.state = 'stopped';
+  }
+
+  info(): ReplayInfo {
+    const start = this.events[0].time;
+    const end = this.events[this.events.length - 1].time;
+    const position = Math.max(start.getTime(), Math.min(this.state === 'running' ? this.recordedNow() : this.position, end.getTime()));
+
+    return {
+      id: this.id,
+      name: this.options.name || this.id,
+      target: this.options.target,
+      state: this.state,
+      speed: this.speed,
+      stepSeconds: this.options.stepSeconds,
+      uidPrefix: this.options.uidPrefix,
+      window: { start, end },
+      position: new Date(position),
+      progress: this.next / this.events.length,
+      total: this.events.length,
+      sent: this.sent,
+      errors: this.errors,
+      lastError: this.lastError,
+      created: this.created
+    };
+  }
+
+  private anchor(): void {
+    this.anchorWall = Date.now();
+    this.anchorRecorded = this.position;
+  }
+
+  private recordedNow(): number {
+    return this.anchorRecorded + (Date.now() - this.anchorWall) * this.speed;
+  }
+
+  private schedule(): void {
+    if (this.state !== 'running') return;
+    if (this.next >= this.events.length) {
+      this.finish();
+      return;
+    }
+
+    const generation = ++this.generation;
+    const due = (this.events[this.next].time.getTime() - this.recordedNow()) / this.speed;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.ticking = this.ticking.then(() => this.tick(generation)).catch(() => undefined);
+    }, Math.max(0, due));
+    this.timer.unref();
+  }
+
+  private async tick(generation: number): Promise<void> {
+    const current = () => this.state === 'running' && this.generation === generation;
+    await this.sendUntil(this.recordedNow(), current);
+    if (!current()) return;
+    this.position = this.recordedNow();
+    this.schedule();
+  }
+
+  // Send every pending event recorded at or before `until`, while `active` holds
+  private async sendUntil(until: number, active: () => boolean): Promise<number> {
+    let sent = 0;
+    while (active() && this.next < this.events.length && this.events[this.next].time.getTime() <= until) {
+      const event = this.events[this.next++];
+      try {
+        await this.sink(retimeEvent(event, new Date(), this.options.uidPrefix, this.uids));
+        this.sent++;
+        sent++;
+      } catch (error) {
+        this.errors++;
+        this.lastError = error instanceof Error ? error.message : String(error);
+      }
+    }
+    return sent;
+  }
+
+  private finish(): void {
+    this.clearTimer();
+    this.state = 'finished';
+    this.position = this.events[this.events.length - 1].time.getTime();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
+
+/**
+ * Plays recorded CoT back on the original timeline, scaled by speed or one
+ * step at a time. Each event is re-timed to the moment it is sent, keeping
+ * its start and stale offsets. Ended replays stay listed until room is
+ * needed for new ones.
+ */
+export class ReplayManager {
+  private replays = new Map<string, Replay>();
+  private options: Required<ReplayManagerOptions>;
+
+  constructor(options: ReplayManagerOptions = {}) {
+    this.options = {
+      maxReplays: options.maxReplays ?? 10,
+      maxEvents: options.maxEvents ?? 100000
+    };
+  }
+
+  start(events: CotEvent[], options: ReplayOptions, sink: ReplaySink): ReplayInfo {
+    if (events.length === 0) {
+      throw new Error('No events to replay in the selected window');
+    }
+    if (events.length > this.options.maxEvents) {
+      throw new Error(`Replay window holds ${events.length} events (max ${this.options.maxEvents}); narrow the window or filters`);
+    }
+
+    const active = Array.from(this.replays.values()).filter(replay => !replay.ended);
+    if (active.length >= this.options.maxReplays) {
+      throw new Error(`Too many active replays (max ${this.options.maxReplays})`);
+    }
+    // Make room by forgetting the oldest ended replays
+    for (const replay of this.replays.values()) {
+      if (this.replays.size < this.options.maxReplays) break;
+      if (replay.ended) this.replays.delete(replay.id);
+    }
+
+    const sorted = [...events].sort((a, b) => a.time.getTime() - b.time.getTime());
+    const replay = new Replay(sorted, options, sink);
+    this.replays.set(replay.id, replay);
+    replay.start();
+    return replay.info();
+  }
+
+  get(id: string): ReplayInfo | undefined {
+    return this.replays.get(id)?.info();
+  }
+
+  list(): ReplayInfo[] {
+    return Array.from(this.replays.values(), replay => replay.info());
+  }
+
+  pause(id: string): ReplayInfo {
+    const replay = this.require(id);
+    replay.pause();
+    return replay.info();
+  }
+
+  resume(id: string): ReplayInfo {
+    const replay = this.require(id);
+    replay.resume();
+    return replay.info();
+  }
+
+  seek(id: string, time: Date): ReplayInfo {
+    const replay = this.require(id);
+    replay.seek(time);
+    return replay.info();
+  }
+
+  async step(id: string, seconds?: number): Promise<ReplayInfo & { stepped: number }> {
+    const replay = this.require(id);
+    const stepped = await replay.step(seconds);
+    return { ...replay.info(), stepped };
+  }
+
+  stop(id: string): ReplayInfo {
+    const replay = this.require(id);
+    replay.stop();
+    return replay.info();
+  }
+
+  stopAll(): void {
+    for (const replay of this.replays.values()) replay.stop();
+  }
+
+  private require(id: string): Replay {
+    const replay = this.replays.get(id);
+    if (!replay) throw new Error(`Replay not found: ${id}`);
+    return replay;
+  }
+}
+
+// Copy of a recorded event as if it happened at `now`
+export function retimeEvent(event: CotEvent, now: Date, uidPrefix?: string, replayedUids?: Set<string>): CotEvent {
+  const shift = now.getTime() - event.time.getTime();
+  const detail = structuredClone(event.detail || {});
+
+  if (uidPrefix) {
+    // Keep links between replayed items (routes to waypoints, markers to parents) pointing at the replayed copies
+    const links = Array.isArray(detail.link) ? detail.link : detail.link ? [detail.link] : [];
+    for (const link of links) {
+      if (link?.uid !== undefined && replayedUids?.has(String(link.uid))) link.uid = `${uidPrefix}${link.uid}`;
+    }
+  }
+
+  return {
+    ...event,
+    uid: uidPrefix ? `${uidPrefix}${event.uid}` : event.uid,
+    time: now,
+    start: new Date(event.start.getTime() + shift),
+    stale: new Date(event.stale.getTime() + shift),
+    point: { ...event.point },
+    detail
+  };
+}
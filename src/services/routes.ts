@@ -0,0 +1,242 @@
+import * as turf from '@turf/turf';
+import { v4 as uuidv4 } from 'uuid';
+import { CotEvent, CotMessage, COT_TYPES } from '../types/cot';
+
+export type RouteMethod = 'Driving' | 'Walking' | 'Flying' | 'Swimming' | 'Watercraft';
+
+// Planning speeds in m/s, matching the estimates tak_calculate_distance gives
+export const ROUTE_SPEEDS: Record<RouteMethod, number> = {
+  Driving: 16.67, // 60 km/h
+  Walking: 1.4, // 5 km/h
+  Flying: 55.56, // 200 km/h
+  Swimming: 0.8,
+  Watercraft: 10.3 // 20 kn
+};
+
+// ATAK's route type labels per travel method
+const ROUTE_TYPES: Record<RouteMethod, string> = {
+  Driving: 'Vehicle',
+  Walking: 'On Foot',
+  Flying: 'Aircraft',
+  Swimming: 'Swimmer',
+  Watercraft: 'Watercraft'
+};
+
+export interface RouteWaypointInput {
+  point: [number, number]; // [lat, lon]
+  name?: string;
+  uid?: string;
+  hae?: number;
+}
+
+export interface RouteInput {
+  name: string;
+  uid?: string;
+  waypoints: RouteWaypointInput[];
+  method?: RouteMethod;
+  direction?: 'Infil' | 'Exfil';
+  order?: 'Primary' | 'Secondary';
+  // Name prefix of generated checkpoint callsigns
+  prefix?: string;
+  // m/s; defaults to the method's planning speed
+  speed?: number;
+  color?: number;
+  remarks?: string;
+}
+
+export interface RouteWaypoint {
+  uid: string;
+  name: string;
+  point: [number, number];
+  hae?: number;
+  // b-m-p-w for the start and end, b-m-p-c for checkpoints
+  type: string;
+}
+
+export interface RouteLeg {
+  from: string;
+  to: string;
+  distance: number; // meters
+  bearing: number; // degrees true, 0-360
+  duration: number; // seconds at the route speed
+}
+
+export interface Route {
+  uid: string;
+  name: string;
+  method: RouteMethod;
+  direction: 'Infil' | 'Exfil';
+  order: 'Primary' | 'Secondary';
+  prefix: string;
+  speed: number;
+  color: number;
+  remarks?: string;
+  waypoints: RouteWaypoint[];
+  legs: RouteLeg[];
+  totalDistance: number;
+  totalDuration: number;
+}
+
+export function planRoute(input: RouteInput): Route {
+  if (input.waypoints.length < 2) {
+    throw new Error('A route needs at least two waypoints');
+  }
+
+  const method = input.method || 'Driving';
+  const prefix = input.prefix || 'CP';
+  const last = input.waypoints.length - 1;
+
+  const waypoints: RouteWaypoint[] = input.waypoints.map((waypoint, index) => {
+    const [lat, lon] = waypoint.point;
+    if (!isFinite(lat) || !isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      throw new Error(`Invalid waypoint ${index + 1}: ${waypoint.point}`);
+    }
+    const endpoint = index === 0 || index === last;
+    return {
+      uid: waypoint.uid || uuidv4(),
+      name: waypoint.name || (index === 0 ? 'SP' : index === last ? 'VDO' : `${prefix}${index}`),
+      point: [lat, lon],
+      hae: waypoint.hae,
+      type: endpoint ? 'b-m-p-w' : 'b-m-p-c'
+    };
+  });
+
+  return withLegs({
+    uid: input.uid || uuidv4(),
+    name: input.name,
+    method,
+    direction: input.direction || 'Infil',
+    order: input.order || 'Primary',
+    prefix,
+    speed: input.speed || ROUTE_SPEEDS[method],
+    color: input.color ?? -1,
+    remarks: input.remarks,
+    waypoints
+  });
+}
+
+function withLegs(route: Omit<Route, 'legs' | 'totalDistance' | 'totalDuration'>): Route {
+  const legs: RouteLeg[] = [];
+  for (let i = 1; i < route.waypoints.length; i++) {
+    const from = route.waypoints[i - 1];
+    const to = route.waypoints[i];
+    const start = turf.point([from.point[1], from.point[0]]); // turf uses [lon, lat]
+    const end = turf.point([to.point[1], to.point[0]]);
+    const distance = turf.distance(start, end, { units: 'meters' });
+
+    legs.push({
+      from: from.name,
+      to: to.name,
+      distance,
+      bearing: (turf.bearing(start, end) + 360) % 360,
+      duration: distance / route.speed
+    });
+  }
+
+  return {
+    ...route,
+    legs,
+    totalDistance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    totalDuration: legs.reduce((sum, leg) => sum + leg.duration, 0)
+  };
+}
+
+// b-m-r event ATAK renders as a navigable route, one <link> per waypoint in order
+export function routeToCotMessage(route: Route): CotMessage {
+  const now = new Date();
+  const start = route.waypoints[0];
+
+  return {
+    event: {
+      _attributes: {
+        version: '2.0',
+        uid: route.uid,
+        type: COT_TYPES.ROUTE,
+        time: now.toISOString(),
+        start: now.toISOString(),
+        stale: new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours
+        how: 'h-e'
+      },
+      point: {
+        _attributes: {
+          lat: start.point[0].toString(),
+          lon: start.point[1].toString(),
+          hae: '0',
+          ce: '9999999',
+          le: '9999999'
+        }
+      },
+      detail: {
+        link: route.waypoints.map(waypoint => ({
+          _attributes: {
+            uid: waypoint.uid,
+            callsign: waypoint.name,
+            type: waypoint.type,
+            point: [...waypoint.point, ...(waypoint.hae !== undefined ? [waypoint.hae] : [])].join(','),
+            remarks: '',
+            relation: 'c'
+          }
+        })),
+        link_attr: {
+          _attributes: {
+            planningmethod: route.direction,
+            color: String(route.color),
+            method: route.method,
+            prefix: route.prefix,
+            type: ROUTE_TYPES[route.method],
+            stroke: '3',
+            direction: route.direction,
+            routetype: route.order,
+            order: 'Ascending Check Points'
+          }
+        },
+        strokeColor: { _attributes: { value: String(route.color) } },
+        strokeWeight: { _attributes: { value: '3.0' } },
+        __routeinfo: { __navcues: {} },
+        contact: { _attributes: { callsign: route.name } },
+        remarks: route.remarks || '',
+        labels_on: { _attributes: { value: 'false' } },
+        color: { _attributes: { value: String(route.color) } }
+      }
+    }
+  };
+}
+
+// Structured route from a received b-m-r event; undefined for anything else
+export function parseRouteEvent(event: CotEvent): Route | undefined {
+  if (event.type !== COT_TYPES.ROUTE) return undefined;
+
+  const detail = event.detail || {};
+  const links = Array.isArray(detail.link) ? detail.link : detail.link ? [detail.link] : [];
+  const waypoints: RouteWaypoint[] = [];
+
+  for (const link of links) {
+    const [lat, lon, hae] = String(link.point ?? '').split(',').map(Number);
+    if (!isFinite(lat) || !isFinite(lon)) continue;
+    waypoints.push({
+      uid: String(link.uid ?? uuidv4()),
+      name: String(link.callsign ?? `${waypoints.length + 1}`),
+      point: [lat, lon],
+      hae: isFinite(hae) ? hae : undefined,
+      type: String(link.type ?? 'b-m-p-c')
+    });
+  }
+  if (waypoints.length < 2) return undefined;
+
+  const attrs = detail.link_attr || {};
+  const method: RouteMethod = attrs.method in ROUTE_SPEEDS ? attrs.method : 'Driving';
+  const remarks = typeof detail.remarks === 'object' ? detail.remarks?.['#text'] : detail.remarks;
+
+  return withLegs({
+    uid: String(event.uid),
+    name: String(detail.contact?.callsign ?? event.uid),
+    method,
+    direction: attrs.direction === 'Exfil' ? 'Exfil' : 'Infil',
+    order: attrs.routetype === 'Secondary' ? 'Secondary' : 'Primary',
+    prefix: String(attrs.prefix ?? 'CP'),
+    speed: ROUTE_SPEEDS[method],
+    color: Number(attrs.color ?? detail.color?.value ?? -1),
+    remarks: remarks ? String(remarks) : undefined,
+    waypoints
+  });
+}
@@ -0,0 +1,241 @@
+import { EventEmitter } from 'events';
+import * as turf from '@turf/turf';
+import { v4 as uuidv4 } from 'uuid';
+import { CotEvent } from '../types/cot';
+import { matchesCotQuery } from '../clients/cot-filter';
+
+export interface SubscriptionFilter {
+  types?: string[];
+  uids?: string[];
+  callsigns?: string[];
+  bbox?: [number, number, number, number];
+  area?: {
+    center: [number, number]; // [lat, lon]
+    radius: number; // meters
+  };
+}
+
+export interface SubscriptionOptions {
+  duration?: number; // seconds; unlimited when omitted
+  bufferSize?: number;
+}
+
+export interface BufferedEvent {
+  seq: number;
+  receivedAt: Date;
+  event: CotEvent;
+}
+
+export interface SubscriptionInfo {
+  id: string;
+  filter: SubscriptionFilter;
+  created: Date;
+  expiresAt?: Date;
+  bufferSize: number;
+  received: number;
+  buffered: number;
+  cursor: number;
+}
+
+export interface PollResult {
+  events: BufferedEvent[];
+  // Pass back as `cursor` to continue where this poll stopped
+  cursor: number;
+  // Events that were overwritten before they could be polled
+  dropped: number;
+  hasMore: boolean;
+}
+
+export interface SubscriptionManagerOptions {
+  defaultBufferSize?: number;
+  maxSubscriptions?: number;
+}
+
+class Subscription {
+  readonly id = `sub-${uuidv4()}`;
+  readonly created = new Date();
+  readonly expiresAt?: Date;
+  private buffer: BufferedEvent[] = [];
+  // Sequence number the next buffered event will get
+  private nextSeq = 0;
+
+  constructor(readonly filter: SubscriptionFilter, readonly bufferSize: number, duration?: number) {
+    if (duration) {
+      this.expiresAt = new Date(this.created.getTime() + duration * 1000);
+    }
+  }
+
+  get oldestSeq(): number {
+    return Math.max(0, this.nextSeq - this.bufferSize);
+  }
+
+  push(event: CotEvent): void {
+    this.buffer[this.nextSeq % this.bufferSize] = { seq: this.nextSeq, receivedAt: new Date(), event };
+    this.nextSeq++;
+  }
+
+  poll(cursor: number = this.oldestSeq, limit: number = 100): PollResult {
+    const from = Math.min(Math.max(cursor, this.oldestSeq), this.nextSeq);
+    const to = Math.min(this.nextSeq, from + limit);
+    const events: BufferedEvent[] = [];
+    for (let seq = from; seq < to; seq++) {
+      events.push(this.buffer[seq % this.bufferSize]);
+    }
+
+    return {
+      events,
+      cursor: to,
+      dropped: Math.max(0, this.oldestSeq - cursor),
+      hasMore: to < this.nextSeq
+    };
+  }
+
+  info(): SubscriptionInfo {
+    return {
+      id: this.id,
+      filter: this.filter,
+      created: this.created,
+      expiresAt: this.expiresAt,
+      bufferSize: this.bufferSize,
+      received: this.nextSeq,
+      buffered: this.nextSeq - this.oldestSeq,
+      cursor: this.nextSeq
+    };
+  }
+}
+
+/**
+ * Concurrent pull-based CoT subscriptions. Each subscription keeps a ring
+ * buffer of matching events addressed by a monotonically increasing cursor.
+ * Emits 'end' (id) when a subscription is cancelled or expires.
+ */
+export class SubscriptionManager extends EventEmitter {
+  private subscriptions = new Map<string, Subscription>();
+  private options: Required<SubscriptionManagerOptions>;
+  private expiryTimer?: NodeJS.Timeout;
+
+  constructor(options: SubscriptionManagerOptions = {}) {
+    super();
+    this.options = {
+      defaultBufferSize: options.defaultBufferSize ?? 1000,
+      maxSubscriptions: options.maxSubscriptions ?? 50
+    };
+  }
+
+  get size(): number {
+    return this.subscriptions.size;
+  }
+
+  create(filter: SubscriptionFilter = {}, options: SubscriptionOptions = {}): SubscriptionInfo {
+    this.expire();
+    if (this.subscriptions.size >= this.options.maxSubscriptions) {
+      throw new Error(`Too many active subscriptions (max ${this.options.maxSubscriptions})`);
+    }
+
+    const subscription = new Subscription(filter, options.bufferSize || this.options.defaultBufferSize, options.duration);
+    this.subscriptions.set(subscription.id, subscription);
+    this.scheduleExpiry();
+    return subscription.info();
+  }
+
+  get(id: string): SubscriptionInfo | undefined {
+    return this.live(id)?.info();
+  }
+
+  list(): SubscriptionInfo[] {
+    this.expire();
+    return Array.from(this.subscriptions.values(), subscription => subscription.info());
+  }
+
+  poll(id: string, cursor?: number, limit?: number): PollResult {
+    const subscription = this.live(id);
+    if (!subscription) {
+      throw new Error(`Subscription not found or expired: ${id}`);
+    }
+    return subscription.poll(cursor, limit);
+  }
+
+  cancel(id: string): boolean {
+    if (!this.subscriptions.delete(id)) return false;
+    this.emit('end', id);
+    this.scheduleExpiry();
+    return true;
+  }
+
+  cancelAll(): void {
+    for (const id of Array.from(this.subscriptions.keys())) {
+      this.cancel(id);
+    }
+  }
+
+  dispatch(event: CotEvent): void {
+    for (const subscription of this.subscriptions.values()) {
+      if (matchesSubscriptionFilter(event, subscription.filter)) {
+        subscription.push(event);
+      }
+    }
+  }
+
+  // Push into one subscription only, still subject to its filter (used by replays)
+  deliver(id: string, event: CotEvent): boolean {
+    const subscription = this.live(id);
+    if (!subscription) {
+      throw new Error(`Subscription not found or expired: ${id}`);
+    }
+    if (!matchesSubscriptionFilter(event, subscription.filter)) return false;
+    subscription.push(event);
+    return true;
+  }
+
+  private live(id: string): Subscription | undefined {
+    this.expire();
+    return this.subscriptions.get(id);
+  }
+
+  private expire(now: Date = new Date()): void {
+    for (const [id, subscription] of this.subscriptions) {
+      if (subscription.expiresAt && subscription.expiresAt <= now) {
+        this.cancel(id);
+      }
+    }
+  }
+
+  // One timer for the earliest expiry, so ended subscriptions release the feed promptly
+  private scheduleExpiry(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = undefined;
+    }
+
+    let next: number | undefined;
+    for (const subscription of this.subscriptions.values()) {
+      const expiresAt = subscription.expiresAt?.getTime();
+      if (expiresAt !== undefined && (next === undefined || expiresAt < next)) next = expiresAt;
+    }
+    if (next === undefined) return;
+
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = undefined;
+      this.expire();
+      this.scheduleExpiry();
+    }, Math.max(0, next - Date.now()));
+    this.expiryTimer.unref();
+  }
+}
+
+export function matchesSubscriptionFilter(event: CotEvent, filter: SubscriptionFilter): boolean {
+  if (!matchesCotQuery(event, { types: filter.types, uids: filter.uids, bbox: filter.bbox })) return false;
+
+  if (filter.callsigns && filter.callsigns.length > 0) {
+    const callsign = event.detail?.contact?.callsign;
+    if (callsign === undefined || !filter.callsigns.includes(String(callsign))) return false;
+  }
+
+  if (filter.area) {
+    const [lat, lon] = filter.area.center;
+    const distance = turf.distance([lon, lat], [event.point.lon, event.point.lat], { units: 'meters' });
+    if (distance > filter.area.radius) return false;
+  }
+
+  return true;
+}
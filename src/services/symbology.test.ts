@@ -0,0 +1,74 @@
+import { cotTypeToSidc, describeCotType, resolveCotType, sidcToCotType } from './symbology';
+import { matchesCotType } from '../clients/cot-filter';
+
+describe('sidcToCotType', () => {
+  it.each([
+    ['SHGPUCI---*****', 'a-h-G-U-C-I'],
+    ['SFAPMFQ---*****', 'a-f-A-M-F-Q'],
+    ['SNSP------*****', 'a-n-S'],
+    ['sugpe-----', 'a-u-G-E']
+  ])('converts %s to %s', (sidc, type) => {
+    expect(sidcToCotType(sidc)).toBe(type);
+  });
+
+  it('maps exercise affiliations onto their CoT letters', () => {
+    expect(sidcToCotType('SDGPUCI---*****')).toBe('a-f-G-U-C-I');
+    expect(sidcToCotType('SGGPUCI---*****')).toBe('a-p-G-U-C-I');
+  });
+
+  it('rejects codes that are not warfighting SIDCs', () => {
+    expect(() => sidcToCotType('a-h-G')).toThrow(/Invalid SIDC/);
+    expect(() => sidcToCotType('GHGPUCI---*****')).toThrow(/coding scheme S/);
+    expect(() => sidcToCotType('SQGPUCI---*****')).toThrow(/affiliation/);
+    expect(() => sidcToCotType('SHQPUCI---*****')).toThrow(/battle dimension/);
+    expect(() => sidcToCotType('SHGPU-I---*****')).toThrow(/function ID/);
+  });
+});
+
+describe('cotTypeToSidc', () => {
+  it('pads the function ID and marks the status present', () => {
+    expect(cotTypeToSidc('a-h-G-U-C-I')).toBe('SHGPUCI--------');
+    expect(cotTypeToSidc('a-f-A')).toBe('SFAP-----------');
+  });
+
+  it.each(['a-h-G-U-C-I', 'a-f-A-M-F-Q', 'a-n-S', 'a-u-G-E-V-A-T-H'])(
+    'round-trips %s',
+    type => {
+      expect(sidcToCotType(cotTypeToSidc(type))).toBe(type);
+    }
+  );
+
+  it('rejects non-atom types and functions that do not fit', () => {
+    expect(() => cotTypeToSidc('b-m-p-s-p-i')).toThrow(/Only atom types/);
+    expect(() => cotTypeToSidc('a-h-G-U-C-I-Z-Z-Z-Z')).toThrow(/no 2525 function ID/);
+    expect(() => cotTypeToSidc('a-h-G-U-c')).toThrow(/no 2525 function ID/);
+  });
+});
+
+describe('wildcards', () => {
+  it('turns a * affiliation into the . wildcard segment', () => {
+    expect(sidcToCotType('S*GPUCI---*****')).toBe('a-.-G-U-C-I');
+  });
+
+  it('matches a wildcard SIDC against every affiliation as a type filter', () => {
+    expect(matchesCotType('a-h-G-U-C-I', ['S*GPUCI---*****'])).toBe(true);
+    expect(matchesCotType('a-f-G-U-C-I-Z', ['S*GPUCI---*****'])).toBe(true);
+    expect(matchesCotType('a-h-G-U-C-A', ['S*GPUCI---*****'])).toBe(false);
+  });
+
+  it('leaves CoT types alone when resolving', () => {
+    expect(resolveCotType(' a-h-G ')).toBe('a-h-G');
+    expect(resolveCotType('SHGPUCI---*****')).toBe('a-h-G-U-C-I');
+  });
+});
+
+describe('describeCotType', () => {
+  it('names the affiliation, dimension and function hierarchy of atoms', () => {
+    const description = describeCotType('a-h-G-U-C-I');
+
+    expect(description.affiliation).toBe('Hostile');
+    expect(description.dimension).toBe('Ground');
+    expect(description.sidc).toBe(cotTypeToSidc('a-h-G-U-C-I'));
+    expect(description.description.startsWith('Hostile Ground')).toBe(true);
+  });
+});
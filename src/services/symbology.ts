@@ -0,0 +1,329 @@
+// CoT type <-> MIL-STD-2525B/C symbol identification code (SIDC) translation.
+// Atom types (a-<affiliation>-<dimension>-<function...>) carry the same
+// hierarchy as a warfighting SIDC: one CoT segment per function ID character.
+
+export const AFFILIATIONS: Record<string, string> = {
+  p: 'Pending',
+  u: 'Unknown',
+  a: 'Assumed Friend',
+  f: 'Friendly',
+  n: 'Neutral',
+  s: 'Suspect',
+  h: 'Hostile',
+  j: 'Joker',
+  k: 'Faker',
+  o: 'None'
+};
+
+// 2525C exercise affiliations have no CoT letter of their own
+const EXERCISE_AFFILIATIONS: Record<string, string> = {
+  G: 'p',
+  W: 'u',
+  M: 'a',
+  D: 'f',
+  L: 'n'
+};
+
+export const BATTLE_DIMENSIONS: Record<string, string> = {
+  P: 'Space',
+  A: 'Air',
+  G: 'Ground',
+  S: 'Sea Surface',
+  U: 'Subsurface',
+  F: 'SOF',
+  X: 'Other'
+};
+
+// Function hierarchy per battle dimension, keyed by the CoT segments after the dimension
+const FUNCTIONS: Record<string, Record<string, string>> = {
+  P: {
+    S: 'Satellite',
+    V: 'Crewed Space Vehicle',
+    T: 'Space Station',
+    L: 'Space Launch Vehicle'
+  },
+  A: {
+    M: 'Military Aircraft',
+    'M-F': 'Fixed Wing',
+    'M-F-A': 'Attack/Strike',
+    'M-F-B': 'Bomber',
+    'M-F-C': 'Cargo',
+    'M-F-D': 'Airborne Command Post',
+    'M-F-F': 'Fighter',
+    'M-F-H': 'Combat Search and Rescue',
+    'M-F-J': 'Electronic Countermeasures',
+    'M-F-K': 'Tanker',
+    'M-F-O': 'Medevac',
+    'M-F-P': 'Patrol',
+    'M-F-Q': 'Drone',
+    'M-F-R': 'Reconnaissance',
+    'M-F-S': 'Anti-Submarine Warfare',
+    'M-F-T': 'Trainer',
+    'M-F-U': 'Utility',
+    'M-F-W': 'Airborne Early Warning',
+    'M-H': 'Rotary Wing',
+    'M-H-A': 'Attack Helicopter',
+    'M-H-C': 'Cargo Helicopter',
+    'M-H-H': 'Combat Search and Rescue Helicopter',
+    'M-H-O': 'Medevac Helicopter',
+    'M-H-R': 'Reconnaissance Helicopter',
+    'M-H-U': 'Utility Helicopter',
+    'M-L': 'Lighter Than Air',
+    C: 'Civilian Aircraft',
+    'C-F': 'Civilian Fixed Wing',
+    'C-H': 'Civilian Rotary Wing',
+    'C-L': 'Civilian Lighter Than Air',
+    W: 'Weapon',
+    'W-M': 'Missile',
+    'W-D': 'Decoy'
+  },
+  G: {
+    U: 'Unit',
+    'U-C': 'Combat',
+    'U-C-A': 'Armor',
+    'U-C-A-A': 'Anti-Armor',
+    'U-C-D': 'Air Defense',
+    'U-C-E': 'Engineer',
+    'U-C-F': 'Field Artillery',
+    'U-C-I': 'Infantry',
+    'U-C-I-A': 'Airborne Infantry',
+    'U-C-I-L': 'Light Infantry',
+    'U-C-I-M': 'Motorized Infantry',
+    'U-C-I-O': 'Mountain Infantry',
+    'U-C-I-Z': 'Mechanized Infantry',
+    'U-C-M': 'Missile',
+    'U-C-R': 'Reconnaissance',
+    'U-C-S': 'Internal Security Forces',
+    'U-C-V': 'Aviation',
+    'U-U': 'Combat Support',
+    'U-U-A': 'CBRN Defense',
+    'U-U-L': 'Military Police',
+    'U-U-M': 'Military Intelligence',
+    'U-U-S': 'Signal',
+    'U-S': 'Combat Service Support',
+    'U-S-A': 'Administrative',
+    'U-S-M': 'Medical',
+    'U-S-S': 'Supply',
+    'U-S-T': 'Transportation',
+    'U-S-X': 'Maintenance',
+    E: 'Equipment',
+    'E-V': 'Ground Vehicle',
+    'E-V-A': 'Armored Vehicle',
+    'E-V-A-A': 'Armored Personnel Carrier',
+    'E-V-A-I': 'Infantry Fighting Vehicle',
+    'E-V-A-T': 'Tank',
+    'E-V-C': 'Civilian Vehicle',
+    'E-V-E': 'Engineer Vehicle',
+    'E-V-T': 'Train',
+    'E-V-U': 'Utility Vehicle',
+    'E-W': 'Weapon',
+    'E-W-A': 'Air Defense Gun',
+    'E-W-G': 'Gun',
+    'E-W-H': 'Howitzer',
+    'E-W-M': 'Missile Launcher',
+    'E-W-O': 'Mortar',
+    'E-W-R': 'Rifle/Automatic Weapon',
+    'E-W-Z': 'Grenade Launcher',
+    'E-S': 'Sensor',
+    'E-S-R': 'Radar',
+    'E-X': 'Special Equipment',
+    'E-X-M': 'Mine',
+    I: 'Installation',
+    'I-E': 'Equipment Manufacture',
+    'I-M': 'Military Materiel Facility',
+    'I-P': 'Processing Facility',
+    'I-R': 'Raw Material Production/Storage',
+    'I-U': 'Utility Facility'
+  },
+  S: {
+    C: 'Combatant',
+    'C-A': 'Amphibious Warfare Ship',
+    'C-L': 'Line',
+    'C-L-B-B': 'Battleship',
+    'C-L-C-C': 'Cruiser',
+    'C-L-C-V': 'Carrier',
+    'C-L-D-D': 'Destroyer',
+    'C-L-F-F': 'Frigate/Corvette',
+    'C-M': 'Mine Warfare Vessel',
+    'C-P': 'Patrol',
+    G: 'Navy Group',
+    N: 'Noncombatant',
+    'N-H': 'Hospital Ship',
+    X: 'Non-Military Vessel',
+    'X-F': 'Fishing Vessel',
+    'X-L': 'Law Enforcement Vessel',
+    'X-M': 'Merchant Ship',
+    'X-M-C': 'Cargo Ship',
+    'X-M-O': 'Oiler/Tanker',
+    'X-M-P': 'Passenger Ship',
+    'X-R': 'Leisure Craft'
+  },
+  U: {
+    S: 'Submarine',
+    'S-C': 'Conventional Submarine',
+    'S-N': 'Nuclear Submarine',
+    W: 'Underwater Weapon',
+    'W-M': 'Sea Mine',
+    'W-T': 'Torpedo',
+    N: 'Non-Submarine',
+    'N-D': 'Diver'
+  },
+  F: {
+    A: 'SOF Aviation',
+    N: 'SOF Naval',
+    G: 'SOF Ground',
+    'G-R': 'Ranger',
+    'G-S': 'Special Forces',
+    B: 'SOF Support'
+  }
+};
+
+// Non-atom CoT types TAK clients exchange, matched by longest prefix
+const OTHER_TYPES: Record<string, string> = {
+  b: 'Bits',
+  'b-a': 'Alarm',
+  'b-a-o': 'Emergency Alert',
+  'b-a-o-tbl': '911 Alert',
+  'b-a-o-pan': 'Ring The Bell',
+  'b-a-o-opn': 'Troops In Contact',
+  'b-a-o-can': 'Cancel Alert',
+  'b-a-g': 'Geofence Breach',
+  'b-d': 'Detection',
+  'b-f-t-r': 'File Transfer Request',
+  'b-i-x-i': 'Image',
+  'b-m-p': 'Map Point',
+  'b-m-p-c': 'Route Checkpoint',
+  'b-m-p-s-m': 'Spot Map Marker',
+  'b-m-p-s-p-i': 'Sensor Point of Interest',
+  'b-m-p-w': 'Waypoint',
+  'b-m-r': 'Route',
+  'b-r-f-h-c': 'Casevac Request',
+  'b-t-f': 'GeoChat Message',
+  'b-t-f-d': 'GeoChat Delivery Receipt',
+  'b-t-f-r': 'GeoChat Read Receipt',
+  'b-x-KmlStyle': 'KML Style',
+  t: 'Tasking',
+  't-x-c-t': 'Ping',
+  't-x-c-t-r': 'Pong',
+  't-x-d-d': 'Forced Delete',
+  't-x-takp': 'TAK Protocol Negotiation',
+  u: 'Drawing',
+  'u-d-c-c': 'Circle',
+  'u-d-f': 'Freehand Line/Polygon',
+  'u-d-p': 'Drawing Point',
+  'u-d-r': 'Rectangle',
+  'u-d-v': 'Vehicle Model',
+  'u-r-b-c-c': 'Range Rings',
+  'u-rb-a': 'Range & Bearing Line'
+};
+
+export interface CotTypeDescription {
+  type: string;
+  description: string;
+  // Set for atom (a-) types
+  affiliation?: string;
+  dimension?: string;
+  // Names from the broadest function down to the most specific one known
+  hierarchy: string[];
+  sidc?: string;
+}
+
+function isSidc(value: string): boolean {
+  // CoT types always have a dash in second position; SIDCs never do
+  return /^[A-Z][A-Z*][A-Z*-]{8,13}$/i.test(value);
+}
+
+/**
+ * Converts a 2525B/C warfighting SIDC such as SHGPUCI---***** to its CoT
+ * type (a-h-G-U-C-I). A '*' affiliation becomes the '.' wildcard, so a SIDC
+ * can also be used as a type filter.
+ */
+export function sidcToCotType(sidc: string): string {
+  const code = sidc.trim().toUpperCase();
+  if (!isSidc(code)) {
+    throw new Error(`Invalid SIDC: ${sidc}`);
+  }
+  if (code[0] !== 'S') {
+    throw new Error(`Only warfighting SIDCs (coding scheme S) map to CoT types: ${sidc}`);
+  }
+
+  const affiliation = code[1] === '*' ? '.' : EXERCISE_AFFILIATIONS[code[1]] || code[1].toLowerCase();
+  if (affiliation !== '.' && !AFFILIATIONS[affiliation]) {
+    throw new Error(`Unknown SIDC affiliation '${code[1]}': ${sidc}`);
+  }
+  const dimension = code[2];
+  if (!BATTLE_DIMENSIONS[dimension]) {
+    throw new Error(`Unknown SIDC battle dimension '${dimension}': ${sidc}`);
+  }
+
+  // Function ID is positions 5-10, padded with dashes
+  const functionId = code.slice(4, 10).replace(/[-*]+$/, '');
+  if (/[-*]/.test(functionId)) {
+    throw new Error(`Invalid SIDC function ID '${code.slice(4, 10)}': ${sidc}`);
+  }
+
+  return ['a', affiliation, dimension, ...functionId.split('')].join('-');
+}
+
+// 15-character 2525B/C SIDC for an atom type, status present
+export function cotTypeToSidc(type: string): string {
+  const [kind, affiliation, dimension, ...functions] = type.split('-');
+  if (kind !== 'a' || !AFFILIATIONS[affiliation] || !BATTLE_DIMENSIONS[dimension]) {
+    throw new Error(`Only atom types (a-<affiliation>-<dimension>...) have a SIDC: ${type}`);
+  }
+  if (functions.length > 6 || functions.some(segment => !/^[A-Z]$/.test(segment))) {
+    throw new Error(`CoT type has no 2525 function ID equivalent: ${type}`);
+  }
+
+  return `S${affiliation.toUpperCase()}${dimension}P${functions.join('').padEnd(6, '-')}-----`;
+}
+
+// Accepts either a CoT type or a SIDC and returns the CoT type
+export function resolveCotType(value: string): string {
+  return isSidc(value.trim()) ? sidcToCotType(value) : value.trim();
+}
+
+export function describeCotType(type: string): CotTypeDescription {
+  const [kind, affiliation, dimension, ...functions] = type.split('-');
+
+  if (kind === 'a' && AFFILIATIONS[affiliation]) {
+    const hierarchy: string[] = [];
+    const table = FUNCTIONS[dimension] || {};
+    for (let i = 1; i <= functions.length; i++) {
+      const name = table[functions.slice(0, i).join('-')];
+      if (name) hierarchy.push(name);
+    }
+
+    const parts = [AFFILIATIONS[affiliation], BATTLE_DIMENSIONS[dimension] || dimension];
+    if (hierarchy.length > 0) parts.push(hierarchy[hierarchy.length - 1]);
+
+    let sidc: string | undefined;
+    try {
+      sidc = cotTypeToSidc(type);
+    } catch {
+      sidc = undefined;
+    }
+
+    return {
+      type,
+      description: parts.filter(Boolean).join(' '),
+      affiliation: AFFILIATIONS[affiliation],
+      dimension: BATTLE_DIMENSIONS[dimension],
+      hierarchy,
+      sidc
+    };
+  }
+
+  const segments = type.split('-');
+  const hierarchy: string[] = [];
+  for (let i = 1; i <= segments.length; i++) {
+    const name = OTHER_TYPES[segments.slice(0, i).join('-')];
+    if (name) hierarchy.push(name);
+  }
+
+  return {
+    type,
+    description: hierarchy.length > 0 ? hierarchy[hierarchy.length - 1] : type,
+    hierarchy
+  };
+}
@@ -0,0 +1,305 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { Logger } from 'pino';
+import { CotEvent } from '../types/cot';
+import { CotQuery } from '../clients/backends/types';
+import { matchesCotQuery } from '../clients/cot-filter';
+
+export interface TrackStoreOptions {
+  directory?: string;
+  retentionHours?: number;
+  maxPointsPerUid?: number;
+  flushInterval?: number;
+  logger?: Logger;
+}
+
+export interface TrackPoint {
+  uid: string;
+  type: string;
+  how: string;
+  callsign?: string;
+  time: Date;
+  stale: Date;
+  lat: number;
+  lon: number;
+  hae: number;
+  ce: number;
+  le: number;
+  speed?: number;
+  course?: number;
+}
+
+const SEGMENT_PATTERN = /^tracks-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+const PRUNE_INTERVAL = 3600 * 1000;
+
+/**
+ * Embedded position history. Every located event is appended to a daily
+ * JSONL segment and kept in a per-UID, time-ordered index in memory.
+ * Points and segments older than the retention window are pruned hourly.
+ */
+export class TrackStore {
+  private tracks = new Map<string, TrackPoint[]>();
+  private pending: string[] = [];
+  private options: Required<Omit<TrackStoreOptions, 'logger'>>;
+  private logger?: Logger;
+  private flushTimer?: NodeJS.Timeout;
+  private pruneTimer?: NodeJS.Timeout;
+  private flushing?: Promise<void>;
+
+  constructor(options: TrackStoreOptions = {}) {
+    this.options = {
+      directory: options.directory ?? path.join(process.cwd(), 'tak-data', 'tracks'),
+      retentionHours: options.retentionHours ?? 72,
+      maxPointsPerUid: options.maxPointsPerUid ?? 10000,
+      flushInterval: options.flushInterval ?? 2000
+    };
+    this.logger = options.logger;
+  }
+
+  get uidCount(): number {
+    return this.tracks.size;
+  }
+
+  get pointCount(): number {
+    let count = 0;
+    for (const points of this.tracks.values()) count += points.length;
+    return count;
+  }
+
+  // Load retained segments from disk and start periodic flushing
+  async open(): Promise<void> {
+    await fs.promises.mkdir(this.options.directory, { recursive: true });
+
+    for (const file of await this.listSegments()) {
+      await this.loadSegment(path.join(this.options.directory, file));
+    }
+    await this.prune();
+
+    if (!this.flushTimer) {
+      this.flushTimer = setInterval(() => {
+        this.flush().catch(error => this.logger?.error({ error: error.message }, 'Track flush failed'));
+      }, this.options.flushInterval);
+      this.flushTimer.unref();
+
+      this.pruneTimer = setInterval(() => {
+        this.prune().catch(error => this.logger?.error({ error: error.message }, 'Track prune failed'));
+      }, PRUNE_INTERVAL);
+      this.pruneTimer.unref();
+    }
+
+    this.logger?.info({ uids: this.uidCount, points: this.pointCount }, 'Track history loaded');
+  }
+
+  async close(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = undefined;
+    }
+    await this.flush();
+  }
+
+  record(event: CotEvent): boolean {
+    // Control traffic and unlocated events have no track
+    if (event.type.startsWith('t-')) return false;
+    if (!isFinite(event.point.lat) || !isFinite(event.point.lon)) return false;
+
+    const point = toTrackPoint(event);
+    if (!this.insert(point)) return false;
+
+    this.pending.push(JSON.stringify(point));
+    return true;
+  }
+
+  query(query: CotQuery = {}): CotEvent[] {
+    const uids = query.uids && query.uids.length > 0 ? query.uids.map(String) : Array.from(this.tracks.keys());
+    const events: CotEvent[] = [];
+
+    for (const uid of uids) {
+      for (const point of this.getTrack(uid, query.start, query.end)) {
+        const event = toCotEvent(point);
+        // Time range is already applied by getTrack
+        if (matchesCotQuery(event, { types: query.types, bbox: query.bbox })) {
+          events.push(event);
+        }
+      }
+    }
+
+    events.sort((a, b) => a.time.getTime() - b.time.getTime());
+    return query.limit && events.length > query.limit ? events.slice(-query.limit) : events;
+  }
+
+  getTrack(uid: string, start?: Date, end?: Date): TrackPoint[] {
+    const points = this.tracks.get(uid);
+    if (!points) return [];
+
+    const from = start ? lowerBound(points, start.getTime()) : 0;
+    const to = end ? upperBound(points, end.getTime()) : points.length;
+    return points.slice(from, to);
+  }
+
+  // Drop points and segments that fall outside the retention window
+  async prune(now: Date = new Date()): Promise<number> {
+    const cutoff = now.getTime() - this.options.retentionHours * 3600 * 1000;
+    let removed = 0;
+
+    for (const [uid, points] of this.tracks) {
+      const keepFrom = lowerBound(points, cutoff);
+      if (keepFrom === 0) continue;
+
+      removed += keepFrom;
+      if (keepFrom >= points.length) {
+        this.tracks.delete(uid);
+      } else {
+        points.splice(0, keepFrom);
+      }
+    }
+
+    const cutoffDay = new Date(cutoff).toISOString().slice(0, 10);
+    for (const file of await this.listSegments()) {
+      const day = file.match(SEGMENT_PATTERN)![1];
+      if (day < cutoffDay) {
+        await fs.promises.unlink(path.join(this.options.directory, file));
+        this.logger?.debug({ file }, 'Deleted expired track segment');
+      }
+    }
+
+    return removed;
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushing) await this.flushing;
+    if (this.pending.length === 0) return;
+
+    const lines = this.pending;
+    this.pending = [];
+    const segment = path.join(this.options.directory, `tracks-${new Date().toISOString().slice(0, 10)}.jsonl`);
+
+    this.flushing = fs.promises.appendFile(segment, lines.join('\n') + '\n', 'utf8')
+      .catch((error) => {
+        // Keep the points for the next attempt
+        this.pending = lines.concat(this.pending);
+        throw error;
+      })
+      .finally(() => {
+        this.flushing = undefined;
+      });
+    await this.flushing;
+  }
+
+  private insert(point: TrackPoint): boolean {
+    let points = this.tracks.get(point.uid);
+    if (!points) {
+      points = [];
+      this.tracks.set(point.uid, points);
+    }
+
+    const time = point.time.getTime();
+    const index = upperBound(points, time);
+    // Same UID and timestamp is a re-broadcast, not a new fix
+    if (index > 0 && points[index - 1].time.getTime() === time) return false;
+
+    points.splice(index, 0, point);
+    if (points.length > this.options.maxPointsPerUid) {
+      points.splice(0, points.length - this.options.maxPointsPerUid);
+    }
+    return true;
+  }
+
+  private async listSegments(): Promise<string[]> {
+    try {
+      const files = await fs.promises.readdir(this.options.directory);
+      return files.filter(file => SEGMENT_PATTERN.test(file)).sort();
+    } catch {
+      return [];
+    }
+  }
+
+  private async loadSegment(file: string): Promise<void> {
+    const lines = readline.createInterface({ input: fs.createReadStream(file, 'utf8'), crlfDelay: Infinity });
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const raw = JSON.parse(line);
+        this.insert({ ...raw, time: new Date(raw.time), stale: new Date(raw.stale) });
+      } catch {
+        this.logger?.warn({ file }, 'Skipping corrupt track record');
+      }
+    }
+  }
+}
+
+function toTrackPoint(event: CotEvent): TrackPoint {
+  const speed = Number(event.detail?.track?.speed);
+  const course = Number(event.detail?.track?.course);
+
+  return {
+    uid: String(event.uid),
+    type: event.type,
+    how: event.how,
+    callsign: event.detail?.contact?.callsign !== undefined ? String(event.detail.contact.callsign) : undefined,
+    time: new Date(event.time),
+    stale: new Date(event.stale),
+    lat: event.point.lat,
+    lon: event.point.lon,
+    hae: event.point.hae,
+    ce: event.point.ce,
+    le: event.point.le,
+    speed: isFinite(speed) ? speed : undefined,
+    course: isFinite(course) ? course : undefined
+  };
+}
+
+export function toCotEvent(point: TrackPoint): CotEvent {
+  const detail: Record<string, any> = {};
+  if (point.callsign !== undefined) detail.contact = { callsign: point.callsign };
+  if (point.speed !== undefined || point.course !== undefined) {
+    detail.track = { speed: point.speed, course: point.course };
+  }
+
+  return {
+    uid: point.uid,
+    type: point.type,
+    time: point.time,
+    start: point.time,
+    stale: point.stale,
+    how: point.how,
+    point: {
+      lat: point.lat,
+      lon: point.lon,
+      hae: point.hae,
+      ce: point.ce,
+      le: point.le
+    },
+    detail
+  };
+}
+
+// First index whose time is >= t
+function lowerBound(points: TrackPoint[], t: number): number {
+  let lo = 0;
+  let hi = points.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (points[mid].time.getTime() < t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// First index whose time is > t
+function upperBound(points: TrackPoint[], t: number): number {
+  let lo = 0;
+  let hi = points.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (points[mid].time.getTime() <= t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
@@ -1,5 +1,6 @@
 import { TAKTool, ToolContext } from '../registry';
 import { v4 as uuidv4 } from 'uuid';
+import { coordinateSchema, parseCoordinate, toPosition } from '../../services/coordinates';
 
 export const sendEmergencyTool: TAKTool = {
   name: 'tak_send_emergency',
@@ -26,13 +27,7 @@ export const sendEmergencyTool: TAKTool = {
             type: 'string',
             description: 'Use location of existing entity'
           },
-          coordinates: {
-            type: 'array',
-            items: { type: 'number' },
-            minItems: 2,
-            maxItems: 2,
-            description: 'Specific coordinates [lat, lon]'
-          }
+          coordinates: coordinateSchema('Specific coordinates')
         },
         description: 'Emergency location (provide either entityId or coordinates)'
       },
@@ -65,13 +60,9 @@ export const sendEmergencyTool: TAKTool = {
       let entityInfo: any = {};
       
       if (params.location.coordinates) {
-        emergencyLocation = params.location.coordinates;
+        emergencyLocation = parseCoordinate(params.location.coordinates);
       } else if (params.location.entityId) {
-        const entities = await takClient.getEntities();
-        const entity = entities.find(e => e.uid === params.location.entityId);
-        if (!entity) {
-          throw new Error(`Entity ${params.location.entityId} not found`);
-        }
+        const entity = await takClient.getEntity(params.location.entityId);
         emergencyLocation = [entity.location.lat, entity.location.lon];
         entityInfo = {
           callsign: entity.callsign,
@@ -172,7 +163,9 @@ export const sendEmergencyTool: TAKTool = {
       // Find nearby units to notify
       const nearbyUnits = [];
       if (params.notifyRadius > 0) {
-        const allEntities = await takClient.getEntities();
+        const allEntities = await takClient.getEntities({
+          within: { center: emergencyLocation, radius: params.notifyRadius }
+        });
         
         for (const entity of allEntities) {
           // Calculate distance using simple Euclidean approximation
@@ -202,6 +195,7 @@ export const sendEmergencyTool: TAKTool = {
           emergencyId: emergencyId,
           type: params.type,
           location: emergencyLocation,
+          position: toPosition(emergencyLocation[0], emergencyLocation[1], takClient.coordinateSystem),
           message: params.message,
           timestamp: timestamp,
           notifiedUnits: nearbyUnits.length,
@@ -0,0 +1,98 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const readChatTool: TAKTool = {
+  name: 'tak_read_chat',
+  description: 'List GeoChat rooms, or read recent messages in a room with their delivery and read receipts',
+  category: 'chat',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      room: {
+        type: 'string',
+        description: 'Room name or ID ("All Chat Rooms", a team, a group, or a contact UID); omit to list rooms'
+      },
+      since: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Only messages sent at or after this time'
+      },
+      limit: {
+        type: 'number',
+        minimum: 1,
+        maximum: 500,
+        default: 50,
+        description: 'Number of most recent messages to return'
+      }
+    }
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      // History only exists for traffic seen on the live feed
+      const feed = takClient.live ? 'live' : 'disconnected';
+
+      if (!params.room) {
+        const rooms = takClient.chat.listRooms();
+        return {
+          success: true,
+          data: {
+            count: rooms.length,
+            rooms,
+            feed
+          },
+          metadata: {
+            timestamp: new Date().toISOString(),
+            source: 'chat-store'
+          }
+        };
+      }
+
+      const messages = takClient.chat.history(params.room, {
+        since: params.since ? new Date(params.since) : undefined,
+        limit: params.limit || 50
+      });
+
+      logger.debug(`Read ${messages.length} chat messages from ${params.room}`);
+
+      return {
+        success: true,
+        data: {
+          room: params.room,
+          count: messages.length,
+          feed,
+          messages: messages.map(message => ({
+            id: message.id,
+            time: message.time,
+            sender: message.senderCallsign,
+            senderUid: message.senderUid,
+            direction: message.direction,
+            text: message.text,
+            location: message.point ? { lat: message.point[0], lon: message.point[1] } : undefined,
+            deliveredTo: message.deliveredTo,
+            readBy: message.readBy
+          }))
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'chat-store'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to read chat:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_CHAT_ERROR',
+          message: 'Failed to read chat',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
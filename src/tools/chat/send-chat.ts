@@ -0,0 +1,112 @@
+import { TAKTool, ToolContext } from '../registry';
+import { ChatRecipient } from '../../services/chat-store';
+import { locationSchema, parseCoordinate } from '../../services/coordinates';
+
+export const sendChatTool: TAKTool = {
+  name: 'tak_send_chat',
+  description: 'Send a GeoChat message to All Chat Rooms, a team or group room, or a single contact',
+  category: 'chat',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      message: {
+        type: 'string',
+        description: 'Message text'
+      },
+      to: {
+        type: 'string',
+        enum: ['all', 'group', 'contact'],
+        default: 'all',
+        description: 'Send to All Chat Rooms, a group/team room or one contact'
+      },
+      groupName: {
+        type: 'string',
+        description: 'Room name for group messages, e.g. a team colour such as "Cyan"'
+      },
+      groupId: {
+        type: 'string',
+        description: 'ID of an existing user group room (defaults to the name)'
+      },
+      members: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'UIDs in a user group room'
+      },
+      contactUid: {
+        type: 'string',
+        description: 'UID of the contact for direct messages'
+      },
+      contactCallsign: {
+        type: 'string',
+        description: 'Callsign of the contact (looked up from the picture when omitted)'
+      },
+      location: locationSchema('Sender position attached to the message')
+    },
+    required: ['message']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      if (!params.message?.trim()) {
+        throw new Error('message must not be empty');
+      }
+
+      let recipient: ChatRecipient;
+      switch (params.to || 'all') {
+        case 'all':
+          recipient = { kind: 'all' };
+          break;
+        case 'group':
+          if (!params.groupName) throw new Error('groupName is required for group messages');
+          recipient = { kind: 'group', name: params.groupName, id: params.groupId, members: params.members };
+          break;
+        case 'contact':
+          if (!params.contactUid) throw new Error('contactUid is required for direct messages');
+          recipient = {
+            kind: 'contact',
+            uid: params.contactUid,
+            callsign: params.contactCallsign || takClient.entities.get(params.contactUid)?.callsign
+          };
+          break;
+        default:
+          throw new Error(`Unknown recipient type: ${params.to}`);
+      }
+
+      const location = params.location ? parseCoordinate(params.location) : undefined;
+      const sent = await takClient.sendChatMessage(recipient, params.message, location);
+
+      logger.info(`Sent chat message ${sent.id} to ${sent.room}`);
+
+      return {
+        success: true,
+        data: {
+          messageId: sent.id,
+          room: sent.room,
+          roomId: sent.roomId,
+          sender: sent.senderCallsign,
+          time: sent.time
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'tak-server'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to send chat message:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_CHAT_ERROR',
+          message: 'Failed to send chat message',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
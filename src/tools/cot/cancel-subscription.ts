@@ -0,0 +1,55 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const cancelSubscriptionTool: TAKTool = {
+  name: 'tak_cancel_subscription',
+  description: 'Cancel an active CoT event subscription by ID',
+  category: 'cot',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      subscriptionId: {
+        type: 'string',
+        description: 'ID returned by tak_subscribe_events'
+      }
+    },
+    required: ['subscriptionId']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      if (!takClient.cancelSubscription(params.subscriptionId)) {
+        throw new Error(`Subscription not found or expired: ${params.subscriptionId}`);
+      }
+
+      logger.info(`Cancelled subscription ${params.subscriptionId}`);
+
+      return {
+        success: true,
+        data: {
+          subscriptionId: params.subscriptionId,
+          status: 'cancelled'
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'tak-server'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to cancel subscription:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_SUBSCRIPTION_ERROR',
+          message: 'Failed to cancel subscription',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
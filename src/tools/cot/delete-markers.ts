@@ -0,0 +1,75 @@
+import { TAKTool, ToolContext } from '../registry';
+import { buildForceDeleteMessage } from '../../clients/cot-xml';
+
+export const deleteMarkersTool: TAKTool = {
+  name: 'tak_delete_markers',
+  description: 'Remove markers from every TAK client map with forced-delete (t-x-d-d) events',
+  category: 'cot',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      uids: {
+        type: 'array',
+        items: { type: 'string' },
+        minItems: 1,
+        maxItems: 500,
+        description: 'UIDs of the markers to delete'
+      }
+    },
+    required: ['uids']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const deleted: Array<{ uid: string; callsign?: string; known: boolean }> = [];
+      const failed: Array<{ uid: string; error: string }> = [];
+
+      for (const uid of new Set<string>(params.uids)) {
+        const event = takClient.entities.getEvent(uid);
+        try {
+          // Markers we have not seen can still be deleted by UID
+          await takClient.sendCotEvent(buildForceDeleteMessage(uid, event?.type || 'a-u-G'));
+          // The tombstone keeps late copies of the marker off the local picture
+          takClient.entities.delete(uid);
+          deleted.push({ uid, callsign: event?.detail?.contact?.callsign, known: event !== undefined });
+        } catch (error) {
+          failed.push({ uid, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      if (deleted.length === 0) {
+        throw new Error(`No markers deleted: ${failed[0]?.error}`);
+      }
+
+      logger.info(`Deleted ${deleted.length} markers (${failed.length} failed)`);
+
+      return {
+        success: true,
+        data: {
+          deleted,
+          failed,
+          count: deleted.length
+        },
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete markers:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_MARKER_ERROR',
+          message: 'Failed to delete markers',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
@@ -1,8 +1,9 @@
 import { TAKTool, ToolContext } from '../registry';
+import { toPosition } from '../../services/coordinates';
 
 export const getCotEventsTool: TAKTool = {
   name: 'tak_get_cot_events',
-  description: 'Retrieve Cursor on Target (CoT) events from TAK Server with optional filtering',
+  description: 'Retrieve Cursor on Target (CoT) events from TAK Server with optional filtering. Queries by UID or time range return recorded position history',
   category: 'cot',
   requiresAuth: true,
   requiresWrite: false,
@@ -22,7 +23,7 @@ export const getCotEventsTool: TAKTool = {
       types: {
         type: 'array',
         items: { type: 'string' },
-        description: 'Filter by CoT types (e.g., ["a-f-G", "a-h-A"])'
+        description: 'Filter by CoT types or SIDCs, matching everything beneath each type (e.g., ["a-f-G", "a-h-*", "a-.-A"])'
       },
       uids: {
         type: 'array',
@@ -76,6 +77,7 @@ export const getCotEventsTool: TAKTool = {
             lon: event.point.lon,
             alt: event.point.hae
           },
+          position: toPosition(event.point.lat, event.point.lon, takClient.coordinateSystem, event.point.hae),
           how: event.how,
           detail: event.detail
         }))
@@ -0,0 +1,47 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const listSubscriptionsTool: TAKTool = {
+  name: 'tak_list_subscriptions',
+  description: 'List active CoT event subscriptions with their filters and buffer state',
+  category: 'cot',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {}
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, logger } = context;
+
+    try {
+      const subscriptions = takClient.subscriptions.list();
+
+      logger.debug(`Listed ${subscriptions.length} subscriptions`);
+
+      return {
+        success: true,
+        data: {
+          count: subscriptions.length,
+          subscriptions
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'tak-server'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to list subscriptions:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_SUBSCRIPTION_ERROR',
+          message: 'Failed to list subscriptions',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
@@ -0,0 +1,126 @@
+import { TAKTool, ToolContext } from '../registry';
+import { buildCotXml, parseCotXml } from '../../clients/cot-xml';
+import { MARKER_STALE_MS, buildMarkerMessage, markerPosition } from '../../services/markers';
+import { Position, coordinateSchema, toPosition } from '../../services/coordinates';
+
+export const placeMarkersTool: TAKTool = {
+  name: 'tak_place_markers',
+  description: 'Place one or many markers on TAK client maps with icons, colours and remarks',
+  category: 'cot',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      markers: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 500,
+        items: {
+          type: 'object',
+          properties: {
+            uid: { type: 'string', description: 'Marker UID (generated when omitted)' },
+            callsign: { type: 'string' },
+            lat: { type: 'number', minimum: -90, maximum: 90 },
+            lon: { type: 'number', minimum: -180, maximum: 180 },
+            position: coordinateSchema('Position instead of lat/lon'),
+            hae: { type: 'number', description: 'Altitude in meters HAE' },
+            type: { type: 'string', description: 'CoT type (overrides the default)' },
+            iconsetPath: { type: 'string', description: 'Icon path (overrides the default)' },
+            color: { type: 'string', description: 'Colour as #RRGGBB or #AARRGGBB (overrides the default)' },
+            remarks: { type: 'string' }
+          },
+          required: ['callsign']
+        },
+        description: 'Markers to place, each with lat/lon or a position'
+      },
+      type: {
+        type: 'string',
+        default: 'a-u-G',
+        description: 'Default CoT type, e.g. a-h-G for hostile ground or b-m-p-s-m for a spot map marker'
+      },
+      iconsetPath: {
+        type: 'string',
+        description: 'Default icon, e.g. COT_MAPPING_2525B/a-h/a-h-G or <iconset uid>/<group>/<icon>.png'
+      },
+      color: {
+        type: 'string',
+        description: 'Default colour as #RRGGBB or #AARRGGBB'
+      },
+      staleMinutes: {
+        type: 'number',
+        minimum: 1,
+        description: 'Minutes until the markers go stale (default: one year)'
+      }
+    },
+    required: ['markers']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const staleMs = params.staleMinutes ? params.staleMinutes * 60 * 1000 : MARKER_STALE_MS;
+      const placed: Array<{ uid: string; callsign: string; position: Position }> = [];
+      const failed: Array<{ index: number; callsign?: string; error: string }> = [];
+
+      // One bad marker should not stop the rest of the batch
+      for (const [index, marker] of params.markers.entries()) {
+        try {
+          const [lat, lon] = markerPosition(marker);
+          const message = buildMarkerMessage({
+            uid: marker.uid,
+            type: marker.type || params.type,
+            callsign: marker.callsign,
+            point: [lat, lon],
+            hae: marker.hae,
+            iconsetPath: marker.iconsetPath || params.iconsetPath,
+            color: marker.color || params.color,
+            remarks: marker.remarks,
+            staleMs
+          });
+          await takClient.sendCotEvent(message);
+          takClient.entities.upsert(parseCotXml(buildCotXml(message))!);
+
+          placed.push({
+            uid: message.event._attributes.uid,
+            callsign: marker.callsign,
+            position: toPosition(lat, lon, takClient.coordinateSystem, marker.hae)
+          });
+        } catch (error) {
+          failed.push({ index, callsign: marker.callsign, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      if (placed.length === 0) {
+        throw new Error(`No markers placed: ${failed[0]?.error}`);
+      }
+
+      logger.info(`Placed ${placed.length} markers (${failed.length} failed)`);
+
+      return {
+        success: true,
+        data: {
+          placed,
+          failed,
+          count: placed.length
+        },
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to place markers:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_MARKER_ERROR',
+          message: 'Failed to place markers',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
@@ -0,0 +1,84 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const pollSubscriptionTool: TAKTool = {
+  name: 'tak_poll_subscription',
+  description: 'Retrieve CoT events received by a subscription since a cursor',
+  category: 'cot',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      subscriptionId: {
+        type: 'string',
+        description: 'ID returned by tak_subscribe_events'
+      },
+      cursor: {
+        type: 'number',
+        minimum: 0,
+        description: 'Cursor returned by the previous poll; omit to read everything still buffered'
+      },
+      limit: {
+        type: 'number',
+        minimum: 1,
+        maximum: 1000,
+        default: 100,
+        description: 'Maximum number of events to return'
+      }
+    },
+    required: ['subscriptionId']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const result = takClient.subscriptions.poll(params.subscriptionId, params.cursor, params.limit || 100);
+
+      logger.debug(`Polled ${result.events.length} events from ${params.subscriptionId}`);
+
+      return {
+        success: true,
+        data: {
+          subscriptionId: params.subscriptionId,
+          count: result.events.length,
+          cursor: result.cursor,
+          hasMore: result.hasMore,
+          dropped: result.dropped,
+          events: result.events.map(({ seq, receivedAt, event }) => ({
+            seq,
+            receivedAt,
+            uid: event.uid,
+            type: event.type,
+            callsign: event.detail?.contact?.callsign,
+            time: event.time,
+            stale: event.stale,
+            location: {
+              lat: event.point.lat,
+              lon: event.point.lon,
+              alt: event.point.hae
+            },
+            how: event.how,
+            detail: event.detail
+          }))
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'tak-server'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to poll subscription:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_SUBSCRIPTION_ERROR',
+          message: 'Failed to poll subscription',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
@@ -1,6 +1,8 @@
 import { TAKTool, ToolContext } from '../registry';
 import { v4 as uuidv4 } from 'uuid';
 import { CotMessage } from '../../types/cot';
+import { describeCotType, resolveCotType } from '../../services/symbology';
+import { locationSchema, parseCoordinate, toPosition } from '../../services/coordinates';
 
 export const sendCotEventTool: TAKTool = {
   name: 'tak_send_cot_event',
@@ -17,23 +19,19 @@ export const sendCotEventTool: TAKTool = {
       },
       type: {
         type: 'string',
-        description: 'CoT type (e.g., "a-f-G-U-C" for friendly ground unit)',
+        description: 'CoT type (e.g., "a-f-G-U-C" for friendly ground unit) or a MIL-STD-2525B/C SIDC (e.g., "SFGPUCI---*****")',
         default: 'a-f-G-U-C'
       },
+      sidc: {
+        type: 'string',
+        description: 'MIL-STD-2525B/C symbol code to derive the CoT type from (overrides type)'
+      },
       callsign: {
         type: 'string',
         description: 'Callsign for the entity',
         default: 'MCP-EVENT'
       },
-      location: {
-        type: 'object',
-        properties: {
-          lat: { type: 'number', minimum: -90, maximum: 90 },
-          lon: { type: 'number', minimum: -180, maximum: 180 },
-          alt: { type: 'number', description: 'Altitude in meters HAE' }
-        },
-        required: ['lat', 'lon']
-      },
+      location: locationSchema('Event position'),
       how: {
         type: 'string',
         description: 'How the position was determined',
@@ -62,6 +60,12 @@ export const sendCotEventTool: TAKTool = {
     try {
       const now = new Date();
       const staleTime = new Date(now.getTime() + (params.staleMinutes || 5) * 60000);
+      const [lat, lon] = parseCoordinate(params.location);
+      const alt = typeof params.location === 'object' ? params.location.alt : undefined;
+      const type = resolveCotType(params.sidc || params.type || 'a-f-G-U-C');
+      if (/(^|-)[.*](-|$)/.test(type)) {
+        throw new Error(`CoT type must not contain wildcards: ${type}`);
+      }
       
       // Build CoT message
       const cotMessage: CotMessage = {
@@ -69,7 +73,7 @@ export const sendCotEventTool: TAKTool = {
           _attributes: {
             version: '2.0',
             uid: params.uid || uuidv4(),
-            type: params.type || 'a-f-G-U-C',
+            type,
             time: now.toISOString(),
             start: now.toISOString(),
             stale: staleTime.toISOString(),
@@ -77,9 +81,9 @@ export const sendCotEventTool: TAKTool = {
           },
           point: {
             _attributes: {
-              lat: params.location.lat.toString(),
-              lon: params.location.lon.toString(),
-              hae: (params.location.alt || 0).toString(),
+              lat: lat.toString(),
+              lon: lon.toString(),
+              hae: (alt || 0).toString(),
               ce: '999999',
               le: '999999'
             }
@@ -105,9 +109,10 @@ export const sendCotEventTool: TAKTool = {
         message: 'CoT event sent successfully',
         event: {
           uid: cotMessage.event._attributes.uid,
-          type: cotMessage.event._attributes.type,
+          type,
+          description: describeCotType(type).description,
           callsign: params.callsign || 'MCP-EVENT',
-          location: params.location,
+          location: toPosition(lat, lon, takClient.coordinateSystem, alt),
           time: now.toISOString(),
           stale: staleTime.toISOString()
         }
@@ -1,8 +1,10 @@
 import { TAKTool, ToolContext } from '../registry';
+import { SubscriptionFilter } from '../../services/subscription-manager';
+import { coordinateSchema, parseCoordinate } from '../../services/coordinates';
 
 export const subscribeEventsTool: TAKTool = {
   name: 'tak_subscribe_events',
-  description: 'Subscribe to real-time CoT event streams with filtering',
+  description: 'Subscribe to real-time CoT event streams with filtering. Returns a subscription ID to poll with tak_poll_subscription',
   category: 'cot',
   requiresAuth: true,
   requiresWrite: false,
@@ -17,13 +19,7 @@ export const subscribeEventsTool: TAKTool = {
       area: {
         type: 'object',
         properties: {
-          center: {
-            type: 'array',
-            items: { type: 'number' },
-            minItems: 2,
-            maxItems: 2,
-            description: 'Center point [lat, lon] for area filter'
-          },
+          center: coordinateSchema('Center point for area filter'),
           radius: {
             type: 'number',
             minimum: 0,
@@ -32,6 +28,11 @@ export const subscribeEventsTool: TAKTool = {
         },
         description: 'Geographic area filter'
       },
+      uids: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Filter by specific UIDs'
+      },
       callsigns: {
         type: 'array',
         items: { type: 'string' },
@@ -43,6 +44,12 @@ export const subscribeEventsTool: TAKTool = {
         maximum: 3600,
         default: 300,
         description: 'Subscription duration in seconds (max 1 hour)'
+      },
+      bufferSize: {
+        type: 'number',
+        minimum: 10,
+        maximum: 10000,
+        description: 'Number of events kept for polling; older events are overwritten'
       }
     }
   },
@@ -54,63 +61,43 @@ export const subscribeEventsTool: TAKTool = {
       logger.info('Setting up CoT event subscription');
       
       // Create subscription filter
-      const filter: any = {};
+      const filter: SubscriptionFilter = {};
       
       if (params.types && params.types.length > 0) {
         filter.types = params.types;
       }
       
+      if (params.uids && params.uids.length > 0) {
+        filter.uids = params.uids;
+      }
+      
       if (params.callsigns && params.callsigns.length > 0) {
         filter.callsigns = params.callsigns;
       }
       
       if (params.area) {
-        filter.area = params.area;
+        filter.area = { ...params.area, center: parseCoordinate(params.area.center) };
       }
       
-      // Track received events
-      const events: any[] = [];
-      let eventCount = 0;
-      
-      // Set up subscription with callback
-      await takClient.subscribeToCotEvents(
-        filter,
-        (event) => {
-          eventCount++;
-          logger.debug(`Received CoT event: ${event.type} from ${event.detail?.contact?.callsign || 'Unknown'}`);
-          
-          // Add event to buffer (limit to last 100 events)
-          events.push({
-            ...event,
-            receivedAt: new Date().toISOString()
-          });
-          
-          if (events.length > 100) {
-            events.shift();
-          }
-        }
-      );
-      
-      // Set up automatic unsubscribe after duration
       const duration = params.duration || 300;
-      setTimeout(async () => {
-        try {
-          await takClient.unsubscribe();
-          logger.info(`Subscription ended after ${duration} seconds`);
-        } catch (error) {
-          logger.error('Error unsubscribing:', error);
-        }
-      }, duration * 1000);
+      const subscription = await takClient.createSubscription(filter, {
+        duration,
+        bufferSize: params.bufferSize
+      });
+      
+      logger.info(`Created subscription ${subscription.id} for ${duration} seconds`);
       
       return {
         success: true,
         data: {
-          subscriptionId: 'active',
+          subscriptionId: subscription.id,
           status: 'subscribed',
           filter: filter,
           duration: duration,
-          message: `Subscribed to CoT events for ${duration} seconds. Events will be delivered in real-time.`,
-          initialEvents: events.slice(0, 10) // Return first 10 events if any
+          expiresAt: subscription.expiresAt,
+          bufferSize: subscription.bufferSize,
+          cursor: subscription.cursor,
+          message: `Subscribed to CoT events for ${duration} seconds. Use tak_poll_subscription with this subscriptionId to retrieve events.`
         },
         metadata: {
           timestamp: new Date().toISOString(),
@@ -0,0 +1,112 @@
+import { TAKTool, ToolContext } from '../registry';
+import { buildCotXml, parseCotXml } from '../../clients/cot-xml';
+import { parseDrawingEvent } from '../../services/drawings';
+import { updateMarkerMessage } from '../../services/markers';
+import { parseRouteEvent } from '../../services/routes';
+import { locationSchema, parseCoordinate, toPosition } from '../../services/coordinates';
+
+export const updateMarkerTool: TAKTool = {
+  name: 'tak_update_marker',
+  description: 'Move, rename or restyle an existing marker; detail fields that are not changed are preserved',
+  category: 'cot',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      uid: {
+        type: 'string',
+        description: 'UID of the marker to update'
+      },
+      location: locationSchema('New position'),
+      callsign: {
+        type: 'string'
+      },
+      type: {
+        type: 'string',
+        description: 'New CoT type, e.g. to change affiliation'
+      },
+      iconsetPath: {
+        type: 'string'
+      },
+      color: {
+        type: 'string',
+        description: 'Colour as #RRGGBB or #AARRGGBB'
+      },
+      remarks: {
+        type: 'string'
+      },
+      staleMinutes: {
+        type: 'number',
+        minimum: 1,
+        description: 'Minutes until the marker goes stale (keeps its current stale window when omitted)'
+      }
+    },
+    required: ['uid']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const event = takClient.entities.getEvent(params.uid) ||
+        (await takClient.getCotEvents({ uids: [params.uid] }))[0];
+      if (!event) {
+        throw new Error(`Marker not found: ${params.uid}`);
+      }
+      if (parseDrawingEvent(event) || parseRouteEvent(event)) {
+        throw new Error(`${params.uid} is a drawing or route, not a marker`);
+      }
+
+      const message = updateMarkerMessage(event, {
+        point: params.location ? parseCoordinate(params.location) : undefined,
+        hae: typeof params.location === 'object' ? params.location.alt : undefined,
+        callsign: params.callsign,
+        type: params.type,
+        iconsetPath: params.iconsetPath,
+        color: params.color,
+        remarks: params.remarks,
+        staleMs: params.staleMinutes ? params.staleMinutes * 60 * 1000 : undefined
+      });
+
+      await takClient.sendCotEvent(message);
+      const updated = takClient.entities.upsert(parseCotXml(buildCotXml(message))!);
+      logger.info(`Updated marker ${params.uid}`);
+
+      return {
+        success: true,
+        data: {
+          uid: params.uid,
+          type: message.event._attributes.type,
+          callsign: updated?.callsign ?? params.callsign,
+          location: toPosition(
+            Number(message.event.point._attributes.lat),
+            Number(message.event.point._attributes.lon),
+            takClient.coordinateSystem
+          ),
+          stale: message.event._attributes.stale,
+          previous: {
+            type: event.type,
+            callsign: event.detail?.contact?.callsign,
+            location: toPosition(event.point.lat, event.point.lon, takClient.coordinateSystem)
+          }
+        },
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to update marker:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_MARKER_ERROR',
+          message: 'Failed to update marker',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
@@ -0,0 +1,106 @@
+import { TAKTool, ToolContext } from '../registry';
+import { readDataPackage } from '../../services/data-package';
+
+export const inspectDataPackageTool: TAKTool = {
+  name: 'tak_inspect_data_package',
+  description: 'Open a data package from the server or as base64, list its manifest, CoT events and attachments, and optionally import its markers into the local picture',
+  category: 'data-packages',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Package ID or hash to download from the server'
+      },
+      contentBase64: {
+        type: 'string',
+        description: 'The package zip itself, base64 encoded'
+      },
+      importMarkers: {
+        type: 'boolean',
+        default: true,
+        description: 'Add the package\'s CoT items to the local entity picture'
+      },
+      includeDetail: {
+        type: 'boolean',
+        default: false,
+        description: 'Include the full <detail> of each CoT event'
+      }
+    }
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      if (!params.id === !params.contentBase64) {
+        throw new Error('Provide either id or contentBase64');
+      }
+
+      const data = params.id
+        ? await takClient.downloadDataPackage(params.id)
+        : Buffer.from(params.contentBase64, 'base64');
+      const contents = await readDataPackage(data);
+
+      // Older items than the picture already holds are skipped by the store
+      const imported: string[] = [];
+      if (params.importMarkers !== false) {
+        for (const event of contents.events) {
+          if (takClient.entities.upsert(event)) imported.push(event.uid);
+        }
+      }
+
+      logger.info(`Inspected data package ${contents.name || params.id || contents.hash}: ${contents.events.length} events, ${contents.files.length} files`);
+
+      return {
+        success: true,
+        data: {
+          uid: contents.uid,
+          name: contents.name,
+          onReceiveDelete: contents.onReceiveDelete,
+          hasManifest: contents.hasManifest,
+          hash: contents.hash,
+          size: contents.size,
+          events: contents.events.map(event => ({
+            uid: event.uid,
+            type: event.type,
+            callsign: event.detail?.contact?.callsign,
+            remarks: event.detail?.remarks,
+            time: event.time,
+            stale: event.stale,
+            location: {
+              lat: event.point.lat,
+              lon: event.point.lon,
+              alt: event.point.hae
+            },
+            detail: params.includeDetail ? event.detail : undefined
+          })),
+          attachments: contents.files.filter(file => file.kind !== 'cot'),
+          imported: {
+            count: imported.length,
+            uids: imported
+          },
+          errors: contents.errors
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: params.id ? 'tak-server' : 'input'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to inspect data package:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_DATA_PACKAGE_ERROR',
+          message: 'Failed to inspect data package',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
@@ -0,0 +1,254 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v5 as uuidv5 } from 'uuid';
+import { TAKTool, ToolContext } from '../registry';
+import { buildCotXml } from '../../clients/cot-xml';
+import { buildDataPackage } from '../../services/data-package';
+import { buildMarkerMessage, markerPosition } from '../../services/markers';
+import { coordinateSchema } from '../../services/coordinates';
+
+const DOWNLOAD_DIR = path.join(process.cwd(), 'tak-data', 'data-packages');
+
+// Namespace for marker UIDs derived from the package name and marker position in the list
+const MARKER_UID_NAMESPACE = '6b1f3c9e-8a24-4d57-b0e3-9c5a7f21d84e';
+
+// Markers carry a fixed time and a far stale so rebuilding the same package gives the same
+// bytes, and the hash lookup finds the earlier upload
+const MARKER_TIME = new Date('2020-01-01T00:00:00Z');
+const MARKER_STALE_MS = 100 * 365 * 24 * 60 * 60 * 1000;
+
+export const manageDataPackagesTool: TAKTool = {
+  name: 'tak_manage_data_packages',
+  description: 'Build and upload ATAK data packages (markers, CoT, attachments, KML, imagery), or list, download and delete packages on the server',
+  category: 'data-packages',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['list', 'build', 'download', 'delete'],
+        default: 'list',
+        description: 'Operation to perform'
+      },
+      id: {
+        type: 'string',
+        description: 'Package ID or hash to download or delete'
+      },
+      name: {
+        type: 'string',
+        description: 'Package name shown in ATAK (build)'
+      },
+      uid: {
+        type: 'string',
+        description: 'Package UID (build; derived from the contents when omitted)'
+      },
+      onReceiveDelete: {
+        type: 'boolean',
+        default: false,
+        description: 'Remove the package from devices once imported (build)'
+      },
+      markers: {
+        type: 'array',
+        description: 'Markers to include as CoT (build)',
+        items: {
+          type: 'object',
+          properties: {
+            uid: { type: 'string', description: 'Derived from the package name and marker index when omitted' },
+            type: { type: 'string', default: 'a-u-G' },
+            callsign: { type: 'string' },
+            lat: { type: 'number', minimum: -90, maximum: 90 },
+            lon: { type: 'number', minimum: -180, maximum: 180 },
+            position: coordinateSchema('Position instead of lat/lon'),
+            hae: { type: 'number' },
+            iconsetPath: { type: 'string' },
+            color: { type: 'string', description: '#RRGGBB or #AARRGGBB' },
+            remarks: { type: 'string' }
+          },
+          required: ['callsign']
+        }
+      },
+      cotXml: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Complete CoT <event> documents to include (build)'
+      },
+      attachments: {
+        type: 'array',
+        description: 'Files attached to a marker or CoT event in the package (build)',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            contentBase64: { type: 'string' },
+            attachTo: { type: 'string', description: 'UID of the map item' }
+          },
+          required: ['name', 'contentBase64', 'attachTo']
+        }
+      },
+      files: {
+        type: 'array',
+        description: 'KML/KMZ overlays, imagery and other files (build). Give text content or base64',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            content: { type: 'string' },
+            contentBase64: { type: 'string' }
+          },
+          required: ['name']
+        }
+      },
+      keywords: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Keywords stored with the uploaded package (build)'
+      },
+      creatorUid: {
+        type: 'string',
+        default: 'tak-server-mcp',
+        description: 'UID recorded as the package creator (build)'
+      },
+      force: {
+        type: 'boolean',
+        default: false,
+        description: 'Upload even if a package with the same hash exists (build)'
+      }
+    }
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+    const action = params.action || 'list';
+
+    try {
+      let data: any;
+
+      switch (action) {
+        case 'list': {
+          const packages = await takClient.getDataPackages();
+          data = { count: packages.length, packages };
+          break;
+        }
+
+        case 'build': {
+          const cot: string[] = [...(params.cotXml || [])];
+          (params.markers || []).forEach((marker: any, index: number) => {
+            cot.push(buildMarkerXml(marker, uuidv5(`${params.name}/${index}`, MARKER_UID_NAMESPACE)));
+          });
+
+          const built = await buildDataPackage({
+            name: params.name,
+            uid: params.uid,
+            onReceiveDelete: params.onReceiveDelete,
+            cot,
+            attachments: (params.attachments || []).map((attachment: any) => ({
+              name: attachment.name,
+              data: Buffer.from(attachment.contentBase64, 'base64'),
+              uid: attachment.attachTo
+            })),
+            files: (params.files || []).map((file: any) => {
+              if (file.content === undefined && file.contentBase64 === undefined) {
+                throw new Error(`File ${file.name} needs content or contentBase64`);
+              }
+              return {
+                name: file.name,
+                data: file.contentBase64 !== undefined
+                  ? Buffer.from(file.contentBase64, 'base64')
+                  : Buffer.from(file.content, 'utf8')
+              };
+            })
+          });
+
+          const existing = params.force ? undefined : await takClient.findDataPackage(built.hash).catch((error) => {
+            logger.debug('Could not check for an existing package:', error instanceof Error ? error.message : error);
+            return undefined;
+          });
+
+          const uploaded = existing || await takClient.uploadDataPackage(built.data, {
+            name: built.fileName,
+            hash: built.hash,
+            size: built.data.length,
+            creator: params.creatorUid || 'tak-server-mcp',
+            keywords: params.keywords,
+            mimeType: 'application/zip',
+            tool: 'public'
+          });
+
+          logger.info(`${existing ? 'Reused' : 'Uploaded'} data package ${built.name} (${built.hash})`);
+
+          data = {
+            uid: built.uid,
+            name: built.name,
+            hash: built.hash,
+            size: built.data.length,
+            deduplicated: !!existing,
+            entries: built.entries,
+            package: uploaded
+          };
+          break;
+        }
+
+        case 'download': {
+          if (!params.id) throw new Error('id is required to download a package');
+          const content = await takClient.downloadDataPackage(params.id);
+
+          const file = path.join(DOWNLOAD_DIR, `${params.id.replace(/[^\w.-]+/g, '_')}.zip`);
+          await fs.mkdir(DOWNLOAD_DIR, { recursive: true });
+          await fs.writeFile(file, content);
+
+          logger.info(`Downloaded data package ${params.id} to ${file}`);
+          data = { id: params.id, file, size: content.length };
+          break;
+        }
+
+        case 'delete': {
+          if (!params.id) throw new Error('id is required to delete a package');
+          await takClient.deleteDataPackage(params.id);
+          logger.info(`Deleted data package ${params.id}`);
+          data = { id: params.id, status: 'deleted' };
+          break;
+        }
+
+        default:
+          throw new Error(`Unknown action: ${action}`);
+      }
+
+      return {
+        success: true,
+        data,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'tak-server'
+        }
+      };
+
+    } catch (error) {
+      logger.error(`Failed to ${action} data packages:`, error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_DATA_PACKAGE_ERROR',
+          message: `Failed to ${action} data packages`,
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
+
+function buildMarkerXml(marker: any, defaultUid: string): string {
+  return buildCotXml(buildMarkerMessage({
+    uid: marker.uid || defaultUid,
+    type: marker.type,
+    callsign: marker.callsign,
+    point: markerPosition(marker),
+    hae: marker.hae,
+    iconsetPath: marker.iconsetPath,
+    color: marker.color,
+    remarks: marker.remarks,
+    staleMs: MARKER_STALE_MS
+  }, MARKER_TIME));
+}
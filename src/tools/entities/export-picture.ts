@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TAKTool, ToolContext } from '../registry';
+import { EXPORT_FORMATS, EXPORT_LAYERS, collectPicture, exportPicture } from '../../services/picture-export';
+
+const EXPORT_DIR = path.join(process.cwd(), 'tak-data', 'exports');
+
+export const exportPictureTool: TAKTool = {
+  name: 'tak_export_picture',
+  description: 'Export entities, drawings and routes, geofences and track histories as GeoJSON, KML (styled by affiliation) or CSV for GIS tools. The same export is served at GET /export/{format} on the HTTP and SSE transports',
+  category: 'entities',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      format: {
+        type: 'string',
+        enum: EXPORT_FORMATS,
+        default: 'geojson',
+        description: 'Output format'
+      },
+      layers: {
+        type: 'array',
+        items: { type: 'string', enum: EXPORT_LAYERS },
+        description: 'Layers to include (default: all)'
+      },
+      types: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'CoT type filters: prefixes, wildcards (a-h-*, a-.-A) or SIDCs'
+      },
+      teams: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Filter by team colors'
+      },
+      roles: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Filter by roles'
+      },
+      bbox: {
+        type: 'array',
+        items: { type: 'number' },
+        minItems: 4,
+        maxItems: 4,
+        description: 'Bounding box [minLon, minLat, maxLon, maxLat]'
+      },
+      includeStale: {
+        type: 'boolean',
+        default: false,
+        description: 'Include items past their stale time'
+      },
+      trackMinutes: {
+        type: 'number',
+        default: 60,
+        minimum: 1,
+        description: 'Track history to include, in minutes back from now'
+      },
+      output: {
+        type: 'string',
+        enum: ['file', 'inline'],
+        default: 'file',
+        description: 'Write the export under tak-data/exports, or return its content'
+      }
+    }
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+    const format = params.format || 'geojson';
+
+    try {
+      const features = await collectPicture(takClient, {
+        layers: params.layers,
+        types: params.types,
+        teams: params.teams,
+        roles: params.roles,
+        bbox: params.bbox,
+        includeStale: params.includeStale,
+        trackStart: new Date(Date.now() - (params.trackMinutes || 60) * 60 * 1000)
+      });
+      const exported = exportPicture(features, format);
+
+      let file: string | undefined;
+      if (params.output !== 'inline') {
+        file = path.join(EXPORT_DIR, `tak-picture-${new Date().toISOString().replace(/[:.]/g, '-')}.${exported.extension}`);
+        await fs.mkdir(EXPORT_DIR, { recursive: true });
+        await fs.writeFile(file, exported.content, 'utf8');
+      }
+
+      logger.info(`Exported ${features.length} features as ${format}${file ? ` to ${file}` : ''}`);
+
+      return {
+        success: true,
+        data: {
+          format,
+          mimeType: exported.mimeType,
+          counts: exported.counts,
+          total: features.length,
+          file,
+          size: Buffer.byteLength(exported.content, 'utf8'),
+          content: file ? undefined : exported.content
+        },
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to export picture:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_EXPORT_ERROR',
+          message: 'Failed to export picture',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
@@ -1,4 +1,6 @@
 import { TAKTool, ToolContext } from '../registry';
+import { describeCotType } from '../../services/symbology';
+import { toPosition } from '../../services/coordinates';
 
 export const getEntitiesTool: TAKTool = {
   name: 'tak_get_entities',
@@ -12,7 +14,7 @@ export const getEntitiesTool: TAKTool = {
       types: {
         type: 'array',
         items: { type: 'string' },
-        description: 'Filter by entity types (e.g., ["a-f-*", "a-h-*"])'
+        description: 'Filter by entity types or SIDCs; "*" or "." matches any segment (e.g., ["a-f-*", "a-.-A"])'
       },
       teams: {
         type: 'array',
@@ -95,9 +97,11 @@ export const getEntitiesTool: TAKTool = {
           uid: entity.uid,
           callsign: entity.callsign,
           type: entity.type,
+          description: describeCotType(entity.type).description,
           team: entity.team,
           role: entity.role,
           location: entity.location,
+          position: toPosition(entity.location.lat, entity.location.lon, takClient.coordinateSystem, entity.location.alt),
           status: entity.status,
           lastUpdate: entity.lastUpdate
         })),
@@ -105,7 +109,7 @@ export const getEntitiesTool: TAKTool = {
           byType: Object.entries(byType).map(([type, items]) => ({
             type,
             count: items.length,
-            description: getTypeDescription(type)
+            description: describeCotType(type).description
           })),
           byTeam: Object.entries(byTeam).map(([team, items]) => ({
             team,
@@ -123,25 +127,3 @@ export const getEntitiesTool: TAKTool = {
     }
   }
 };
-
-function getTypeDescription(type: string): string {
-  const descriptions: Record<string, string> = {
-    'a-f-G': 'Friendly Ground',
-    'a-f-A': 'Friendly Air',
-    'a-f-S': 'Friendly Sea',
-    'a-h-G': 'Hostile Ground',
-    'a-h-A': 'Hostile Air',
-    'a-h-S': 'Hostile Sea',
-    'a-n-G': 'Neutral Ground',
-    'a-n-A': 'Neutral Air',
-    'a-n-S': 'Neutral Sea',
-    'a-u-G': 'Unknown Ground',
-    'a-u-A': 'Unknown Air',
-    'a-u-S': 'Unknown Sea',
-    'b-a-o': 'Emergency/Alert',
-    'b-m-p': 'Sensor Point',
-    'u-d-f': 'Shape/Drawing'
-  };
-  
-  return descriptions[type] || type;
-}
\ No newline at end of file
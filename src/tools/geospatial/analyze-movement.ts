@@ -1,9 +1,20 @@
 import { TAKTool, ToolContext } from '../registry';
 import * as turf from '@turf/turf';
+import { TAKServerClient } from '../../clients/tak-server';
+import { toPosition } from '../../services/coordinates';
+import {
+  Prediction,
+  deadReckon,
+  eventPositionError,
+  eventVelocity,
+  fitTrack,
+  predictedMarkerInput
+} from '../../services/prediction';
+import { CotEvent } from '../../types/cot';
 
 export const analyzeMovementTool: TAKTool = {
   name: 'tak_analyze_movement',
-  description: 'Track and analyze entity movements, patterns, and anomalies',
+  description: 'Track and analyze entity movements, patterns, and anomalies. The prediction analysis projects future positions with uncertainty ellipses by dead reckoning or a fit over recent history, returned as markers for tak_publish_predictions',
   category: 'geospatial',
   requiresAuth: true,
   requiresWrite: false,
@@ -43,6 +54,31 @@ export const analyzeMovementTool: TAKTool = {
         maximum: 1,
         default: 0.8,
         description: 'Threshold for anomaly detection (0-1)'
+      },
+      predictionMinutes: {
+        type: 'array',
+        items: { type: 'number', exclusiveMinimum: 0 },
+        default: [5, 10, 15],
+        description: 'Prediction: minutes after the end of the analysis period to predict positions for'
+      },
+      predictionModel: {
+        type: 'string',
+        enum: ['auto', 'dead-reckoning', 'linear', 'quadratic'],
+        default: 'auto',
+        description: 'Prediction: dead reckoning from the reported speed/course, or a least-squares fit over recent history (constant velocity or constant acceleration). auto fits when there is enough history, else dead reckons'
+      },
+      fitMinutes: {
+        type: 'number',
+        minimum: 1,
+        default: 10,
+        description: 'Prediction: history before the latest fix to fit over'
+      },
+      confidence: {
+        type: 'number',
+        minimum: 0.5,
+        maximum: 0.99,
+        default: 0.95,
+        description: 'Prediction: confidence level of the uncertainty ellipses'
       }
     },
     required: ['entityId']
@@ -64,13 +100,20 @@ export const analyzeMovementTool: TAKTool = {
         end: new Date(endTime)
       });
       
+      const analysisTypes = params.analysisType || ['speed', 'pattern'];
+
       if (events.length < 2) {
+        // Dead reckoning still works from a single report with speed and course
+        const latest = takClient.entities.getEvent(params.entityId) || events[0];
+        const canPredict = analysisTypes.includes('prediction') && latest;
+
         return {
           success: true,
           data: {
             entityId: params.entityId,
             message: 'Insufficient movement data for analysis',
-            dataPoints: events.length
+            dataPoints: events.length,
+            predictionAnalysis: canPredict ? predictMovement(takClient, params, latest, [], new Date(endTime)) : undefined
           },
           metadata: {
             timestamp: new Date().toISOString(),
@@ -101,8 +144,6 @@ export const analyzeMovementTool: TAKTool = {
         dataPoints: positions.length
       };
       
-      const analysisTypes = params.analysisType || ['speed', 'pattern'];
-      
       // Speed analysis
       if (analysisTypes.includes('speed')) {
         const speeds: number[] = [];
@@ -247,6 +288,19 @@ export const analyzeMovementTool: TAKTool = {
         };
       }
       
+      // Prediction
+      if (analysisTypes.includes('prediction')) {
+        const latest = takClient.entities.getEvent(params.entityId);
+        const last = events[events.length - 1];
+        analysis.predictionAnalysis = predictMovement(
+          takClient,
+          params,
+          latest && latest.time >= last.time ? latest : last,
+          positions,
+          new Date(endTime)
+        );
+      }
+      
       logger.info(`Movement analysis completed for entity ${params.entityId}`);
       
       return {
@@ -271,4 +325,63 @@ export const analyzeMovementTool: TAKTool = {
       };
     }
   }
-};
\ No newline at end of file
+};
+
+// Predicted positions from the latest report and recent history
+function predictMovement(
+  takClient: TAKServerClient,
+  params: any,
+  latest: CotEvent,
+  history: Array<{ time: Date; lat: number; lon: number }>,
+  base: Date
+): any {
+  const model = params.predictionModel || 'auto';
+  const minutes: number[] = params.predictionMinutes || [5, 10, 15];
+  const options = { positionError: eventPositionError(latest), confidence: params.confidence ?? 0.95 };
+  const velocity = eventVelocity(latest);
+
+  const fitFrom = latest.time.getTime() - (params.fitMinutes || 10) * 60 * 1000;
+  const recent = history.filter(point => point.time.getTime() >= fitFrom);
+
+  // Horizons count from the end of the analysis period, not from the last fix
+  const ahead = (from: Date) => minutes.map(value => (base.getTime() - from.getTime()) / 1000 + value * 60);
+
+  let prediction: Prediction;
+  if (model === 'linear' || model === 'quadratic' || (model === 'auto' && recent.length >= 3)) {
+    prediction = fitTrack(recent, ahead((recent[recent.length - 1] ?? latest).time), model === 'quadratic' ? 'quadratic' : 'linear', options);
+  } else {
+    if (!velocity) {
+      throw new Error(`${latest.uid} reports no speed and course to dead reckon from, and has too little recent history to fit`);
+    }
+    prediction = deadReckon({ time: latest.time, lat: latest.point.lat, lon: latest.point.lon, ...velocity }, ahead(latest.time), options);
+  }
+
+  const callsign = latest.detail?.contact?.callsign !== undefined ? String(latest.detail.contact.callsign) : latest.uid;
+
+  return {
+    method: prediction.method,
+    from: {
+      ...prediction.from,
+      position: toPosition(prediction.from.lat, prediction.from.lon, takClient.coordinateSystem)
+    },
+    velocity: prediction.velocity,
+    fit: prediction.fit,
+    positions: prediction.positions.map((position, index) => ({
+      minutesAhead: minutes[index],
+      ...position,
+      position: toPosition(position.lat, position.lon, takClient.coordinateSystem)
+    })),
+    // Ready for tak_publish_predictions
+    markers: prediction.positions.map((position, index) => predictedMarkerInput({
+      uid: `${latest.uid}.predicted.${minutes[index]}m`,
+      callsign: `${callsign} +${minutes[index]}m`,
+      type: latest.type,
+      position,
+      parent: { uid: latest.uid, type: latest.type }
+    })),
+    units: {
+      speed: 'm/s',
+      ellipse: 'meters'
+    }
+  };
+}
@@ -1,5 +1,6 @@
 import { TAKTool, ToolContext } from '../registry';
 import * as turf from '@turf/turf';
+import { coordinateSchema, parseCoordinate, toPosition } from '../../services/coordinates';
 
 export const calculateDistanceTool: TAKTool = {
   name: 'tak_calculate_distance',
@@ -17,13 +18,7 @@ export const calculateDistanceTool: TAKTool = {
             type: 'string',
             description: 'Entity ID to calculate distance from'
           },
-          coordinates: {
-            type: 'array',
-            items: { type: 'number' },
-            minItems: 2,
-            maxItems: 2,
-            description: 'Coordinates [lat, lon] to calculate distance from'
-          }
+          coordinates: coordinateSchema('Coordinates to calculate distance from')
         },
         description: 'Starting point (provide either entityId or coordinates)'
       },
@@ -34,13 +29,7 @@ export const calculateDistanceTool: TAKTool = {
             type: 'string',
             description: 'Entity ID to calculate distance to'
           },
-          coordinates: {
-            type: 'array',
-            items: { type: 'number' },
-            minItems: 2,
-            maxItems: 2,
-            description: 'Coordinates [lat, lon] to calculate distance to'
-          }
+          coordinates: coordinateSchema('Coordinates to calculate distance to')
         },
         description: 'Destination point (provide either entityId or coordinates)'
       },
@@ -62,12 +51,7 @@ export const calculateDistanceTool: TAKTool = {
           type: 'object',
           properties: {
             entityId: { type: 'string' },
-            coordinates: {
-              type: 'array',
-              items: { type: 'number' },
-              minItems: 2,
-              maxItems: 2
-            }
+            coordinates: coordinateSchema('Destination coordinates')
           }
         },
         description: 'Calculate distances from "from" point to multiple destinations'
@@ -88,23 +72,20 @@ export const calculateDistanceTool: TAKTool = {
     
     try {
       // Helper function to get coordinates
-      const getCoordinates = async (point: { entityId?: string; coordinates?: number[] }) => {
+      const getCoordinates = async (point: { entityId?: string; coordinates?: unknown }) => {
         if (point.coordinates) {
-          return point.coordinates;
+          return parseCoordinate(point.coordinates);
         }
         if (point.entityId) {
-          const entities = await takClient.getEntities();
-          const entity = entities.find(e => e.uid === point.entityId);
-          if (!entity) {
-            throw new Error(`Entity ${point.entityId} not found`);
-          }
-          return [entity.location.lat, entity.location.lon];
+          const entity = await takClient.getEntity(point.entityId);
+          return [entity.location.lat, entity.location.lon] as [number, number];
         }
         throw new Error('Either entityId or coordinates must be provided');
       };
       
       // Get from coordinates
       const fromCoords = await getCoordinates(params.from);
+      const system = takClient.coordinateSystem;
       const fromPoint = turf.point([fromCoords[1], fromCoords[0]]); // turf uses [lon, lat]
       
       // Handle single distance calculation
@@ -124,17 +105,20 @@ export const calculateDistanceTool: TAKTool = {
           data: {
             from: {
               entityId: params.from.entityId,
-              coordinates: fromCoords
+              coordinates: fromCoords,
+              position: toPosition(fromCoords[0], fromCoords[1], system)
             },
             to: {
               entityId: params.to.entityId,
-              coordinates: toCoords
+              coordinates: toCoords,
+              position: toPosition(toCoords[0], toCoords[1], system)
             },
             distance: distance,
             units: params.units || 'meters',
             bearing: bearing,
             backBearing: (bearing + 180) % 360,
             midpoint: [midpoint.geometry.coordinates[1], midpoint.geometry.coordinates[0]],
+            midpointPosition: toPosition(midpoint.geometry.coordinates[1], midpoint.geometry.coordinates[0], system),
             estimatedTravelTime: travelTime
           },
           metadata: {
@@ -157,7 +141,8 @@ export const calculateDistanceTool: TAKTool = {
             return {
               to: {
                 entityId: destination.entityId,
-                coordinates: toCoords
+                coordinates: toCoords,
+                position: toPosition(toCoords[0], toCoords[1], system)
               },
               distance: distance,
               bearing: bearing
@@ -179,7 +164,8 @@ export const calculateDistanceTool: TAKTool = {
           data: {
             from: {
               entityId: params.from.entityId,
-              coordinates: fromCoords
+              coordinates: fromCoords,
+              position: toPosition(fromCoords[0], fromCoords[1], system)
             },
             distances: results,
             nearest: validResults[0],
@@ -0,0 +1,225 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TAKTool, ToolContext } from '../registry';
+import { TAKServerClient } from '../../clients/tak-server';
+import { coordinateSchema, parseCoordinate, toPosition } from '../../services/coordinates';
+import {
+  MovingPoint,
+  closestApproach,
+  deadReckon,
+  eventPositionError,
+  eventVelocity,
+  fitTrack,
+  interceptCourse,
+  predictedMarkerInput
+} from '../../services/prediction';
+
+interface Mover extends MovingPoint {
+  key: string;
+  entityId?: string;
+  callsign?: string;
+  type?: string;
+  positionError?: number;
+  velocitySource: 'given' | 'reported' | 'fitted' | 'stationary';
+}
+
+const moverSchema = (description: string) => ({
+  type: 'object',
+  properties: {
+    entityId: {
+      type: 'string',
+      description: 'Entity to use; its latest position, and its reported speed/course or a fit over recent history'
+    },
+    coordinates: coordinateSchema('Position instead of an entity'),
+    speed: {
+      type: 'number',
+      minimum: 0,
+      description: 'Speed in m/s (overrides the entity\'s; default 0 for coordinates)'
+    },
+    course: {
+      type: 'number',
+      minimum: 0,
+      maximum: 360,
+      description: 'Course in degrees true (overrides the entity\'s)'
+    }
+  },
+  description
+});
+
+export const calculateInterceptTool: TAKTool = {
+  name: 'tak_calculate_intercept',
+  description: 'Closest point of approach (time, distance, positions) between two moving entities or points, and the course and time for the first to intercept the second. The CPA positions and intercept point are returned as markers for tak_publish_predictions',
+  category: 'geospatial',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      from: moverSchema('First mover, and the pursuer for the intercept (provide entityId or coordinates)'),
+      to: moverSchema('Second mover, and the target for the intercept (provide entityId or coordinates)'),
+      interceptSpeed: {
+        type: 'number',
+        exclusiveMinimum: 0,
+        description: 'Speed in m/s the pursuer can make good (default: its current speed)'
+      },
+      fitMinutes: {
+        type: 'number',
+        minimum: 1,
+        default: 10,
+        description: 'History used to estimate an entity\'s velocity when it reports no speed and course'
+      }
+    },
+    required: ['from', 'to']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const now = new Date();
+      const fitMinutes = params.fitMinutes || 10;
+      const from = await resolveMover(takClient, params.from, fitMinutes);
+      const to = await resolveMover(takClient, params.to, fitMinutes);
+      const system = takClient.coordinateSystem;
+
+      const cpa = closestApproach(from, to, now);
+      const pursuitSpeed = params.interceptSpeed ?? from.speed;
+      const intercept = pursuitSpeed > 0 ? interceptCourse(from, pursuitSpeed, to, now) : undefined;
+
+      // Ellipses come from dead reckoning each mover out to the predicted time
+      const marker = (uid: string, callsign: string, mover: Mover, seconds: number) => predictedMarkerInput({
+        uid,
+        callsign,
+        type: mover.type,
+        position: deadReckon(mover, [(now.getTime() - mover.time.getTime()) / 1000 + seconds], {
+          positionError: mover.positionError
+        }).positions[0],
+        parent: mover.entityId && mover.type ? { uid: mover.entityId, type: mover.type } : undefined
+      });
+      const names = [from.callsign || from.entityId || 'From', to.callsign || to.entityId || 'To'];
+      const markers = [
+        marker(`${from.key}.cpa.${to.key}`, `${names[0]} CPA`, from, cpa.time),
+        marker(`${to.key}.cpa.${from.key}`, `${names[1]} CPA`, to, cpa.time)
+      ];
+      if (intercept) {
+        markers.push(marker(`${to.key}.intercept.${from.key}`, `${names[1]} intercept`, to, intercept.time));
+      }
+
+      logger.info(`CPA ${cpa.distance.toFixed(0)} m in ${cpa.time.toFixed(0)} s${intercept ? `, intercept in ${intercept.time.toFixed(0)} s` : ''}`);
+
+      const describe = (mover: Mover) => ({
+        entityId: mover.entityId,
+        callsign: mover.callsign,
+        coordinates: [mover.lat, mover.lon],
+        position: toPosition(mover.lat, mover.lon, system),
+        time: mover.time,
+        speed: mover.speed,
+        course: mover.course,
+        velocitySource: mover.velocitySource
+      });
+
+      return {
+        success: true,
+        data: {
+          from: describe(from),
+          to: describe(to),
+          closestApproach: {
+            ...cpa,
+            closing: cpa.rangeRate < 0,
+            positions: cpa.positions.map(([lat, lon]) => ({
+              coordinates: [lat, lon],
+              position: toPosition(lat, lon, system)
+            }))
+          },
+          intercept: intercept
+            ? {
+                feasible: true,
+                ...intercept,
+                position: toPosition(intercept.point[0], intercept.point[1], system)
+              }
+            : {
+                feasible: false,
+                speed: pursuitSpeed,
+                reason: pursuitSpeed > 0 ? 'The target outruns the pursuer on its current course' : 'The pursuer has no speed; give interceptSpeed'
+              },
+          // Ready for tak_publish_predictions
+          markers,
+          units: {
+            time: 'seconds',
+            distance: 'meters',
+            speed: 'm/s'
+          }
+        },
+        metadata: {
+          timestamp: now.toISOString()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to calculate intercept:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_ANALYSIS_ERROR',
+          message: 'Failed to calculate intercept',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
+
+// Position and velocity for a mover given as an entity or as coordinates
+async function resolveMover(takClient: TAKServerClient, input: any, fitMinutes: number): Promise<Mover> {
+  const given = input?.speed !== undefined
+    ? { speed: input.speed, course: input.course ?? 0 }
+    : undefined;
+
+  if (input?.coordinates) {
+    const [lat, lon] = parseCoordinate(input.coordinates);
+    return {
+      key: uuidv4(),
+      time: new Date(),
+      lat,
+      lon,
+      ...(given || { speed: 0, course: 0 }),
+      velocitySource: given ? 'given' : 'stationary'
+    };
+  }
+
+  if (!input?.entityId) {
+    throw new Error('Either entityId or coordinates must be provided');
+  }
+
+  const uid = input.entityId;
+  const event = takClient.entities.getEvent(uid) || (await takClient.getCotEvents({ uids: [uid] })).pop();
+  if (!event) {
+    throw new Error(`Entity not found: ${uid}`);
+  }
+
+  const mover = {
+    key: uid,
+    entityId: uid,
+    callsign: event.detail?.contact?.callsign !== undefined ? String(event.detail.contact.callsign) : undefined,
+    type: event.type,
+    positionError: eventPositionError(event),
+    time: event.time,
+    lat: event.point.lat,
+    lon: event.point.lon
+  };
+  if (given) return { ...mover, ...given, velocitySource: 'given' };
+
+  const reported = eventVelocity(event);
+  if (reported) return { ...mover, ...reported, velocitySource: 'reported' };
+
+  const history = await takClient.getCotEvents({
+    uids: [uid],
+    start: new Date(event.time.getTime() - fitMinutes * 60 * 1000),
+    end: event.time
+  });
+  if (history.length < 3) {
+    throw new Error(`${uid} reports no speed and course and has too little recent history to estimate them; give speed and course`);
+  }
+  const fitted = fitTrack(history.map(point => ({ time: point.time, lat: point.point.lat, lon: point.point.lon })), [], 'linear');
+  return { ...mover, ...fitted.velocity, velocitySource: 'fitted' };
+}
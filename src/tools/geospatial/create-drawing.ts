@@ -0,0 +1,149 @@
+import { TAKTool, ToolContext } from '../registry';
+import { buildCotXml, parseCotXml } from '../../clients/cot-xml';
+import { DrawingKind, createDrawing, drawingToCotMessage, rangeBearingEnd } from '../../services/drawings';
+import { coordinateSchema, parseCoordinate, parseCoordinates } from '../../services/coordinates';
+
+export const DRAWING_KINDS: DrawingKind[] = ['line', 'polygon', 'rectangle', 'circle', 'range-bearing', 'range-rings'];
+
+// Geometry and style properties shared by the create and update tools
+export const drawingProperties = {
+  points: {
+    type: 'array',
+    items: coordinateSchema('Point'),
+    description: 'Line/polygon vertices, two opposite rectangle corners, or the start (and optionally end) of a range & bearing line'
+  },
+  center: coordinateSchema('Center of a circle or range rings'),
+  radius: {
+    type: 'number',
+    minimum: 0,
+    description: 'Circle radius, or the spacing between range rings, in meters'
+  },
+  rings: {
+    type: 'number',
+    minimum: 1,
+    maximum: 20,
+    description: 'Number of range rings'
+  },
+  range: {
+    type: 'number',
+    minimum: 0,
+    description: 'Range & bearing line length in meters'
+  },
+  bearing: {
+    type: 'number',
+    description: 'Range & bearing line direction in degrees true'
+  },
+  strokeColor: {
+    type: 'string',
+    description: 'Line colour as #RRGGBB or #AARRGGBB'
+  },
+  strokeWeight: {
+    type: 'number',
+    minimum: 1,
+    maximum: 10,
+    description: 'Line width'
+  },
+  fillColor: {
+    type: 'string',
+    description: 'Fill colour of closed shapes as #RRGGBB or #AARRGGBB (defaults to the stroke colour)'
+  },
+  fillOpacity: {
+    type: 'number',
+    minimum: 0,
+    maximum: 1,
+    description: 'Fill opacity when the fill colour has no alpha'
+  },
+  labels: {
+    type: 'boolean',
+    description: 'Show measurement labels on the map'
+  },
+  remarks: {
+    type: 'string'
+  }
+};
+
+export const createDrawingTool: TAKTool = {
+  name: 'tak_create_drawing',
+  description: 'Draw a line, polygon, rectangle, circle, range rings or range & bearing line on TAK client maps',
+  category: 'geospatial',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      kind: {
+        type: 'string',
+        enum: DRAWING_KINDS,
+        description: 'Type of drawing'
+      },
+      name: {
+        type: 'string',
+        description: 'Label shown on the map'
+      },
+      ...drawingProperties,
+      publish: {
+        type: 'boolean',
+        default: true,
+        description: 'Send the drawing to TAK clients'
+      }
+    },
+    required: ['kind', 'name']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const drawing = createDrawing({
+        name: params.name,
+        kind: params.kind,
+        points: params.points && parseCoordinates(params.points),
+        center: params.center && parseCoordinate(params.center),
+        radius: params.radius,
+        rings: params.rings,
+        range: params.range,
+        bearing: params.bearing,
+        strokeColor: params.strokeColor,
+        strokeWeight: params.strokeWeight,
+        fillColor: params.fillColor,
+        fillOpacity: params.fillOpacity,
+        labels: params.labels,
+        remarks: params.remarks
+      });
+      const message = drawingToCotMessage(drawing);
+
+      if (params.publish !== false) {
+        await takClient.sendCotEvent(message);
+        // Keep it in the local picture so it can be updated before the server echoes it
+        takClient.entities.upsert(parseCotXml(buildCotXml(message))!);
+        logger.info(`Published ${drawing.kind} drawing ${drawing.name} (${drawing.uid})`);
+      }
+
+      return {
+        success: true,
+        data: {
+          ...drawing,
+          type: message.event._attributes.type,
+          end: rangeBearingEnd(drawing),
+          published: params.publish !== false
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          units: { distance: 'meters', bearing: 'degrees true' }
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to create drawing:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_DRAWING_ERROR',
+          message: 'Failed to create drawing',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
@@ -0,0 +1,157 @@
+import { TAKTool, ToolContext } from '../registry';
+import { RouteWaypointInput, planRoute, routeToCotMessage } from '../../services/routes';
+import { coordinateSchema, parseCoordinate, toPosition } from '../../services/coordinates';
+
+export const createRouteTool: TAKTool = {
+  name: 'tak_create_route',
+  description: 'Plan a route through waypoints or entities, compute leg distances, bearings and ETAs, and publish it as a navigable ATAK route',
+  category: 'geospatial',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Route name'
+      },
+      waypoints: {
+        type: 'array',
+        minItems: 2,
+        items: {
+          type: 'object',
+          properties: {
+            entityId: {
+              type: 'string',
+              description: 'Use the current position of this entity'
+            },
+            coordinates: coordinateSchema('Waypoint position'),
+            name: {
+              type: 'string',
+              description: 'Waypoint name (defaults to SP, CP1..n and VDO)'
+            }
+          }
+        },
+        description: 'Ordered waypoints (provide either entityId or coordinates for each)'
+      },
+      method: {
+        type: 'string',
+        enum: ['Driving', 'Walking', 'Flying', 'Swimming', 'Watercraft'],
+        default: 'Driving',
+        description: 'Travel method, which also sets the planning speed'
+      },
+      speed: {
+        type: 'number',
+        minimum: 0.1,
+        description: 'Planning speed in m/s (overrides the method default)'
+      },
+      direction: {
+        type: 'string',
+        enum: ['Infil', 'Exfil'],
+        default: 'Infil'
+      },
+      order: {
+        type: 'string',
+        enum: ['Primary', 'Secondary'],
+        default: 'Primary'
+      },
+      departureTime: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Departure time for waypoint ETAs (defaults to now)'
+      },
+      remarks: {
+        type: 'string'
+      },
+      publish: {
+        type: 'boolean',
+        default: true,
+        description: 'Send the route to TAK clients'
+      }
+    },
+    required: ['name', 'waypoints']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const waypoints: RouteWaypointInput[] = await Promise.all(params.waypoints.map(async (waypoint: any, index: number) => {
+        if (waypoint.coordinates) {
+          return { point: parseCoordinate(waypoint.coordinates), name: waypoint.name };
+        }
+        if (waypoint.entityId) {
+          const entity = await takClient.getEntity(waypoint.entityId);
+          return {
+            point: [entity.location.lat, entity.location.lon],
+            hae: entity.location.alt,
+            name: waypoint.name || entity.callsign
+          };
+        }
+        throw new Error(`Waypoint ${index + 1} needs either entityId or coordinates`);
+      }));
+
+      const route = planRoute({
+        name: params.name,
+        waypoints,
+        method: params.method,
+        speed: params.speed,
+        direction: params.direction,
+        order: params.order,
+        remarks: params.remarks
+      });
+
+      if (params.publish !== false) {
+        await takClient.sendCotEvent(routeToCotMessage(route));
+        logger.info(`Published route ${route.name} (${route.uid})`);
+      }
+
+      const departure = params.departureTime ? new Date(params.departureTime) : new Date();
+      let elapsed = 0;
+
+      return {
+        success: true,
+        data: {
+          uid: route.uid,
+          name: route.name,
+          method: route.method,
+          speed: route.speed,
+          totalDistance: route.totalDistance,
+          totalDuration: Math.round(route.totalDuration),
+          eta: new Date(departure.getTime() + route.totalDuration * 1000).toISOString(),
+          waypoints: route.waypoints.map((waypoint, index) => {
+            if (index > 0) elapsed += route.legs[index - 1].duration;
+            return {
+              uid: waypoint.uid,
+              name: waypoint.name,
+              coordinates: waypoint.point,
+              position: toPosition(waypoint.point[0], waypoint.point[1], takClient.coordinateSystem),
+              eta: new Date(departure.getTime() + elapsed * 1000).toISOString()
+            };
+          }),
+          legs: route.legs.map(leg => ({
+            ...leg,
+            duration: Math.round(leg.duration)
+          })),
+          published: params.publish !== false
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          units: { distance: 'meters', duration: 'seconds', speed: 'm/s' }
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to create route:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_ROUTE_ERROR',
+          message: 'Failed to create route',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
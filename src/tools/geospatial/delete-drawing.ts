@@ -0,0 +1,64 @@
+import { TAKTool, ToolContext } from '../registry';
+import { buildForceDeleteMessage } from '../../clients/cot-xml';
+import { parseDrawingEvent } from '../../services/drawings';
+
+export const deleteDrawingTool: TAKTool = {
+  name: 'tak_delete_drawing',
+  description: 'Remove a drawing from every TAK client map',
+  category: 'geospatial',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      uid: {
+        type: 'string',
+        description: 'UID of the drawing to delete'
+      }
+    },
+    required: ['uid']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const event = takClient.entities.getEvent(params.uid);
+      const drawing = event && parseDrawingEvent(event);
+      if (event && !drawing) {
+        throw new Error(`${params.uid} is not a drawing (type ${event.type})`);
+      }
+
+      // Drawings we have not seen can still be deleted by UID
+      await takClient.sendCotEvent(buildForceDeleteMessage(params.uid, event?.type || 'u-d-f'));
+      takClient.entities.delete(params.uid);
+
+      logger.info(`Deleted drawing: ${params.uid}`);
+
+      return {
+        success: true,
+        data: {
+          uid: params.uid,
+          name: drawing?.name,
+          kind: drawing?.kind,
+          message: drawing ? `Drawing '${drawing.name}' deleted` : `Delete sent for ${params.uid}`
+        },
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete drawing:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_DRAWING_ERROR',
+          message: 'Failed to delete drawing',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
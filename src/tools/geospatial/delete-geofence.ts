@@ -0,0 +1,69 @@
+import { TAKTool, ToolContext } from '../registry';
+import { buildForceDeleteMessage } from '../../clients/cot-xml';
+
+export const deleteGeofenceTool: TAKTool = {
+  name: 'tak_delete_geofence',
+  description: 'Delete a geofence, stop evaluating it and remove its drawing from TAK clients',
+  category: 'geospatial',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      geofenceId: {
+        type: 'string',
+        description: 'ID of the geofence to delete'
+      }
+    },
+    required: ['geofenceId']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const fence = takClient.geofences.get(params.geofenceId);
+      if (!fence) {
+        throw new Error(`Geofence not found: ${params.geofenceId}`);
+      }
+
+      await takClient.geofences.delete(fence.id);
+
+      // Forced delete (t-x-d-d) removes the drawing from every map
+      let broadcast = true;
+      try {
+        await takClient.sendCotEvent(buildForceDeleteMessage(fence.id, 'u-d-f'));
+      } catch (error) {
+        broadcast = false;
+        logger.warn(`Geofence ${fence.id} deleted but removal not broadcast:`, error instanceof Error ? error.message : error);
+      }
+
+      logger.info(`Deleted geofence: ${fence.id}`);
+
+      return {
+        success: true,
+        data: {
+          geofenceId: fence.id,
+          message: `Geofence '${fence.name}' deleted`,
+          broadcast
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'geofence-engine'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete geofence:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_GEOFENCE_ERROR',
+          message: 'Failed to delete geofence',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
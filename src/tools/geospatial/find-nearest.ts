@@ -1,5 +1,7 @@
 import { TAKTool, ToolContext } from '../registry';
 import * as turf from '@turf/turf';
+import { matchesCotType } from '../../clients/cot-filter';
+import { coordinateSchema, parseCoordinate, toPosition } from '../../services/coordinates';
 
 export const findNearestTool: TAKTool = {
   name: 'tak_find_nearest',
@@ -17,13 +19,7 @@ export const findNearestTool: TAKTool = {
             type: 'string',
             description: 'Entity ID to find nearest entities to'
           },
-          coordinates: {
-            type: 'array',
-            items: { type: 'number' },
-            minItems: 2,
-            maxItems: 2,
-            description: 'Coordinates [lat, lon] to find nearest entities to'
-          }
+          coordinates: coordinateSchema('Coordinates to find nearest entities to')
         },
         description: 'Reference point (provide either entityId or coordinates)'
       },
@@ -42,7 +38,7 @@ export const findNearestTool: TAKTool = {
       entityTypes: {
         type: 'array',
         items: { type: 'string' },
-        description: 'Filter by entity types (e.g., ["a-f-*", "a-h-*"])'
+        description: 'Filter by entity types or SIDCs, with wildcards (e.g., ["a-f-*", "a-.-A"])'
       },
       excludeStale: {
         type: 'boolean',
@@ -65,13 +61,9 @@ export const findNearestTool: TAKTool = {
       // Get reference coordinates
       let referenceCoords: number[];
       if (params.point.coordinates) {
-        referenceCoords = params.point.coordinates;
+        referenceCoords = parseCoordinate(params.point.coordinates);
       } else if (params.point.entityId) {
-        const entities = await takClient.getEntities();
-        const entity = entities.find(e => e.uid === params.point.entityId);
-        if (!entity) {
-          throw new Error(`Entity ${params.point.entityId} not found`);
-        }
+        const entity = await takClient.getEntity(params.point.entityId);
         referenceCoords = [entity.location.lat, entity.location.lon];
       } else {
         throw new Error('Either entityId or coordinates must be provided');
@@ -79,9 +71,14 @@ export const findNearestTool: TAKTool = {
       
       const referencePoint = turf.point([referenceCoords[1], referenceCoords[0]]); // turf uses [lon, lat]
       
-      // Get all entities
+      // Get candidate entities (spatially indexed when a max distance is given)
       logger.debug('Fetching entities from TAK Server');
-      const allEntities = await takClient.getEntities();
+      const allEntities = await takClient.getEntities(params.maxDistance ? {
+        within: {
+          center: [referenceCoords[0], referenceCoords[1]],
+          radius: params.maxDistance
+        }
+      } : undefined);
       
       // Filter entities
       let filteredEntities = allEntities;
@@ -93,15 +90,7 @@ export const findNearestTool: TAKTool = {
       
       // Filter by entity types
       if (params.entityTypes && params.entityTypes.length > 0) {
-        filteredEntities = filteredEntities.filter(entity => {
-          return params.entityTypes.some((typePattern: any) => {
-            if (typePattern.includes('*')) {
-              const regex = new RegExp('^' + typePattern.replace('*', '.*') + '$');
-              return regex.test(entity.type);
-            }
-            return entity.type === typePattern;
-          });
-        });
+        filteredEntities = filteredEntities.filter(entity => matchesCotType(entity.type, params.entityTypes));
       }
       
       // Exclude stale entities
@@ -136,7 +125,8 @@ export const findNearestTool: TAKTool = {
             lat: entity.location.lat,
             lon: entity.location.lon,
             hae: entity.location.alt || 0
-          }
+          },
+          position: toPosition(entity.location.lat, entity.location.lon, takClient.coordinateSystem)
         };
       });
       
@@ -169,7 +159,8 @@ export const findNearestTool: TAKTool = {
         data: {
           referencePoint: {
             entityId: params.point.entityId,
-            coordinates: referenceCoords
+            coordinates: referenceCoords,
+            position: toPosition(referenceCoords[0], referenceCoords[1], takClient.coordinateSystem)
           },
           nearestEntities: results,
           stats: stats
@@ -0,0 +1,78 @@
+import { TAKTool, ToolContext } from '../registry';
+import { COT_TYPES } from '../../types/cot';
+import { parseRouteEvent, Route } from '../../services/routes';
+
+export const getRoutesTool: TAKTool = {
+  name: 'tak_get_routes',
+  description: 'Read routes (b-m-r) from the picture as structured waypoints and legs with distances, bearings and durations',
+  category: 'geospatial',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      uid: {
+        type: 'string',
+        description: 'Only return this route'
+      },
+      name: {
+        type: 'string',
+        description: 'Only routes whose name contains this text'
+      }
+    }
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      let events = params.uid
+        ? [takClient.entities.getEvent(params.uid) || (await takClient.getCotEvents({ uids: [params.uid] }))[0]]
+        : takClient.entities.events().filter(event => event?.type === COT_TYPES.ROUTE);
+
+      events = events.filter(event => event !== undefined);
+      if (params.uid && events.length === 0) {
+        throw new Error(`Route not found: ${params.uid}`);
+      }
+
+      let routes = events
+        .map(event => parseRouteEvent(event))
+        .filter((route): route is Route => route !== undefined);
+
+      if (params.name) {
+        const name = params.name.toLowerCase();
+        routes = routes.filter(route => route.name.toLowerCase().includes(name));
+      }
+
+      logger.debug(`Found ${routes.length} routes`);
+
+      return {
+        success: true,
+        data: {
+          count: routes.length,
+          routes: routes.map(route => ({
+            ...route,
+            totalDuration: Math.round(route.totalDuration),
+            legs: route.legs.map(leg => ({ ...leg, duration: Math.round(leg.duration) }))
+          }))
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          units: { distance: 'meters', duration: 'seconds', speed: 'm/s' }
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get routes:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_ROUTE_ERROR',
+          message: 'Failed to get routes',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
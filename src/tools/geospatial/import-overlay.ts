@@ -0,0 +1,175 @@
+import path from 'path';
+import { TAKTool, ToolContext } from '../registry';
+import { buildCotXml, parseCotXml } from '../../clients/cot-xml';
+import { buildDataPackage, dataPackageHash } from '../../services/data-package';
+import { OverlayFormat, SkippedFeature, convertOverlay, detectOverlayFormat, readOverlay } from '../../services/overlays';
+import { toPosition } from '../../services/coordinates';
+
+export const importOverlayTool: TAKTool = {
+  name: 'tak_import_overlay',
+  description: 'Import a KML, KMZ or GeoJSON overlay: placemarks and features become ATAK markers, line and polygon drawings or routes with their colours, either published to the server or bundled into a data package',
+  category: 'geospatial',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      content: {
+        type: 'string',
+        description: 'KML or GeoJSON text'
+      },
+      contentBase64: {
+        type: 'string',
+        description: 'The file itself, base64 encoded (required for KMZ)'
+      },
+      fileName: {
+        type: 'string',
+        description: 'Original file name, used to detect the format and name the overlay'
+      },
+      format: {
+        type: 'string',
+        enum: ['kml', 'kmz', 'geojson'],
+        description: 'Overlay format (detected from the file name or content when omitted)'
+      },
+      name: {
+        type: 'string',
+        description: 'Overlay name (defaults to the document name). Importing again under the same name updates the earlier items'
+      },
+      lineStrings: {
+        type: 'string',
+        enum: ['line', 'route'],
+        default: 'line',
+        description: 'Convert lines to line drawings or to navigable routes'
+      },
+      markerType: {
+        type: 'string',
+        default: 'a-u-G',
+        description: 'CoT type or SIDC for uncoloured points without a cotType or sidc property'
+      },
+      output: {
+        type: 'string',
+        enum: ['publish', 'package'],
+        default: 'publish',
+        description: 'Send each item to the server, or upload them together as a data package'
+      },
+      keywords: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Keywords stored with the uploaded package (package)'
+      }
+    }
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      if ((params.content === undefined) === (params.contentBase64 === undefined)) {
+        throw new Error('Provide either content or contentBase64');
+      }
+
+      const data = params.contentBase64 !== undefined
+        ? Buffer.from(params.contentBase64, 'base64')
+        : Buffer.from(params.content, 'utf8');
+      const format: OverlayFormat = params.format || detectOverlayFormat(data, params.fileName);
+      const overlay = await readOverlay(data, format);
+
+      const name: string = params.name || overlay.name
+        || (params.fileName ? path.basename(params.fileName, path.extname(params.fileName)) : `Overlay ${dataPackageHash(data).slice(0, 8)}`);
+      const { items, skipped: unconverted } = convertOverlay(overlay.features, {
+        key: name,
+        linesAsRoutes: params.lineStrings === 'route',
+        markerType: params.markerType
+      });
+      const skipped: SkippedFeature[] = [...overlay.skipped, ...unconverted];
+
+      if (items.length === 0) {
+        throw new Error(`Nothing to import: ${skipped[0]?.reason || 'the overlay has no features'}`);
+      }
+
+      const output = params.output || 'publish';
+      const converted = [];
+      let uploadedPackage: any;
+
+      if (output === 'package') {
+        const built = await buildDataPackage({ name, cot: items.map(item => buildCotXml(item.message)) });
+        const existing = await takClient.findDataPackage(built.hash).catch((error) => {
+          logger.debug('Could not check for an existing package:', error instanceof Error ? error.message : error);
+          return undefined;
+        });
+        uploadedPackage = {
+          uid: built.uid,
+          name: built.name,
+          hash: built.hash,
+          size: built.data.length,
+          deduplicated: !!existing,
+          package: existing || await takClient.uploadDataPackage(built.data, {
+            name: built.fileName,
+            hash: built.hash,
+            size: built.data.length,
+            creator: 'tak-server-mcp',
+            keywords: params.keywords,
+            mimeType: 'application/zip',
+            tool: 'public'
+          })
+        };
+        converted.push(...items);
+      } else {
+        // One rejected item should not stop the rest of the overlay
+        for (const item of items) {
+          try {
+            await takClient.sendCotEvent(item.message);
+            takClient.entities.upsert(parseCotXml(buildCotXml(item.message))!);
+            converted.push(item);
+          } catch (error) {
+            skipped.push({ feature: item.feature, reason: error instanceof Error ? error.message : String(error) });
+          }
+        }
+      }
+
+      logger.info(`Imported ${converted.length} items from ${format} overlay ${name} (${skipped.length} skipped)`);
+
+      return {
+        success: true,
+        data: {
+          name,
+          format,
+          output,
+          converted: converted.map(item => {
+            const { lat, lon } = item.message.event.point._attributes;
+            return {
+              uid: item.uid,
+              name: item.name,
+              kind: item.kind,
+              feature: item.feature,
+              position: toPosition(Number(lat), Number(lon), takClient.coordinateSystem),
+              note: item.note
+            };
+          }),
+          skipped,
+          summary: {
+            features: overlay.features.length,
+            converted: converted.length,
+            skipped: skipped.length
+          },
+          package: uploadedPackage
+        },
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to import overlay:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_IMPORT_ERROR',
+          message: 'Failed to import overlay',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
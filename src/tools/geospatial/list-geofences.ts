@@ -0,0 +1,90 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const listGeofencesTool: TAKTool = {
+  name: 'tak_list_geofences',
+  description: 'List registered geofences with the entities currently inside them and their recent alerts',
+  category: 'geospatial',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      geofenceId: {
+        type: 'string',
+        description: 'Only return this geofence'
+      },
+      activeOnly: {
+        type: 'boolean',
+        default: false,
+        description: 'Only return active geofences'
+      },
+      includeGeometry: {
+        type: 'boolean',
+        default: false,
+        description: 'Include the GeoJSON polygon of each geofence'
+      },
+      alertLimit: {
+        type: 'number',
+        minimum: 0,
+        maximum: 500,
+        default: 10,
+        description: 'Number of recent alerts to return per geofence'
+      }
+    }
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      let fences = takClient.geofences.list();
+
+      if (params.geofenceId) {
+        fences = fences.filter(fence => fence.id === params.geofenceId);
+        if (fences.length === 0) {
+          throw new Error(`Geofence not found: ${params.geofenceId}`);
+        }
+      }
+      if (params.activeOnly) {
+        fences = fences.filter(fence => fence.active);
+      }
+
+      const alertLimit = params.alertLimit ?? 10;
+      const geofences = fences.map(fence => {
+        const { geometry, ...summary } = fence;
+        return {
+          ...summary,
+          geometry: params.includeGeometry ? geometry : undefined,
+          occupants: takClient.geofences.occupants(fence.id),
+          recentAlerts: alertLimit > 0 ? takClient.geofences.alerts(fence.id, alertLimit) : []
+        };
+      });
+
+      logger.debug(`Listed ${geofences.length} geofences`);
+
+      return {
+        success: true,
+        data: {
+          count: geofences.length,
+          geofences
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'geofence-engine'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to list geofences:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_GEOFENCE_ERROR',
+          message: 'Failed to list geofences',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
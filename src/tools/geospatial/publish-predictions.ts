@@ -0,0 +1,107 @@
+import { TAKTool, ToolContext } from '../registry';
+import { buildCotXml, parseCotXml } from '../../clients/cot-xml';
+import { PredictedMarkerInput, predictedMarkerMessage } from '../../services/prediction';
+
+export const publishPredictionsTool: TAKTool = {
+  name: 'tak_publish_predictions',
+  description: 'Publish predicted positions from tak_analyze_movement or tak_calculate_intercept as CoT markers, each stale at its predicted time and linked to the entity it predicts',
+  category: 'geospatial',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      markers: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            uid: { type: 'string', description: 'Marker UID' },
+            callsign: { type: 'string', description: 'Marker callsign' },
+            type: { type: 'string', description: 'CoT type of the predicted entity' },
+            time: { type: 'string', format: 'date-time', description: 'Predicted time (ISO 8601)' },
+            lat: { type: 'number', minimum: -90, maximum: 90 },
+            lon: { type: 'number', minimum: -180, maximum: 180 },
+            ellipse: {
+              type: 'object',
+              properties: {
+                semiMajor: { type: 'number', minimum: 0 },
+                semiMinor: { type: 'number', minimum: 0 },
+                orientation: { type: 'number' },
+                confidence: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1 }
+              },
+              required: ['semiMajor', 'semiMinor', 'orientation', 'confidence'],
+              description: 'Uncertainty ellipse in meters, major axis in degrees true'
+            },
+            parentUid: { type: 'string', description: 'Entity the prediction is for' },
+            parentType: { type: 'string', description: 'CoT type of the parent (default: from the local picture)' },
+            remarks: { type: 'string', description: 'Remarks (default: a description of the ellipse)' }
+          },
+          required: ['uid', 'callsign', 'time', 'lat', 'lon', 'ellipse']
+        },
+        description: 'Markers as returned in the markers field of the prediction tools'
+      }
+    },
+    required: ['markers']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const markers: PredictedMarkerInput[] = params.markers || [];
+      if (markers.length === 0) {
+        throw new Error('At least one marker is required');
+      }
+
+      const published: string[] = [];
+      for (const marker of markers) {
+        const time = new Date(marker.time);
+        if (isNaN(time.getTime())) {
+          throw new Error(`Invalid time for ${marker.uid}: ${marker.time}`);
+        }
+        const parentType = marker.parentUid
+          ? marker.parentType || takClient.entities.getEvent(marker.parentUid)?.type
+          : undefined;
+
+        const message = predictedMarkerMessage({
+          uid: marker.uid,
+          callsign: marker.callsign,
+          type: marker.type,
+          position: { time, lat: marker.lat, lon: marker.lon, ellipse: marker.ellipse },
+          parent: marker.parentUid && parentType ? { uid: marker.parentUid, type: parentType } : undefined,
+          remarks: marker.remarks
+        });
+        await takClient.sendCotEvent(message);
+        takClient.entities.upsert(parseCotXml(buildCotXml(message))!);
+        published.push(marker.uid);
+      }
+
+      logger.info(`Published ${published.length} predicted position markers`);
+
+      return {
+        success: true,
+        data: {
+          published,
+          count: published.length
+        },
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to publish predictions:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_PUBLISH_ERROR',
+          message: 'Failed to publish predictions',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
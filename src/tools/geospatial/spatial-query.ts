@@ -1,7 +1,7 @@
 import { TAKTool, ToolContext } from '../registry';
 import * as turf from '@turf/turf';
-import mgrs from 'mgrs';
 import * as h3 from 'h3-js';
+import { coordinateSchema, parseCoordinate, parseCoordinates, toPosition } from '../../services/coordinates';
 
 export const spatialQueryTool: TAKTool = {
   name: 'tak_spatial_query',
@@ -12,13 +12,7 @@ export const spatialQueryTool: TAKTool = {
   inputSchema: {
     type: 'object',
     properties: {
-      center: {
-        type: 'array',
-        items: { type: 'number' },
-        minItems: 2,
-        maxItems: 2,
-        description: 'Center point [lat, lon] for radius search'
-      },
+      center: coordinateSchema('Center point for radius search'),
       radius: {
         type: 'number',
         minimum: 0,
@@ -26,19 +20,14 @@ export const spatialQueryTool: TAKTool = {
       },
       polygon: {
         type: 'array',
-        items: {
-          type: 'array',
-          items: { type: 'number' },
-          minItems: 2,
-          maxItems: 2
-        },
+        items: coordinateSchema('Vertex'),
         minItems: 3,
-        description: 'Polygon coordinates [[lat, lon], ...] for polygon search'
+        description: 'Polygon vertices for polygon search'
       },
       types: {
         type: 'array',
         items: { type: 'string' },
-        description: 'Filter by entity types'
+        description: 'Filter by entity types, with wildcards (e.g., ["a-h-*", "a-.-A"])'
       },
       timeWindow: {
         type: 'object',
@@ -65,11 +54,14 @@ export const spatialQueryTool: TAKTool = {
     logger.info('Performing spatial query', { params });
 
     try {
+      const center = params.center ? parseCoordinate(params.center) : undefined;
+      const polygon = params.polygon ? parseCoordinates(params.polygon) : undefined;
+
       // Perform the spatial query
       const events = await takClient.spatialQuery({
-        center: params.center,
+        center,
         radius: params.radius,
-        polygon: params.polygon,
+        polygon,
         types: params.types,
         timeWindow: params.timeWindow ? {
           start: new Date(params.timeWindow.start),
@@ -89,8 +81,8 @@ export const spatialQueryTool: TAKTool = {
         let distanceFromCenter = null;
         let bearing = null;
 
-        if (params.center && params.radius) {
-          const centerPoint = turf.point([params.center[1], params.center[0]]);
+        if (center && params.radius) {
+          const centerPoint = turf.point([center[1], center[0]]);
           distanceFromCenter = turf.distance(centerPoint, point, { units: 'meters' });
           bearing = turf.bearing(centerPoint, point);
         }
@@ -100,18 +92,16 @@ export const spatialQueryTool: TAKTool = {
           type: event.type,
           callsign: event.detail?.contact?.callsign,
           location: {
-            lat: event.point.lat,
-            lon: event.point.lon,
-            alt: event.point.hae,
-            mgrs: convertToMGRS(event.point.lat, event.point.lon), // Placeholder
+            ...toPosition(event.point.lat, event.point.lon, takClient.coordinateSystem, event.point.hae),
+            mgrs: toPosition(event.point.lat, event.point.lon, 'mgrs').mgrs,
             h3Index: getH3Index(event.point.lat, event.point.lon, 9) // Placeholder
           },
           time: event.time,
           stale: event.stale,
           distanceFromCenter,
           bearing,
-          team: event.detail?.group?.name,
-          role: event.detail?.group?.role,
+          team: event.detail?.__group?.name,
+          role: event.detail?.__group?.role,
           status: event.detail?.status
         };
       });
@@ -154,15 +144,6 @@ export const spatialQueryTool: TAKTool = {
 };
 
 // Helper functions with real implementations
-function convertToMGRS(lat: number, lon: number): string {
-  try {
-    return mgrs.forward([lon, lat]);
-  } catch (error) {
-    // Fallback if MGRS conversion fails
-    return `${Math.abs(lat).toFixed(6)}${lat >= 0 ? 'N' : 'S'} ${Math.abs(lon).toFixed(6)}${lon >= 0 ? 'E' : 'W'}`;
-  }
-}
-
 function getH3Index(lat: number, lon: number, resolution: number): string {
   try {
     return h3.latLngToCell(lat, lon, resolution);
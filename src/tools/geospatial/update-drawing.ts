@@ -0,0 +1,97 @@
+import { TAKTool, ToolContext } from '../registry';
+import { buildCotXml, parseCotXml } from '../../clients/cot-xml';
+import { createDrawing, drawingToCotMessage, drawingToInput, parseDrawingEvent, rangeBearingEnd } from '../../services/drawings';
+import { drawingProperties } from './create-drawing';
+import { parseCoordinate, parseCoordinates } from '../../services/coordinates';
+
+export const updateDrawingTool: TAKTool = {
+  name: 'tak_update_drawing',
+  description: 'Change the geometry, style or label of an existing drawing and republish it to TAK clients',
+  category: 'geospatial',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      uid: {
+        type: 'string',
+        description: 'UID of the drawing to update'
+      },
+      name: {
+        type: 'string',
+        description: 'New label'
+      },
+      ...drawingProperties
+    },
+    required: ['uid']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const event = takClient.entities.getEvent(params.uid) ||
+        (await takClient.getCotEvents({ uids: [params.uid] }))[0];
+      const existing = event && parseDrawingEvent(event);
+      if (!existing) {
+        throw new Error(`Drawing not found: ${params.uid}`);
+      }
+
+      const current = drawingToInput(existing);
+      // A new opacity alone re-tints the existing fill
+      const fillColor = params.fillColor ??
+        (params.fillOpacity !== undefined && existing.style.fillColor !== undefined
+          ? '#' + (existing.style.fillColor & 0xffffff).toString(16).padStart(6, '0')
+          : current.fillColor);
+
+      const drawing = createDrawing({
+        ...current,
+        name: params.name ?? current.name,
+        // A new end point replaces the stored range and bearing
+        points: params.points ? parseCoordinates(params.points) : current.points,
+        center: params.center ? parseCoordinate(params.center) : current.center,
+        radius: params.radius ?? current.radius,
+        rings: params.rings ?? current.rings,
+        range: params.range ?? current.range,
+        bearing: params.bearing ?? current.bearing,
+        strokeColor: params.strokeColor ?? current.strokeColor,
+        strokeWeight: params.strokeWeight ?? current.strokeWeight,
+        fillColor,
+        fillOpacity: params.fillOpacity,
+        labels: params.labels ?? current.labels,
+        remarks: params.remarks ?? current.remarks
+      });
+      const message = drawingToCotMessage(drawing);
+
+      // Same UID, so TAK clients replace the drawing in place
+      await takClient.sendCotEvent(message);
+      takClient.entities.upsert(parseCotXml(buildCotXml(message))!);
+      logger.info(`Updated ${drawing.kind} drawing ${drawing.name} (${drawing.uid})`);
+
+      return {
+        success: true,
+        data: {
+          ...drawing,
+          type: message.event._attributes.type,
+          end: rangeBearingEnd(drawing)
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          units: { distance: 'meters', bearing: 'degrees true' }
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to update drawing:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_DRAWING_ERROR',
+          message: 'Failed to update drawing',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
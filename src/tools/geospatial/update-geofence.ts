@@ -0,0 +1,82 @@
+import { TAKTool, ToolContext } from '../registry';
+import { geofenceProperties, parseShapeCoordinates } from './create-geofence';
+import { geofenceToCotMessage } from '../../services/geofence-engine';
+
+export const updateGeofenceTool: TAKTool = {
+  name: 'tak_update_geofence',
+  description: 'Update the name, shape, triggers, monitored types, alert level or active state of a geofence',
+  category: 'geospatial',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      geofenceId: {
+        type: 'string',
+        description: 'ID of the geofence to update'
+      },
+      ...geofenceProperties,
+      alertLevel: {
+        type: 'string',
+        enum: ['low', 'medium', 'high', 'critical'],
+        description: 'Alert severity level'
+      },
+      active: {
+        type: 'boolean',
+        description: 'Whether the geofence is active'
+      }
+    },
+    required: ['geofenceId']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const fence = await takClient.geofences.update(params.geofenceId, {
+        name: params.name,
+        shape: parseShapeCoordinates(params.shape),
+        triggers: params.triggers,
+        monitorTypes: params.monitorTypes,
+        alertLevel: params.alertLevel,
+        active: params.active
+      });
+
+      // Re-send the drawing under the same UID so TAK clients redraw it
+      let broadcast = true;
+      try {
+        await takClient.sendCotEvent(geofenceToCotMessage(fence));
+      } catch (error) {
+        broadcast = false;
+        logger.warn(`Geofence ${fence.id} updated but not broadcast:`, error instanceof Error ? error.message : error);
+      }
+
+      logger.info(`Updated geofence: ${fence.id}`);
+
+      return {
+        success: true,
+        data: {
+          geofence: fence,
+          message: `Geofence '${fence.name}' updated successfully`,
+          broadcast
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'geofence-engine'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to update geofence:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_GEOFENCE_ERROR',
+          message: 'Failed to update geofence',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
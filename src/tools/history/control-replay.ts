@@ -0,0 +1,105 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const controlReplayTool: TAKTool = {
+  name: 'tak_control_replay',
+  description: 'List replays, show one, or pause, resume, seek, step or stop it',
+  category: 'history',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['list', 'status', 'pause', 'resume', 'seek', 'step', 'stop'],
+        description: 'Control action'
+      },
+      replayId: {
+        type: 'string',
+        description: 'Replay ID from tak_start_replay (all actions except list)'
+      },
+      time: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Recorded time to jump to (seek)'
+      },
+      seconds: {
+        type: 'number',
+        exclusiveMinimum: 0,
+        description: 'Recorded seconds to advance (step; default: the replay\'s stepSeconds)'
+      }
+    },
+    required: ['action']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+    const { action, replayId } = params;
+
+    try {
+      if (action === 'list') {
+        const replays = takClient.replays.list();
+        return {
+          success: true,
+          data: { replays, count: replays.length },
+          metadata: {
+            timestamp: new Date().toISOString()
+          }
+        };
+      }
+
+      if (!replayId) throw new Error(`replayId is required for ${action}`);
+
+      let data;
+      switch (action) {
+        case 'status': {
+          data = takClient.replays.get(replayId);
+          if (!data) throw new Error(`Replay not found: ${replayId}`);
+          break;
+        }
+        case 'pause':
+          data = takClient.replays.pause(replayId);
+          break;
+        case 'resume':
+          data = takClient.replays.resume(replayId);
+          break;
+        case 'seek': {
+          const time = new Date(params.time);
+          if (!params.time || isNaN(time.getTime())) throw new Error('seek needs an ISO 8601 time');
+          data = takClient.replays.seek(replayId, time);
+          break;
+        }
+        case 'step':
+          data = await takClient.replays.step(replayId, params.seconds);
+          break;
+        case 'stop':
+          data = takClient.replays.stop(replayId);
+          break;
+        default:
+          throw new Error(`Unknown action: ${action}`);
+      }
+
+      logger.info(`Replay ${replayId}: ${action} (${data.state})`);
+
+      return {
+        success: true,
+        data,
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      };
+
+    } catch (error) {
+      logger.error(`Failed to ${action} replay:`, error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_REPLAY_ERROR',
+          message: `Failed to ${action} replay`,
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
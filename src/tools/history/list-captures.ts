@@ -0,0 +1,47 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const listCapturesTool: TAKTool = {
+  name: 'tak_list_captures',
+  description: 'List CoT captures on disk, newest first, with their filters, state, event counts and files',
+  category: 'history',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {}
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, logger } = context;
+
+    try {
+      const captures = await takClient.captures.list();
+
+      logger.debug(`Listed ${captures.length} captures`);
+
+      return {
+        success: true,
+        data: {
+          count: captures.length,
+          recording: captures.filter(capture => capture.state === 'recording').length,
+          captures
+        },
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to list captures:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_CAPTURE_ERROR',
+          message: 'Failed to list captures',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
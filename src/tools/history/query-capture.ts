@@ -0,0 +1,111 @@
+import { TAKTool, ToolContext } from '../registry';
+import { toPosition } from '../../services/coordinates';
+
+export const queryCaptureTool: TAKTool = {
+  name: 'tak_query_capture',
+  description: 'Search recorded CoT captures with the same filters as tak_get_cot_events. Each event comes with the time it was received and the feed it came from',
+  category: 'history',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      captureIds: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Captures to search (default: all, oldest first)'
+      },
+      start: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Start time for event query (ISO 8601)'
+      },
+      end: {
+        type: 'string',
+        format: 'date-time',
+        description: 'End time for event query (ISO 8601)'
+      },
+      types: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Filter by CoT types or SIDCs, matching everything beneath each type (e.g., ["a-f-G", "a-h-*", "a-.-A"])'
+      },
+      uids: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Filter by specific UIDs'
+      },
+      bbox: {
+        type: 'array',
+        items: { type: 'number' },
+        minItems: 4,
+        maxItems: 4,
+        description: 'Bounding box [minLon, minLat, maxLon, maxLat]'
+      },
+      limit: {
+        type: 'number',
+        minimum: 1,
+        maximum: 1000,
+        default: 100,
+        description: 'Maximum number of events to return'
+      }
+    }
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const records = await takClient.captures.query(params.captureIds, {
+        start: params.start ? new Date(params.start) : undefined,
+        end: params.end ? new Date(params.end) : undefined,
+        types: params.types,
+        uids: params.uids,
+        bbox: params.bbox,
+        limit: params.limit || 100
+      });
+
+      logger.info(`Found ${records.length} captured events`);
+
+      return {
+        success: true,
+        data: {
+          count: records.length,
+          events: records.map(({ capture, received, source, event }) => ({
+            capture,
+            received,
+            source,
+            uid: event.uid,
+            type: event.type,
+            callsign: event.detail?.contact?.callsign,
+            time: event.time,
+            stale: event.stale,
+            location: {
+              lat: event.point.lat,
+              lon: event.point.lon,
+              alt: event.point.hae
+            },
+            position: toPosition(event.point.lat, event.point.lon, takClient.coordinateSystem, event.point.hae),
+            how: event.how,
+            detail: event.detail
+          }))
+        },
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to query captures:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_CAPTURE_ERROR',
+          message: 'Failed to query captures',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
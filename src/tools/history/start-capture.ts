@@ -0,0 +1,81 @@
+import { TAKTool, ToolContext } from '../registry';
+import { CAPTURE_FORMATS, CaptureFilter } from '../../services/cot-capture';
+
+export const startCaptureTool: TAKTool = {
+  name: 'tak_start_capture',
+  description: 'Record live CoT traffic to rotating files (one event per line as XML or JSON, with receive time and source) as an evidence trail independent of TAK Server retention. Stop it with tak_stop_capture',
+  category: 'history',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Label for the capture'
+      },
+      format: {
+        type: 'string',
+        enum: CAPTURE_FORMATS,
+        default: 'ndxml',
+        description: 'ndxml: CoT XML, one event per line; jsonl: one JSON record per line'
+      },
+      types: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only record these CoT types or SIDCs (prefixes and wildcards, e.g. "a-h-*")'
+      },
+      uids: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only record these UIDs'
+      },
+      bbox: {
+        type: 'array',
+        items: { type: 'number' },
+        minItems: 4,
+        maxItems: 4,
+        description: 'Only record events inside [minLon, minLat, maxLon, maxLat]'
+      }
+    }
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const filter: CaptureFilter = {};
+      if (params.types && params.types.length > 0) filter.types = params.types;
+      if (params.uids && params.uids.length > 0) filter.uids = params.uids;
+      if (params.bbox) filter.bbox = params.bbox;
+
+      const capture = await takClient.startCapture({
+        name: params.name,
+        format: params.format,
+        filter
+      });
+
+      logger.info(`Started capture ${capture.id} from ${capture.source}`);
+
+      return {
+        success: true,
+        data: capture,
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to start capture:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_CAPTURE_ERROR',
+          message: 'Failed to start capture',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
@@ -0,0 +1,167 @@
+import { promises as fs } from 'fs';
+import { TAKTool, ToolContext } from '../registry';
+import { cotEventToMessage, parseCotDocument } from '../../clients/cot-xml';
+import { filterCotEvents } from '../../clients/cot-filter';
+import { ReplaySink } from '../../services/replay';
+import { readCaptureFile } from '../../services/cot-capture';
+
+export const startReplayTool: TAKTool = {
+  name: 'tak_start_replay',
+  description: 'Replay a recorded time window of CoT from track history, a capture or a CoT XML file at real time, N× speed or step by step, re-timed to now, to the TAK server or into a local subscription. Control it with tak_control_replay',
+  category: 'history',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      start: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Start of the recorded window (ISO 8601)'
+      },
+      end: {
+        type: 'string',
+        format: 'date-time',
+        description: 'End of the recorded window (ISO 8601, default: now)'
+      },
+      source: {
+        type: 'string',
+        enum: ['history', 'capture', 'file'],
+        default: 'history',
+        description: 'Replay track history, captures from tak_start_capture, or a file'
+      },
+      captureIds: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Captures to replay (source: capture)'
+      },
+      file: {
+        type: 'string',
+        description: 'Path of a CoT XML file, or a .ndxml/.jsonl capture file (source: file)'
+      },
+      types: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only replay these CoT types or SIDCs (prefixes and wildcards, e.g. "a-h-*")'
+      },
+      uids: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only replay these UIDs'
+      },
+      bbox: {
+        type: 'array',
+        items: { type: 'number' },
+        minItems: 4,
+        maxItems: 4,
+        description: 'Only replay events inside [minLon, minLat, maxLon, maxLat]'
+      },
+      speed: {
+        type: 'number',
+        exclusiveMinimum: 0,
+        default: 1,
+        description: 'Playback speed: 1 is real time, 10 plays ten recorded seconds per second'
+      },
+      stepSeconds: {
+        type: 'number',
+        exclusiveMinimum: 0,
+        description: 'Stepped replay: start paused and advance this many recorded seconds per step'
+      },
+      uidPrefix: {
+        type: 'string',
+        description: 'Prefix for replayed UIDs (e.g. "REPLAY-") so playback does not overwrite live tracks'
+      },
+      target: {
+        type: 'string',
+        enum: ['server', 'subscription'],
+        default: 'server',
+        description: 'Send to the TAK server, or deliver into a local subscription for tak_poll_subscription'
+      },
+      subscriptionId: {
+        type: 'string',
+        description: 'Subscription to deliver into (target: subscription)'
+      },
+      name: {
+        type: 'string',
+        description: 'Label for the replay'
+      }
+    },
+    required: ['start']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const start = new Date(params.start);
+      const end = params.end ? new Date(params.end) : new Date();
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+        throw new Error('start and end must be ISO 8601 times with start before end');
+      }
+      const query = { start, end, types: params.types, uids: params.uids, bbox: params.bbox };
+
+      let events;
+      if (params.source === 'capture') {
+        if (!params.captureIds?.length) throw new Error('captureIds is required when source is capture');
+        events = (await takClient.captures.query(params.captureIds, query)).map(record => record.event);
+      } else if (params.source === 'file') {
+        if (!params.file) throw new Error('file is required when source is file');
+        const recorded = /\.(ndxml|jsonl)$/i.test(params.file)
+          ? (await readCaptureFile(params.file, logger)).map(record => record.event)
+          : parseCotDocument(await fs.readFile(params.file, 'utf8'));
+        events = filterCotEvents(recorded, query);
+      } else {
+        events = await takClient.getCotEvents(query);
+      }
+
+      let sink: ReplaySink;
+      let target: string;
+      if (params.target === 'subscription') {
+        const subscriptionId = params.subscriptionId;
+        if (!subscriptionId || !takClient.subscriptions.get(subscriptionId)) {
+          throw new Error(`Subscription not found or expired: ${subscriptionId}`);
+        }
+        sink = async event => {
+          takClient.subscriptions.deliver(subscriptionId, event);
+        };
+        target = `subscription ${subscriptionId}`;
+      } else {
+        sink = event => takClient.sendCotEvent(cotEventToMessage(event));
+        target = 'server';
+      }
+
+      const replay = takClient.replays.start(events, {
+        name: params.name,
+        speed: params.speed,
+        stepSeconds: params.stepSeconds,
+        uidPrefix: params.uidPrefix,
+        target
+      }, sink);
+
+      logger.info(`Started replay ${replay.id}: ${replay.total} events to ${target} at ${replay.speed}x`);
+
+      return {
+        success: true,
+        data: {
+          ...replay,
+          duration: (replay.window.end.getTime() - replay.window.start.getTime()) / 1000 / replay.speed
+        },
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to start replay:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_REPLAY_ERROR',
+          message: 'Failed to start replay',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
@@ -0,0 +1,49 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const stopCaptureTool: TAKTool = {
+  name: 'tak_stop_capture',
+  description: 'Stop a CoT capture and flush its files. The capture stays on disk for tak_query_capture',
+  category: 'history',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      captureId: {
+        type: 'string',
+        description: 'ID returned by tak_start_capture'
+      }
+    },
+    required: ['captureId']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const capture = await takClient.captures.stop(params.captureId);
+
+      logger.info(`Stopped capture ${capture.id} after ${capture.events} events`);
+
+      return {
+        success: true,
+        data: capture,
+        metadata: {
+          timestamp: new Date().toISOString()
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to stop capture:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_CAPTURE_ERROR',
+          message: 'Failed to stop capture',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
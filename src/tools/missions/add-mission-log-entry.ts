@@ -0,0 +1,80 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const addMissionLogEntryTool: TAKTool = {
+  name: 'tak_add_mission_log_entry',
+  description: 'Append an entry to the log of one or more missions',
+  category: 'missions',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      missionNames: {
+        type: 'array',
+        items: { type: 'string' },
+        minItems: 1,
+        description: 'Missions whose log receives the entry'
+      },
+      content: {
+        type: 'string',
+        description: 'Log entry text'
+      },
+      dtg: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Date-time group the entry refers to (defaults to now)'
+      },
+      keywords: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Keywords to tag the entry with'
+      },
+      creatorUid: {
+        type: 'string',
+        default: 'tak-server-mcp',
+        description: 'UID recorded as the author'
+      }
+    },
+    required: ['missionNames', 'content']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const entry = await takClient.addMissionLogEntry({
+        content: params.content,
+        missionNames: params.missionNames,
+        dtg: params.dtg ? new Date(params.dtg) : new Date(),
+        keywords: params.keywords,
+        creatorUid: params.creatorUid || 'tak-server-mcp'
+      });
+
+      logger.info(`Added log entry to missions: ${params.missionNames.join(', ')}`);
+
+      return {
+        success: true,
+        data: {
+          entry,
+          message: `Log entry added to ${params.missionNames.length} mission(s)`
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'tak-server'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to add mission log entry:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_MISSION_ERROR',
+          message: 'Failed to add mission log entry',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
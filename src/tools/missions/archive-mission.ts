@@ -0,0 +1,74 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TAKTool, ToolContext } from '../registry';
+
+const ARCHIVE_DIR = path.join(process.cwd(), 'tak-data', 'archives');
+
+export const archiveMissionTool: TAKTool = {
+  name: 'tak_archive_mission',
+  description: 'Export a mission with all its contents to a local zip archive, optionally removing it from the TAK Server',
+  category: 'missions',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Mission to archive'
+      },
+      deleteFromServer: {
+        type: 'boolean',
+        default: false,
+        description: 'Delete the mission from the server once the archive is saved'
+      }
+    },
+    required: ['name']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const archive = await takClient.archiveMission(params.name);
+
+      const safeName = params.name.replace(/[^\w.-]+/g, '_');
+      const file = path.join(ARCHIVE_DIR, `${safeName}-${new Date().toISOString().replace(/[:.]/g, '-')}.zip`);
+      await fs.mkdir(ARCHIVE_DIR, { recursive: true });
+      await fs.writeFile(file, archive);
+
+      // Only delete once the archive is safely on disk
+      if (params.deleteFromServer) {
+        await takClient.deleteMission(params.name);
+      }
+
+      logger.info(`Archived mission ${params.name} to ${file}`);
+
+      return {
+        success: true,
+        data: {
+          name: params.name,
+          file,
+          size: archive.length,
+          deletedFromServer: !!params.deleteFromServer
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'tak-server'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to archive mission:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_MISSION_ERROR',
+          message: 'Failed to archive mission',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
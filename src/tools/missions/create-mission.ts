@@ -0,0 +1,91 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const createMissionTool: TAKTool = {
+  name: 'tak_create_mission',
+  description: 'Create a TAK Server mission (data sync) that clients can subscribe to',
+  category: 'missions',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Unique mission name'
+      },
+      description: {
+        type: 'string',
+        description: 'Mission description'
+      },
+      keywords: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Keywords to find the mission by'
+      },
+      creatorUid: {
+        type: 'string',
+        default: 'tak-server-mcp',
+        description: 'UID recorded as the mission creator'
+      },
+      chatRoom: {
+        type: 'string',
+        description: 'Chat room associated with the mission'
+      },
+      bbox: {
+        type: 'array',
+        items: { type: 'number' },
+        minItems: 4,
+        maxItems: 4,
+        description: 'Area of interest [minLon, minLat, maxLon, maxLat]'
+      },
+      tool: {
+        type: 'string',
+        default: 'public',
+        description: 'Mission tool ("public" for data sync missions)'
+      }
+    },
+    required: ['name']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const mission = await takClient.createMission({
+        name: params.name,
+        description: params.description,
+        keywords: params.keywords,
+        creatorUid: params.creatorUid || 'tak-server-mcp',
+        chatRoom: params.chatRoom,
+        bbox: params.bbox,
+        tool: params.tool || 'public'
+      });
+
+      logger.info(`Created mission: ${params.name}`);
+
+      return {
+        success: true,
+        data: {
+          mission,
+          message: `Mission '${params.name}' created`
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'tak-server'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to create mission:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_MISSION_ERROR',
+          message: 'Failed to create mission',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
@@ -0,0 +1,91 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const getMissionChangesTool: TAKTool = {
+  name: 'tak_get_mission_changes',
+  description: 'List what changed in a mission over a time window: items and files added or removed, keyword edits and log entries',
+  category: 'missions',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      missionName: {
+        type: 'string',
+        description: 'Mission name'
+      },
+      since: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Start of the window (defaults to 24 hours ago)'
+      },
+      until: {
+        type: 'string',
+        format: 'date-time',
+        description: 'End of the window (defaults to now)'
+      },
+      changeTypes: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: ['create', 'delete', 'add', 'remove', 'keywords', 'log', 'other']
+        },
+        description: 'Only return these kinds of change'
+      }
+    },
+    required: ['missionName']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const until = params.until ? new Date(params.until) : new Date();
+      const since = params.since ? new Date(params.since) : new Date(until.getTime() - 24 * 60 * 60 * 1000);
+      if (isNaN(since.getTime()) || isNaN(until.getTime()) || since > until) {
+        throw new Error('since and until must be valid times with since before until');
+      }
+
+      let changes = await takClient.getMissionChanges(params.missionName, since, until);
+      if (params.changeTypes?.length) {
+        changes = changes.filter(change => params.changeTypes.includes(change.type));
+      }
+
+      const summary = changes.reduce((acc, change) => {
+        acc[change.type] = (acc[change.type] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>);
+
+      logger.debug(`Found ${changes.length} changes in mission ${params.missionName}`);
+
+      return {
+        success: true,
+        data: {
+          missionName: params.missionName,
+          window: {
+            since: since.toISOString(),
+            until: until.toISOString()
+          },
+          count: changes.length,
+          summary,
+          changes
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'tak-server'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get mission changes:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_MISSION_ERROR',
+          message: 'Failed to get mission changes',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
@@ -0,0 +1,94 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const getMissionEventsTool: TAKTool = {
+  name: 'tak_get_mission_events',
+  description: 'Retrieve CoT event history for the map items (UIDs) that belong to a mission',
+  category: 'missions',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      missionName: {
+        type: 'string',
+        description: 'Mission name'
+      },
+      startTime: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Start time for the event query'
+      },
+      endTime: {
+        type: 'string',
+        format: 'date-time',
+        description: 'End time for the event query'
+      },
+      types: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Filter by CoT event types (e.g., ["a-f-G", "b-m-p"])'
+      },
+      limit: {
+        type: 'number',
+        minimum: 1,
+        maximum: 10000,
+        default: 1000,
+        description: 'Maximum number of events to return'
+      }
+    },
+    required: ['missionName']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const events = await takClient.getMissionCotEvents(params.missionName, {
+        start: params.startTime ? new Date(params.startTime) : undefined,
+        end: params.endTime ? new Date(params.endTime) : undefined,
+        types: params.types,
+        limit: params.limit || 1000
+      });
+
+      logger.debug(`Retrieved ${events.length} events for mission ${params.missionName}`);
+
+      return {
+        success: true,
+        data: {
+          missionName: params.missionName,
+          count: events.length,
+          events: events.map(event => ({
+            uid: event.uid,
+            type: event.type,
+            callsign: event.detail?.contact?.callsign,
+            time: event.time,
+            stale: event.stale,
+            location: {
+              lat: event.point.lat,
+              lon: event.point.lon,
+              alt: event.point.hae
+            },
+            how: event.how,
+            detail: event.detail
+          }))
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'tak-server'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get mission events:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_MISSION_ERROR',
+          message: 'Failed to get mission events',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
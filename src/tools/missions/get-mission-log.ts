@@ -0,0 +1,74 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const getMissionLogTool: TAKTool = {
+  name: 'tak_get_mission_log',
+  description: 'Read the log entries of a mission, newest first',
+  category: 'missions',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      missionName: {
+        type: 'string',
+        description: 'Mission name'
+      },
+      since: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Only entries with a date-time group at or after this time'
+      },
+      limit: {
+        type: 'number',
+        minimum: 1,
+        maximum: 1000,
+        default: 50,
+        description: 'Maximum number of entries to return'
+      }
+    },
+    required: ['missionName']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const since = params.since ? new Date(params.since).getTime() : undefined;
+      const entryTime = (entry: { dtg?: Date; servertime?: Date }) =>
+        (entry.dtg || entry.servertime)?.getTime() ?? 0;
+
+      const entries = (await takClient.getMissionLog(params.missionName))
+        .filter(entry => since === undefined || entryTime(entry) >= since)
+        .sort((a, b) => entryTime(b) - entryTime(a));
+
+      const limit = params.limit || 50;
+      logger.debug(`Read ${entries.length} log entries from mission ${params.missionName}`);
+
+      return {
+        success: true,
+        data: {
+          missionName: params.missionName,
+          count: Math.min(entries.length, limit),
+          total: entries.length,
+          entries: entries.slice(0, limit)
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'tak-server'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to read mission log:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_MISSION_ERROR',
+          message: 'Failed to read mission log',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
@@ -0,0 +1,110 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const getMissionsTool: TAKTool = {
+  name: 'tak_get_missions',
+  description: 'Search TAK Server missions (data syncs) by keyword, creator and creation time, or get one mission with its members and contents',
+  category: 'missions',
+  requiresAuth: true,
+  requiresWrite: false,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Return this mission in full instead of searching'
+      },
+      keyword: {
+        type: 'string',
+        description: 'Text to find in the mission name, description or keywords'
+      },
+      creatorUid: {
+        type: 'string',
+        description: 'Only missions created by this UID'
+      },
+      createdAfter: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Only missions created at or after this time'
+      },
+      createdBefore: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Only missions created at or before this time'
+      },
+      limit: {
+        type: 'number',
+        minimum: 1,
+        maximum: 1000,
+        default: 100,
+        description: 'Maximum number of missions to return'
+      }
+    }
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      if (params.name) {
+        const mission = await takClient.getMission(params.name);
+        if (!mission) {
+          throw new Error(`Mission not found: ${params.name}`);
+        }
+
+        return {
+          success: true,
+          data: { mission },
+          metadata: {
+            timestamp: new Date().toISOString(),
+            source: 'tak-server'
+          }
+        };
+      }
+
+      const missions = await takClient.searchMissions({
+        keyword: params.keyword,
+        creatorUid: params.creatorUid,
+        createdAfter: params.createdAfter ? new Date(params.createdAfter) : undefined,
+        createdBefore: params.createdBefore ? new Date(params.createdBefore) : undefined
+      });
+
+      const limit = params.limit || 100;
+      logger.debug(`Found ${missions.length} missions`);
+
+      return {
+        success: true,
+        data: {
+          count: Math.min(missions.length, limit),
+          total: missions.length,
+          missions: missions.slice(0, limit).map(mission => ({
+            name: mission.name,
+            description: mission.description,
+            creatorUid: mission.creatorUid,
+            createTime: mission.createTime,
+            keywords: mission.keywords,
+            tool: mission.tool,
+            passwordProtected: mission.passwordProtected,
+            memberCount: mission.members?.length,
+            contentCount: mission.contents?.length
+          }))
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'tak-server'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get missions:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_MISSION_ERROR',
+          message: 'Failed to get missions',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
@@ -0,0 +1,84 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const inviteMissionMemberTool: TAKTool = {
+  name: 'tak_invite_mission_member',
+  description: 'Invite a device, callsign, user or group to a mission with an owner, member or read-only role',
+  category: 'missions',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      missionName: {
+        type: 'string',
+        description: 'Mission name'
+      },
+      invitee: {
+        type: 'string',
+        description: 'Who to invite, identified as described by inviteeType'
+      },
+      inviteeType: {
+        type: 'string',
+        enum: ['clientUid', 'callsign', 'userName', 'group'],
+        default: 'clientUid',
+        description: 'How the invitee is identified'
+      },
+      role: {
+        type: 'string',
+        enum: ['OWNER', 'MEMBER', 'READONLY'],
+        default: 'MEMBER',
+        description: 'Role granted in the mission'
+      },
+      creatorUid: {
+        type: 'string',
+        default: 'tak-server-mcp',
+        description: 'UID recorded as the sender of the invitation'
+      }
+    },
+    required: ['missionName', 'invitee']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const invitation = {
+        type: params.inviteeType || 'clientUid',
+        invitee: params.invitee,
+        role: params.role || 'MEMBER',
+        creatorUid: params.creatorUid || 'tak-server-mcp'
+      };
+
+      await takClient.inviteToMission(params.missionName, invitation);
+
+      logger.info(`Invited ${invitation.type} ${invitation.invitee} to mission ${params.missionName} as ${invitation.role}`);
+
+      return {
+        success: true,
+        data: {
+          missionName: params.missionName,
+          invitee: invitation.invitee,
+          inviteeType: invitation.type,
+          role: invitation.role,
+          message: `Invited ${invitation.invitee} to '${params.missionName}'`
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'tak-server'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to invite mission member:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_MISSION_ERROR',
+          message: 'Failed to invite mission member',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
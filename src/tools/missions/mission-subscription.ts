@@ -0,0 +1,75 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const missionSubscriptionTool: TAKTool = {
+  name: 'tak_mission_subscription',
+  description: 'List a mission\'s subscribers, or subscribe or unsubscribe a client UID so it receives the mission\'s updates',
+  category: 'missions',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      missionName: {
+        type: 'string',
+        description: 'Mission name'
+      },
+      action: {
+        type: 'string',
+        enum: ['list', 'subscribe', 'unsubscribe'],
+        default: 'list',
+        description: 'Operation to perform'
+      },
+      clientUid: {
+        type: 'string',
+        description: 'Client UID to subscribe or unsubscribe'
+      }
+    },
+    required: ['missionName']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+    const action = params.action || 'list';
+
+    try {
+      if (action !== 'list' && !params.clientUid) {
+        throw new Error(`clientUid is required to ${action}`);
+      }
+
+      let data: any;
+      if (action === 'subscribe') {
+        const subscription = await takClient.subscribeToMission(params.missionName, params.clientUid);
+        data = { missionName: params.missionName, subscription };
+        logger.info(`Subscribed ${params.clientUid} to mission ${params.missionName}`);
+      } else if (action === 'unsubscribe') {
+        await takClient.unsubscribeFromMission(params.missionName, params.clientUid);
+        data = { missionName: params.missionName, clientUid: params.clientUid, status: 'unsubscribed' };
+        logger.info(`Unsubscribed ${params.clientUid} from mission ${params.missionName}`);
+      } else {
+        const subscriptions = await takClient.getMissionSubscriptions(params.missionName);
+        data = { missionName: params.missionName, count: subscriptions.length, subscriptions };
+      }
+
+      return {
+        success: true,
+        data,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'tak-server'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to manage mission subscription:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_MISSION_ERROR',
+          message: `Failed to ${action} mission subscription`,
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
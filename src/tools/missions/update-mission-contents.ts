@@ -0,0 +1,87 @@
+import { TAKTool, ToolContext } from '../registry';
+
+export const updateMissionContentsTool: TAKTool = {
+  name: 'tak_update_mission_contents',
+  description: 'Add or remove mission items (CoT UIDs) and files (content hashes) in a mission',
+  category: 'missions',
+  requiresAuth: true,
+  requiresWrite: true,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      missionName: {
+        type: 'string',
+        description: 'Mission to change'
+      },
+      action: {
+        type: 'string',
+        enum: ['add', 'remove'],
+        description: 'Whether to add or remove the listed contents'
+      },
+      uids: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'CoT UIDs of markers, shapes or units'
+      },
+      hashes: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'SHA-256 hashes of files already uploaded to the server'
+      },
+      creatorUid: {
+        type: 'string',
+        default: 'tak-server-mcp',
+        description: 'UID recorded as the author of the change'
+      }
+    },
+    required: ['missionName', 'action']
+  },
+
+  handler: async (context: ToolContext) => {
+    const { takClient, params, logger } = context;
+
+    try {
+      const uids: string[] = params.uids || [];
+      const hashes: string[] = params.hashes || [];
+      if (uids.length === 0 && hashes.length === 0) {
+        throw new Error('Provide at least one UID or content hash');
+      }
+
+      const change = { uids, hashes, creatorUid: params.creatorUid || 'tak-server-mcp' };
+      const mission = params.action === 'remove'
+        ? await takClient.removeMissionContents(params.missionName, change)
+        : await takClient.addMissionContents(params.missionName, change);
+
+      const verb = params.action === 'remove' ? 'Removed' : 'Added';
+      logger.info(`${verb} ${uids.length} items and ${hashes.length} files in mission ${params.missionName}`);
+
+      return {
+        success: true,
+        data: {
+          missionName: params.missionName,
+          action: params.action,
+          uids,
+          hashes,
+          contentCount: mission?.contents?.length,
+          message: `${verb} ${uids.length + hashes.length} mission contents`
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          source: 'tak-server'
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to update mission contents:', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'TAK_MISSION_ERROR',
+          message: 'Failed to update mission contents',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  }
+};
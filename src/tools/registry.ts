@@ -5,17 +5,53 @@ import { Logger } from 'pino';
 // Import all tools
 import { getCotEventsTool } from './cot/get-events';
 import { sendCotEventTool } from './cot/send-event';
+import { placeMarkersTool } from './cot/place-markers';
+import { updateMarkerTool } from './cot/update-marker';
+import { deleteMarkersTool } from './cot/delete-markers';
 import { subscribeEventsTool } from './cot/subscribe-events';
+import { pollSubscriptionTool } from './cot/poll-subscription';
+import { listSubscriptionsTool } from './cot/list-subscriptions';
+import { cancelSubscriptionTool } from './cot/cancel-subscription';
 import { getEntitiesTool } from './entities/get-entities';
+import { exportPictureTool } from './entities/export-picture';
 import { spatialQueryTool } from './geospatial/spatial-query';
 import { calculateDistanceTool } from './geospatial/calculate-distance';
 import { findNearestTool } from './geospatial/find-nearest';
 import { createGeofenceTool } from './geospatial/create-geofence';
+import { listGeofencesTool } from './geospatial/list-geofences';
+import { updateGeofenceTool } from './geospatial/update-geofence';
+import { deleteGeofenceTool } from './geospatial/delete-geofence';
 import { analyzeMovementTool } from './geospatial/analyze-movement';
-// import { getMissionsTool } from './missions/get-missions';
+import { calculateInterceptTool } from './geospatial/calculate-intercept';
+import { publishPredictionsTool } from './geospatial/publish-predictions';
+import { createRouteTool } from './geospatial/create-route';
+import { getRoutesTool } from './geospatial/get-routes';
+import { createDrawingTool } from './geospatial/create-drawing';
+import { updateDrawingTool } from './geospatial/update-drawing';
+import { deleteDrawingTool } from './geospatial/delete-drawing';
+import { importOverlayTool } from './geospatial/import-overlay';
+import { getMissionsTool } from './missions/get-missions';
+import { createMissionTool } from './missions/create-mission';
+import { archiveMissionTool } from './missions/archive-mission';
+import { updateMissionContentsTool } from './missions/update-mission-contents';
+import { missionSubscriptionTool } from './missions/mission-subscription';
+import { inviteMissionMemberTool } from './missions/invite-mission-member';
+import { getMissionLogTool } from './missions/get-mission-log';
+import { addMissionLogEntryTool } from './missions/add-mission-log-entry';
+import { getMissionChangesTool } from './missions/get-mission-changes';
+import { getMissionEventsTool } from './missions/get-mission-events';
 import { getAlertsTool } from './alerts/get-alerts';
+import { sendChatTool } from './chat/send-chat';
+import { readChatTool } from './chat/read-chat';
 import { sendEmergencyTool } from './alerts/send-emergency';
-// import { manageDataPackagesTool } from './data-packages/manage-data-packages';
+import { manageDataPackagesTool } from './data-packages/manage-data-packages';
+import { inspectDataPackageTool } from './data-packages/inspect-data-package';
+import { startReplayTool } from './history/start-replay';
+import { controlReplayTool } from './history/control-replay';
+import { startCaptureTool } from './history/start-capture';
+import { stopCaptureTool } from './history/stop-capture';
+import { listCapturesTool } from './history/list-captures';
+import { queryCaptureTool } from './history/query-capture';
 
 export interface ToolContext {
   takClient: TAKServerClient;
@@ -25,7 +61,7 @@ export interface ToolContext {
 
 export interface TAKTool extends Tool {
   handler: (context: ToolContext) => Promise<any>;
-  category: 'cot' | 'entities' | 'missions' | 'geospatial' | 'alerts' | 'data-packages';
+  category: 'cot' | 'entities' | 'missions' | 'geospatial' | 'alerts' | 'data-packages' | 'chat' | 'history';
   requiresAuth?: boolean;
   requiresWrite?: boolean;
 }
@@ -37,17 +73,53 @@ class ToolRegistry {
     // Register all tools
     this.registerTool(getCotEventsTool);
     this.registerTool(sendCotEventTool);
+    this.registerTool(placeMarkersTool);
+    this.registerTool(updateMarkerTool);
+    this.registerTool(deleteMarkersTool);
     this.registerTool(subscribeEventsTool);
+    this.registerTool(pollSubscriptionTool);
+    this.registerTool(listSubscriptionsTool);
+    this.registerTool(cancelSubscriptionTool);
     this.registerTool(getEntitiesTool);
+    this.registerTool(exportPictureTool);
     this.registerTool(spatialQueryTool);
     this.registerTool(calculateDistanceTool);
     this.registerTool(findNearestTool);
     this.registerTool(createGeofenceTool);
+    this.registerTool(listGeofencesTool);
+    this.registerTool(updateGeofenceTool);
+    this.registerTool(deleteGeofenceTool);
     this.registerTool(analyzeMovementTool);
-    // this.registerTool(getMissionsTool);
+    this.registerTool(calculateInterceptTool);
+    this.registerTool(publishPredictionsTool);
+    this.registerTool(createRouteTool);
+    this.registerTool(getRoutesTool);
+    this.registerTool(createDrawingTool);
+    this.registerTool(updateDrawingTool);
+    this.registerTool(deleteDrawingTool);
+    this.registerTool(importOverlayTool);
+    this.registerTool(getMissionsTool);
+    this.registerTool(createMissionTool);
+    this.registerTool(archiveMissionTool);
+    this.registerTool(updateMissionContentsTool);
+    this.registerTool(missionSubscriptionTool);
+    this.registerTool(inviteMissionMemberTool);
+    this.registerTool(getMissionLogTool);
+    this.registerTool(addMissionLogEntryTool);
+    this.registerTool(getMissionChangesTool);
+    this.registerTool(getMissionEventsTool);
     this.registerTool(getAlertsTool);
     this.registerTool(sendEmergencyTool);
-    // this.registerTool(manageDataPackagesTool);
+    this.registerTool(sendChatTool);
+    this.registerTool(readChatTool);
+    this.registerTool(manageDataPackagesTool);
+    this.registerTool(inspectDataPackageTool);
+    this.registerTool(startReplayTool);
+    this.registerTool(controlReplayTool);
+    this.registerTool(startCaptureTool);
+    this.registerTool(stopCaptureTool);
+    this.registerTool(listCapturesTool);
+    this.registerTool(queryCaptureTool);
   }
 
   registerTool(tool: TAKTool): void {
@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import pino from 'pino';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info'
+});
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+export interface CorsOptions {
+  // Browser origins allowed to call in (default: localhost on any port)
+  allowedOrigins?: string[];
+  methods: string[];
+  headers: string[];
+  exposeHeaders?: string[];
+}
+
+/**
+ * CORS for the HTTP transports: browsers may only call in from allowed
+ * origins, which guards against DNS rebinding, and only those origins are
+ * echoed back. Requests without an Origin are not from a page.
+ */
+export function corsMiddleware(options: CorsOptions): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.header('origin');
+    if (origin !== undefined) {
+      if (!isAllowedOrigin(origin, options.allowedOrigins)) {
+        logger.warn({ origin, path: req.path }, 'Rejected request from disallowed origin');
+        return res.status(403).json({ error: `Origin not allowed: ${origin}` });
+      }
+      res.header('Access-Control-Allow-Origin', origin);
+    }
+    res.header('Vary', 'Origin');
+    res.header('Access-Control-Allow-Methods', options.methods.join(', '));
+    res.header('Access-Control-Allow-Headers', options.headers.join(', '));
+    if (options.exposeHeaders) {
+      res.header('Access-Control-Expose-Headers', options.exposeHeaders.join(', '));
+    }
+    if (req.method === 'OPTIONS') {
+      return res.sendStatus(200);
+    }
+    next();
+  };
+}
+
+// Exact matches against the configured list, or any localhost origin by default
+function isAllowedOrigin(origin: string, allowed?: string[]): boolean {
+  if (allowed) return allowed.includes(origin);
+  try {
+    return LOCAL_HOSTNAMES.includes(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,111 @@
+import { Request, RequestHandler, Response, Router } from 'express';
+import pino from 'pino';
+import { TAKServerClient } from '../clients/tak-server';
+import {
+  EXPORT_FORMATS,
+  EXPORT_LAYERS,
+  ExportFormat,
+  ExportLayer,
+  PictureQuery,
+  collectPicture,
+  exportPicture
+} from '../services/picture-export';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info'
+});
+
+/**
+ * GET /export/:format (geojson, kml or csv) downloads a snapshot of the
+ * picture. Query parameters mirror tak_export_picture, with lists given
+ * comma separated: ?layers=entities,tracks&types=a-h-*&bbox=minLon,minLat,maxLon,maxLat
+ *
+ * Exports carry the whole picture, so they are never shared cross-origin and
+ * sit behind authenticate when MCP auth is enabled. Without it they are left
+ * to the transport's Origin allow-list, like every other route.
+ */
+export function exportRouter(takClient: TAKServerClient, authenticate?: RequestHandler): Router {
+  const router = Router();
+
+  router.use('/export', (req: Request, res: Response, next) => {
+    res.removeHeader('Access-Control-Allow-Origin');
+    res.removeHeader('Access-Control-Expose-Headers');
+    next();
+  });
+  if (authenticate) {
+    router.use('/export', authenticate);
+  }
+
+  router.get('/export/:format', async (req: Request, res: Response) => {
+    const format = req.params.format as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(404).json({ error: `Unknown export format: ${format} (use ${EXPORT_FORMATS.join(', ')})` });
+    }
+
+    let query: PictureQuery;
+    try {
+      query = parseExportQuery(req.query);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid query' });
+    }
+
+    try {
+      const exported = exportPicture(await collectPicture(takClient, query), format);
+      const fileName = `tak-picture-${new Date().toISOString().replace(/[:.]/g, '-')}.${exported.extension}`;
+
+      res.setHeader('Content-Type', `${exported.mimeType}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(exported.content);
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : error }, 'Export failed');
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Export failed' });
+    }
+  });
+
+  return router;
+}
+
+function parseExportQuery(params: Record<string, unknown>): PictureQuery {
+  const list = (key: string): string[] | undefined => {
+    const value = params[key];
+    if (value === undefined) return undefined;
+    const items = (Array.isArray(value) ? value : [value]).flatMap(item => String(item).split(',')).map(item => item.trim()).filter(Boolean);
+    return items.length > 0 ? items : undefined;
+  };
+
+  const query: PictureQuery = {
+    types: list('types'),
+    teams: list('teams'),
+    roles: list('roles')
+  };
+
+  const layers = list('layers');
+  if (layers) {
+    const unknown = layers.filter(layer => !EXPORT_LAYERS.includes(layer as ExportLayer));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown layers: ${unknown.join(', ')} (use ${EXPORT_LAYERS.join(', ')})`);
+    }
+    query.layers = layers as ExportLayer[];
+  }
+
+  const bbox = list('bbox');
+  if (bbox) {
+    const values = bbox.map(Number);
+    if (values.length !== 4 || values.some(value => !isFinite(value))) {
+      throw new Error('bbox must be minLon,minLat,maxLon,maxLat');
+    }
+    query.bbox = values as [number, number, number, number];
+  }
+
+  if (params.includeStale !== undefined) {
+    query.includeStale = String(params.includeStale) === 'true';
+  }
+
+  if (params.trackMinutes !== undefined) {
+    const minutes = Number(params.trackMinutes);
+    if (!(minutes > 0)) throw new Error('trackMinutes must be a positive number');
+    query.trackStart = new Date(Date.now() - minutes * 60 * 1000);
+  }
+
+  return query;
+}
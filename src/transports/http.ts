@@ -1,23 +1,260 @@
-import express, { Request, Response, NextFunction } from 'express';
+import express, { Request, Response, RequestHandler } from 'express';
+import http from 'http';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
-import { JSONRPCRequest, JSONRPCResponse } from '@modelcontextprotocol/sdk/types.js';
-import jwt from 'jsonwebtoken';
+import { JSONRPCMessage, JSONRPCMessageSchema, RequestId } from '@modelcontextprotocol/sdk/types.js';
+import { v4 as uuidv4 } from 'uuid';
 import { Config } from '../config/index';
+import { TAKServerClient } from '../clients/tak-server';
+import { exportRouter } from './export';
+import { authMiddleware } from './auth';
+import { corsMiddleware } from './cors';
 import pino from 'pino';
 
 const logger = pino({
   level: process.env.LOG_LEVEL || 'info'
 });
 
+const SESSION_HEADER = 'mcp-session-id';
+const STANDALONE_STREAM = 'standalone';
+const MAX_STORED_EVENTS = 1000;
+const SESSION_TIMEOUT = 30 * 60 * 1000;
+
+interface SessionStream {
+  id: string;
+  response?: Response;
+  keepAlive?: NodeJS.Timeout;
+  // Requests whose responses still have to go out on this stream
+  pending: Set<RequestId>;
+}
+
+interface StoredEvent {
+  id: string;
+  streamId: string;
+  message: JSONRPCMessage;
+}
+
+/**
+ * One MCP session of the Streamable HTTP transport. Responses go out on the
+ * stream (or JSON reply) of the POST that carried the request; server-initiated
+ * messages go to the standalone GET stream. Every SSE event is kept in a
+ * bounded store so a client can resume a stream with Last-Event-ID.
+ */
+export class StreamableHttpSession implements Transport {
+  readonly sessionId = uuidv4();
+  lastActivity = new Date();
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private streams = new Map<string, SessionStream>();
+  private requestStreams = new Map<RequestId, string>();
+  private jsonReplies = new Map<RequestId, (message: JSONRPCMessage) => void>();
+  private events: StoredEvent[] = [];
+  private eventSeq = 0;
+  private closed = false;
+
+  constructor(private onSessionClosed: (session: StreamableHttpSession) => void) {}
+
+  // True while any SSE connection is attached
+  get streaming(): boolean {
+    return Array.from(this.streams.values()).some(stream => stream.response);
+  }
+
+  async start(): Promise<void> {
+    // Nothing to do: connections arrive through the HTTP routes
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) throw new Error('Session closed');
+
+    if (!('method' in message)) {
+      const id = message.id;
+
+      const reply = this.jsonReplies.get(id);
+      if (reply) {
+        this.jsonReplies.delete(id);
+        reply(message);
+        return;
+      }
+
+      const streamId = this.requestStreams.get(id);
+      if (streamId === undefined) {
+        logger.warn({ id, session: this.sessionId }, 'Dropping response for unknown request');
+        return;
+      }
+      this.requestStreams.delete(id);
+      this.write(streamId, message);
+
+      const stream = this.streams.get(streamId);
+      stream?.pending.delete(id);
+      if (stream && stream.pending.size === 0) this.finishStream(stream);
+      return;
+    }
+
+    // Notifications and requests from the server
+    this.write(STANDALONE_STREAM, message);
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    for (const stream of this.streams.values()) {
+      this.detach(stream);
+    }
+    this.streams.clear();
+    this.onclose?.();
+    this.onSessionClosed(this);
+  }
+
+  // POST carrying at least one request, answered as a single JSON body
+  async replyJson(messages: JSONRPCMessage[], res: Response): Promise<void> {
+    const replies: Promise<JSONRPCMessage>[] = [];
+    for (const message of messages) {
+      if ('method' in message && 'id' in message) {
+        replies.push(new Promise(resolve => this.jsonReplies.set(message.id, resolve)));
+      }
+    }
+
+    this.dispatch(messages);
+    const responses = await Promise.all(replies);
+    if (!res.writableEnded) {
+      res.json(responses.length === 1 ? responses[0] : responses);
+    }
+  }
+
+  // POST carrying at least one request, answered on a new SSE stream
+  replyStream(messages: JSONRPCMessage[], res: Response): void {
+    const stream: SessionStream = { id: uuidv4(), pending: new Set() };
+    for (const message of messages) {
+      if ('method' in message && 'id' in message) {
+        stream.pending.add(message.id);
+        this.requestStreams.set(message.id, stream.id);
+      }
+    }
+
+    this.streams.set(stream.id, stream);
+    this.attach(stream, res);
+    this.dispatch(messages);
+  }
+
+  // GET: open the standalone stream, or resume any stream after Last-Event-ID
+  openStream(res: Response, lastEventId?: string): void {
+    if (lastEventId) {
+      const streamId = this.events.find(event => event.id === lastEventId)?.streamId
+        ?? lastEventId.slice(0, lastEventId.lastIndexOf(':'));
+      const stream = this.streams.get(streamId);
+      const replay = this.eventsAfter(streamId, lastEventId);
+
+      if (!stream) {
+        // Finished stream: send what the client missed and end
+        this.writeHead(res);
+        for (const event of replay) writeEvent(res, event);
+        res.end();
+        return;
+      }
+
+      if (stream.response) this.detach(stream);
+      this.attach(stream, res);
+      for (const event of replay) writeEvent(res, event);
+      if (stream.id !== STANDALONE_STREAM && stream.pending.size === 0) this.finishStream(stream);
+      return;
+    }
+
+    let standalone = this.streams.get(STANDALONE_STREAM);
+    if (standalone?.response) {
+      res.status(409).json(jsonRpcError(-32000, 'Conflict: a stream is already open for this session'));
+      return;
+    }
+    if (!standalone) {
+      standalone = { id: STANDALONE_STREAM, pending: new Set() };
+      this.streams.set(STANDALONE_STREAM, standalone);
+    }
+    this.attach(standalone, res);
+  }
+
+  // Notifications and responses from the client need no reply body
+  accept(messages: JSONRPCMessage[]): void {
+    this.dispatch(messages);
+  }
+
+  private dispatch(messages: JSONRPCMessage[]): void {
+    this.lastActivity = new Date();
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+  }
+
+  private write(streamId: string, message: JSONRPCMessage): void {
+    const event: StoredEvent = { id: `${streamId}:${++this.eventSeq}`, streamId, message };
+    this.events.push(event);
+    if (this.events.length > MAX_STORED_EVENTS) {
+      this.events.splice(0, this.events.length - MAX_STORED_EVENTS);
+    }
+
+    const response = this.streams.get(streamId)?.response;
+    if (response && !response.writableEnded) {
+      writeEvent(response, event);
+    }
+  }
+
+  private eventsAfter(streamId: string, lastEventId: string): StoredEvent[] {
+    const lastSeq = Number(lastEventId.slice(lastEventId.lastIndexOf(':') + 1));
+    return this.events.filter(event =>
+      event.streamId === streamId && Number(event.id.slice(event.id.lastIndexOf(':') + 1)) > lastSeq
+    );
+  }
+
+  private writeHead(res: Response): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Mcp-Session-Id': this.sessionId
+    });
+    res.flushHeaders();
+  }
+
+  private attach(stream: SessionStream, res: Response): void {
+    this.writeHead(res);
+    stream.response = res;
+    stream.keepAlive = setInterval(() => res.write(':keepalive\n\n'), 30000);
+
+    res.on('close', () => {
+      // The stream survives the connection so it can be resumed
+      if (stream.response === res) this.detach(stream);
+      this.lastActivity = new Date();
+    });
+  }
+
+  private detach(stream: SessionStream): void {
+    if (stream.keepAlive) clearInterval(stream.keepAlive);
+    stream.keepAlive = undefined;
+    const response = stream.response;
+    stream.response = undefined;
+    if (response && !response.writableEnded) response.end();
+  }
+
+  private finishStream(stream: SessionStream): void {
+    this.detach(stream);
+    this.streams.delete(stream.id);
+  }
+}
+
 export class HttpServerTransport {
-  private server: Server;
   private app: express.Application;
   private config: Config;
+  private httpServer?: http.Server;
+  private sessions = new Map<string, StreamableHttpSession>();
+  private cleanupInterval?: NodeJS.Timeout;
+  private authenticate?: RequestHandler;
 
-  constructor(server: Server, config: Config) {
-    this.server = server;
+  // Each session gets its own MCP Server instance from the factory
+  constructor(private createServer: () => Server, config: Config, private takClient?: TAKServerClient) {
     this.config = config;
+    this.authenticate = authMiddleware(config.mcp.auth);
     this.app = express();
     this.setupMiddleware();
     this.setupRoutes();
@@ -27,20 +264,16 @@ export class HttpServerTransport {
     this.app.use(express.json({ limit: '10mb' }));
     this.app.use(express.urlencoded({ extended: true }));
 
-    // CORS
-    this.app.use((req, res, next) => {
-      res.header('Access-Control-Allow-Origin', '*');
-      res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-      if (req.method === 'OPTIONS') {
-        return res.sendStatus(200);
-      }
-      next();
-    });
+    this.app.use(corsMiddleware({
+      allowedOrigins: this.config.mcp.allowedOrigins,
+      methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+      headers: ['Content-Type', 'Authorization', 'Mcp-Session-Id', 'Last-Event-ID'],
+      exposeHeaders: ['Mcp-Session-Id']
+    }));
 
     // Authentication middleware
-    if (this.config.mcp.auth?.enabled) {
-      this.app.use(this.authMiddleware.bind(this));
+    if (this.authenticate) {
+      this.app.use(this.authenticate);
     }
 
     // Request logging
@@ -50,133 +283,175 @@ export class HttpServerTransport {
     });
   }
 
-  private authMiddleware(req: Request, res: Response, next: NextFunction) {
-    const authHeader = req.headers.authorization;
+  private setupRoutes() {
+    // Health check
+    this.app.get('/health', (req, res) => {
+      res.json({ status: 'ok', service: 'tak-server-mcp', version: '0.1.0', sessions: this.sessions.size });
+    });
 
-    if (!authHeader) {
-      return res.status(401).json({ error: 'No authorization header' });
+    // Picture snapshots for GIS tools, behind the same auth and Origin allow-list as /mcp
+    if (this.takClient) {
+      this.app.use(exportRouter(this.takClient, this.authenticate));
     }
 
-    const authConfig = this.config.mcp.auth!;
-
-    switch (authConfig.method) {
-      case 'oauth2':
-        const token = authHeader.replace('Bearer ', '');
-        try {
-          // Verify JWT token (would need proper OAuth2 validation in production)
-          jwt.verify(token, authConfig.oauth!.clientSecret);
-          next();
-        } catch (error) {
-          return res.status(401).json({ error: 'Invalid token' });
+    // Streamable HTTP: client-to-server messages
+    this.app.post('/mcp', async (req, res) => {
+      try {
+        const body = Array.isArray(req.body) ? req.body : [req.body];
+        const messages: JSONRPCMessage[] = [];
+        for (const raw of body) {
+          const parsed = JSONRPCMessageSchema.safeParse(raw);
+          if (!parsed.success) {
+            return res.status(400).json(jsonRpcError(-32700, 'Parse error: invalid JSON-RPC message'));
+          }
+          messages.push(parsed.data);
         }
-        break;
 
-      case 'apikey':
-        if (authHeader !== `Bearer ${process.env.MCP_API_KEY}`) {
-          return res.status(401).json({ error: 'Invalid API key' });
-        }
-        next();
-        break;
-
-      case 'basic':
-        // Basic auth implementation
-        const base64Credentials = authHeader.split(' ')[1];
-        const credentials = Buffer.from(base64Credentials, 'base64').toString('ascii');
-        const [username, password] = credentials.split(':');
-        
-        if (username !== process.env.MCP_USERNAME || password !== process.env.MCP_PASSWORD) {
-          return res.status(401).json({ error: 'Invalid credentials' });
-        }
-        next();
-        break;
+        const initialize = messages.some(message => 'method' in message && message.method === 'initialize');
+        let session: StreamableHttpSession | undefined;
 
-      default:
-        next();
-    }
-  }
+        if (initialize) {
+          if (messages.length > 1) {
+            return res.status(400).json(jsonRpcError(-32600, 'Invalid Request: initialize must not be batched'));
+          }
+          session = await this.createSession();
+        } else {
+          session = this.getSession(req, res);
+          if (!session) return;
+        }
 
-  private setupRoutes() {
-    // Health check
-    this.app.get('/health', (req, res) => {
-      res.json({ status: 'ok', service: 'tak-server-mcp', version: '0.1.0' });
-    });
+        res.setHeader('Mcp-Session-Id', session.sessionId);
+        const hasRequests = messages.some(message => 'method' in message && 'id' in message);
 
-    // MCP endpoint
-    this.app.post('/mcp', async (req, res) => {
-      try {
-        const request = req.body as JSONRPCRequest;
-        logger.debug({ method: request.method }, 'Processing RPC request');
+        if (!hasRequests) {
+          session.accept(messages);
+          return res.status(202).end();
+        }
 
-        // Forward to MCP server
-        const response = await this.handleRequest(request);
-        res.json(response);
+        if (accepts(req, 'text/event-stream')) {
+          session.replyStream(messages, res);
+        } else {
+          await session.replyJson(messages, res);
+        }
       } catch (error) {
         logger.error('Error handling request:', error);
-        res.status(500).json({
-          jsonrpc: '2.0',
-          id: req.body.id,
-          error: {
-            code: -32603,
-            message: error instanceof Error ? error.message : 'Internal error'
-          }
-        });
+        if (!res.headersSent) {
+          res.status(500).json(jsonRpcError(-32603, error instanceof Error ? error.message : 'Internal error'));
+        }
       }
     });
 
-    // Batch requests
-    this.app.post('/mcp/batch', async (req, res) => {
-      if (!Array.isArray(req.body)) {
-        return res.status(400).json({ error: 'Batch requests must be an array' });
+    // Streamable HTTP: server-to-client stream and resumption
+    this.app.get('/mcp', (req, res) => {
+      if (!accepts(req, 'text/event-stream')) {
+        return res.status(406).json(jsonRpcError(-32000, 'Not Acceptable: client must accept text/event-stream'));
       }
 
-      try {
-        const responses = await Promise.all(
-          req.body.map(request => this.handleRequest(request))
-        );
-        res.json(responses);
-      } catch (error) {
-        logger.error('Error handling batch request:', error);
-        res.status(500).json({ error: 'Batch processing failed' });
-      }
+      const session = this.getSession(req, res);
+      if (!session) return;
+
+      session.lastActivity = new Date();
+      session.openStream(res, req.header('last-event-id'));
     });
-  }
 
-  private async handleRequest(request: JSONRPCRequest): Promise<JSONRPCResponse> {
-    // The server expects to handle the request directly
-    // We need to simulate the transport layer communication
-    return new Promise((resolve) => {
-      // Create a mock connection that captures the response
-      const mockConnection = {
-        send: (response: JSONRPCResponse) => {
-          resolve(response);
-        }
-      };
+    // Explicit session termination
+    this.app.delete('/mcp', async (req, res) => {
+      const session = this.getSession(req, res);
+      if (!session) return;
 
-      // Process the request through the server
-      (this.server as any)['handleRequest'](request, mockConnection);
+      await session.close();
+      res.status(200).end();
     });
   }
 
+  private async createSession(): Promise<StreamableHttpSession> {
+    const session = new StreamableHttpSession(closed => {
+      this.sessions.delete(closed.sessionId);
+      logger.info({ session: closed.sessionId }, 'MCP session closed');
+    });
+
+    const server = this.createServer();
+    await server.connect(session);
+    this.sessions.set(session.sessionId, session);
+    logger.info({ session: session.sessionId }, 'MCP session started');
+    return session;
+  }
+
+  // Responds with the spec'd error and returns undefined for a missing or unknown session
+  private getSession(req: Request, res: Response): StreamableHttpSession | undefined {
+    const sessionId = req.header(SESSION_HEADER);
+    if (!sessionId) {
+      res.status(400).json(jsonRpcError(-32000, 'Bad Request: Mcp-Session-Id header is required'));
+      return undefined;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      res.status(404).json(jsonRpcError(-32001, 'Session not found'));
+      return undefined;
+    }
+    return session;
+  }
+
+  private startCleanup() {
+    // Close sessions that have been idle without an open stream
+    this.cleanupInterval = setInterval(() => {
+      const now = Date.now();
+      for (const session of this.sessions.values()) {
+        if (!session.streaming && now - session.lastActivity.getTime() > SESSION_TIMEOUT) {
+          logger.info({ session: session.sessionId }, 'Closing idle MCP session');
+          session.close().catch(() => undefined);
+        }
+      }
+    }, 60000);
+    this.cleanupInterval.unref();
+  }
+
   async start(): Promise<void> {
     const port = this.config.mcp.port || 3000;
-    
+
     return new Promise((resolve, reject) => {
-      this.app.listen(port, () => {
+      this.httpServer = this.app.listen(port, () => {
         logger.info(`HTTP transport listening on port ${port}`);
+        this.startCleanup();
         resolve();
       }).on('error', reject);
     });
   }
 
   async close(): Promise<void> {
-    // Express doesn't provide a direct way to close the server
-    // In production, you'd keep a reference to the server instance
-    logger.info('HTTP transport closing');
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+    }
+
+    await Promise.all(Array.from(this.sessions.values(), session => session.close()));
+
+    if (this.httpServer) {
+      await new Promise<void>(resolve => this.httpServer!.close(() => resolve()));
+      this.httpServer = undefined;
+    }
+    logger.info('HTTP transport closed');
   }
 }
 
-export async function createHttpTransport(server: Server, config: Config): Promise<HttpServerTransport> {
-  const transport = new HttpServerTransport(server, config);
+function writeEvent(res: Response, event: StoredEvent): void {
+  res.write(`event: message\nid: ${event.id}\ndata: ${JSON.stringify(event.message)}\n\n`);
+}
+
+function accepts(req: Request, type: string): boolean {
+  return (req.header('accept') || '').includes(type);
+}
+
+function jsonRpcError(code: number, message: string) {
+  return {
+    jsonrpc: '2.0',
+    id: null,
+    error: { code, message }
+  };
+}
+
+export async function createHttpTransport(createServer: () => Server, config: Config, takClient?: TAKServerClient): Promise<HttpServerTransport> {
+  const transport = new HttpServerTransport(createServer, config, takClient);
   await transport.start();
   return transport;
-}
\ No newline at end of file
+}
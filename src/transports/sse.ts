@@ -1,8 +1,15 @@
-import express, { Request, Response } from 'express';
+import express, { Request, RequestHandler, Response } from 'express';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import { JSONRPCRequest, JSONRPCResponse } from '@modelcontextprotocol/sdk/types.js';
 import { Config } from '../config/index';
+import { TAKServerClient } from '../clients/tak-server';
+import { CotEvent } from '../types/cot';
+import { GeofenceAlert } from '../services/geofence-engine';
+import { SubscriptionFilter, matchesSubscriptionFilter } from '../services/subscription-manager';
+import { exportRouter } from './export';
+import { authMiddleware } from './auth';
+import { corsMiddleware } from './cors';
 import pino from 'pino';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -10,10 +17,20 @@ const logger = pino({
   level: process.env.LOG_LEVEL || 'info'
 });
 
+type SSEEventCategory = 'cot' | 'alert' | 'geofence';
+
+const EVENT_CATEGORIES: SSEEventCategory[] = ['cot', 'alert', 'geofence'];
+
+interface SSESubscription {
+  events: SSEEventCategory[];
+  filter: SubscriptionFilter;
+}
+
 interface SSEClient {
   id: string;
   response: Response;
   lastActivity: Date;
+  subscription?: SSESubscription;
 }
 
 export class SSEServerTransport {
@@ -22,29 +39,79 @@ export class SSEServerTransport {
   private config: Config;
   private clients: Map<string, SSEClient> = new Map();
   private cleanupInterval?: NodeJS.Timeout;
+  private takClient?: TAKServerClient;
+  private httpServer?: ReturnType<express.Application['listen']>;
+  private detachTakClient?: () => void;
+  private authenticate?: RequestHandler;
+  // Resolves to the release function of our TAK feed subscription
+  private feed?: Promise<() => void>;
 
-  constructor(server: Server, config: Config) {
+  constructor(server: Server, config: Config, takClient?: TAKServerClient) {
     this.server = server;
     this.config = config;
+    this.authenticate = authMiddleware(config.mcp.auth);
     this.app = express();
     this.setupMiddleware();
     this.setupRoutes();
     this.startCleanup();
+    if (takClient) this.attachTakClient(takClient);
+  }
+
+  // Geofence breaches are always forwarded; CoT only flows while someone subscribed
+  private attachTakClient(takClient: TAKServerClient) {
+    this.takClient = takClient;
+    // Exports sit behind the same auth and Origin allow-list as /sse
+    this.app.use(exportRouter(takClient, this.authenticate));
+
+    const onGeofenceAlert = (alert: GeofenceAlert) => {
+      this.broadcastToSubscribers('geofence', alert, client =>
+        !!client.subscription?.events.includes('geofence') && matchesGeofenceAlert(alert, client.subscription.filter)
+      );
+    };
+    takClient.geofences.on('alert', onGeofenceAlert);
+    this.detachTakClient = () => takClient.geofences.off('alert', onGeofenceAlert);
+  }
+
+  private dispatchCotEvent(event: CotEvent) {
+    const category: SSEEventCategory = event.type.startsWith('b-a-') ? 'alert' : 'cot';
+    this.broadcastToSubscribers(category, formatCotEvent(event), client =>
+      !!client.subscription?.events.includes(category) && matchesSubscriptionFilter(event, client.subscription.filter)
+    );
+  }
+
+  // Hold a TAK feed subscription while any client has a subscription
+  private updateFeed() {
+    if (!this.takClient) return;
+
+    const subscribed = Array.from(this.clients.values()).some(client => client.subscription);
+    if (subscribed && !this.feed) {
+      const feed = this.takClient.subscribeToCotEvents(undefined, event => this.dispatchCotEvent(event));
+      this.feed = feed;
+      feed.catch((error) => {
+        if (this.feed === feed) this.feed = undefined;
+        logger.error({ error: error instanceof Error ? error.message : error }, 'Failed to open TAK feed for SSE clients');
+      });
+    } else if (!subscribed && this.feed) {
+      const feed = this.feed;
+      this.feed = undefined;
+      feed.then(release => release()).catch(() => undefined);
+    }
   }
 
   private setupMiddleware() {
     this.app.use(express.json({ limit: '10mb' }));
 
-    // CORS
-    this.app.use((req, res, next) => {
-      res.header('Access-Control-Allow-Origin', '*');
-      res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Client-ID');
-      if (req.method === 'OPTIONS') {
-        return res.sendStatus(200);
-      }
-      next();
-    });
+    this.app.use(corsMiddleware({
+      allowedOrigins: this.config.mcp.allowedOrigins,
+      methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+      headers: ['Content-Type', 'Authorization', 'X-Client-ID'],
+      exposeHeaders: ['X-Client-ID']
+    }));
+
+    // The live picture streams on /sse, so it needs the same auth as the other transports
+    if (this.authenticate) {
+      this.app.use('/sse', this.authenticate);
+    }
 
     // Request logging
     this.app.use((req, res, next) => {
@@ -96,6 +163,7 @@ export class SSEServerTransport {
       req.on('close', () => {
         clearInterval(keepAlive);
         this.clients.delete(clientId);
+        this.updateFeed();
         logger.info(`SSE client disconnected: ${clientId}`);
       });
 
@@ -141,13 +209,33 @@ export class SSEServerTransport {
         return res.status(400).json({ error: 'Invalid or missing client ID' });
       }
 
-      const { events } = req.body;
+      let subscription: SSESubscription;
+      try {
+        subscription = parseSubscription(req.body);
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid subscription' });
+      }
+
       const client = this.clients.get(clientId)!;
+      client.subscription = subscription;
+      client.lastActivity = new Date();
+      this.updateFeed();
       
-      // Store subscription preferences (would be used by TAK event handlers)
-      (client as any).subscriptions = events;
-      
-      res.json({ success: true, subscribed: events });
+      res.json({ success: true, subscribed: subscription.events, filter: subscription.filter });
+    });
+
+    // Stop live TAK events for a client
+    this.app.delete('/sse/subscribe', (req, res) => {
+      const clientId = req.headers['x-client-id'] as string;
+      const client = clientId ? this.clients.get(clientId) : undefined;
+
+      if (!client) {
+        return res.status(400).json({ error: 'Invalid or missing client ID' });
+      }
+
+      client.subscription = undefined;
+      this.updateFeed();
+      res.json({ success: true });
     });
   }
 
@@ -164,6 +252,7 @@ export class SSEServerTransport {
     } catch (error) {
       logger.error(`Failed to send SSE event to client ${client.id}:`, error);
       this.clients.delete(client.id);
+      this.updateFeed();
     }
   }
 
@@ -203,6 +292,8 @@ export class SSEServerTransport {
       const timeout = 5 * 60 * 1000; // 5 minutes
 
       for (const [id, client] of this.clients.entries()) {
+        // Subscribed clients only listen, so silence is expected
+        if (client.subscription) continue;
         if (now.getTime() - client.lastActivity.getTime() > timeout) {
           logger.info(`Cleaning up inactive SSE client: ${id}`);
           try {
@@ -213,14 +304,17 @@ export class SSEServerTransport {
           this.clients.delete(id);
         }
       }
+      this.updateFeed();
     }, 60000); // Check every minute
   }
 
   async start(): Promise<void> {
+    // Server.connect() calls start() again after createSSETransport did
+    if (this.httpServer) return;
     const port = this.config.mcp.port || 3001;
     
     return new Promise((resolve, reject) => {
-      this.app.listen(port, () => {
+      this.httpServer = this.app.listen(port, () => {
         logger.info(`SSE transport listening on port ${port}`);
         resolve();
       }).on('error', reject);
@@ -232,6 +326,12 @@ export class SSEServerTransport {
       clearInterval(this.cleanupInterval);
     }
 
+    this.detachTakClient?.();
+    for (const client of this.clients.values()) {
+      client.subscription = undefined;
+    }
+    this.updateFeed();
+
     // Close all client connections
     for (const client of this.clients.values()) {
       try {
@@ -243,12 +343,81 @@ export class SSEServerTransport {
     }
     
     this.clients.clear();
+    this.httpServer?.close();
+    this.httpServer = undefined;
     logger.info('SSE transport closed');
   }
 }
 
-export async function createSSETransport(server: Server, config: Config): Promise<SSEServerTransport> {
-  const transport = new SSEServerTransport(server, config);
+// Body of POST /sse/subscribe: { events?, types?, uids?, callsigns?, area?, bbox? }
+function parseSubscription(body: any): SSESubscription {
+  const events: SSEEventCategory[] = body?.events ?? EVENT_CATEGORIES;
+  if (!Array.isArray(events) || events.some(event => !EVENT_CATEGORIES.includes(event))) {
+    throw new Error(`events must be a list of: ${EVENT_CATEGORIES.join(', ')}`);
+  }
+
+  const filter: SubscriptionFilter = {};
+  for (const key of ['types', 'uids', 'callsigns'] as const) {
+    if (body[key] === undefined) continue;
+    if (!Array.isArray(body[key]) || body[key].some((value: any) => typeof value !== 'string')) {
+      throw new Error(`${key} must be an array of strings`);
+    }
+    filter[key] = body[key];
+  }
+
+  if (body.area !== undefined) {
+    const { center, radius } = body.area;
+    if (!Array.isArray(center) || center.length !== 2 || center.some((value: any) => typeof value !== 'number') ||
+        typeof radius !== 'number' || radius < 0) {
+      throw new Error('area must be { center: [lat, lon], radius: meters }');
+    }
+    filter.area = { center: [center[0], center[1]], radius };
+  }
+
+  if (body.bbox !== undefined) {
+    if (!Array.isArray(body.bbox) || body.bbox.length !== 4 || body.bbox.some((value: any) => typeof value !== 'number')) {
+      throw new Error('bbox must be [minLon, minLat, maxLon, maxLat]');
+    }
+    filter.bbox = body.bbox;
+  }
+
+  return { events, filter };
+}
+
+// Geofence breaches are matched on the entity that triggered them
+function matchesGeofenceAlert(alert: GeofenceAlert, filter: SubscriptionFilter): boolean {
+  const now = new Date();
+  return matchesSubscriptionFilter({
+    uid: alert.uid,
+    type: alert.type,
+    time: alert.time,
+    start: alert.time,
+    stale: now,
+    how: 'm-g',
+    point: { lat: alert.point[0], lon: alert.point[1], hae: 0, ce: 0, le: 0 },
+    detail: { contact: { callsign: alert.callsign } }
+  }, filter);
+}
+
+function formatCotEvent(event: CotEvent) {
+  return {
+    uid: event.uid,
+    type: event.type,
+    callsign: event.detail?.contact?.callsign,
+    time: event.time,
+    stale: event.stale,
+    location: {
+      lat: event.point.lat,
+      lon: event.point.lon,
+      alt: event.point.hae
+    },
+    how: event.how,
+    detail: event.detail
+  };
+}
+
+export async function createSSETransport(server: Server, config: Config, takClient?: TAKServerClient): Promise<SSEServerTransport> {
+  const transport = new SSEServerTransport(server, config, takClient);
   await transport.start();
   return transport;
 }
\ No newline at end of file
@@ -26,8 +26,8 @@ export interface CotDetail {
   contact?: CotContact;
   status?: CotStatus;
   track?: CotTrack;
-  precision_location?: CotPrecisionLocation;
-  group?: CotGroup;
+  precisionlocation?: CotPrecisionLocation;
+  __group?: CotGroup;
   takv?: CotTakv;
   // Additional detail fields can be added as needed
   [key: string]: any;
@@ -121,6 +121,8 @@ export const COT_TYPES = {
   // Special
   EMERGENCY: 'b-a-o-tbl',
   GEOCHAT: 'b-t-f',
+  GEOCHAT_DELIVERED: 'b-t-f-d',
+  GEOCHAT_READ: 'b-t-f-r',
   SENSOR_POINT: 'b-m-p-s-p-i',
   ROUTE: 'b-m-r'
 } as const;
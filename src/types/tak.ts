@@ -54,6 +54,50 @@ export interface MissionContent {
   data?: any;
 }
 
+export type MissionRole = MissionMember['role'];
+
+export interface MissionSubscription {
+  clientUid: string;
+  username?: string;
+  createTime?: Date;
+  role?: MissionRole;
+}
+
+export interface MissionInvitation {
+  // What invitee identifies: a device UID, callsign, user name or group
+  type: 'clientUid' | 'callsign' | 'userName' | 'group';
+  invitee: string;
+  role: MissionRole;
+  creatorUid?: string;
+}
+
+export interface MissionLogEntry {
+  id?: string;
+  content: string;
+  creatorUid: string;
+  missionNames: string[];
+  // Date-time group the entry refers to; servertime is when it was recorded
+  dtg?: Date;
+  servertime?: Date;
+  keywords?: string[];
+}
+
+export type MissionChangeType = 'create' | 'delete' | 'add' | 'remove' | 'keywords' | 'log' | 'other';
+
+export interface MissionChange {
+  type: MissionChangeType;
+  missionName: string;
+  timestamp: Date;
+  creatorUid?: string;
+  // Item added or removed: a CoT UID, or a file hash and name
+  uid?: string;
+  hash?: string;
+  name?: string;
+  // Text of a log entry, or the server's change type for 'other'
+  content?: string;
+  details?: any;
+}
+
 export interface DataPackage {
   id: string;
   name: string;